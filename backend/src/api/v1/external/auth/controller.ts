@@ -0,0 +1,209 @@
+/**
+ * @summary
+ * Authentication controller handling account registration and sessions.
+ * Implements registration, login, token refresh and logout for user accounts.
+ *
+ * @module api/v1/external/auth/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { successResponse } from '@/utils/response';
+import { extractBearerToken } from '@/middleware/auth';
+import { userRegister, userLogin, userLogout, userRefresh } from '@/services/user';
+import { ConflictError, UnauthorizedError } from '@/utils/errors';
+import { describeRoutes, successSchema } from '@/utils/openapi';
+import { authResultSchema } from '@/api/v1/schemas';
+
+/**
+ * @validation Register request body
+ */
+const registerBodySchema = z.object({
+  nome: z.string().trim().min(1, 'nomeObrigatorio').max(100, 'nomeMuitoLongo'),
+  email: z.string().email('emailInvalido').max(100, 'emailMuitoLongo'),
+  senha: z.string().min(8, 'senhaMuitoCurta').max(100, 'senhaMuitoLonga'),
+});
+
+/**
+ * @validation Login request body
+ */
+const loginBodySchema = z.object({
+  email: z.string().min(1, 'emailObrigatorio'),
+  senha: z.string().min(1, 'senhaObrigatoria'),
+});
+
+/**
+ * @api {post} /api/v1/external/auth/register Register
+ * @apiName Register
+ * @apiGroup Auth
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Creates a user account and returns an access token for it
+ *
+ * @apiParam {String} nome Display name (max 100 characters)
+ * @apiParam {String} email E-mail address (max 100 characters)
+ * @apiParam {String} senha Password (8 to 100 characters)
+ *
+ * @apiSuccess {String} token Access token
+ * @apiSuccess {String} expiresAt Token expiry timestamp
+ * @apiSuccess {Object} user Registered user
+ *
+ * @apiError {String} ValidationError Invalid parameters provided
+ * @apiError {String} ConflictError E-mail already registered
+ * @apiError {String} ServerError Internal server error
+ */
+export async function registerHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = registerBodySchema.parse(req.body);
+
+    const result = await userRegister(data);
+
+    if (!result) {
+      return next(new ConflictError('emailJaCadastrado'));
+    }
+
+    res.status(201).json(successResponse(result));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/v1/external/auth/login Login
+ * @apiName Login
+ * @apiGroup Auth
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Validates credentials and returns an access token
+ *
+ * @apiParam {String} email E-mail address
+ * @apiParam {String} senha Password
+ *
+ * @apiSuccess {String} token Access token
+ * @apiSuccess {String} expiresAt Token expiry timestamp
+ * @apiSuccess {Object} user Authenticated user
+ *
+ * @apiError {String} ValidationError Invalid parameters provided
+ * @apiError {String} UnauthorizedError Invalid credentials
+ * @apiError {String} ServerError Internal server error
+ */
+export async function loginHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = loginBodySchema.parse(req.body);
+
+    const result = await userLogin(data);
+
+    if (!result) {
+      return next(new UnauthorizedError('credenciaisInvalidas'));
+    }
+
+    res.json(successResponse(result));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/v1/external/auth/refresh Refresh Token
+ * @apiName RefreshToken
+ * @apiGroup Auth
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Exchanges a still-valid Bearer access token for a new one
+ *
+ * @apiHeader {String} Authorization Bearer access token
+ *
+ * @apiSuccess {String} token New access token
+ * @apiSuccess {String} expiresAt Token expiry timestamp
+ * @apiSuccess {Object} user Authenticated user
+ *
+ * @apiError {String} UnauthorizedError Missing, expired or revoked token
+ * @apiError {String} ServerError Internal server error
+ */
+export async function refreshHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const token = extractBearerToken(req);
+    const result = token ? await userRefresh(token) : null;
+
+    if (!result) {
+      return next(new UnauthorizedError('tokenInvalido'));
+    }
+
+    res.json(successResponse(result));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/v1/external/auth/logout Logout
+ * @apiName Logout
+ * @apiGroup Auth
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Ends the session behind the Bearer access token
+ *
+ * @apiHeader {String} Authorization Bearer access token
+ *
+ * @apiSuccess {Boolean} loggedOut Logout confirmation
+ *
+ * @apiError {String} UnauthorizedError Missing or invalid token
+ * @apiError {String} ServerError Internal server error
+ */
+export async function logoutHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const token = extractBearerToken(req);
+
+    if (!token || !(await userLogout(token))) {
+      return next(new UnauthorizedError('tokenInvalido'));
+    }
+
+    res.json(successResponse({ loggedOut: true }));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @rule {be-api-documentation}
+ * Request and response schemas of the authentication routes
+ */
+export const routeSchemas = describeRoutes('Auth', [
+  {
+    handler: registerHandler,
+    summary: 'Register',
+    body: registerBodySchema,
+    status: 201,
+    response: successSchema(authResultSchema),
+  },
+  {
+    handler: loginHandler,
+    summary: 'Login',
+    body: loginBodySchema,
+    response: successSchema(authResultSchema),
+  },
+  {
+    handler: refreshHandler,
+    summary: 'Refresh token',
+    description: 'Exchanges a still-valid Bearer access token for a new one',
+    response: successSchema(authResultSchema),
+  },
+  {
+    handler: logoutHandler,
+    summary: 'Logout',
+    description: 'Ends the session behind the Bearer access token',
+    response: successSchema(z.object({ loggedOut: z.literal(true) })),
+  },
+]);
@@ -0,0 +1,102 @@
+/**
+ * @summary
+ * Notification controller handling the in-app reminders delivered to the user.
+ * Implements listing and marking as read under `/notification`.
+ *
+ * @module api/v1/internal/notification/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { successResponse } from '@/utils/response';
+import { getRequestUser } from '@/middleware/auth';
+import { notificationList, notificationMarkRead } from '@/services/reminder';
+import { NotFoundError } from '@/utils/errors';
+import { describeRoutes, successSchema } from '@/utils/openapi';
+import { notificationSchema } from '@/api/v1/schemas';
+
+const paramsSchema = z.object({
+  id: z.string().uuid('idNotificacaoInvalido'),
+});
+
+/**
+ * @api {get} /api/v1/internal/notification List Notifications
+ * @apiName ListNotifications
+ * @apiGroup Notification
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Retrieves the latest 50 in-app reminders delivered to the user, newest first
+ *
+ * @apiSuccess {Array} notifications Delivered reminders with their task, title, text and read flag
+ * @apiSuccess {Number} metadata.naoLidas Number of unread notifications in the list
+ *
+ * @apiError {String} UnauthorizedError User not authenticated
+ * @apiError {String} ServerError Internal server error
+ */
+export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const user = getRequestUser(req);
+
+    const notifications = await notificationList(user.id);
+
+    res.json(
+      successResponse(notifications, {
+        naoLidas: notifications.filter((notification) => !notification.lida).length,
+      })
+    );
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {patch} /api/v1/internal/notification/:id/read Mark Notification Read
+ * @apiName MarkNotificationRead
+ * @apiGroup Notification
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Marks an in-app reminder as read
+ *
+ * @apiParam {String} id Notification identifier
+ *
+ * @apiSuccess {Object} notification Updated notification
+ *
+ * @apiError {String} ValidationError Invalid identifier
+ * @apiError {String} NotFoundError Notification not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function readHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const user = getRequestUser(req);
+
+    const notification = await notificationMarkRead(user.id, id);
+
+    if (!notification) {
+      return next(new NotFoundError('notificacaoNaoEncontrada'));
+    }
+
+    res.json(successResponse(notification));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @rule {be-api-documentation}
+ * Request and response schemas of the notification routes
+ */
+export const routeSchemas = describeRoutes('Notification', [
+  {
+    handler: listHandler,
+    summary: 'List notifications',
+    description: 'Latest 50 in-app reminders delivered to the user, newest first',
+    response: successSchema(z.array(notificationSchema), { naoLidas: z.number().int() }),
+  },
+  {
+    handler: readHandler,
+    summary: 'Mark notification read',
+    params: paramsSchema,
+    response: successSchema(notificationSchema),
+  },
+]);
@@ -0,0 +1,269 @@
+/**
+ * @summary
+ * Project controller handling project management operations.
+ * Implements listing with task counts, retrieval, creation, update (including archiving),
+ * and deletion of projects.
+ *
+ * @module api/v1/internal/project/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { successResponse } from '@/utils/response';
+import { getRequestUser } from '@/middleware/auth';
+import {
+  projectList,
+  projectGet,
+  projectCreate,
+  projectUpdate,
+  projectDelete,
+} from '@/services/project';
+import { ConflictError, NotFoundError } from '@/utils/errors';
+import { describeRoutes, successSchema } from '@/utils/openapi';
+import { deletedSchema, projectListSchema, projectSchema } from '@/api/v1/schemas';
+
+/**
+ * @validation Shared project schemas
+ */
+const paramsSchema = z.object({
+  id: z.string().uuid('idProjetoInvalido'),
+});
+
+const bodySchema = z.object({
+  nome: z.string().trim().min(1, 'nomeObrigatorio').max(50, 'nomeMuitoLongo'),
+  cor: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'corInvalida'),
+  icone: z
+    .string()
+    .regex(/^[a-z0-9-]{1,40}$/, 'iconeInvalido')
+    .optional()
+    .default('folder'),
+  arquivado: z.boolean({ error: 'arquivadoInvalido' }).optional().default(false),
+});
+
+const listQuerySchema = z.object({
+  incluirArquivados: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((value) => value === 'true'),
+});
+
+/**
+ * @api {get} /api/v1/internal/project List Projects
+ * @apiName ListProjects
+ * @apiGroup Project
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Retrieves the authenticated user's projects ordered by name, with task counts
+ *
+ * @apiParam {String} [incluirArquivados] 'true' to include archived projects
+ *
+ * @apiSuccess {Array} projetos Projects, each with tarefas.total and tarefas.pendentes
+ * @apiSuccess {Object} semProjeto Task counts of tasks without a project
+ *
+ * @apiError {String} ServerError Internal server error
+ */
+export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { incluirArquivados } = listQuerySchema.parse(req.query);
+    const user = getRequestUser(req);
+
+    const projects = await projectList(user.id, incluirArquivados);
+
+    res.json(successResponse(projects));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/v1/internal/project/:id Get Project
+ * @apiName GetProject
+ * @apiGroup Project
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Retrieves a specific project
+ *
+ * @apiParam {String} id Project identifier
+ *
+ * @apiSuccess {Object} project Project details
+ *
+ * @apiError {String} NotFoundError Project not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function getHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const user = getRequestUser(req);
+
+    const project = await projectGet(user.id, id);
+
+    if (!project) {
+      return next(new NotFoundError('projetoNaoEncontrado'));
+    }
+
+    res.json(successResponse(project));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/v1/internal/project Create Project
+ * @apiName CreateProject
+ * @apiGroup Project
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Creates a new project
+ *
+ * @apiParam {String} nome Project name (max 50 characters, unique per user regardless of case)
+ * @apiParam {String} cor Display color in #RRGGBB format
+ * @apiParam {String} [icone] Display icon name (lowercase letters, digits and dashes); defaults to 'folder'
+ * @apiParam {Boolean} [arquivado] Whether the project starts archived; defaults to false
+ *
+ * @apiSuccess {Object} project Created project
+ *
+ * @apiError {String} ValidationError Invalid parameters provided
+ * @apiError {String} ConflictError A project with this name already exists
+ * @apiError {String} ServerError Internal server error
+ */
+export async function createHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = bodySchema.parse(req.body);
+    const user = getRequestUser(req);
+
+    const project = await projectCreate(user.id, data);
+
+    if (!project) {
+      return next(new ConflictError('projetoJaExiste'));
+    }
+
+    res.status(201).json(successResponse(project));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {put} /api/v1/internal/project/:id Update Project
+ * @apiName UpdateProject
+ * @apiGroup Project
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Renames, restyles, archives or unarchives a project
+ *
+ * @apiParam {String} id Project identifier
+ * @apiParam {String} nome Project name (max 50 characters, unique per user regardless of case)
+ * @apiParam {String} cor Display color in #RRGGBB format
+ * @apiParam {String} [icone] Display icon name; defaults to 'folder'
+ * @apiParam {Boolean} [arquivado] Whether the project is archived; defaults to false
+ *
+ * @apiSuccess {Object} project Updated project
+ *
+ * @apiError {String} ValidationError Invalid parameters provided
+ * @apiError {String} ConflictError Another project already has this name
+ * @apiError {String} NotFoundError Project not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function updateHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const data = bodySchema.parse(req.body);
+    const user = getRequestUser(req);
+
+    const project = await projectUpdate(user.id, id, data);
+
+    if (!project) {
+      return next(new NotFoundError('projetoNaoEncontrado'));
+    }
+
+    res.json(successResponse(project));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {delete} /api/v1/internal/project/:id Delete Project
+ * @apiName DeleteProject
+ * @apiGroup Project
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Deletes a project; its tasks are kept without a project
+ *
+ * @apiParam {String} id Project identifier
+ *
+ * @apiSuccess {Boolean} deleted Deletion confirmation
+ *
+ * @apiError {String} NotFoundError Project not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function deleteHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const user = getRequestUser(req);
+
+    const deleted = await projectDelete(user.id, id);
+
+    if (!deleted) {
+      return next(new NotFoundError('projetoNaoEncontrado'));
+    }
+
+    res.json(successResponse({ deleted: true }));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @rule {be-api-documentation}
+ * Request and response schemas of the project routes
+ */
+export const routeSchemas = describeRoutes('Project', [
+  {
+    handler: listHandler,
+    summary: 'List projects',
+    description: 'Projects ordered by name, with their task counts',
+    query: listQuerySchema,
+    response: successSchema(projectListSchema),
+  },
+  {
+    handler: createHandler,
+    summary: 'Create project',
+    body: bodySchema,
+    status: 201,
+    response: successSchema(projectSchema),
+  },
+  {
+    handler: getHandler,
+    summary: 'Get project',
+    params: paramsSchema,
+    response: successSchema(projectSchema),
+  },
+  {
+    handler: updateHandler,
+    summary: 'Update project',
+    description: 'Renames, restyles, archives or unarchives a project',
+    params: paramsSchema,
+    body: bodySchema,
+    response: successSchema(projectSchema),
+  },
+  {
+    handler: deleteHandler,
+    summary: 'Delete project',
+    description: 'The tasks of the project are kept without a project',
+    params: paramsSchema,
+    response: successSchema(deletedSchema),
+  },
+]);
@@ -0,0 +1,246 @@
+/**
+ * @summary
+ * Tag controller handling tag management operations.
+ * Implements listing, creation, rename/recolor, deletion, and merging of tags.
+ *
+ * @module api/v1/internal/tag/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { successResponse } from '@/utils/response';
+import { getRequestUser } from '@/middleware/auth';
+import { tagList, tagCreate, tagUpdate, tagDelete, tagMerge } from '@/services/tag';
+import { NotFoundError } from '@/utils/errors';
+import { describeRoutes, successSchema } from '@/utils/openapi';
+import { deletedSchema, tagSchema } from '@/api/v1/schemas';
+
+/**
+ * @validation Shared tag schemas
+ */
+const paramsSchema = z.object({
+  id: z.string().uuid('idTagInvalido'),
+});
+
+const bodySchema = z.object({
+  nome: z.string().trim().min(1, 'nomeObrigatorio').max(50, 'nomeMuitoLongo'),
+  cor: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'corInvalida'),
+});
+
+const mergeSchema = z.object({
+  idTagDestino: z.string().uuid('idTagInvalido'),
+});
+
+/**
+ * @api {get} /api/v1/internal/tag List Tags
+ * @apiName ListTags
+ * @apiGroup Tag
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Retrieves the authenticated user's tags ordered by name
+ *
+ * @apiSuccess {Array} tags List of tags
+ *
+ * @apiError {String} ServerError Internal server error
+ */
+export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const user = getRequestUser(req);
+
+    const tags = await tagList(user.id);
+
+    res.json(successResponse(tags));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/v1/internal/tag Create Tag
+ * @apiName CreateTag
+ * @apiGroup Tag
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Creates a new tag
+ *
+ * @apiParam {String} nome Tag name (max 50 characters, unique per user regardless of case)
+ * @apiParam {String} cor Display color in #RRGGBB format
+ *
+ * @apiSuccess {Object} tag Created tag
+ *
+ * @apiError {String} ValidationError Invalid parameters provided
+ * @apiError {String} ConflictError A tag with this name already exists
+ * @apiError {String} ServerError Internal server error
+ */
+export async function createHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = bodySchema.parse(req.body);
+    const user = getRequestUser(req);
+
+    const tag = await tagCreate(user.id, data);
+
+    res.status(201).json(successResponse(tag));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {put} /api/v1/internal/tag/:id Update Tag
+ * @apiName UpdateTag
+ * @apiGroup Tag
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Renames or recolors a tag; renames are recorded in the history of tagged tasks
+ *
+ * @apiParam {String} id Tag identifier
+ * @apiParam {String} nome Tag name (max 50 characters)
+ * @apiParam {String} cor Display color in #RRGGBB format
+ *
+ * @apiSuccess {Object} tag Updated tag
+ *
+ * @apiError {String} ValidationError Invalid parameters provided
+ * @apiError {String} NotFoundError Tag not found
+ * @apiError {String} ConflictError Another tag already has this name
+ * @apiError {String} ServerError Internal server error
+ */
+export async function updateHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const data = bodySchema.parse(req.body);
+    const user = getRequestUser(req);
+
+    const tag = await tagUpdate(user.id, id, data);
+
+    if (!tag) {
+      return next(new NotFoundError('tagNaoEncontrada'));
+    }
+
+    res.json(successResponse(tag));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {delete} /api/v1/internal/tag/:id Delete Tag
+ * @apiName DeleteTag
+ * @apiGroup Tag
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Deletes a tag and removes it from every task
+ *
+ * @apiParam {String} id Tag identifier
+ *
+ * @apiSuccess {Boolean} deleted Deletion confirmation
+ *
+ * @apiError {String} NotFoundError Tag not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function deleteHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const user = getRequestUser(req);
+
+    const deleted = await tagDelete(user.id, id);
+
+    if (!deleted) {
+      return next(new NotFoundError('tagNaoEncontrada'));
+    }
+
+    res.json(successResponse({ deleted: true }));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/v1/internal/tag/:id/merge Merge Tags
+ * @apiName MergeTags
+ * @apiGroup Tag
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Moves every assignment of a tag to another tag and deletes the source tag
+ *
+ * @apiParam {String} id Source tag identifier
+ * @apiParam {String} idTagDestino Target tag identifier
+ *
+ * @apiSuccess {Object} tag Target tag
+ *
+ * @apiError {String} ValidationError Invalid parameters or a tag merged into itself
+ * @apiError {String} NotFoundError Source or target tag not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function mergeHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const { idTagDestino } = mergeSchema.parse(req.body);
+    const user = getRequestUser(req);
+
+    const tag = await tagMerge(user.id, id, idTagDestino);
+
+    if (!tag) {
+      return next(new NotFoundError('tagNaoEncontrada'));
+    }
+
+    res.json(successResponse(tag));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @rule {be-api-documentation}
+ * Request and response schemas of the tag routes
+ */
+export const routeSchemas = describeRoutes('Tag', [
+  {
+    handler: listHandler,
+    summary: 'List tags',
+    response: successSchema(z.array(tagSchema)),
+  },
+  {
+    handler: createHandler,
+    summary: 'Create tag',
+    body: bodySchema,
+    status: 201,
+    response: successSchema(tagSchema),
+  },
+  {
+    handler: updateHandler,
+    summary: 'Update tag',
+    params: paramsSchema,
+    body: bodySchema,
+    response: successSchema(tagSchema),
+  },
+  {
+    handler: deleteHandler,
+    summary: 'Delete tag',
+    params: paramsSchema,
+    response: successSchema(deletedSchema),
+  },
+  {
+    handler: mergeHandler,
+    summary: 'Merge tags',
+    description: 'Moves every assignment of a tag to another tag and deletes the source tag',
+    params: paramsSchema,
+    body: mergeSchema,
+    response: successSchema(tagSchema),
+  },
+]);
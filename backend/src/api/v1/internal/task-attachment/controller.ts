@@ -0,0 +1,309 @@
+/**
+ * @summary
+ * Task attachment controller handling files attached to tasks.
+ * Implements listing, upload, download, and removal under `/task/:id/attachments`.
+ *
+ * @module api/v1/internal/task-attachment/controller
+ */
+
+import path from 'path';
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import { config } from '@/config';
+import { successResponse } from '@/utils/response';
+import { getRequestUser } from '@/middleware/auth';
+import {
+  attachmentList,
+  attachmentCreate,
+  attachmentDownload,
+  attachmentDelete,
+} from '@/services/attachment';
+import { DomainError, NotFoundError, ValidationError } from '@/utils/errors';
+import { describeRoutes, successSchema } from '@/utils/openapi';
+import { attachmentSchema, deletedSchema } from '@/api/v1/schemas';
+
+/**
+ * @validation Shared attachment schemas
+ */
+const paramsSchema = z.object({
+  id: z.string().uuid('idTarefaInvalido'),
+});
+
+const attachmentParamsSchema = z.object({
+  id: z.string().uuid('idTarefaInvalido'),
+  idAnexo: z.string().uuid('idAnexoInvalido'),
+});
+
+/**
+ * @validation Multipart body of an upload; multer reads the file, this only documents it
+ */
+const uploadBodySchema = z.object({
+  arquivo: z.file(),
+});
+
+/**
+ * @rule {be-task-attachments}
+ * One file per request, kept in memory up to the configured size and restricted to the
+ * configured MIME types
+ */
+const upload = multer({
+  storage: multer.memoryStorage(),
+  defParamCharset: 'utf8',
+  limits: { fileSize: config.attachments.maxFileSize, files: 1 },
+  fileFilter: (_req, file, callback) => {
+    if (!config.attachments.allowedTypes.includes(file.mimetype.toLowerCase())) {
+      return callback(new DomainError('tipoArquivoNaoPermitido', 415));
+    }
+    callback(null, true);
+  },
+}).single('arquivo');
+
+/**
+ * @summary
+ * Formats the configured attachment size limit, e.g. "10 MB" or "500 KB"
+ *
+ * @function describeMaxFileSize
+ * @module api/v1/internal/task-attachment/controller
+ *
+ * @returns {string} Size limit in megabytes, or kilobytes below one megabyte
+ */
+function describeMaxFileSize(): string {
+  const { maxFileSize } = config.attachments;
+
+  return maxFileSize >= 1048576
+    ? `${Math.floor(maxFileSize / 1048576)} MB`
+    : `${Math.max(1, Math.floor(maxFileSize / 1024))} KB`;
+}
+
+/**
+ * @summary
+ * Parses the multipart body of an upload request
+ *
+ * @function parseUpload
+ * @module api/v1/internal/task-attachment/controller
+ *
+ * @param {Request} req - Express request
+ * @param {Response} res - Express response
+ *
+ * @returns {Promise<Express.Multer.File>} Uploaded file
+ *
+ * @throws {DomainError} When the file is missing, too large, of a type not allowed or sent in
+ * more than one part
+ */
+function parseUpload(req: Request, res: Response): Promise<Express.Multer.File> {
+  return new Promise((resolve, reject) => {
+    upload(req, res, (error: any) => {
+      if (error instanceof multer.MulterError) {
+        return reject(
+          error.code === 'LIMIT_FILE_SIZE'
+            ? new DomainError('arquivoMuitoGrande', 413, { max: describeMaxFileSize() })
+            : new ValidationError('arquivoInvalido')
+        );
+      }
+      if (error) {
+        return reject(error);
+      }
+      if (!req.file) {
+        return reject(new ValidationError('arquivoObrigatorio'));
+      }
+      resolve(req.file);
+    });
+  });
+}
+
+/**
+ * @api {get} /api/v1/internal/task/:id/attachments List Attachments
+ * @apiName ListAttachments
+ * @apiGroup TaskAttachment
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Retrieves the attachments of a task, oldest first
+ *
+ * @apiParam {String} id Task identifier
+ *
+ * @apiSuccess {Array} anexos Attachments with name, type and size
+ *
+ * @apiError {String} NotFoundError Task not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const user = getRequestUser(req);
+
+    const anexos = await attachmentList(user.id, id);
+
+    if (!anexos) {
+      return next(new NotFoundError('tarefaNaoEncontrada'));
+    }
+
+    res.json(successResponse(anexos.map(({ hash, ...anexo }) => anexo)));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/v1/internal/task/:id/attachments Upload Attachment
+ * @apiName UploadAttachment
+ * @apiGroup TaskAttachment
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Attaches a file to a task, sent as multipart/form-data
+ *
+ * @apiParam {String} id Task identifier
+ * @apiParam {File} arquivo File to attach
+ *
+ * @apiSuccess {Object} anexo Created attachment
+ *
+ * @apiError {String} ValidationError Missing file or task with too many attachments
+ * @apiError {String} PayloadTooLargeError File larger than allowed
+ * @apiError {String} UnsupportedMediaTypeError File type not allowed
+ * @apiError {String} ConflictError File already attached to the task
+ * @apiError {String} NotFoundError Task not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function createHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const user = getRequestUser(req);
+    const file = await parseUpload(req, res);
+
+    const anexo = await attachmentCreate(user.id, id, {
+      nome: path.basename(file.originalname).slice(0, 255),
+      tipo: file.mimetype.toLowerCase(),
+      conteudo: file.buffer,
+    });
+
+    if (!anexo) {
+      return next(new NotFoundError('tarefaNaoEncontrada'));
+    }
+
+    const { hash, ...data } = anexo;
+    res.status(201).json(successResponse(data));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/v1/internal/task/:id/attachments/:idAnexo Download Attachment
+ * @apiName DownloadAttachment
+ * @apiGroup TaskAttachment
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Downloads the contents of an attachment with its original name and type
+ *
+ * @apiParam {String} id Task identifier
+ * @apiParam {String} idAnexo Attachment identifier
+ *
+ * @apiSuccess {File} arquivo Attachment contents
+ *
+ * @apiError {String} NotFoundError Attachment not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function downloadHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id, idAnexo } = attachmentParamsSchema.parse(req.params);
+    const user = getRequestUser(req);
+
+    const download = await attachmentDownload(user.id, id, idAnexo);
+
+    if (!download) {
+      return next(new NotFoundError('anexoNaoEncontrado'));
+    }
+
+    res.attachment(download.anexo.nome);
+    res.type(download.anexo.tipo);
+    res.setHeader('Content-Length', download.anexo.tamanho);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+
+    download.conteudo.on('error', next);
+    download.conteudo.pipe(res);
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {delete} /api/v1/internal/task/:id/attachments/:idAnexo Delete Attachment
+ * @apiName DeleteAttachment
+ * @apiGroup TaskAttachment
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Removes an attachment from a task
+ *
+ * @apiParam {String} id Task identifier
+ * @apiParam {String} idAnexo Attachment identifier
+ *
+ * @apiSuccess {Boolean} deleted Removal confirmation
+ *
+ * @apiError {String} NotFoundError Attachment not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function deleteHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id, idAnexo } = attachmentParamsSchema.parse(req.params);
+    const user = getRequestUser(req);
+
+    const deleted = await attachmentDelete(user.id, id, idAnexo);
+
+    if (!deleted) {
+      return next(new NotFoundError('anexoNaoEncontrado'));
+    }
+
+    res.json(successResponse({ deleted: true }));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @rule {be-api-documentation}
+ * Request and response schemas of the attachment routes
+ */
+export const routeSchemas = describeRoutes('TaskAttachment', [
+  {
+    handler: listHandler,
+    summary: 'List attachments',
+    description: 'Attachments of a task, oldest first',
+    params: paramsSchema,
+    response: successSchema(z.array(attachmentSchema)),
+  },
+  {
+    handler: createHandler,
+    summary: 'Upload attachment',
+    params: paramsSchema,
+    body: uploadBodySchema,
+    bodyType: 'multipart/form-data',
+    status: 201,
+    response: successSchema(attachmentSchema),
+  },
+  {
+    handler: downloadHandler,
+    summary: 'Download attachment',
+    description: 'Contents of the attachment, sent with its original name and type',
+    params: attachmentParamsSchema,
+    response: z.file(),
+    responseType: 'application/octet-stream',
+  },
+  {
+    handler: deleteHandler,
+    summary: 'Delete attachment',
+    params: attachmentParamsSchema,
+    response: successSchema(deletedSchema),
+  },
+]);
@@ -0,0 +1,225 @@
+/**
+ * @summary
+ * Task comment controller handling the discussion thread of tasks.
+ * Implements listing, creation, edit, and deletion under `/task/:id/comments`.
+ *
+ * @module api/v1/internal/task-comment/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { successResponse } from '@/utils/response';
+import { getRequestUser } from '@/middleware/auth';
+import { commentList, commentCreate, commentUpdate, commentDelete } from '@/services/comment';
+import { NotFoundError } from '@/utils/errors';
+import { describeRoutes, successSchema } from '@/utils/openapi';
+import { commentSchema, deletedSchema } from '@/api/v1/schemas';
+
+/**
+ * @validation Shared comment schemas
+ */
+const paramsSchema = z.object({
+  id: z.string().uuid('idTarefaInvalido'),
+});
+
+const commentParamsSchema = z.object({
+  id: z.string().uuid('idTarefaInvalido'),
+  idComentario: z.string().uuid('idComentarioInvalido'),
+});
+
+const bodySchema = z.object({
+  corpo: z
+    .string({ error: 'comentarioVazio' })
+    .trim()
+    .min(1, 'comentarioVazio')
+    .max(10000, 'comentarioMuitoLongo'),
+});
+
+/**
+ * @api {get} /api/v1/internal/task/:id/comments List Comments
+ * @apiName ListComments
+ * @apiGroup TaskComment
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Retrieves the comment thread of a task, oldest first; deleted comments keep
+ * their place with a null body
+ *
+ * @apiParam {String} id Task identifier
+ *
+ * @apiSuccess {Array} comentarios Comments with author name and timestamps
+ *
+ * @apiError {String} NotFoundError Task not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const user = getRequestUser(req);
+
+    const comentarios = await commentList(user.id, id);
+
+    if (!comentarios) {
+      return next(new NotFoundError('tarefaNaoEncontrada'));
+    }
+
+    res.json(successResponse(comentarios));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/v1/internal/task/:id/comments Create Comment
+ * @apiName CreateComment
+ * @apiGroup TaskComment
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Adds a comment to a task; raw HTML and script links are removed from the body
+ *
+ * @apiParam {String} id Task identifier
+ * @apiParam {String} corpo Body in markdown (max 10000 characters)
+ *
+ * @apiSuccess {Object} comentario Created comment
+ *
+ * @apiError {String} ValidationError Empty or too long body
+ * @apiError {String} NotFoundError Task not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function createHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const { corpo } = bodySchema.parse(req.body);
+    const user = getRequestUser(req);
+
+    const comentario = await commentCreate(user.id, id, user.id, corpo);
+
+    if (!comentario) {
+      return next(new NotFoundError('tarefaNaoEncontrada'));
+    }
+
+    res.status(201).json(successResponse(comentario));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {put} /api/v1/internal/task/:id/comments/:idComentario Update Comment
+ * @apiName UpdateComment
+ * @apiGroup TaskComment
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Edits the body of a comment; only its author may edit it
+ *
+ * @apiParam {String} id Task identifier
+ * @apiParam {String} idComentario Comment identifier
+ * @apiParam {String} corpo New body in markdown (max 10000 characters)
+ *
+ * @apiSuccess {Object} comentario Updated comment
+ *
+ * @apiError {String} ValidationError Empty or too long body
+ * @apiError {String} ForbiddenError Comment written by another user
+ * @apiError {String} NotFoundError Comment not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function updateHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id, idComentario } = commentParamsSchema.parse(req.params);
+    const { corpo } = bodySchema.parse(req.body);
+    const user = getRequestUser(req);
+
+    const comentario = await commentUpdate(user.id, id, idComentario, user.id, corpo);
+
+    if (!comentario) {
+      return next(new NotFoundError('comentarioNaoEncontrado'));
+    }
+
+    res.json(successResponse(comentario));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {delete} /api/v1/internal/task/:id/comments/:idComentario Delete Comment
+ * @apiName DeleteComment
+ * @apiGroup TaskComment
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Deletes a comment; it stays in the thread without its body
+ *
+ * @apiParam {String} id Task identifier
+ * @apiParam {String} idComentario Comment identifier
+ *
+ * @apiSuccess {Boolean} deleted Removal confirmation
+ *
+ * @apiError {String} ForbiddenError Comment written by another user
+ * @apiError {String} NotFoundError Comment not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function deleteHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id, idComentario } = commentParamsSchema.parse(req.params);
+    const user = getRequestUser(req);
+
+    const deleted = await commentDelete(user.id, id, idComentario, user.id);
+
+    if (!deleted) {
+      return next(new NotFoundError('comentarioNaoEncontrado'));
+    }
+
+    res.json(successResponse({ deleted: true }));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @rule {be-api-documentation}
+ * Request and response schemas of the comment routes
+ */
+export const routeSchemas = describeRoutes('TaskComment', [
+  {
+    handler: listHandler,
+    summary: 'List comments',
+    description: 'Comment thread of a task, oldest first',
+    params: paramsSchema,
+    response: successSchema(z.array(commentSchema)),
+  },
+  {
+    handler: createHandler,
+    summary: 'Create comment',
+    description: 'Raw HTML and script links are removed from the body',
+    params: paramsSchema,
+    body: bodySchema,
+    status: 201,
+    response: successSchema(commentSchema),
+  },
+  {
+    handler: updateHandler,
+    summary: 'Update comment',
+    description: 'Only the author of a comment may edit it',
+    params: commentParamsSchema,
+    body: bodySchema,
+    response: successSchema(commentSchema),
+  },
+  {
+    handler: deleteHandler,
+    summary: 'Delete comment',
+    description: 'The comment stays in the thread without its body',
+    params: commentParamsSchema,
+    response: successSchema(deletedSchema),
+  },
+]);
@@ -0,0 +1,168 @@
+/**
+ * @summary
+ * Task dependency controller handling blocked-by links between tasks.
+ * Implements listing, creation, and removal under `/task/:id/dependencies`.
+ *
+ * @module api/v1/internal/task-dependency/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { successResponse } from '@/utils/response';
+import { getRequestUser } from '@/middleware/auth';
+import { dependencyList, dependencyCreate, dependencyDelete } from '@/services/task';
+import { NotFoundError } from '@/utils/errors';
+import { describeRoutes, successSchema } from '@/utils/openapi';
+import { deletedSchema, taskDependenciesSchema } from '@/api/v1/schemas';
+
+const paramsSchema = z.object({
+  id: z.string().uuid('idTarefaInvalido'),
+});
+
+const dependencyParamsSchema = z.object({
+  id: z.string().uuid('idTarefaInvalido'),
+  idTarefaBloqueadora: z.string().uuid('idTarefaBloqueadoraInvalido'),
+});
+
+const bodySchema = z.object({
+  idTarefaBloqueadora: z.string().uuid('idTarefaBloqueadoraInvalido'),
+});
+
+/**
+ * @api {get} /api/v1/internal/task/:id/dependencies List Dependencies
+ * @apiName ListDependencies
+ * @apiGroup TaskDependency
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Retrieves the tasks blocking a task and the tasks it blocks
+ *
+ * @apiParam {String} id Task identifier
+ *
+ * @apiSuccess {Array} bloqueadaPor Tasks blocking the task
+ * @apiSuccess {Array} bloqueando Tasks blocked by the task
+ *
+ * @apiError {String} NotFoundError Task not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const user = getRequestUser(req);
+
+    const dependencies = await dependencyList(user.id, id);
+
+    if (!dependencies) {
+      return next(new NotFoundError('tarefaNaoEncontrada'));
+    }
+
+    res.json(successResponse(dependencies));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/v1/internal/task/:id/dependencies Create Dependency
+ * @apiName CreateDependency
+ * @apiGroup TaskDependency
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Marks a task as blocked by another task; adding an existing link has no effect
+ *
+ * @apiParam {String} id Dependent task identifier
+ * @apiParam {String} idTarefaBloqueadora Blocking task identifier
+ *
+ * @apiSuccess {Array} bloqueadaPor Tasks blocking the task
+ * @apiSuccess {Array} bloqueando Tasks blocked by the task
+ *
+ * @apiError {String} ValidationError Invalid identifiers or the link would form a cycle
+ * @apiError {String} NotFoundError Task not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function createHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const { idTarefaBloqueadora } = bodySchema.parse(req.body);
+    const user = getRequestUser(req);
+
+    const dependencies = await dependencyCreate(user.id, id, idTarefaBloqueadora);
+
+    if (!dependencies) {
+      return next(new NotFoundError('tarefaNaoEncontrada'));
+    }
+
+    res.status(201).json(successResponse(dependencies));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {delete} /api/v1/internal/task/:id/dependencies/:idTarefaBloqueadora Delete Dependency
+ * @apiName DeleteDependency
+ * @apiGroup TaskDependency
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Removes a blocked-by link between two tasks
+ *
+ * @apiParam {String} id Dependent task identifier
+ * @apiParam {String} idTarefaBloqueadora Blocking task identifier
+ *
+ * @apiSuccess {Boolean} deleted Removal confirmation
+ *
+ * @apiError {String} NotFoundError Dependency not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function deleteHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id, idTarefaBloqueadora } = dependencyParamsSchema.parse(req.params);
+    const user = getRequestUser(req);
+
+    const deleted = await dependencyDelete(user.id, id, idTarefaBloqueadora);
+
+    if (!deleted) {
+      return next(new NotFoundError('dependenciaNaoEncontrada'));
+    }
+
+    res.json(successResponse({ deleted: true }));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @rule {be-api-documentation}
+ * Request and response schemas of the dependency routes
+ */
+export const routeSchemas = describeRoutes('TaskDependency', [
+  {
+    handler: listHandler,
+    summary: 'List dependencies',
+    description: 'Tasks blocking a task and tasks it blocks',
+    params: paramsSchema,
+    response: successSchema(taskDependenciesSchema),
+  },
+  {
+    handler: createHandler,
+    summary: 'Create dependency',
+    description: 'Marks a task as blocked by another task; adding an existing link has no effect',
+    params: paramsSchema,
+    body: bodySchema,
+    status: 201,
+    response: successSchema(taskDependenciesSchema),
+  },
+  {
+    handler: deleteHandler,
+    summary: 'Delete dependency',
+    params: dependencyParamsSchema,
+    response: successSchema(deletedSchema),
+  },
+]);
@@ -9,7 +9,19 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { successResponse } from '@/utils/response';
-import { taskGetHistory, taskGet } from '@/services/task';
+import { getRequestUser } from '@/middleware/auth';
+import { taskGetHistory, taskGet, taskGetDeleted } from '@/services/task';
+import { NotFoundError } from '@/utils/errors';
+import { taskHistoryFiltersSchema } from '@taskmanager/shared';
+import { describeRoutes, successSchema } from '@/utils/openapi';
+import { historyEntrySchema } from '@/api/v1/schemas';
+
+/**
+ * @validation Shared history schemas
+ */
+const paramsSchema = z.object({
+  id: z.string().uuid('idTarefaInvalido'),
+});
 
 /**
  * @api {get} /api/v1/internal/task/:id/history Get Task History
@@ -20,7 +32,7 @@ import { taskGetHistory, taskGet } from '@/services/task';
  * @apiDescription Retrieves the change history for a specific task
  *
  * @apiParam {String} id Task identifier
- * @apiParam {String} [filterTipo] Filter by change type: 'Todas', 'Criação', 'Edição', 'Alteração de Status', 'Exclusão'
+ * @apiParam {String} [filterTipo] Filter by change type: 'Todas', 'Criação', 'Edição', 'Alteração de Status', 'Reagendamento', 'Exclusão', 'Restauração'
  * @apiParam {String} [filterOrigem] Filter by origin: 'Todas', 'Manual', 'Automática'
  *
  * @apiSuccess {Array} history List of history entries
@@ -34,49 +46,39 @@ export async function getHistoryHandler(
   next: NextFunction
 ): Promise<void> {
   try {
-    /**
-     * @validation Parameter and query validation
-     */
-    const paramsSchema = z.object({
-      id: z.string().uuid('idTarefaInvalido'),
-    });
-
-    const querySchema = z.object({
-      filterTipo: z
-        .enum(['Todas', 'Criação', 'Edição', 'Alteração de Status', 'Exclusão'])
-        .optional()
-        .default('Todas'),
-      filterOrigem: z.enum(['Todas', 'Manual', 'Automática']).optional().default('Todas'),
-    });
-
     const { id } = paramsSchema.parse(req.params);
-    const filters = querySchema.parse(req.query);
+    const filters = taskHistoryFiltersSchema.parse(req.query);
+    const user = getRequestUser(req);
 
     /**
      * @rule {fn-order-processing}
-     * Verify task exists before retrieving history
+     * Verify task exists before retrieving history; tasks in the trash keep theirs readable
      */
-    const task = await taskGet(id);
+    const task = (await taskGet(user.id, id)) ?? (await taskGetDeleted(user.id, id));
 
     if (!task) {
-      return next({
-        statusCode: 404,
-        code: 'tarefaNaoEncontrada',
-        message: 'A tarefa solicitada não foi encontrada',
-      });
+      return next(new NotFoundError('tarefaNaoEncontrada'));
     }
 
-    const historyEntries = await taskGetHistory(id, filters.filterTipo, filters.filterOrigem);
+    const historyEntries = await taskGetHistory(user.id, id, filters.filterTipo, filters.filterOrigem);
 
     res.json(successResponse(historyEntries));
   } catch (error: any) {
-    if (error instanceof z.ZodError) {
-      return next({
-        statusCode: 400,
-        code: 'VALIDATION_ERROR',
-        message: error.errors[0].message,
-      });
-    }
     next(error);
   }
 }
+
+/**
+ * @rule {be-api-documentation}
+ * Request and response schemas of the task history routes
+ */
+export const routeSchemas = describeRoutes('TaskHistory', [
+  {
+    handler: getHistoryHandler,
+    summary: 'Get task history',
+    description: 'Tasks in the trash keep their history readable',
+    params: paramsSchema,
+    query: taskHistoryFiltersSchema,
+    response: successSchema(z.array(historyEntrySchema)),
+  },
+]);
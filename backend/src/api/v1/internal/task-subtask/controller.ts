@@ -0,0 +1,341 @@
+/**
+ * @summary
+ * Task subtask controller handling checklist items and subtasks of a task.
+ * Implements listing, creation, update, and removal under `/task/:id/subtasks`.
+ *
+ * @module api/v1/internal/task-subtask/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { successResponse } from '@/utils/response';
+import { getRequestUser } from '@/middleware/auth';
+import {
+  subtaskList,
+  subtaskCreateItem,
+  subtaskCreateTask,
+  subtaskUpdateItem,
+  subtaskUpdateTask,
+  subtaskDelete,
+} from '@/services/task';
+import { TaskImportance } from '@/services/task/taskTypes';
+import {
+  isValidDueDate,
+  isValidDueTime,
+  isDueDayInPast,
+  resolveDueDate,
+} from '@/services/task/taskSchedule';
+import { isValidTimeZone } from '@/utils/date';
+import { NotFoundError, ValidationError } from '@/utils/errors';
+import {
+  taskDescricaoSchema,
+  taskImportanciaSchema,
+  taskTagsSchema,
+  taskTituloSchema,
+} from '@taskmanager/shared';
+import { describeRoutes, successSchema } from '@/utils/openapi';
+import {
+  checklistItemSchema,
+  deletedSchema,
+  subtaskListSchema,
+  taskResponseSchema,
+} from '@/api/v1/schemas';
+
+/**
+ * @validation Shared subtask field schemas
+ */
+const taskFields = {
+  titulo: taskTituloSchema,
+  descricao: taskDescricaoSchema.optional(),
+  dataVencimento: z.string().refine(isValidDueDate, 'dataVencimentoInvalida').optional(),
+  horaVencimento: z.string().refine(isValidDueTime, 'horaVencimentoInvalida').optional(),
+  fusoHorario: z.string().refine(isValidTimeZone, 'fusoHorarioInvalido').optional(),
+  diaInteiro: z.boolean({ error: 'diaInteiroInvalido' }).optional(),
+  importancia: taskImportanciaSchema,
+  tags: taskTagsSchema.optional(),
+};
+
+const paramsSchema = z.object({
+  id: z.string().uuid('idTarefaInvalido'),
+});
+
+const subtaskParamsSchema = z.object({
+  id: z.string().uuid('idTarefaInvalido'),
+  idSubtarefa: z.string().uuid('idSubtarefaInvalido'),
+});
+
+const createBodySchema = z.discriminatedUnion(
+  'tipo',
+  [
+    z.object({
+      tipo: z.literal('Item'),
+      texto: z.string().min(1, 'textoObrigatorio').max(200, 'textoMuitoLongo'),
+    }),
+    z.object({ tipo: z.literal('Tarefa'), ...taskFields }),
+  ],
+  { error: 'tipoSubtarefaInvalido' }
+);
+
+const updateBodySchema = z.discriminatedUnion(
+  'tipo',
+  [
+    z.object({
+      tipo: z.literal('Item'),
+      texto: z.string().min(1, 'textoObrigatorio').max(200, 'textoMuitoLongo').optional(),
+      concluido: z.boolean({ error: 'concluidoInvalido' }).optional(),
+      ordem: z.number().int('ordemInvalida').min(0, 'ordemInvalida').optional(),
+    }),
+    z.object({ tipo: z.literal('Tarefa'), ...taskFields }),
+  ],
+  { error: 'tipoSubtarefaInvalido' }
+);
+
+/**
+ * @api {get} /api/v1/internal/task/:id/subtasks List Subtasks
+ * @apiName ListSubtasks
+ * @apiGroup TaskSubtask
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Retrieves the checklist items and subtasks of a task with its progress
+ *
+ * @apiParam {String} id Task identifier
+ *
+ * @apiSuccess {Array} itens Checklist items in order
+ * @apiSuccess {Array} tarefas Subtasks
+ * @apiSuccess {Object} progresso Completion: total, concluidas, percentual
+ *
+ * @apiError {String} NotFoundError Task not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const user = getRequestUser(req);
+
+    const subtasks = await subtaskList(user.id, id);
+
+    if (!subtasks) {
+      return next(new NotFoundError('tarefaNaoEncontrada'));
+    }
+
+    res.json(successResponse(subtasks));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/v1/internal/task/:id/subtasks Create Subtask
+ * @apiName CreateSubtask
+ * @apiGroup TaskSubtask
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Appends a checklist item or creates a subtask under a task
+ *
+ * @apiParam {String} id Task identifier
+ * @apiParam {String} tipo 'Item' for a checklist item, 'Tarefa' for a subtask
+ * @apiParam {String} [texto] Item text (max 200 characters), when tipo is 'Item'
+ * @apiParam {String} [titulo] Subtask title (max 100 characters), when tipo is 'Tarefa'
+ * @apiParam {String} [descricao] Subtask description (max 500 characters)
+ * @apiParam {String} [dataVencimento] Subtask due date: ISO 8601 date or date-time, or legacy DD/MM/YYYY
+ * @apiParam {String} [horaVencimento] Legacy subtask due time in HH:MM format, next to a date
+ * @apiParam {String} [fusoHorario] IANA time zone of the due date; defaults to DEFAULT_TIMEZONE
+ * @apiParam {Boolean} [diaInteiro] Whether the subtask is due at any time on its due day
+ * @apiParam {String} [importancia] Subtask importance: 'Alta', 'Média', 'Baixa'
+ * @apiParam {String[]} [tags] Subtask tag identifiers
+ *
+ * @apiSuccess {Object} subtask Created checklist item or subtask
+ *
+ * @apiError {String} ValidationError Invalid parameters or parent is itself a subtask
+ * @apiError {String} ConflictError Parent task belongs to an archived project
+ * @apiError {String} NotFoundError Task not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function createHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const data = createBodySchema.parse(req.body);
+    const user = getRequestUser(req);
+
+    let subtask;
+
+    if (data.tipo === 'Item') {
+      subtask = await subtaskCreateItem(user.id, id, data.texto);
+    } else {
+      const due = resolveDueDate(data);
+
+      if (isDueDayInPast(due)) {
+        return next(new ValidationError('dataVencimentoPassado'));
+      }
+
+      subtask = await subtaskCreateTask(user.id, id, {
+        titulo: data.titulo,
+        descricao: data.descricao || null,
+        ...due,
+        importancia: data.importancia as TaskImportance,
+        recorrencia: null,
+        tags: data.tags || [],
+      });
+    }
+
+    if (!subtask) {
+      return next(new NotFoundError('tarefaNaoEncontrada'));
+    }
+
+    res.status(201).json(successResponse(subtask));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {put} /api/v1/internal/task/:id/subtasks/:idSubtarefa Update Subtask
+ * @apiName UpdateSubtask
+ * @apiGroup TaskSubtask
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Updates a checklist item (text, done flag, position) or a subtask
+ *
+ * @apiParam {String} id Task identifier
+ * @apiParam {String} idSubtarefa Checklist item or subtask identifier
+ * @apiParam {String} tipo 'Item' for a checklist item, 'Tarefa' for a subtask
+ * @apiParam {String} [texto] Item text (max 200 characters)
+ * @apiParam {Boolean} [concluido] Item done flag
+ * @apiParam {Number} [ordem] New 0-based item position
+ * @apiParam {String} [titulo] Subtask title (max 100 characters), required when tipo is 'Tarefa'
+ * @apiParam {String} [descricao] Subtask description (max 500 characters)
+ * @apiParam {String} [dataVencimento] Subtask due date: ISO 8601 date or date-time, or legacy DD/MM/YYYY
+ * @apiParam {String} [horaVencimento] Legacy subtask due time in HH:MM format, next to a date
+ * @apiParam {String} [fusoHorario] IANA time zone of the due date; defaults to DEFAULT_TIMEZONE
+ * @apiParam {Boolean} [diaInteiro] Whether the subtask is due at any time on its due day
+ * @apiParam {String} [importancia] Subtask importance: 'Alta', 'Média', 'Baixa'
+ * @apiParam {String[]} [tags] Subtask tag identifiers
+ *
+ * @apiSuccess {Object} subtask Updated checklist item or subtask
+ *
+ * @apiError {String} ValidationError Invalid parameters
+ * @apiError {String} NotFoundError Task or subtask not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function updateHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id, idSubtarefa } = subtaskParamsSchema.parse(req.params);
+    const data = updateBodySchema.parse(req.body);
+    const user = getRequestUser(req);
+
+    let subtask;
+
+    if (data.tipo === 'Item') {
+      subtask = await subtaskUpdateItem(user.id, id, idSubtarefa, {
+        texto: data.texto,
+        concluido: data.concluido,
+        ordem: data.ordem,
+      });
+    } else {
+      const due = resolveDueDate(data);
+
+      if (isDueDayInPast(due)) {
+        return next(new ValidationError('dataVencimentoPassado'));
+      }
+
+      subtask = await subtaskUpdateTask(user.id, id, idSubtarefa, {
+        titulo: data.titulo,
+        descricao: data.descricao || null,
+        ...due,
+        importancia: data.importancia as TaskImportance,
+        recorrencia: null,
+        tags: data.tags || [],
+      });
+    }
+
+    if (!subtask) {
+      return next(new NotFoundError('subtarefaNaoEncontrada'));
+    }
+
+    res.json(successResponse(subtask));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {delete} /api/v1/internal/task/:id/subtasks/:idSubtarefa Delete Subtask
+ * @apiName DeleteSubtask
+ * @apiGroup TaskSubtask
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Removes a checklist item, or permanently deletes a subtask
+ *
+ * @apiParam {String} id Task identifier
+ * @apiParam {String} idSubtarefa Checklist item or subtask identifier
+ *
+ * @apiSuccess {Boolean} deleted Deletion confirmation
+ *
+ * @apiError {String} NotFoundError Task or subtask not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function deleteHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id, idSubtarefa } = subtaskParamsSchema.parse(req.params);
+    const user = getRequestUser(req);
+
+    const deleted = await subtaskDelete(user.id, id, idSubtarefa);
+
+    if (!deleted) {
+      return next(new NotFoundError('subtarefaNaoEncontrada'));
+    }
+
+    res.json(successResponse({ deleted: true }));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @rule {be-api-documentation}
+ * Request and response schemas of the subtask routes
+ */
+export const routeSchemas = describeRoutes('TaskSubtask', [
+  {
+    handler: listHandler,
+    summary: 'List subtasks',
+    description: 'Checklist items and subtasks of a task with its progress',
+    params: paramsSchema,
+    response: successSchema(subtaskListSchema),
+  },
+  {
+    handler: createHandler,
+    summary: 'Create subtask',
+    description: 'Appends a checklist item or creates a subtask under a task',
+    params: paramsSchema,
+    body: createBodySchema,
+    status: 201,
+    response: successSchema(z.union([checklistItemSchema, taskResponseSchema])),
+  },
+  {
+    handler: updateHandler,
+    summary: 'Update subtask',
+    params: subtaskParamsSchema,
+    body: updateBodySchema,
+    response: successSchema(z.union([checklistItemSchema, taskResponseSchema])),
+  },
+  {
+    handler: deleteHandler,
+    summary: 'Delete subtask',
+    description: 'Removes a checklist item, or permanently deletes a subtask',
+    params: subtaskParamsSchema,
+    response: successSchema(deletedSchema),
+  },
+]);
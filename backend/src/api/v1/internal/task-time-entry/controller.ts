@@ -0,0 +1,382 @@
+/**
+ * @summary
+ * Task time entry controller handling timers and tracked time of tasks.
+ * Implements the running timer, start and stop under `/task/:id/timer`, and listing, manual
+ * entry, update, and removal under `/task/:id/time-entries`.
+ *
+ * @module api/v1/internal/task-time-entry/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { successResponse } from '@/utils/response';
+import { getRequestUser } from '@/middleware/auth';
+import {
+  timeEntryList,
+  timeEntryCreate,
+  timeEntryUpdate,
+  timeEntryDelete,
+  timerGetRunning,
+  timerStart,
+  timerStop,
+} from '@/services/task';
+import { TimeEntryRequest } from '@/services/task/taskTypes';
+import { NotFoundError } from '@/utils/errors';
+import { describeRoutes, successSchema } from '@/utils/openapi';
+import {
+  deletedSchema,
+  runningTimerSchema,
+  timeEntryListSchema,
+  timeEntrySchema,
+} from '@/api/v1/schemas';
+
+/**
+ * @validation Shared time entry schemas
+ */
+const paramsSchema = z.object({
+  id: z.string().uuid('idTarefaInvalido'),
+});
+
+const entryParamsSchema = z.object({
+  id: z.string().uuid('idTarefaInvalido'),
+  idRegistro: z.string().uuid('idRegistroInvalido'),
+});
+
+const notaSchema = z.string().max(500, 'notaMuitoLonga').nullable().optional();
+
+const stopBodySchema = z.object({ nota: notaSchema });
+
+const entryBodySchema = z.object({
+  inicio: z.string().datetime({ offset: true, message: 'inicioInvalido' }),
+  fim: z.string().datetime({ offset: true, message: 'fimInvalido' }).nullable().optional(),
+  nota: notaSchema,
+});
+
+/**
+ * @summary
+ * Converts a validated time entry body into service parameters
+ *
+ * @function toTimeEntryRequest
+ * @module api/v1/internal/task-time-entry/controller
+ *
+ * @param {z.infer<typeof entryBodySchema>} data - Validated body
+ *
+ * @returns {TimeEntryRequest} Start and end as dates, with the note
+ */
+function toTimeEntryRequest(data: z.infer<typeof entryBodySchema>): TimeEntryRequest {
+  return {
+    inicio: new Date(data.inicio),
+    fim: data.fim ? new Date(data.fim) : null,
+    nota: data.nota || null,
+  };
+}
+
+/**
+ * @api {get} /api/v1/internal/timer Get Running Timer
+ * @apiName GetRunningTimer
+ * @apiGroup TaskTimeEntry
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Retrieves the timer the user has running, or null when none is running
+ *
+ * @apiSuccess {Object} registro Running time entry
+ * @apiSuccess {Object} tarefa Task being timed
+ *
+ * @apiError {String} ServerError Internal server error
+ */
+export async function runningHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const user = getRequestUser(req);
+
+    const timer = await timerGetRunning(user.id);
+
+    res.json(successResponse(timer));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/v1/internal/task/:id/timer/start Start Timer
+ * @apiName StartTimer
+ * @apiGroup TaskTimeEntry
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Starts a timer on a task; a timer running on another task is stopped first
+ *
+ * @apiParam {String} id Task identifier
+ *
+ * @apiSuccess {Object} registro Running time entry
+ * @apiSuccess {Object} tarefa Task being timed
+ *
+ * @apiError {String} NotFoundError Task not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function startHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const user = getRequestUser(req);
+
+    const timer = await timerStart(user.id, id);
+
+    if (!timer) {
+      return next(new NotFoundError('tarefaNaoEncontrada'));
+    }
+
+    res.json(successResponse(timer));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/v1/internal/task/:id/timer/stop Stop Timer
+ * @apiName StopTimer
+ * @apiGroup TaskTimeEntry
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Stops the timer running on a task
+ *
+ * @apiParam {String} id Task identifier
+ * @apiParam {String} [nota] Note stored with the entry (max 500 characters)
+ *
+ * @apiSuccess {Object} registro Stopped time entry
+ *
+ * @apiError {String} ValidationError Invalid parameters
+ * @apiError {String} ConflictError No timer is running on the task
+ * @apiError {String} NotFoundError Task not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function stopHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const { nota } = stopBodySchema.parse(req.body ?? {});
+    const user = getRequestUser(req);
+
+    const registro = await timerStop(user.id, id, nota || null);
+
+    if (!registro) {
+      return next(new NotFoundError('tarefaNaoEncontrada'));
+    }
+
+    res.json(successResponse(registro));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/v1/internal/task/:id/time-entries List Time Entries
+ * @apiName ListTimeEntries
+ * @apiGroup TaskTimeEntry
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Retrieves the time entries of a task with the tracked total
+ *
+ * @apiParam {String} id Task identifier
+ *
+ * @apiSuccess {Array} registros Time entries ordered by start
+ * @apiSuccess {Number} tempoRegistrado Tracked time in seconds
+ * @apiSuccess {Number} duracaoEstimada Estimated effort in minutes
+ *
+ * @apiError {String} NotFoundError Task not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const user = getRequestUser(req);
+
+    const entries = await timeEntryList(user.id, id);
+
+    if (!entries) {
+      return next(new NotFoundError('tarefaNaoEncontrada'));
+    }
+
+    res.json(successResponse(entries));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/v1/internal/task/:id/time-entries Create Time Entry
+ * @apiName CreateTimeEntry
+ * @apiGroup TaskTimeEntry
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Enters a finished time entry by hand
+ *
+ * @apiParam {String} id Task identifier
+ * @apiParam {String} inicio Start as an ISO 8601 date-time
+ * @apiParam {String} fim End as an ISO 8601 date-time
+ * @apiParam {String} [nota] Note (max 500 characters)
+ *
+ * @apiSuccess {Object} registro Created time entry
+ *
+ * @apiError {String} ValidationError Invalid parameters or period
+ * @apiError {String} NotFoundError Task not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function createHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const data = entryBodySchema.parse(req.body);
+    const user = getRequestUser(req);
+
+    const registro = await timeEntryCreate(user.id, id, toTimeEntryRequest(data));
+
+    if (!registro) {
+      return next(new NotFoundError('tarefaNaoEncontrada'));
+    }
+
+    res.status(201).json(successResponse(registro));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {put} /api/v1/internal/task/:id/time-entries/:idRegistro Update Time Entry
+ * @apiName UpdateTimeEntry
+ * @apiGroup TaskTimeEntry
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Edits the start, end or note of a time entry
+ *
+ * @apiParam {String} id Task identifier
+ * @apiParam {String} idRegistro Time entry identifier
+ * @apiParam {String} inicio Start as an ISO 8601 date-time
+ * @apiParam {String} [fim] End as an ISO 8601 date-time; may only be omitted for a running entry
+ * @apiParam {String} [nota] Note (max 500 characters)
+ *
+ * @apiSuccess {Object} registro Updated time entry
+ *
+ * @apiError {String} ValidationError Invalid parameters or period
+ * @apiError {String} NotFoundError Time entry not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function updateHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id, idRegistro } = entryParamsSchema.parse(req.params);
+    const data = entryBodySchema.parse(req.body);
+    const user = getRequestUser(req);
+
+    const registro = await timeEntryUpdate(user.id, id, idRegistro, toTimeEntryRequest(data));
+
+    if (!registro) {
+      return next(new NotFoundError('registroNaoEncontrado'));
+    }
+
+    res.json(successResponse(registro));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {delete} /api/v1/internal/task/:id/time-entries/:idRegistro Delete Time Entry
+ * @apiName DeleteTimeEntry
+ * @apiGroup TaskTimeEntry
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Deletes a time entry
+ *
+ * @apiParam {String} id Task identifier
+ * @apiParam {String} idRegistro Time entry identifier
+ *
+ * @apiSuccess {Boolean} deleted Removal confirmation
+ *
+ * @apiError {String} NotFoundError Time entry not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function deleteHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id, idRegistro } = entryParamsSchema.parse(req.params);
+    const user = getRequestUser(req);
+
+    const deleted = await timeEntryDelete(user.id, id, idRegistro);
+
+    if (!deleted) {
+      return next(new NotFoundError('registroNaoEncontrado'));
+    }
+
+    res.json(successResponse({ deleted: true }));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @rule {be-api-documentation}
+ * Request and response schemas of the timer and time entry routes
+ */
+export const routeSchemas = describeRoutes('TaskTimeEntry', [
+  {
+    handler: runningHandler,
+    summary: 'Get running timer',
+    description: 'Null when no timer is running',
+    response: successSchema(runningTimerSchema.nullable()),
+  },
+  {
+    handler: startHandler,
+    summary: 'Start timer',
+    description: 'A timer running on another task is stopped first',
+    params: paramsSchema,
+    response: successSchema(runningTimerSchema),
+  },
+  {
+    handler: stopHandler,
+    summary: 'Stop timer',
+    params: paramsSchema,
+    body: stopBodySchema,
+    response: successSchema(timeEntrySchema),
+  },
+  {
+    handler: listHandler,
+    summary: 'List time entries',
+    params: paramsSchema,
+    response: successSchema(timeEntryListSchema),
+  },
+  {
+    handler: createHandler,
+    summary: 'Create time entry',
+    params: paramsSchema,
+    body: entryBodySchema,
+    status: 201,
+    response: successSchema(timeEntrySchema),
+  },
+  {
+    handler: updateHandler,
+    summary: 'Update time entry',
+    params: entryParamsSchema,
+    body: entryBodySchema,
+    response: successSchema(timeEntrySchema),
+  },
+  {
+    handler: deleteHandler,
+    summary: 'Delete time entry',
+    params: entryParamsSchema,
+    response: successSchema(deletedSchema),
+  },
+]);
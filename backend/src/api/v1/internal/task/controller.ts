@@ -8,17 +8,161 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
-import { successResponse, errorResponse } from '@/utils/response';
+import { successResponse } from '@/utils/response';
+import { getRequestUser } from '@/middleware/auth';
 import {
   taskCreate,
   taskList,
   taskGet,
   taskUpdate,
   taskDelete,
+  taskTrash,
+  taskRestore,
   taskUpdateStatus,
+  taskTransitions,
+  taskMove,
+  taskSnooze,
+  taskUnsnooze,
+  taskReschedule,
+  taskMostPostponed,
   taskCheckOverdue,
+  taskWakeSnoozed,
+  subtaskProgress,
+  dependencyOpenBlockers,
 } from '@/services/task';
-import { TaskStatus, TaskImportance } from '@/services/task/taskTypes';
+import {
+  TaskStatus,
+  TaskImportance,
+  SubtaskCompletionPolicy,
+  DependencyCompletionPolicy,
+  TaskReminder,
+  SnoozePreset,
+} from '@/services/task/taskTypes';
+import { config } from '@/config';
+import { isValidRecurrenceRule } from '@/services/task/taskRecurrence';
+import {
+  isValidDueDate,
+  isValidDueTime,
+  isValidTaskDay,
+  isDueDayInPast,
+  resolveDueDate,
+  resolveTaskDay,
+} from '@/services/task/taskSchedule';
+import { isValidTimeZone } from '@/utils/date';
+import { NotFoundError, ValidationError } from '@/utils/errors';
+import {
+  taskDescricaoSchema,
+  taskDuracaoEstimadaSchema,
+  taskImportanciaSchema,
+  taskLembretesSchema,
+  taskListFiltersSchema,
+  taskMotivoSchema,
+  taskRecorrenciaSchema,
+  taskReminderSchema,
+  taskTagsSchema,
+  taskTituloSchema,
+} from '@taskmanager/shared';
+import { describeRoutes, successSchema } from '@/utils/openapi';
+import {
+  deletedSchema,
+  taskListItemSchema,
+  taskResponseSchema,
+  taskTransitionsSchema,
+  taskTrashItemSchema,
+} from '@/api/v1/schemas';
+
+/**
+ * @validation Shared task schemas
+ */
+const paramsSchema = z.object({
+  id: z.string().uuid('idTarefaInvalido'),
+});
+
+const taskBodySchema = z.object({
+  titulo: taskTituloSchema,
+  descricao: taskDescricaoSchema.optional(),
+  dataVencimento: z.string().refine(isValidDueDate, 'dataVencimentoInvalida').optional(),
+  horaVencimento: z.string().refine(isValidDueTime, 'horaVencimentoInvalida').optional(),
+  fusoHorario: z.string().refine(isValidTimeZone, 'fusoHorarioInvalido').optional(),
+  diaInteiro: z.boolean({ error: 'diaInteiroInvalido' }).optional(),
+  dataInicio: z.string().refine(isValidTaskDay, 'dataInicioInvalida').nullable().optional(),
+  dataAgendada: z
+    .string()
+    .refine(isValidTaskDay, 'dataAgendadaInvalida')
+    .nullable()
+    .optional(),
+  importancia: taskImportanciaSchema,
+  recorrencia: taskRecorrenciaSchema
+    .refine(isValidRecurrenceRule, 'recorrenciaInvalida')
+    .optional(),
+  tags: taskTagsSchema.optional(),
+  idProjeto: z.string().uuid('idProjetoInvalido').nullable().optional(),
+  duracaoEstimada: taskDuracaoEstimadaSchema.nullable().optional(),
+  lembretes: taskLembretesSchema.optional(),
+});
+
+const moveBodySchema = z.object({
+  idProjeto: z.string().uuid('idProjetoInvalido').nullable(),
+});
+
+const snoozeBodySchema = z.object({
+  preset: z.enum(SnoozePreset, {
+    error: 'sonecaInvalida',
+  }),
+  sonecaAte: z.string().datetime({ offset: true, message: 'sonecaInvalida' }).optional(),
+});
+
+const rescheduleBodySchema = z.object({
+  dataVencimento: z.string().refine(isValidDueDate, 'dataVencimentoInvalida'),
+  horaVencimento: z.string().refine(isValidDueTime, 'horaVencimentoInvalida').optional(),
+  fusoHorario: z.string().refine(isValidTimeZone, 'fusoHorarioInvalido').optional(),
+  diaInteiro: z.boolean({ error: 'diaInteiroInvalido' }).optional(),
+  motivo: taskMotivoSchema.optional(),
+});
+
+const statusBodySchema = z.object({
+  status: z.enum(TaskStatus, {
+    error: 'statusInvalido',
+  }),
+  politicaSubtarefas: z
+    .enum(['Bloquear', 'Concluir', 'Avisar'], {
+      error: 'politicaSubtarefasInvalida',
+    })
+    .optional(),
+  politicaDependencias: z
+    .enum(['Bloquear', 'Avisar'], {
+      error: 'politicaDependenciasInvalida',
+    })
+    .optional(),
+});
+
+const mostPostponedQuerySchema = z.object({
+  limite: z.coerce
+    .number()
+    .int('limiteInvalido')
+    .min(1, 'limiteInvalido')
+    .max(50, 'limiteInvalido')
+    .optional()
+    .default(10),
+});
+
+/**
+ * @summary
+ * Converts validated reminders to the service format
+ *
+ * @function toTaskReminders
+ * @module api/v1/internal/task/controller
+ *
+ * @param {Array} lembretes - Validated reminders
+ *
+ * @returns {TaskReminder[]} Reminders with their moments parsed
+ */
+function toTaskReminders(lembretes: z.infer<typeof taskReminderSchema>[]): TaskReminder[] {
+  return lembretes.map((lembrete) => ({
+    antecedencia: lembrete.antecedencia ?? null,
+    dataLembrete: lembrete.dataLembrete ? new Date(lembrete.dataLembrete) : null,
+  }));
+}
 
 /**
  * @api {get} /api/v1/internal/task List Tasks
@@ -28,14 +172,19 @@ import { TaskStatus, TaskImportance } from '@/services/task/taskTypes';
  *
  * @apiDescription Retrieves a filtered and sorted list of tasks for the authenticated user
  *
- * @apiParam {String} [filterStatus] Filter by status: 'Todas', 'Pendentes', 'Concluídas', 'Vencidas'
+ * @apiParam {String} [filterStatus] Filter by status: 'Todas', 'Pendentes', 'Em andamento', 'Aguardando', 'Concluídas', 'Canceladas', 'Vencidas'
  * @apiParam {String} [filterImportance] Filter by importance: 'Todas', 'Alta', 'Média', 'Baixa'
- * @apiParam {String} [filterPeriod] Filter by period: 'Todas', 'Hoje', 'Esta semana', 'Este mês', 'Próximas ao vencimento', 'Vencidas', 'Sem data'
- * @apiParam {String} [orderBy] Sort by: 'Data de vencimento', 'Importância', 'Data de criação'
+ * @apiParam {String} [filterPeriod] Filter by period: 'Todas', 'Hoje', 'Esta semana', 'Este mês', 'Próximas ao vencimento', 'Vencidas', 'Sem data', 'Sonecas' (snoozed tasks, hidden from every other period)
+ * @apiParam {String} [filterStart] Filter by start date: 'Iniciadas' (default; hides tasks starting after today), 'Não iniciadas', 'Todas'
+ * @apiParam {String} [filterScheduled] Filter by scheduled date: 'Todas', 'Hoje', 'Esta semana', 'Este mês', 'Sem agendamento'
+ * @apiParam {String} [filterTags] Comma-separated tag identifiers
+ * @apiParam {String} [filterTagsMode] Tag matching: 'Qualquer' (any of the tags), 'Todas' (all of them)
+ * @apiParam {String} [filterProject] Project identifier, 'Sem projeto', or 'Todas' for every task outside archived projects
+ * @apiParam {String} [orderBy] Sort by: 'Data de vencimento', 'Data de início', 'Data agendada', 'Importância', 'Data de criação'
  * @apiParam {String} [orderDirection] Sort direction: 'Crescente', 'Decrescente'
  * @apiParam {String} [searchTerm] Search term for title or description
  *
- * @apiSuccess {Array} tasks List of tasks matching criteria
+ * @apiSuccess {Array} tasks List of top-level tasks matching criteria, each with its subtask progress
  *
  * @apiError {String} UnauthorizedError User not authenticated
  * @apiError {String} ServerError Internal server error
@@ -45,44 +194,25 @@ export async function listHandler(req: Request, res: Response, next: NextFunctio
     /**
      * @validation Query parameter validation
      */
-    const querySchema = z.object({
-      filterStatus: z
-        .enum(['Todas', 'Pendentes', 'Concluídas', 'Vencidas'])
-        .optional()
-        .default('Todas'),
-      filterImportance: z.enum(['Todas', 'Alta', 'Média', 'Baixa']).optional().default('Todas'),
-      filterPeriod: z
-        .enum([
-          'Todas',
-          'Hoje',
-          'Esta semana',
-          'Este mês',
-          'Próximas ao vencimento',
-          'Vencidas',
-          'Sem data',
-        ])
-        .optional()
-        .default('Todas'),
-      orderBy: z
-        .enum(['Data de vencimento', 'Importância', 'Data de criação'])
-        .optional()
-        .default('Data de vencimento'),
-      orderDirection: z.enum(['Crescente', 'Decrescente']).optional().default('Crescente'),
-      searchTerm: z.string().optional(),
-    });
-
-    const filters = querySchema.parse(req.query);
+    const filters = taskListFiltersSchema.parse(req.query);
+    const user = getRequestUser(req);
 
     /**
      * @rule {fn-order-processing}
      * Check for overdue tasks before listing
      */
-    await taskCheckOverdue();
+    await taskCheckOverdue(user.id);
+    await taskWakeSnoozed(user.id);
 
-    const tasks = await taskList({
+    const tasks = await taskList(user.id, {
       filterStatus: filters.filterStatus,
       filterImportance: filters.filterImportance,
       filterPeriod: filters.filterPeriod,
+      filterStart: filters.filterStart,
+      filterScheduled: filters.filterScheduled,
+      filterTags: filters.filterTags,
+      filterTagsMode: filters.filterTagsMode,
+      filterProject: filters.filterProject,
       orderBy: filters.orderBy,
       orderDirection: filters.orderDirection,
       searchTerm: filters.searchTerm,
@@ -104,9 +234,18 @@ export async function listHandler(req: Request, res: Response, next: NextFunctio
  *
  * @apiParam {String} titulo Task title (max 100 characters)
  * @apiParam {String} [descricao] Task description (max 500 characters)
- * @apiParam {String} [dataVencimento] Due date in DD/MM/YYYY format
- * @apiParam {String} [horaVencimento] Due time in HH:MM format
+ * @apiParam {String} [dataVencimento] Due date: ISO 8601 date, date-time with or without offset, or legacy DD/MM/YYYY
+ * @apiParam {String} [horaVencimento] Legacy due time in HH:MM format, next to a date
+ * @apiParam {String} [fusoHorario] IANA time zone of the due date; defaults to DEFAULT_TIMEZONE
+ * @apiParam {Boolean} [diaInteiro] Whether the task is due at any time on its due day; defaults to true when no time is given
+ * @apiParam {String} [dataInicio] Day work on the task can begin (ISO 8601 date); until then the task is hidden from default lists
+ * @apiParam {String} [dataAgendada] Day the task is planned to be done (ISO 8601 date)
  * @apiParam {String} importancia Importance level: 'Alta', 'Média', 'Baixa'
+ * @apiParam {String} [recorrencia] Recurrence rule (RRULE subset: FREQ, INTERVAL, BYDAY, BYMONTHDAY, UNTIL, COUNT); requires dataVencimento
+ * @apiParam {String[]} [tags] Identifiers of the user's tags to assign
+ * @apiParam {String} [idProjeto] Project to create the task in
+ * @apiParam {Number} [duracaoEstimada] Estimated effort in minutes
+ * @apiParam {Object[]} [lembretes] Reminders (max 10), each with either antecedencia (minutes before the due date) or dataLembrete (ISO 8601 moment)
  *
  * @apiSuccess {String} id Task identifier
  * @apiSuccess {String} titulo Task title
@@ -121,64 +260,43 @@ export async function createHandler(
   next: NextFunction
 ): Promise<void> {
   try {
+    const data = taskBodySchema.parse(req.body);
+    const user = getRequestUser(req);
+
     /**
-     * @validation Request body validation
+     * @rule {fn-order-processing}
+     * Validate due date is not in the past
      */
-    const bodySchema = z.object({
-      titulo: z.string().min(1, 'tituloObrigatorio').max(100, 'tituloMuitoLongo'),
-      descricao: z.string().max(500, 'descricaoMuitoLonga').optional(),
-      dataVencimento: z
-        .string()
-        .regex(/^\d{2}\/\d{2}\/\d{4}$/, 'dataVencimentoInvalida')
-        .optional(),
-      horaVencimento: z
-        .string()
-        .regex(/^\d{2}:\d{2}$/, 'horaVencimentoInvalida')
-        .optional(),
-      importancia: z.enum(['Alta', 'Média', 'Baixa'], {
-        errorMap: () => ({ message: 'importanciaInvalida' }),
-      }),
-    });
+    const due = resolveDueDate(data);
 
-    const data = bodySchema.parse(req.body);
+    if (isDueDayInPast(due)) {
+      return next(new ValidationError('dataVencimentoPassado'));
+    }
 
     /**
-     * @rule {fn-order-processing}
-     * Validate due date is not in the past
+     * @rule {be-task-recurrence}
+     * Recurring tasks need a due date to anchor their occurrences
      */
-    if (data.dataVencimento) {
-      const [day, month, year] = data.dataVencimento.split('/').map(Number);
-      const dueDate = new Date(year, month - 1, day);
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      if (dueDate < today) {
-        return next({
-          statusCode: 400,
-          code: 'dataVencimentoPassado',
-          message: 'A data de vencimento não pode ser anterior à data atual',
-        });
-      }
+    if (data.recorrencia && !data.dataVencimento) {
+      return next(new ValidationError('recorrenciaSemVencimento'));
     }
 
-    const task = await taskCreate({
+    const task = await taskCreate(user.id, {
       titulo: data.titulo,
       descricao: data.descricao || null,
-      dataVencimento: data.dataVencimento || null,
-      horaVencimento: data.horaVencimento || null,
+      ...due,
+      dataInicio: resolveTaskDay(data.dataInicio, due.fusoHorario),
+      dataAgendada: resolveTaskDay(data.dataAgendada, due.fusoHorario),
       importancia: data.importancia as TaskImportance,
+      recorrencia: data.recorrencia || null,
+      tags: data.tags || [],
+      idProjeto: data.idProjeto ?? null,
+      duracaoEstimada: data.duracaoEstimada ?? null,
+      lembretes: toTaskReminders(data.lembretes ?? []),
     });
 
     res.status(201).json(successResponse(task));
   } catch (error: any) {
-    if (error instanceof z.ZodError) {
-      return next({
-        statusCode: 400,
-        code: 'VALIDATION_ERROR',
-        message: error.errors[0].message,
-        details: error.errors,
-      });
-    }
     next(error);
   }
 }
@@ -200,34 +318,17 @@ export async function createHandler(
  */
 export async function getHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
-    /**
-     * @validation Parameter validation
-     */
-    const paramsSchema = z.object({
-      id: z.string().uuid('idTarefaInvalido'),
-    });
-
     const { id } = paramsSchema.parse(req.params);
+    const user = getRequestUser(req);
 
-    const task = await taskGet(id);
+    const task = await taskGet(user.id, id);
 
     if (!task) {
-      return next({
-        statusCode: 404,
-        code: 'tarefaNaoEncontrada',
-        message: 'A tarefa solicitada não foi encontrada',
-      });
+      return next(new NotFoundError('tarefaNaoEncontrada'));
     }
 
     res.json(successResponse(task));
   } catch (error: any) {
-    if (error instanceof z.ZodError) {
-      return next({
-        statusCode: 400,
-        code: 'VALIDATION_ERROR',
-        message: error.errors[0].message,
-      });
-    }
     next(error);
   }
 }
@@ -243,9 +344,18 @@ export async function getHandler(req: Request, res: Response, next: NextFunction
  * @apiParam {String} id Task identifier
  * @apiParam {String} titulo Task title (max 100 characters)
  * @apiParam {String} [descricao] Task description (max 500 characters)
- * @apiParam {String} [dataVencimento] Due date in DD/MM/YYYY format
- * @apiParam {String} [horaVencimento] Due time in HH:MM format
+ * @apiParam {String} [dataVencimento] Due date: ISO 8601 date, date-time with or without offset, or legacy DD/MM/YYYY
+ * @apiParam {String} [horaVencimento] Legacy due time in HH:MM format, next to a date
+ * @apiParam {String} [fusoHorario] IANA time zone of the due date; defaults to DEFAULT_TIMEZONE
+ * @apiParam {Boolean} [diaInteiro] Whether the task is due at any time on its due day; defaults to true when no time is given
+ * @apiParam {String} [dataInicio] Day work on the task can begin (ISO 8601 date), null to clear it; omitted to keep the current one
+ * @apiParam {String} [dataAgendada] Day the task is planned to be done (ISO 8601 date), null to clear it; omitted to keep the current one
  * @apiParam {String} importancia Importance level: 'Alta', 'Média', 'Baixa'
+ * @apiParam {String} [recorrencia] Recurrence rule (RRULE subset: FREQ, INTERVAL, BYDAY, BYMONTHDAY, UNTIL, COUNT); requires dataVencimento
+ * @apiParam {String[]} [tags] Identifiers of the user's tags to assign; omitted to keep the current ones
+ * @apiParam {String} [idProjeto] Project to move the task to, null for no project; omitted to keep the current one
+ * @apiParam {Number} [duracaoEstimada] Estimated effort in minutes, null to clear it; omitted to keep the current one
+ * @apiParam {Object[]} [lembretes] Reminders (max 10), each with either antecedencia (minutes before the due date) or dataLembrete (ISO 8601 moment); omitted to keep the current ones
  *
  * @apiSuccess {Object} task Updated task details
  *
@@ -259,77 +369,48 @@ export async function updateHandler(
   next: NextFunction
 ): Promise<void> {
   try {
-    /**
-     * @validation Parameter and body validation
-     */
-    const paramsSchema = z.object({
-      id: z.string().uuid('idTarefaInvalido'),
-    });
-
-    const bodySchema = z.object({
-      titulo: z.string().min(1, 'tituloObrigatorio').max(100, 'tituloMuitoLongo'),
-      descricao: z.string().max(500, 'descricaoMuitoLonga').optional(),
-      dataVencimento: z
-        .string()
-        .regex(/^\d{2}\/\d{2}\/\d{4}$/, 'dataVencimentoInvalida')
-        .optional(),
-      horaVencimento: z
-        .string()
-        .regex(/^\d{2}:\d{2}$/, 'horaVencimentoInvalida')
-        .optional(),
-      importancia: z.enum(['Alta', 'Média', 'Baixa'], {
-        errorMap: () => ({ message: 'importanciaInvalida' }),
-      }),
-    });
-
     const { id } = paramsSchema.parse(req.params);
-    const data = bodySchema.parse(req.body);
+    const data = taskBodySchema.parse(req.body);
+    const user = getRequestUser(req);
 
     /**
      * @rule {fn-order-processing}
      * Validate due date is not in the past
      */
-    if (data.dataVencimento) {
-      const [day, month, year] = data.dataVencimento.split('/').map(Number);
-      const dueDate = new Date(year, month - 1, day);
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      if (dueDate < today) {
-        return next({
-          statusCode: 400,
-          code: 'dataVencimentoPassado',
-          message: 'A data de vencimento não pode ser anterior à data atual',
-        });
-      }
+    const due = resolveDueDate(data);
+
+    if (isDueDayInPast(due)) {
+      return next(new ValidationError('dataVencimentoPassado'));
     }
 
-    const task = await taskUpdate(id, {
+    /**
+     * @rule {be-task-recurrence}
+     * Recurring tasks need a due date to anchor their occurrences
+     */
+    if (data.recorrencia && !data.dataVencimento) {
+      return next(new ValidationError('recorrenciaSemVencimento'));
+    }
+
+    const task = await taskUpdate(user.id, id, {
       titulo: data.titulo,
       descricao: data.descricao || null,
-      dataVencimento: data.dataVencimento || null,
-      horaVencimento: data.horaVencimento || null,
+      ...due,
+      dataInicio: resolveTaskDay(data.dataInicio, due.fusoHorario),
+      dataAgendada: resolveTaskDay(data.dataAgendada, due.fusoHorario),
       importancia: data.importancia as TaskImportance,
+      recorrencia: data.recorrencia || null,
+      tags: data.tags,
+      idProjeto: data.idProjeto,
+      duracaoEstimada: data.duracaoEstimada,
+      lembretes: data.lembretes && toTaskReminders(data.lembretes),
     });
 
     if (!task) {
-      return next({
-        statusCode: 404,
-        code: 'tarefaNaoEncontrada',
-        message: 'A tarefa solicitada não foi encontrada',
-      });
+      return next(new NotFoundError('tarefaNaoEncontrada'));
     }
 
     res.json(successResponse(task));
   } catch (error: any) {
-    if (error instanceof z.ZodError) {
-      return next({
-        statusCode: 400,
-        code: 'VALIDATION_ERROR',
-        message: error.errors[0].message,
-        details: error.errors,
-      });
-    }
     next(error);
   }
 }
@@ -340,7 +421,8 @@ export async function updateHandler(
  * @apiGroup Task
  * @apiVersion 1.0.0
  *
- * @apiDescription Permanently deletes a task
+ * @apiDescription Moves a task and its subtasks to the trash, where they stay until restored or
+ * until the retention period ends. Their dependency links are removed and not restored.
  *
  * @apiParam {String} id Task identifier
  *
@@ -355,34 +437,277 @@ export async function deleteHandler(
   next: NextFunction
 ): Promise<void> {
   try {
-    /**
-     * @validation Parameter validation
-     */
-    const paramsSchema = z.object({
-      id: z.string().uuid('idTarefaInvalido'),
-    });
-
     const { id } = paramsSchema.parse(req.params);
+    const user = getRequestUser(req);
 
-    const deleted = await taskDelete(id);
+    const deleted = await taskDelete(user.id, id);
 
     if (!deleted) {
-      return next({
-        statusCode: 404,
-        code: 'tarefaNaoEncontrada',
-        message: 'A tarefa solicitada não foi encontrada',
-      });
+      return next(new NotFoundError('tarefaNaoEncontrada'));
     }
 
     res.json(successResponse({ deleted: true }));
   } catch (error: any) {
-    if (error instanceof z.ZodError) {
-      return next({
-        statusCode: 400,
-        code: 'VALIDATION_ERROR',
-        message: error.errors[0].message,
-      });
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/v1/internal/task/trash List Trash
+ * @apiName ListTaskTrash
+ * @apiGroup Task
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Lists the deleted tasks that can still be restored, most recently deleted first
+ *
+ * @apiSuccess {Array} tasks Deleted tasks with the number of subtasks deleted with them and the
+ * moment they are permanently deleted
+ *
+ * @apiError {String} ServerError Internal server error
+ */
+export async function trashHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const user = getRequestUser(req);
+
+    const tasks = await taskTrash(user.id);
+
+    res.json(successResponse(tasks));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/v1/internal/task/:id/restore Restore Task
+ * @apiName RestoreTask
+ * @apiGroup Task
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Brings a task back from the trash, together with the subtasks deleted with it
+ *
+ * @apiParam {String} id Task identifier
+ *
+ * @apiSuccess {Object} task Task details
+ *
+ * @apiError {String} ValidationError Invalid task identifier
+ * @apiError {String} NotFoundError Task not in the trash
+ * @apiError {String} ConflictError Parent task still in the trash
+ * @apiError {String} ServerError Internal server error
+ */
+export async function restoreHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const user = getRequestUser(req);
+
+    const task = await taskRestore(user.id, id);
+
+    if (!task) {
+      return next(new NotFoundError('tarefaNaoEncontrada'));
+    }
+
+    res.json(successResponse(task));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {patch} /api/v1/internal/task/:id/project Move Task
+ * @apiName MoveTask
+ * @apiGroup Task
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Moves a task and its subtasks to another project, recording the move in history
+ *
+ * @apiParam {String} id Task identifier
+ * @apiParam {String} idProjeto Target project identifier, or null to remove the task from its project
+ *
+ * @apiSuccess {Object} task Moved task details
+ *
+ * @apiError {String} ValidationError Invalid parameters, unknown project or task is a subtask
+ * @apiError {String} ConflictError Target project is archived
+ * @apiError {String} NotFoundError Task not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function moveHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const { idProjeto } = moveBodySchema.parse(req.body);
+    const user = getRequestUser(req);
+
+    const task = await taskMove(user.id, id, idProjeto);
+
+    if (!task) {
+      return next(new NotFoundError('tarefaNaoEncontrada'));
+    }
+
+    res.json(successResponse(task));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/v1/internal/task/:id/snooze Snooze Task
+ * @apiName SnoozeTask
+ * @apiGroup Task
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Hides an open task from the task list until the snooze expires, keeping its
+ * due date
+ *
+ * @apiParam {String} id Task identifier
+ * @apiParam {String} preset When the task comes back: 'Mais tarde hoje' (in three hours), 'Amanhã de manhã' (9:00 tomorrow), 'Próxima semana' (9:00 next Monday), 'Personalizado'
+ * @apiParam {String} [sonecaAte] ISO 8601 moment the task comes back; required by 'Personalizado'
+ *
+ * @apiSuccess {Object} task Snoozed task details
+ *
+ * @apiError {String} ValidationError Invalid parameters or custom moment not in the future
+ * @apiError {String} ConflictError Task is completed or cancelled
+ * @apiError {String} NotFoundError Task not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function snoozeHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const data = snoozeBodySchema.parse(req.body);
+    const user = getRequestUser(req);
+
+    const task = await taskSnooze(
+      user.id,
+      id,
+      data.preset,
+      data.sonecaAte ? new Date(data.sonecaAte) : null
+    );
+
+    if (!task) {
+      return next(new NotFoundError('tarefaNaoEncontrada'));
+    }
+
+    res.json(successResponse(task));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {delete} /api/v1/internal/task/:id/snooze Unsnooze Task
+ * @apiName UnsnoozeTask
+ * @apiGroup Task
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Brings a snoozed task back to the task list before its snooze expires
+ *
+ * @apiParam {String} id Task identifier
+ *
+ * @apiSuccess {Object} task Task details
+ *
+ * @apiError {String} ValidationError Invalid task identifier
+ * @apiError {String} NotFoundError Task not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function unsnoozeHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const user = getRequestUser(req);
+
+    const task = await taskUnsnooze(user.id, id);
+
+    if (!task) {
+      return next(new NotFoundError('tarefaNaoEncontrada'));
+    }
+
+    res.json(successResponse(task));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/v1/internal/task/:id/reschedule Reschedule Task
+ * @apiName RescheduleTask
+ * @apiGroup Task
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Moves the due date of an open task in a single step: an overdue task goes back
+ * to Pendente, the postponement counter is incremented and one history entry is recorded
+ *
+ * @apiParam {String} id Task identifier
+ * @apiParam {String} dataVencimento New due date: ISO 8601 date, date-time with or without offset, or legacy DD/MM/YYYY
+ * @apiParam {String} [horaVencimento] Legacy due time in HH:MM format, next to a date
+ * @apiParam {String} [fusoHorario] IANA time zone of the due date; defaults to the task's
+ * @apiParam {Boolean} [diaInteiro] Whether the task is due at any time on its due day; defaults to true when no time is given
+ * @apiParam {String} [motivo] Reason for the reschedule (max 500 characters)
+ *
+ * @apiSuccess {Object} task Rescheduled task details, with its adiamentos count
+ *
+ * @apiError {String} ValidationError Invalid parameters or due date in the past
+ * @apiError {String} ConflictError Task is completed or cancelled
+ * @apiError {String} NotFoundError Task not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function rescheduleHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = paramsSchema.parse(req.params);
+    const { motivo, ...due } = rescheduleBodySchema.parse(req.body);
+    const user = getRequestUser(req);
+
+    const task = await taskReschedule(user.id, id, due, motivo || null);
+
+    if (!task) {
+      return next(new NotFoundError('tarefaNaoEncontrada'));
     }
+
+    res.json(successResponse(task));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/v1/internal/task/most-postponed List Most Postponed Tasks
+ * @apiName ListMostPostponedTasks
+ * @apiGroup Task
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Lists the open tasks that were rescheduled the most
+ *
+ * @apiParam {Number} [limite] Maximum number of tasks (1-50, default 10)
+ *
+ * @apiSuccess {Array} tasks Tasks with at least one postponement, most postponed first
+ *
+ * @apiError {String} ValidationError Invalid limit
+ * @apiError {String} ServerError Internal server error
+ */
+export async function mostPostponedHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { limite } = mostPostponedQuerySchema.parse(req.query);
+    const user = getRequestUser(req);
+
+    const tasks = await taskMostPostponed(user.id, limite);
+
+    res.json(successResponse(tasks));
+  } catch (error: any) {
     next(error);
   }
 }
@@ -393,14 +718,22 @@ export async function deleteHandler(
  * @apiGroup Task
  * @apiVersion 1.0.0
  *
- * @apiDescription Updates the status of a task
+ * @apiDescription Updates the status of a task, following the status workflow listed by
+ * GET /task/:id/transitions
  *
  * @apiParam {String} id Task identifier
- * @apiParam {String} status New status: 'Pendente', 'Concluída'
+ * @apiParam {String} status New status: 'Pendente', 'Em andamento', 'Aguardando', 'Concluída', 'Cancelada'
+ * @apiParam {String} [politicaSubtarefas] Open subtasks on completion: 'Bloquear', 'Concluir', 'Avisar'; defaults to SUBTASK_COMPLETION_POLICY
+ * @apiParam {String} [politicaDependencias] Open blocking tasks on completion: 'Bloquear', 'Avisar'; defaults to DEPENDENCY_COMPLETION_POLICY
  *
  * @apiSuccess {Object} task Updated task details
+ * @apiSuccess {String[]} [metadata.avisos] 'subtarefasPendentes' and/or 'dependenciasPendentes' when completed with open work
+ * @apiSuccess {Number} [metadata.subtarefasPendentes] Number of open subtasks
+ * @apiSuccess {Number} [metadata.dependenciasPendentes] Number of open blocking tasks
  *
  * @apiError {String} ValidationError Invalid status
+ * @apiError {String} ConflictError Change not allowed from the current status, or open subtasks or
+ * blocking tasks block the completion
  * @apiError {String} NotFoundError Task not found
  * @apiError {String} ServerError Internal server error
  */
@@ -410,41 +743,197 @@ export async function updateStatusHandler(
   next: NextFunction
 ): Promise<void> {
   try {
+    const { id } = paramsSchema.parse(req.params);
+    const { status, politicaSubtarefas, politicaDependencias } = statusBodySchema.parse(req.body);
+    const user = getRequestUser(req);
+
+    const politica = (politicaSubtarefas ||
+      config.tasks.subtaskCompletionPolicy) as SubtaskCompletionPolicy;
+    const politicaBloqueios = (politicaDependencias ||
+      config.tasks.dependencyCompletionPolicy) as DependencyCompletionPolicy;
+
+    const previous = await taskGet(user.id, id);
+    const openBlockers =
+      status === TaskStatus.Concluída && previous?.status !== TaskStatus.Concluída
+        ? await dependencyOpenBlockers(user.id, id)
+        : [];
+
+    const task = await taskUpdateStatus(user.id, id, status, politica, politicaBloqueios);
+
+    if (!task) {
+      return next(new NotFoundError('tarefaNaoEncontrada'));
+    }
+
+    const avisos: string[] = [];
+    const metadata: { [key: string]: any } = {};
+
     /**
-     * @validation Parameter and body validation
+     * @rule {be-task-subtasks}
+     * Under the Avisar policy the task is completed and the open subtasks are reported
      */
-    const paramsSchema = z.object({
-      id: z.string().uuid('idTarefaInvalido'),
-    });
+    if (status === TaskStatus.Concluída && politica === SubtaskCompletionPolicy.Avisar) {
+      const progresso = await subtaskProgress(user.id, id);
 
-    const bodySchema = z.object({
-      status: z.enum(['Pendente', 'Concluída'], {
-        errorMap: () => ({ message: 'statusInvalido' }),
-      }),
-    });
+      if (progresso && progresso.concluidas < progresso.total) {
+        avisos.push('subtarefasPendentes');
+        metadata.subtarefasPendentes = progresso.total - progresso.concluidas;
+      }
+    }
 
+    /**
+     * @rule {be-task-dependencies}
+     * Under the Avisar policy the task is completed and the open blocking tasks are reported
+     */
+    if (openBlockers.length > 0) {
+      avisos.push('dependenciasPendentes');
+      metadata.dependenciasPendentes = openBlockers.length;
+    }
+
+    if (avisos.length > 0) {
+      metadata.avisos = avisos;
+    }
+
+    res.json(successResponse(task, metadata));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/v1/internal/task/:id/transitions List Status Transitions
+ * @apiName ListTaskTransitions
+ * @apiGroup Task
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Lists the statuses the user may move a task to from its current status
+ *
+ * @apiParam {String} id Task identifier
+ *
+ * @apiSuccess {String} status Current status
+ * @apiSuccess {String[]} transicoes Allowed next statuses
+ *
+ * @apiError {String} NotFoundError Task not found
+ * @apiError {String} ServerError Internal server error
+ */
+export async function transitionsHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
     const { id } = paramsSchema.parse(req.params);
-    const { status } = bodySchema.parse(req.body);
+    const user = getRequestUser(req);
 
-    const task = await taskUpdateStatus(id, status as TaskStatus);
+    const transitions = await taskTransitions(user.id, id);
 
-    if (!task) {
-      return next({
-        statusCode: 404,
-        code: 'tarefaNaoEncontrada',
-        message: 'A tarefa solicitada não foi encontrada',
-      });
+    if (!transitions) {
+      return next(new NotFoundError('tarefaNaoEncontrada'));
     }
 
-    res.json(successResponse(task));
+    res.json(successResponse(transitions));
   } catch (error: any) {
-    if (error instanceof z.ZodError) {
-      return next({
-        statusCode: 400,
-        code: 'VALIDATION_ERROR',
-        message: error.errors[0].message,
-      });
-    }
     next(error);
   }
 }
+
+/**
+ * @rule {be-api-documentation}
+ * Request and response schemas of the task routes
+ */
+export const routeSchemas = describeRoutes('Task', [
+  {
+    handler: listHandler,
+    summary: 'List tasks',
+    query: taskListFiltersSchema,
+    response: successSchema(z.array(taskListItemSchema)),
+  },
+  {
+    handler: createHandler,
+    summary: 'Create task',
+    body: taskBodySchema,
+    status: 201,
+    response: successSchema(taskResponseSchema),
+  },
+  {
+    handler: mostPostponedHandler,
+    summary: 'List most postponed tasks',
+    query: mostPostponedQuerySchema,
+    response: successSchema(z.array(taskResponseSchema)),
+  },
+  {
+    handler: trashHandler,
+    summary: 'List trash',
+    description: 'Deleted tasks that can still be restored, most recently deleted first',
+    response: successSchema(z.array(taskTrashItemSchema)),
+  },
+  {
+    handler: getHandler,
+    summary: 'Get task',
+    params: paramsSchema,
+    response: successSchema(taskResponseSchema),
+  },
+  {
+    handler: updateHandler,
+    summary: 'Update task',
+    params: paramsSchema,
+    body: taskBodySchema,
+    response: successSchema(taskResponseSchema),
+  },
+  {
+    handler: deleteHandler,
+    summary: 'Delete task',
+    description: 'Moves a task and its subtasks to the trash',
+    params: paramsSchema,
+    response: successSchema(deletedSchema),
+  },
+  {
+    handler: updateStatusHandler,
+    summary: 'Update task status',
+    params: paramsSchema,
+    body: statusBodySchema,
+    response: successSchema(taskResponseSchema, {
+      avisos: z.array(z.enum(['subtarefasPendentes', 'dependenciasPendentes'])).optional(),
+      subtarefasPendentes: z.number().int().optional(),
+      dependenciasPendentes: z.number().int().optional(),
+    }),
+  },
+  {
+    handler: transitionsHandler,
+    summary: 'List status transitions',
+    params: paramsSchema,
+    response: successSchema(taskTransitionsSchema),
+  },
+  {
+    handler: moveHandler,
+    summary: 'Move task',
+    params: paramsSchema,
+    body: moveBodySchema,
+    response: successSchema(taskResponseSchema),
+  },
+  {
+    handler: snoozeHandler,
+    summary: 'Snooze task',
+    params: paramsSchema,
+    body: snoozeBodySchema,
+    response: successSchema(taskResponseSchema),
+  },
+  {
+    handler: unsnoozeHandler,
+    summary: 'Unsnooze task',
+    params: paramsSchema,
+    response: successSchema(taskResponseSchema),
+  },
+  {
+    handler: rescheduleHandler,
+    summary: 'Reschedule task',
+    params: paramsSchema,
+    body: rescheduleBodySchema,
+    response: successSchema(taskResponseSchema),
+  },
+  {
+    handler: restoreHandler,
+    summary: 'Restore task',
+    params: paramsSchema,
+    response: successSchema(taskResponseSchema),
+  },
+]);
@@ -0,0 +1,114 @@
+/**
+ * @summary
+ * User controller handling the preferences of the authenticated user.
+ * Implements reading and updating preferences under `/user/preferences`.
+ *
+ * @module api/v1/internal/user/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { successResponse } from '@/utils/response';
+import { getRequestUser } from '@/middleware/auth';
+import { userUpdatePreferences } from '@/services/user';
+import { LOCALES } from '@/constants';
+import { UnauthorizedError } from '@/utils/errors';
+import { describeRoutes, successSchema } from '@/utils/openapi';
+import { userPreferencesSchema } from '@/api/v1/schemas';
+
+/**
+ * @validation Preferences request body
+ */
+const bodySchema = z.object({
+  idioma: z.enum(LOCALES, { error: 'idiomaInvalido' }).nullable(),
+});
+
+/**
+ * @api {get} /api/v1/internal/user/preferences Get Preferences
+ * @apiName GetPreferences
+ * @apiGroup User
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Retrieves the preferences of the authenticated user
+ *
+ * @apiSuccess {String} idioma Preferred language (pt-BR, en-US), or null to follow Accept-Language
+ *
+ * @apiError {String} UnauthorizedError User not authenticated
+ * @apiError {String} ServerError Internal server error
+ */
+export async function getPreferencesHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const user = getRequestUser(req);
+
+    res.json(successResponse({ idioma: user.idioma }));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @api {patch} /api/v1/internal/user/preferences Update Preferences
+ * @apiName UpdatePreferences
+ * @apiGroup User
+ * @apiVersion 1.0.0
+ *
+ * @apiDescription Updates the preferences of the authenticated user. The preferred language is
+ * used for error messages instead of the Accept-Language header
+ *
+ * @apiParam {String} idioma Preferred language (pt-BR, en-US), or null to follow Accept-Language
+ *
+ * @apiSuccess {String} idioma Preferred language
+ *
+ * @apiError {String} ValidationError Unsupported language
+ * @apiError {String} UnauthorizedError User not authenticated
+ * @apiError {String} ServerError Internal server error
+ */
+export async function updatePreferencesHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = bodySchema.parse(req.body);
+    const user = getRequestUser(req);
+
+    const updatedUser = await userUpdatePreferences(user.id, data);
+
+    if (!updatedUser) {
+      return next(new UnauthorizedError('usuarioInvalido'));
+    }
+
+    /**
+     * @rule {be-localization}
+     * The new language already applies to the rest of this request
+     */
+    req.user = updatedUser;
+
+    res.json(successResponse({ idioma: updatedUser.idioma }));
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @rule {be-api-documentation}
+ * Request and response schemas of the user preference routes
+ */
+export const routeSchemas = describeRoutes('User', [
+  {
+    handler: getPreferencesHandler,
+    summary: 'Get preferences',
+    response: successSchema(userPreferencesSchema),
+  },
+  {
+    handler: updatePreferencesHandler,
+    summary: 'Update preferences',
+    description: 'The preferred language is used for error messages instead of Accept-Language',
+    body: bodySchema,
+    response: successSchema(userPreferencesSchema),
+  },
+]);
@@ -0,0 +1,289 @@
+/**
+ * @summary
+ * Response schemas of the API resources.
+ * Describe the JSON the controllers answer with; dates are serialized as ISO 8601 strings.
+ *
+ * @module api/v1/schemas
+ */
+
+import { z } from 'zod';
+import { LOCALES } from '@/constants';
+import {
+  TASK_HISTORY_ORIGEM_VALUES,
+  TASK_HISTORY_TIPO_VALUES,
+  TASK_IMPORTANCE_VALUES,
+} from '@taskmanager/shared';
+import { TaskStatus } from '@/services/task/taskTypes';
+import { DeliveryStatus } from '@/services/reminder/reminderTypes';
+import { zDateString } from '@/utils/validation';
+
+/**
+ * @validation Body of the responses that only confirm a removal
+ */
+export const deletedSchema = z.object({ deleted: z.literal(true) });
+
+/**
+ * @validation Authenticated user
+ */
+export const authUserSchema = z.object({
+  id: z.string(),
+  nome: z.string(),
+  email: z.string(),
+  idioma: z.enum(LOCALES).nullable(),
+});
+
+/**
+ * @validation Access token issued on register, login and refresh
+ */
+export const authResultSchema = z.object({
+  token: z.string(),
+  expiresAt: zDateString,
+  user: authUserSchema,
+});
+
+/**
+ * @validation Language preference of the user
+ */
+export const userPreferencesSchema = z.object({
+  idioma: z.enum(LOCALES).nullable(),
+});
+
+/**
+ * @validation Reminder of a task
+ */
+export const taskReminderResponseSchema = z.object({
+  antecedencia: z.number().int().nullable().describe('Minutes before the due date'),
+  dataLembrete: zDateString.nullable().describe('Fixed moment of the reminder'),
+});
+
+/**
+ * @validation Task as stored
+ */
+export const taskResponseSchema = z.object({
+  id: z.string(),
+  idUsuario: z.string(),
+  titulo: z.string(),
+  descricao: z.string().nullable(),
+  dataVencimento: zDateString.nullable(),
+  fusoHorario: z.string().describe('IANA time zone of the due date'),
+  diaInteiro: z.boolean(),
+  dataInicio: zDateString.nullable(),
+  dataAgendada: zDateString.nullable(),
+  sonecaAte: zDateString.nullable(),
+  adiamentos: z.number().int(),
+  dataExclusao: zDateString.nullable(),
+  importancia: z.enum(TASK_IMPORTANCE_VALUES),
+  status: z.enum(TaskStatus),
+  recorrencia: z.string().nullable(),
+  idSerie: z.string().nullable(),
+  ocorrencia: z.number().int().nullable(),
+  idProximaOcorrencia: z.string().nullable(),
+  idTarefaPai: z.string().nullable(),
+  tags: z.array(z.string()),
+  idProjeto: z.string().nullable(),
+  duracaoEstimada: z.number().int().nullable(),
+  lembretes: z.array(taskReminderResponseSchema),
+  dataCriacao: zDateString,
+  dataAtualizacao: zDateString,
+});
+
+/**
+ * @validation Completion of the subtasks and checklist items of a task
+ */
+export const taskProgressSchema = z.object({
+  total: z.number().int(),
+  concluidas: z.number().int(),
+  percentual: z.number(),
+});
+
+/**
+ * @validation Task of the task list, with the counters shown on its card
+ */
+export const taskListItemSchema = taskResponseSchema.extend({
+  progresso: taskProgressSchema.nullable(),
+  bloqueadaPor: z.array(z.string()),
+  bloqueando: z.array(z.string()),
+  tempoRegistrado: z.number().int().describe('Recorded time, in minutes'),
+  anexos: z.number().int(),
+  comentarios: z.number().int(),
+});
+
+/**
+ * @validation Task in the trash
+ */
+export const taskTrashItemSchema = taskResponseSchema.extend({
+  subtarefas: z.number().int(),
+  dataPurga: zDateString.describe('Moment the task is removed for good'),
+});
+
+/**
+ * @validation Status changes allowed from the current status of a task
+ */
+export const taskTransitionsSchema = z.object({
+  status: z.enum(TaskStatus),
+  transicoes: z.array(z.enum(TaskStatus)),
+});
+
+/**
+ * @validation Entry of a task history
+ */
+export const historyEntrySchema = z.object({
+  id: z.string(),
+  idUsuario: z.string(),
+  idTarefa: z.string(),
+  dataAlteracao: zDateString,
+  tipoAlteracao: z.enum(TASK_HISTORY_TIPO_VALUES),
+  campoAlterado: z.string().nullable(),
+  valorAnterior: z.string().nullable(),
+  valorNovo: z.string().nullable(),
+  origemAlteracao: z.enum(TASK_HISTORY_ORIGEM_VALUES),
+});
+
+/**
+ * @validation Checklist item of a task
+ */
+export const checklistItemSchema = z.object({
+  id: z.string(),
+  idUsuario: z.string(),
+  idTarefa: z.string(),
+  texto: z.string(),
+  concluido: z.boolean(),
+  ordem: z.number().int(),
+  dataCriacao: zDateString,
+  dataAtualizacao: zDateString,
+});
+
+/**
+ * @validation Checklist items and subtasks of a task
+ */
+export const subtaskListSchema = z.object({
+  itens: z.array(checklistItemSchema),
+  tarefas: z.array(taskResponseSchema),
+  progresso: taskProgressSchema,
+});
+
+/**
+ * @validation Tasks blocking a task and tasks it blocks
+ */
+export const taskDependenciesSchema = z.object({
+  bloqueadaPor: z.array(taskResponseSchema),
+  bloqueando: z.array(taskResponseSchema),
+});
+
+/**
+ * @validation Time entry of a task
+ */
+export const timeEntrySchema = z.object({
+  id: z.string(),
+  idUsuario: z.string(),
+  idTarefa: z.string(),
+  inicio: zDateString,
+  fim: zDateString.nullable().describe('Null while the timer runs'),
+  nota: z.string().nullable(),
+  dataCriacao: zDateString,
+  dataAtualizacao: zDateString,
+});
+
+/**
+ * @validation Time entries of a task with their total
+ */
+export const timeEntryListSchema = z.object({
+  registros: z.array(timeEntrySchema),
+  tempoRegistrado: z.number().int().describe('Recorded time, in minutes'),
+  duracaoEstimada: z.number().int().nullable(),
+});
+
+/**
+ * @validation Running timer and its task
+ */
+export const runningTimerSchema = z.object({
+  registro: timeEntrySchema,
+  tarefa: taskResponseSchema,
+});
+
+/**
+ * @validation File attached to a task
+ */
+export const attachmentSchema = z.object({
+  id: z.string(),
+  idUsuario: z.string(),
+  idTarefa: z.string(),
+  nome: z.string(),
+  tipo: z.string().describe('MIME type'),
+  tamanho: z.number().int().describe('Size in bytes'),
+  dataCriacao: zDateString,
+});
+
+/**
+ * @validation Comment of a task
+ */
+export const commentSchema = z.object({
+  id: z.string(),
+  idTarefa: z.string(),
+  idAutor: z.string(),
+  nomeAutor: z.string(),
+  corpo: z.string().nullable().describe('Null once the comment is deleted'),
+  dataCriacao: zDateString,
+  dataEdicao: zDateString.nullable(),
+  dataExclusao: zDateString.nullable(),
+});
+
+/**
+ * @validation Tag
+ */
+export const tagSchema = z.object({
+  id: z.string(),
+  idUsuario: z.string(),
+  nome: z.string(),
+  cor: z.string(),
+  dataCriacao: zDateString,
+  dataAtualizacao: zDateString,
+});
+
+/**
+ * @validation Project
+ */
+export const projectSchema = z.object({
+  id: z.string(),
+  idUsuario: z.string(),
+  nome: z.string(),
+  cor: z.string(),
+  icone: z.string(),
+  arquivado: z.boolean(),
+  dataCriacao: zDateString,
+  dataAtualizacao: zDateString,
+});
+
+/**
+ * @validation Task counters of a project
+ */
+export const projectTaskCountSchema = z.object({
+  total: z.number().int(),
+  pendentes: z.number().int(),
+});
+
+/**
+ * @validation Projects with their task counters, and the counters of tasks outside projects
+ */
+export const projectListSchema = z.object({
+  projetos: z.array(projectSchema.extend({ tarefas: projectTaskCountSchema })),
+  semProjeto: projectTaskCountSchema,
+});
+
+/**
+ * @validation In-app reminder delivered to the user
+ */
+export const notificationSchema = z.object({
+  id: z.string(),
+  idUsuario: z.string(),
+  idTarefa: z.string(),
+  canal: z.string(),
+  dataDisparo: zDateString,
+  titulo: z.string(),
+  mensagem: z.string(),
+  status: z.enum(DeliveryStatus),
+  erro: z.string().nullable(),
+  lida: z.boolean(),
+  dataCriacao: zDateString,
+  dataEntrega: zDateString.nullable(),
+});
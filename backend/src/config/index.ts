@@ -1,7 +1,8 @@
 /**
  * @summary
  * Application configuration management with environment variable support.
- * Provides centralized configuration for server, API, security, and cache settings.
+ * Provides centralized configuration for server, API, security, cache, database, task, reminder,
+ * mail and attachment settings.
  *
  * @module config
  */
@@ -28,9 +29,56 @@ export const config = {
   },
   security: {
     bcryptRounds: parseInt(process.env.BCRYPT_ROUNDS || '10'),
+    jwtSecret: process.env.JWT_SECRET || 'development-only-secret',
+    accessTokenTtl: parseInt(process.env.ACCESS_TOKEN_TTL || '3600'),
+    trustedUserHeader: process.env.TRUSTED_USER_HEADER?.toLowerCase() || null,
   },
   cache: {
     ttl: parseInt(process.env.CACHE_TTL || '3600'),
     checkPeriod: parseInt(process.env.CACHE_CHECK_PERIOD || '600'),
   },
+  database: {
+    driver: (process.env.DB_DRIVER || 'sqlite') as 'sqlite' | 'memory',
+    filename: process.env.DB_FILENAME || './data/taskmanager.db',
+  },
+  tasks: {
+    subtaskCompletionPolicy: (process.env.SUBTASK_COMPLETION_POLICY || 'Avisar') as
+      | 'Bloquear'
+      | 'Concluir'
+      | 'Avisar',
+    dependencyCompletionPolicy: (process.env.DEPENDENCY_COMPLETION_POLICY || 'Bloquear') as
+      | 'Bloquear'
+      | 'Avisar',
+    defaultTimeZone:
+      process.env.DEFAULT_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+    trashRetentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30'),
+    trashPurgeInterval: parseInt(process.env.TRASH_PURGE_INTERVAL || '3600'),
+  },
+  reminders: {
+    channels: (process.env.REMINDER_CHANNELS || 'App')
+      .split(',')
+      .map((channel) => channel.trim())
+      .filter(Boolean),
+    checkInterval: parseInt(process.env.REMINDER_CHECK_INTERVAL || '60'),
+    webhookUrl: process.env.REMINDER_WEBHOOK_URL || null,
+    webhookTimeout: parseInt(process.env.REMINDER_WEBHOOK_TIMEOUT || '10000'),
+  },
+  mail: {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: parseInt(process.env.SMTP_PORT || '1025'),
+    hostname: process.env.SMTP_HELO_NAME || 'localhost',
+    from: process.env.MAIL_FROM || 'lembretes@taskmanager.local',
+    timeout: parseInt(process.env.SMTP_TIMEOUT || '10000'),
+  },
+  attachments: {
+    directory: process.env.ATTACHMENT_DIR || './data/attachments',
+    maxFileSize: parseInt(process.env.ATTACHMENT_MAX_SIZE || '10485760'),
+    allowedTypes: (
+      process.env.ATTACHMENT_ALLOWED_TYPES ||
+      'application/pdf,image/png,image/jpeg,image/gif,image/webp,text/plain'
+    )
+      .split(',')
+      .map((type) => type.trim().toLowerCase())
+      .filter(Boolean),
+  },
 };
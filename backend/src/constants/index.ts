@@ -7,9 +7,9 @@
  */
 
 /**
- * @remarks
- * Constant modules will be exported here as needed.
- * Examples: HTTP status codes, error codes, business rules, etc.
+ * @rule {be-localization}
+ * Locales and the error catalog live in the shared package, which the web client renders
+ * the codes of the shared schemas with
  */
-
-export {};
+export { DEFAULT_LOCALE, ERROR_MESSAGES, LOCALES } from '@taskmanager/shared';
+export type { ErrorCode, Locale } from '@taskmanager/shared';
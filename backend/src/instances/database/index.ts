@@ -0,0 +1,57 @@
+/**
+ * @summary
+ * Embedded SQLite connection management.
+ * Opens a single shared connection to the database file configured in `config.database`.
+ *
+ * @module instances/database
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { config } from '@/config';
+
+let connection: Database.Database | null = null;
+
+/**
+ * @summary
+ * Returns the shared database connection, opening it on first use
+ *
+ * @function getDatabase
+ * @module instances/database
+ *
+ * @returns {Database.Database} Open SQLite connection
+ */
+export function getDatabase(): Database.Database {
+  if (!connection) {
+    /**
+     * @rule {be-database-connection}
+     * Ensure the parent directory of the database file exists
+     */
+    if (config.database.filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(config.database.filename)), { recursive: true });
+    }
+
+    connection = new Database(config.database.filename);
+    connection.pragma('journal_mode = WAL');
+    connection.pragma('foreign_keys = ON');
+  }
+
+  return connection;
+}
+
+/**
+ * @summary
+ * Closes the shared database connection if it is open
+ *
+ * @function closeDatabase
+ * @module instances/database
+ *
+ * @returns {void}
+ */
+export function closeDatabase(): void {
+  if (connection) {
+    connection.close();
+    connection = null;
+  }
+}
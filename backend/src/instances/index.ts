@@ -6,10 +6,5 @@
  * @module instances
  */
 
-/**
- * @remarks
- * Service instances will be exported here as needed.
- * Examples: database connections, external API clients, etc.
- */
-
-export {};
+export * from './database';
+export * from './mail';
@@ -0,0 +1,124 @@
+/**
+ * @summary
+ * Plain SMTP client for outgoing e-mail.
+ * Talks to the relay configured in `config.mail`, typically a local stand-in such as
+ * Mailpit or MailHog in development, without authentication or TLS.
+ *
+ * @module instances/mail
+ */
+
+import net from 'net';
+import { config } from '@/config';
+
+/**
+ * @interface MailMessage
+ * @description Plain-text e-mail message
+ *
+ * @property {string} to - Recipient address
+ * @property {string} subject - Subject line
+ * @property {string} text - Message body
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * @summary
+ * Sends a plain-text e-mail through the configured SMTP relay
+ *
+ * @function sendMail
+ * @module instances/mail
+ *
+ * @param {MailMessage} message - Message to send
+ *
+ * @returns {Promise<void>}
+ *
+ * @throws {Error} When the relay cannot be reached, rejects a command or does not answer in time
+ */
+export function sendMail(message: MailMessage): Promise<void> {
+  const encodedSubject = `=?UTF-8?B?${Buffer.from(message.subject).toString('base64')}?=`;
+  const body = message.text
+    .split(/\r?\n/)
+    .map((line) => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+
+  const data = [
+    `From: ${config.mail.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodedSubject}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    body,
+    '.',
+  ].join('\r\n');
+
+  /**
+   * @rule {be-mail-delivery}
+   * Each step waits for the relay reply and expects its success code
+   */
+  const steps: Array<{ command: string | null; expected: number }> = [
+    { command: null, expected: 220 },
+    { command: `EHLO ${config.mail.hostname}`, expected: 250 },
+    { command: `MAIL FROM:<${config.mail.from}>`, expected: 250 },
+    { command: `RCPT TO:<${message.to}>`, expected: 250 },
+    { command: 'DATA', expected: 354 },
+    { command: data, expected: 250 },
+    { command: 'QUIT', expected: 221 },
+  ];
+
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host: config.mail.host, port: config.mail.port });
+    let buffer = '';
+    let step = 0;
+
+    const fail = (error: Error) => {
+      socket.destroy();
+      reject(error);
+    };
+
+    const send = () => {
+      const { command } = steps[step];
+      if (command !== null) {
+        socket.write(`${command}\r\n`);
+      }
+    };
+
+    socket.setEncoding('utf8');
+    socket.setTimeout(config.mail.timeout, () => fail(new Error('smtpTimeout')));
+    socket.on('error', fail);
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+
+      /**
+       * @rule {be-mail-delivery}
+       * A reply is complete when its last line has a space after the code
+       */
+      const lines = buffer.split('\r\n');
+      const lastLine = lines[lines.length - 2];
+      if (lastLine === undefined || lastLine[3] === '-') {
+        return;
+      }
+      buffer = '';
+
+      const code = parseInt(lastLine.slice(0, 3));
+      if (code !== steps[step].expected) {
+        fail(new Error(`SMTP ${lastLine}`));
+        return;
+      }
+
+      step += 1;
+      if (step === steps.length) {
+        socket.end();
+        resolve();
+        return;
+      }
+      send();
+    });
+  });
+}
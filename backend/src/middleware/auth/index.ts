@@ -0,0 +1,119 @@
+/**
+ * @summary
+ * Authentication middleware for protected routes.
+ * Resolves the request-scoped user from the Bearer access token or a trusted proxy header.
+ *
+ * @module middleware/auth
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { config } from '@/config';
+import { AuthUser, userVerifyToken, userGet } from '@/services/user';
+import { UnauthorizedError } from '@/utils/errors';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+/**
+ * @summary
+ * Extracts the token from an `Authorization: Bearer <token>` header
+ *
+ * @function extractBearerToken
+ * @module middleware/auth
+ *
+ * @param {Request} req - Express request object
+ *
+ * @returns {string | null} Token or null when the header is missing or malformed
+ */
+export function extractBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+
+  if (!header || !header.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const token = header.slice('Bearer '.length).trim();
+  return token || null;
+}
+
+/**
+ * @summary
+ * Returns the user resolved by `authMiddleware` for the current request
+ *
+ * @function getRequestUser
+ * @module middleware/auth
+ *
+ * @param {Request} req - Express request object
+ *
+ * @returns {AuthUser} Authenticated user
+ *
+ * @throws {UnauthorizedError} When the request was not authenticated
+ */
+export function getRequestUser(req: Request): AuthUser {
+  if (!req.user) {
+    throw new UnauthorizedError('tokenAusente');
+  }
+  return req.user;
+}
+
+/**
+ * @summary
+ * Rejects requests without a valid identity and exposes the user as `req.user`
+ *
+ * @function authMiddleware
+ * @module middleware/auth
+ *
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ *
+ * @returns {Promise<void>}
+ */
+export async function authMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const token = extractBearerToken(req);
+
+    /**
+     * @rule {be-authentication}
+     * Without a token, accept the user id forwarded by a trusted proxy when configured
+     */
+    if (!token && config.security.trustedUserHeader) {
+      const trustedUserId = req.headers[config.security.trustedUserHeader];
+
+      if (typeof trustedUserId === 'string' && trustedUserId) {
+        const user = await userGet(trustedUserId);
+
+        if (!user) {
+          return next(new UnauthorizedError('usuarioInvalido'));
+        }
+
+        req.user = user;
+        return next();
+      }
+    }
+
+    if (!token) {
+      return next(new UnauthorizedError('tokenAusente'));
+    }
+
+    const user = await userVerifyToken(token);
+
+    if (!user) {
+      return next(new UnauthorizedError('tokenInvalido'));
+    }
+
+    req.user = user;
+    next();
+  } catch (error: any) {
+    next(error);
+  }
+}
@@ -1,12 +1,17 @@
 /**
  * @summary
  * Global error handling middleware for Express application.
- * Catches and formats all errors with appropriate HTTP status codes.
+ * Catches and formats all errors with appropriate HTTP status codes, answering with the stable
+ * error code and its message in the locale of the user.
  *
  * @module middleware/error
  */
 
 import { Request, Response, NextFunction } from 'express';
+import { ZodError } from 'zod';
+import { ErrorCode, Locale } from '@/constants';
+import { DomainError } from '@/utils/errors';
+import { formatErrorMessage, isErrorCode, resolveLocale } from '@/utils/i18n';
 
 /**
  * @interface ErrorResponse
@@ -29,6 +34,162 @@ interface ErrorResponse {
   timestamp: string;
 }
 
+/**
+ * @interface ErrorDescription
+ * @description HTTP status and response body fields of a caught error
+ */
+interface ErrorDescription {
+  statusCode: number;
+  code: string;
+  message: string;
+  details?: any;
+}
+
+/**
+ * @interface IssueDescription
+ * @description Validation issue as sent to the client
+ *
+ * @property {PropertyKey[]} path - Path of the field within the validated input
+ * @property {string} code - Zod issue code, e.g. `too_big`
+ * @property {ErrorCode} errorCode - Catalog code of the message
+ * @property {string} message - Localized message
+ * @property {number} [maximum] - Limit the field exceeds
+ * @property {number} [minimum] - Limit the field falls short of
+ */
+interface IssueDescription {
+  path: PropertyKey[];
+  code: string;
+  errorCode: ErrorCode;
+  message: string;
+  maximum?: number;
+  minimum?: number;
+}
+
+/**
+ * @rule {be-error-handling}
+ * Catalog codes of the errors Express body parsing reports, by their `type`
+ */
+const REQUEST_ERROR_CODES: Record<string, ErrorCode> = {
+  'entity.parse.failed': 'jsonInvalido',
+  'entity.too.large': 'corpoMuitoGrande',
+  'parameters.too.many': 'corpoMuitoGrande',
+  'encoding.unsupported': 'codificacaoNaoSuportada',
+  'charset.unsupported': 'codificacaoNaoSuportada',
+};
+
+/**
+ * @rule {be-error-handling}
+ * Catalog codes of the issues a schema reports without a message of its own; they name the field
+ */
+const FIELD_ISSUE_CODES: ErrorCode[] = [
+  'campoObrigatorio',
+  'campoTipoInvalido',
+  'campoInvalido',
+  'campoAbaixoDoMinimo',
+  'campoAcimaDoMaximo',
+];
+
+/**
+ * @summary
+ * Describes a validation issue with its message in the locale of the user
+ *
+ * @function describeIssue
+ * @module middleware/error
+ *
+ * @param {any} issue - Zod issue
+ * @param {Locale} locale - Locale of the message
+ *
+ * @returns {IssueDescription} Issue without the zod wording
+ */
+function describeIssue(issue: any, locale: Locale): IssueDescription {
+  const path: PropertyKey[] = issue.path ?? [];
+  const maximum = issue.maximum !== undefined ? Number(issue.maximum) : undefined;
+  const minimum = issue.minimum !== undefined ? Number(issue.minimum) : undefined;
+
+  /**
+   * @rule {be-error-handling}
+   * Schema messages are catalog codes; an issue about the input as a whole, or whose message
+   * is outside the catalog, gets the generic validation message
+   */
+  const errorCode: ErrorCode =
+    isErrorCode(issue.message) && (path.length > 0 || !FIELD_ISSUE_CODES.includes(issue.message))
+      ? issue.message
+      : 'VALIDATION_ERROR';
+
+  return {
+    path,
+    code: issue.code,
+    errorCode,
+    message: formatErrorMessage(errorCode, locale, {
+      campo: path.join('.'),
+      ...(maximum !== undefined && { max: maximum }),
+      ...(minimum !== undefined && { min: minimum }),
+    }),
+    ...(maximum !== undefined && { maximum }),
+    ...(minimum !== undefined && { minimum }),
+  };
+}
+
+/**
+ * @summary
+ * Describes a caught error: request validation failures, body parsing failures and domain
+ * errors with their own status and code, anything else as an internal error
+ *
+ * @function describeError
+ * @module middleware/error
+ *
+ * @param {any} err - Caught error
+ * @param {Locale} locale - Locale of the message
+ *
+ * @returns {ErrorDescription} Status, code, localized message and details of the error
+ */
+function describeError(err: any, locale: Locale): ErrorDescription {
+  /**
+   * @rule {be-error-handling}
+   * Every issue carries its localized message; the first one is the message of the error
+   */
+  if (err instanceof ZodError) {
+    const issues = err.issues.map((issue) => describeIssue(issue, locale));
+
+    return {
+      statusCode: 400,
+      code: 'VALIDATION_ERROR',
+      message: issues[0]?.message ?? formatErrorMessage('VALIDATION_ERROR', locale),
+      details: issues,
+    };
+  }
+
+  if (err instanceof DomainError) {
+    return {
+      statusCode: err.statusCode,
+      code: err.code,
+      message: formatErrorMessage(err.code, locale, err.params),
+      details: err.details,
+    };
+  }
+
+  /**
+   * @rule {be-error-handling}
+   * Other client errors, such as a malformed body, answer with a catalog code and never with
+   * the text of the error
+   */
+  const statusCode = err.statusCode || err.status || 500;
+
+  if (statusCode < 500) {
+    const code: ErrorCode =
+      REQUEST_ERROR_CODES[err.type] ??
+      (statusCode === 400 ? 'VALIDATION_ERROR' : 'requisicaoInvalida');
+
+    return { statusCode, code, message: formatErrorMessage(code, locale) };
+  }
+
+  return {
+    statusCode,
+    code: 'INTERNAL_SERVER_ERROR',
+    message: formatErrorMessage('INTERNAL_SERVER_ERROR', locale),
+  };
+}
+
 /**
  * @summary
  * Express error handling middleware
@@ -44,16 +205,19 @@ interface ErrorResponse {
  * @returns {void}
  */
 export function errorMiddleware(err: any, req: Request, res: Response, next: NextFunction): void {
-  const statusCode = err.statusCode || 500;
-  const errorCode = err.code || 'INTERNAL_SERVER_ERROR';
-  const message = err.message || 'An unexpected error occurred';
+  /**
+   * @rule {be-localization}
+   * The language chosen by the user wins over the one the client asks for
+   */
+  const locale = resolveLocale(req.user?.idioma, req.headers['accept-language']);
+  const { statusCode, code, message, details } = describeError(err, locale);
 
   const errorResponse: ErrorResponse = {
     success: false,
     error: {
-      code: errorCode,
-      message: message,
-      ...(err.details && { details: err.details }),
+      code,
+      message,
+      ...(details && { details }),
     },
     timestamp: new Date().toISOString(),
   };
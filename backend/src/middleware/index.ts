@@ -6,5 +6,6 @@
  * @module middleware
  */
 
+export { authMiddleware } from './auth';
 export { errorMiddleware } from './error';
 export { notFoundMiddleware } from './notFound';
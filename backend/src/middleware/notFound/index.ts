@@ -1,12 +1,13 @@
 /**
  * @summary
  * 404 Not Found middleware for handling undefined routes.
- * Returns standardized error response for non-existent endpoints.
+ * Returns standardized error response for non-existent endpoints, in the locale of the user.
  *
  * @module middleware/notFound
  */
 
 import { Request, Response } from 'express';
+import { formatErrorMessage, resolveLocale } from '@/utils/i18n';
 
 /**
  * @summary
@@ -21,11 +22,20 @@ import { Request, Response } from 'express';
  * @returns {void}
  */
 export function notFoundMiddleware(req: Request, res: Response): void {
+  /**
+   * @rule {be-localization}
+   * The language chosen by the user wins over the one the client asks for
+   */
+  const locale = resolveLocale(req.user?.idioma, req.headers['accept-language']);
+
   res.status(404).json({
     success: false,
     error: {
       code: 'ROUTE_NOT_FOUND',
-      message: `Route ${req.method} ${req.path} not found`,
+      message: formatErrorMessage('ROUTE_NOT_FOUND', locale, {
+        method: req.method,
+        path: req.path,
+      }),
       path: req.path,
       method: req.method,
     },
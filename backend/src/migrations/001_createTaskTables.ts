@@ -0,0 +1,51 @@
+/**
+ * @summary
+ * Creates the task and task history tables.
+ * Uses IF NOT EXISTS so databases created before migrations were introduced are adopted as-is.
+ *
+ * @module migrations/001_createTaskTables
+ */
+
+import { Migration } from '@/services/migration/migrationTypes';
+
+export const migration: Migration = {
+  version: 1,
+  name: 'createTaskTables',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS task (
+        id TEXT PRIMARY KEY,
+        titulo TEXT NOT NULL,
+        descricao TEXT,
+        dataVencimento TEXT,
+        horaVencimento TEXT,
+        importancia TEXT NOT NULL,
+        status TEXT NOT NULL,
+        dataCriacao TEXT NOT NULL,
+        dataAtualizacao TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS task_history (
+        id TEXT PRIMARY KEY,
+        idTarefa TEXT NOT NULL,
+        dataAlteracao TEXT NOT NULL,
+        tipoAlteracao TEXT NOT NULL,
+        campoAlterado TEXT,
+        valorAnterior TEXT,
+        valorNovo TEXT,
+        origemAlteracao TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_task_history_idTarefa ON task_history (idTarefa);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_task_history_idTarefa;
+      DROP TABLE IF EXISTS task_history;
+      DROP TABLE IF EXISTS task;
+    `);
+  },
+};
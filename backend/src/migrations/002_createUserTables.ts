@@ -0,0 +1,43 @@
+/**
+ * @summary
+ * Creates the user account and session tables.
+ *
+ * @module migrations/002_createUserTables
+ */
+
+import { Migration } from '@/services/migration/migrationTypes';
+
+export const migration: Migration = {
+  version: 2,
+  name: 'createUserTables',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE user (
+        id TEXT PRIMARY KEY,
+        nome TEXT NOT NULL,
+        email TEXT NOT NULL UNIQUE,
+        senhaHash TEXT NOT NULL,
+        dataCriacao TEXT NOT NULL,
+        dataAtualizacao TEXT NOT NULL
+      );
+
+      CREATE TABLE user_session (
+        id TEXT PRIMARY KEY,
+        idUsuario TEXT NOT NULL REFERENCES user (id) ON DELETE CASCADE,
+        dataCriacao TEXT NOT NULL,
+        dataExpiracao TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_user_session_idUsuario ON user_session (idUsuario);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_user_session_idUsuario;
+      DROP TABLE IF EXISTS user_session;
+      DROP TABLE IF EXISTS user;
+    `);
+  },
+};
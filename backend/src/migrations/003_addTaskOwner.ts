@@ -0,0 +1,34 @@
+/**
+ * @summary
+ * Adds the owner user to tasks and task history.
+ * Rows created before ownership existed keep a null owner and are not visible to any user.
+ *
+ * @module migrations/003_addTaskOwner
+ */
+
+import { Migration } from '@/services/migration/migrationTypes';
+
+export const migration: Migration = {
+  version: 3,
+  name: 'addTaskOwner',
+
+  up(db) {
+    db.exec(`
+      ALTER TABLE task ADD COLUMN idUsuario TEXT;
+      ALTER TABLE task_history ADD COLUMN idUsuario TEXT;
+
+      CREATE INDEX idx_task_idUsuario ON task (idUsuario);
+      CREATE INDEX idx_task_history_idUsuario ON task_history (idUsuario);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_task_history_idUsuario;
+      DROP INDEX IF EXISTS idx_task_idUsuario;
+
+      ALTER TABLE task_history DROP COLUMN idUsuario;
+      ALTER TABLE task DROP COLUMN idUsuario;
+    `);
+  },
+};
@@ -0,0 +1,31 @@
+/**
+ * @summary
+ * Adds recurrence rule and series tracking columns to tasks.
+ *
+ * @module migrations/004_addTaskRecurrence
+ */
+
+import { Migration } from '@/services/migration/migrationTypes';
+
+export const migration: Migration = {
+  version: 4,
+  name: 'addTaskRecurrence',
+
+  up(db) {
+    db.exec(`
+      ALTER TABLE task ADD COLUMN recorrencia TEXT;
+      ALTER TABLE task ADD COLUMN idSerie TEXT;
+      ALTER TABLE task ADD COLUMN ocorrencia INTEGER;
+      ALTER TABLE task ADD COLUMN idProximaOcorrencia TEXT;
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      ALTER TABLE task DROP COLUMN idProximaOcorrencia;
+      ALTER TABLE task DROP COLUMN ocorrencia;
+      ALTER TABLE task DROP COLUMN idSerie;
+      ALTER TABLE task DROP COLUMN recorrencia;
+    `);
+  },
+};
@@ -0,0 +1,45 @@
+/**
+ * @summary
+ * Creates the checklist item table and links child tasks to their parent task.
+ *
+ * @module migrations/005_createTaskChecklist
+ */
+
+import { Migration } from '@/services/migration/migrationTypes';
+
+export const migration: Migration = {
+  version: 5,
+  name: 'createTaskChecklist',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE task_checklist_item (
+        id TEXT PRIMARY KEY,
+        idUsuario TEXT NOT NULL,
+        idTarefa TEXT NOT NULL,
+        texto TEXT NOT NULL,
+        concluido INTEGER NOT NULL DEFAULT 0,
+        ordem INTEGER NOT NULL,
+        dataCriacao TEXT NOT NULL,
+        dataAtualizacao TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_task_checklist_item_idTarefa ON task_checklist_item (idUsuario, idTarefa);
+
+      ALTER TABLE task ADD COLUMN idTarefaPai TEXT;
+
+      CREATE INDEX idx_task_idTarefaPai ON task (idTarefaPai);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_task_idTarefaPai;
+
+      ALTER TABLE task DROP COLUMN idTarefaPai;
+
+      DROP INDEX IF EXISTS idx_task_checklist_item_idTarefa;
+      DROP TABLE IF EXISTS task_checklist_item;
+    `);
+  },
+};
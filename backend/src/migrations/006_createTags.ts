@@ -0,0 +1,49 @@
+/**
+ * @summary
+ * Creates the tag table and the task-to-tag assignment table.
+ *
+ * @module migrations/006_createTags
+ */
+
+import { Migration } from '@/services/migration/migrationTypes';
+
+export const migration: Migration = {
+  version: 6,
+  name: 'createTags',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE tag (
+        id TEXT PRIMARY KEY,
+        idUsuario TEXT NOT NULL,
+        nome TEXT NOT NULL,
+        cor TEXT NOT NULL,
+        dataCriacao TEXT NOT NULL,
+        dataAtualizacao TEXT NOT NULL
+      );
+
+      CREATE UNIQUE INDEX idx_tag_idUsuario_nome ON tag (idUsuario, nome COLLATE NOCASE);
+
+      CREATE TABLE task_tag (
+        idUsuario TEXT NOT NULL,
+        idTarefa TEXT NOT NULL,
+        idTag TEXT NOT NULL,
+        PRIMARY KEY (idTarefa, idTag)
+      );
+
+      CREATE INDEX idx_task_tag_idUsuario ON task_tag (idUsuario);
+      CREATE INDEX idx_task_tag_idTag ON task_tag (idTag);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_task_tag_idTag;
+      DROP INDEX IF EXISTS idx_task_tag_idUsuario;
+      DROP TABLE IF EXISTS task_tag;
+
+      DROP INDEX IF EXISTS idx_tag_idUsuario_nome;
+      DROP TABLE IF EXISTS tag;
+    `);
+  },
+};
@@ -0,0 +1,44 @@
+/**
+ * @summary
+ * Creates the project table and links tasks to an optional project.
+ *
+ * @module migrations/007_createProjects
+ */
+
+import { Migration } from '@/services/migration/migrationTypes';
+
+export const migration: Migration = {
+  version: 7,
+  name: 'createProjects',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE project (
+        id TEXT PRIMARY KEY,
+        idUsuario TEXT NOT NULL,
+        nome TEXT NOT NULL,
+        cor TEXT NOT NULL,
+        icone TEXT NOT NULL,
+        arquivado INTEGER NOT NULL DEFAULT 0,
+        dataCriacao TEXT NOT NULL,
+        dataAtualizacao TEXT NOT NULL
+      );
+
+      CREATE UNIQUE INDEX idx_project_idUsuario_nome ON project (idUsuario, nome COLLATE NOCASE);
+
+      ALTER TABLE task ADD COLUMN idProjeto TEXT;
+
+      CREATE INDEX idx_task_idProjeto ON task (idProjeto);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_task_idProjeto;
+      ALTER TABLE task DROP COLUMN idProjeto;
+
+      DROP INDEX IF EXISTS idx_project_idUsuario_nome;
+      DROP TABLE IF EXISTS project;
+    `);
+  },
+};
@@ -0,0 +1,36 @@
+/**
+ * @summary
+ * Creates the table of blocked-by links between tasks.
+ *
+ * @module migrations/008_createTaskDependencies
+ */
+
+import { Migration } from '@/services/migration/migrationTypes';
+
+export const migration: Migration = {
+  version: 8,
+  name: 'createTaskDependencies',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE task_dependency (
+        idUsuario TEXT NOT NULL,
+        idTarefa TEXT NOT NULL,
+        idTarefaBloqueadora TEXT NOT NULL,
+        dataCriacao TEXT NOT NULL,
+        PRIMARY KEY (idTarefa, idTarefaBloqueadora)
+      );
+
+      CREATE INDEX idx_task_dependency_idUsuario ON task_dependency (idUsuario);
+      CREATE INDEX idx_task_dependency_idTarefaBloqueadora ON task_dependency (idTarefaBloqueadora);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_task_dependency_idTarefaBloqueadora;
+      DROP INDEX IF EXISTS idx_task_dependency_idUsuario;
+      DROP TABLE IF EXISTS task_dependency;
+    `);
+  },
+};
@@ -0,0 +1,45 @@
+/**
+ * @summary
+ * Creates the time entry table and adds the estimated duration to tasks.
+ * At most one entry per user may be running (without an end) at a time.
+ *
+ * @module migrations/009_createTimeEntries
+ */
+
+import { Migration } from '@/services/migration/migrationTypes';
+
+export const migration: Migration = {
+  version: 9,
+  name: 'createTimeEntries',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE task_time_entry (
+        id TEXT PRIMARY KEY,
+        idUsuario TEXT NOT NULL,
+        idTarefa TEXT NOT NULL,
+        inicio TEXT NOT NULL,
+        fim TEXT,
+        nota TEXT,
+        dataCriacao TEXT NOT NULL,
+        dataAtualizacao TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_task_time_entry_idUsuario_idTarefa ON task_time_entry (idUsuario, idTarefa);
+      CREATE UNIQUE INDEX idx_task_time_entry_running ON task_time_entry (idUsuario)
+        WHERE fim IS NULL;
+
+      ALTER TABLE task ADD COLUMN duracaoEstimada INTEGER;
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      ALTER TABLE task DROP COLUMN duracaoEstimada;
+
+      DROP INDEX IF EXISTS idx_task_time_entry_running;
+      DROP INDEX IF EXISTS idx_task_time_entry_idUsuario_idTarefa;
+      DROP TABLE IF EXISTS task_time_entry;
+    `);
+  },
+};
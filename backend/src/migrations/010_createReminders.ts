@@ -0,0 +1,59 @@
+/**
+ * @summary
+ * Creates the task reminder table and the reminder delivery table.
+ * A reminder is delivered at most once per channel for each moment it fires.
+ *
+ * @module migrations/010_createReminders
+ */
+
+import { Migration } from '@/services/migration/migrationTypes';
+
+export const migration: Migration = {
+  version: 10,
+  name: 'createReminders',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE task_reminder (
+        idUsuario TEXT NOT NULL,
+        idTarefa TEXT NOT NULL,
+        ordem INTEGER NOT NULL,
+        antecedencia INTEGER,
+        dataLembrete TEXT,
+        PRIMARY KEY (idTarefa, ordem)
+      );
+
+      CREATE INDEX idx_task_reminder_idUsuario ON task_reminder (idUsuario);
+
+      CREATE TABLE reminder_delivery (
+        id TEXT PRIMARY KEY,
+        idUsuario TEXT NOT NULL,
+        idTarefa TEXT NOT NULL,
+        canal TEXT NOT NULL,
+        dataDisparo TEXT NOT NULL,
+        titulo TEXT NOT NULL,
+        mensagem TEXT NOT NULL,
+        status TEXT NOT NULL,
+        erro TEXT,
+        lida INTEGER NOT NULL DEFAULT 0,
+        dataCriacao TEXT NOT NULL,
+        dataEntrega TEXT
+      );
+
+      CREATE UNIQUE INDEX idx_reminder_delivery_disparo
+        ON reminder_delivery (idTarefa, canal, dataDisparo);
+      CREATE INDEX idx_reminder_delivery_idUsuario_canal ON reminder_delivery (idUsuario, canal);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_reminder_delivery_idUsuario_canal;
+      DROP INDEX IF EXISTS idx_reminder_delivery_disparo;
+      DROP TABLE IF EXISTS reminder_delivery;
+
+      DROP INDEX IF EXISTS idx_task_reminder_idUsuario;
+      DROP TABLE IF EXISTS task_reminder;
+    `);
+  },
+};
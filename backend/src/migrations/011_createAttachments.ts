@@ -0,0 +1,40 @@
+/**
+ * @summary
+ * Creates the task attachment table.
+ * File contents live in the attachment storage, addressed by their hash.
+ *
+ * @module migrations/011_createAttachments
+ */
+
+import { Migration } from '@/services/migration/migrationTypes';
+
+export const migration: Migration = {
+  version: 11,
+  name: 'createAttachments',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE task_attachment (
+        id TEXT PRIMARY KEY,
+        idUsuario TEXT NOT NULL,
+        idTarefa TEXT NOT NULL,
+        nome TEXT NOT NULL,
+        tipo TEXT NOT NULL,
+        tamanho INTEGER NOT NULL,
+        hash TEXT NOT NULL,
+        dataCriacao TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_task_attachment_idUsuario_idTarefa ON task_attachment (idUsuario, idTarefa);
+      CREATE INDEX idx_task_attachment_hash ON task_attachment (hash);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_task_attachment_hash;
+      DROP INDEX IF EXISTS idx_task_attachment_idUsuario_idTarefa;
+      DROP TABLE IF EXISTS task_attachment;
+    `);
+  },
+};
@@ -0,0 +1,38 @@
+/**
+ * @summary
+ * Creates the task comment table.
+ * Deleted comments keep their row, marked by `dataExclusao`, so threads keep their shape.
+ *
+ * @module migrations/012_createComments
+ */
+
+import { Migration } from '@/services/migration/migrationTypes';
+
+export const migration: Migration = {
+  version: 12,
+  name: 'createComments',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE task_comment (
+        id TEXT PRIMARY KEY,
+        idUsuario TEXT NOT NULL,
+        idTarefa TEXT NOT NULL,
+        idAutor TEXT NOT NULL,
+        corpo TEXT NOT NULL,
+        dataCriacao TEXT NOT NULL,
+        dataEdicao TEXT,
+        dataExclusao TEXT
+      );
+
+      CREATE INDEX idx_task_comment_idUsuario_idTarefa ON task_comment (idUsuario, idTarefa);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_task_comment_idUsuario_idTarefa;
+      DROP TABLE IF EXISTS task_comment;
+    `);
+  },
+};
@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import Database from 'better-sqlite3';
+import { migration } from './013_isoDueDates';
+import { config } from '@/config';
+
+interface TaskRow {
+  id: string;
+  dataVencimento: string | null;
+  [column: string]: unknown;
+}
+
+let db: Database.Database;
+
+const insertLegacyTask = (
+  id: string,
+  dataVencimento: string | null,
+  horaVencimento: string | null
+) =>
+  db
+    .prepare(
+      "INSERT INTO task (id, idUsuario, dataVencimento, horaVencimento) VALUES (?, 'u1', ?, ?)"
+    )
+    .run(id, dataVencimento, horaVencimento);
+
+const readTasks = () =>
+  (db.prepare('SELECT * FROM task ORDER BY id').all() as TaskRow[]).map(
+    ({ idUsuario, ...task }) => task
+  );
+
+const readHistory = () =>
+  db
+    .prepare(
+      `SELECT idUsuario, idTarefa, tipoAlteracao, campoAlterado, valorAnterior, valorNovo,
+         origemAlteracao
+       FROM task_history ORDER BY idTarefa`
+    )
+    .all();
+
+beforeEach(() => {
+  jest.replaceProperty(config.tasks, 'defaultTimeZone', 'America/Sao_Paulo');
+
+  db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE task (
+      id TEXT PRIMARY KEY,
+      idUsuario TEXT,
+      dataVencimento TEXT,
+      horaVencimento TEXT
+    );
+
+    CREATE TABLE task_history (
+      id TEXT PRIMARY KEY,
+      idUsuario TEXT,
+      idTarefa TEXT NOT NULL,
+      dataAlteracao TEXT NOT NULL,
+      tipoAlteracao TEXT NOT NULL,
+      campoAlterado TEXT,
+      valorAnterior TEXT,
+      valorNovo TEXT,
+      origemAlteracao TEXT NOT NULL
+    );
+  `);
+});
+
+afterEach(() => {
+  db.close();
+  jest.restoreAllMocks();
+});
+
+describe('013_isoDueDates up', () => {
+  it('turns DD/MM/YYYY dates and HH:MM times into instants of the default time zone', () => {
+    insertLegacyTask('1', '15/03/2024', '14:30');
+    insertLegacyTask('2', '15/03/2024', null);
+    insertLegacyTask('3', null, null);
+
+    migration.up(db);
+
+    expect(readTasks()).toEqual([
+      {
+        id: '1',
+        dataVencimento: '2024-03-15T17:30:00.000Z',
+        fusoHorario: 'America/Sao_Paulo',
+        diaInteiro: 0,
+      },
+      {
+        id: '2',
+        dataVencimento: '2024-03-15T03:00:00.000Z',
+        fusoHorario: 'America/Sao_Paulo',
+        diaInteiro: 1,
+      },
+      { id: '3', dataVencimento: null, fusoHorario: 'America/Sao_Paulo', diaInteiro: 0 },
+    ]);
+  });
+
+  it('keeps the date of a task with an unreadable time, due all day', () => {
+    insertLegacyTask('1', '01/01/2024', 'meio-dia');
+    insertLegacyTask('2', '01/01/2024', '25:00');
+
+    migration.up(db);
+
+    expect(readTasks()).toEqual([
+      expect.objectContaining({ dataVencimento: '2024-01-01T03:00:00.000Z', diaInteiro: 1 }),
+      expect.objectContaining({ dataVencimento: '2024-01-01T03:00:00.000Z', diaInteiro: 1 }),
+    ]);
+    expect(readHistory()).toEqual([
+      expect.objectContaining({
+        idTarefa: '1',
+        campoAlterado: 'horaVencimento',
+        valorAnterior: 'meio-dia',
+      }),
+      expect.objectContaining({
+        idTarefa: '2',
+        campoAlterado: 'horaVencimento',
+        valorAnterior: '25:00',
+      }),
+    ]);
+  });
+
+  it('clears impossible and unreadable dates instead of rolling them over, recording them', () => {
+    insertLegacyTask('1', '31/02/2023', null);
+    insertLegacyTask('2', '10/13/2024', '10:00');
+    insertLegacyTask('3', 'amanhã', null);
+    insertLegacyTask('4', '29/02/2024', null);
+
+    migration.up(db);
+
+    expect(readTasks().map((task) => task.dataVencimento)).toEqual([
+      null,
+      null,
+      null,
+      '2024-02-29T03:00:00.000Z',
+    ]);
+    expect(readHistory()).toEqual(
+      [
+        ['1', '31/02/2023'],
+        ['2', '10/13/2024'],
+        ['3', 'amanhã'],
+      ].map(([idTarefa, valorAnterior]) => ({
+        idUsuario: 'u1',
+        idTarefa,
+        tipoAlteracao: 'Edição',
+        campoAlterado: 'dataVencimento',
+        valorAnterior,
+        valorNovo: null,
+        origemAlteracao: 'Automática',
+      }))
+    );
+  });
+});
+
+describe('013_isoDueDates down', () => {
+  it('restores the legacy columns from the instant in the time zone of each task', () => {
+    insertLegacyTask('1', '15/03/2024', '14:30');
+    insertLegacyTask('2', '15/03/2024', null);
+    insertLegacyTask('3', null, null);
+    migration.up(db);
+    db.prepare("UPDATE task SET fusoHorario = 'Asia/Tokyo' WHERE id = '1'").run();
+
+    migration.down(db);
+
+    expect(readTasks()).toEqual([
+      { id: '1', dataVencimento: '16/03/2024', horaVencimento: '02:30' },
+      { id: '2', dataVencimento: '15/03/2024', horaVencimento: null },
+      { id: '3', dataVencimento: null, horaVencimento: null },
+    ]);
+  });
+
+  it('round-trips legacy due dates', () => {
+    insertLegacyTask('1', '01/12/2023', '08:05');
+    insertLegacyTask('2', '29/02/2024', null);
+
+    migration.up(db);
+    migration.down(db);
+
+    expect(readTasks()).toEqual([
+      { id: '1', dataVencimento: '01/12/2023', horaVencimento: '08:05' },
+      { id: '2', dataVencimento: '29/02/2024', horaVencimento: null },
+    ]);
+  });
+});
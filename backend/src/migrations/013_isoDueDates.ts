@@ -0,0 +1,153 @@
+/**
+ * @summary
+ * Replaces the DD/MM/YYYY due date and HH:MM due time of tasks with an ISO 8601 due instant, its
+ * IANA time zone and an all-day flag.
+ * Existing due dates were read in the server's local time, so they are converted in
+ * DEFAULT_TIMEZONE, which defaults to that zone. Unreadable or impossible dates such as 31/02 are
+ * cleared, and an unreadable time leaves the task due all day; each discarded value is kept in the
+ * task history so the user can set it again.
+ *
+ * @module migrations/013_isoDueDates
+ */
+
+import Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import { Migration } from '@/services/migration/migrationTypes';
+import { config } from '@/config';
+import { getZonedParts, zonedTimeToUtc } from '@/utils/date';
+
+interface LegacyDueDateRow {
+  id: string;
+  idUsuario: string | null;
+  dataVencimento: string;
+  horaVencimento: string | null;
+}
+
+interface DueDateRow {
+  id: string;
+  dataVencimento: string;
+  fusoHorario: string;
+  diaInteiro: number;
+}
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * @rule {be-task-due-date}
+ * A legacy DD/MM/YYYY date is read only when the day exists in its month
+ */
+function parseLegacyDate(value: string): { year: number; month: number; day: number } | null {
+  const match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value.trim());
+  if (!match) return null;
+
+  const [day, month, year] = match.slice(1).map(Number);
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth) return null;
+
+  return { year, month, day };
+}
+
+function parseLegacyTime(value: string): { hours: number; minutes: number } | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+
+  const [hours, minutes] = match.slice(1).map(Number);
+  if (hours > 23 || minutes > 59) return null;
+
+  return { hours, minutes };
+}
+
+/**
+ * @rule {be-task-due-date}
+ * A legacy value the migration cannot keep is recorded as an automatic edit of the task
+ */
+function recordDiscardedValue(
+  db: Database.Database,
+  row: LegacyDueDateRow,
+  campoAlterado: string,
+  valorAnterior: string
+): void {
+  db.prepare(
+    `INSERT INTO task_history (id, idUsuario, idTarefa, dataAlteracao, tipoAlteracao, campoAlterado,
+       valorAnterior, valorNovo, origemAlteracao)
+     VALUES (?, ?, ?, ?, 'Edição', ?, ?, NULL, 'Automática')`
+  ).run(uuidv4(), row.idUsuario, row.id, new Date().toISOString(), campoAlterado, valorAnterior);
+}
+
+export const migration: Migration = {
+  version: 13,
+  name: 'isoDueDates',
+
+  up(db) {
+    const fusoHorario = config.tasks.defaultTimeZone;
+
+    db.exec(`
+      ALTER TABLE task ADD COLUMN fusoHorario TEXT NOT NULL DEFAULT 'UTC';
+      ALTER TABLE task ADD COLUMN diaInteiro INTEGER NOT NULL DEFAULT 0;
+    `);
+
+    const update = db.prepare(
+      'UPDATE task SET dataVencimento = ?, fusoHorario = ?, diaInteiro = ? WHERE id = ?'
+    );
+    db.prepare('UPDATE task SET fusoHorario = ?').run(fusoHorario);
+
+    const rows = db
+      .prepare(
+        `SELECT id, idUsuario, dataVencimento, horaVencimento FROM task
+          WHERE dataVencimento IS NOT NULL`
+      )
+      .all() as LegacyDueDateRow[];
+
+    for (const row of rows) {
+      const date = parseLegacyDate(row.dataVencimento);
+
+      if (!date) {
+        update.run(null, fusoHorario, 0, row.id);
+        recordDiscardedValue(db, row, 'dataVencimento', row.dataVencimento);
+        continue;
+      }
+
+      const time = row.horaVencimento ? parseLegacyTime(row.horaVencimento) : null;
+
+      if (row.horaVencimento && !time) {
+        recordDiscardedValue(db, row, 'horaVencimento', row.horaVencimento);
+      }
+
+      const dueDate = zonedTimeToUtc(
+        { ...date, hours: time?.hours ?? 0, minutes: time?.minutes ?? 0, seconds: 0 },
+        fusoHorario
+      );
+      update.run(dueDate.toISOString(), fusoHorario, time ? 0 : 1, row.id);
+    }
+
+    db.exec('ALTER TABLE task DROP COLUMN horaVencimento;');
+  },
+
+  down(db) {
+    db.exec('ALTER TABLE task ADD COLUMN horaVencimento TEXT;');
+
+    const update = db.prepare(
+      'UPDATE task SET dataVencimento = ?, horaVencimento = ? WHERE id = ?'
+    );
+    const rows = db
+      .prepare(
+        `SELECT id, dataVencimento, fusoHorario, diaInteiro FROM task
+          WHERE dataVencimento IS NOT NULL`
+      )
+      .all() as DueDateRow[];
+
+    for (const row of rows) {
+      const parts = getZonedParts(new Date(row.dataVencimento), row.fusoHorario);
+      update.run(
+        `${pad(parts.day)}/${pad(parts.month)}/${parts.year}`,
+        row.diaInteiro ? null : `${pad(parts.hours)}:${pad(parts.minutes)}`,
+        row.id
+      );
+    }
+
+    db.exec(`
+      ALTER TABLE task DROP COLUMN diaInteiro;
+      ALTER TABLE task DROP COLUMN fusoHorario;
+    `);
+  },
+};
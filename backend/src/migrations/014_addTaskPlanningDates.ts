@@ -0,0 +1,28 @@
+/**
+ * @summary
+ * Adds the start date and the scheduled date to tasks.
+ * Both hold the start of their day in the task's time zone; existing tasks get neither.
+ *
+ * @module migrations/014_addTaskPlanningDates
+ */
+
+import { Migration } from '@/services/migration/migrationTypes';
+
+export const migration: Migration = {
+  version: 14,
+  name: 'addTaskPlanningDates',
+
+  up(db) {
+    db.exec(`
+      ALTER TABLE task ADD COLUMN dataInicio TEXT;
+      ALTER TABLE task ADD COLUMN dataAgendada TEXT;
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      ALTER TABLE task DROP COLUMN dataAgendada;
+      ALTER TABLE task DROP COLUMN dataInicio;
+    `);
+  },
+};
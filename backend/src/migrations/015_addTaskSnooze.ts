@@ -0,0 +1,21 @@
+/**
+ * @summary
+ * Adds the moment a snoozed task comes back to the task list.
+ *
+ * @module migrations/015_addTaskSnooze
+ */
+
+import { Migration } from '@/services/migration/migrationTypes';
+
+export const migration: Migration = {
+  version: 15,
+  name: 'addTaskSnooze',
+
+  up(db) {
+    db.exec('ALTER TABLE task ADD COLUMN sonecaAte TEXT;');
+  },
+
+  down(db) {
+    db.exec('ALTER TABLE task DROP COLUMN sonecaAte;');
+  },
+};
@@ -0,0 +1,21 @@
+/**
+ * @summary
+ * Adds the number of times a task was rescheduled.
+ *
+ * @module migrations/016_addTaskPostponements
+ */
+
+import { Migration } from '@/services/migration/migrationTypes';
+
+export const migration: Migration = {
+  version: 16,
+  name: 'addTaskPostponements',
+
+  up(db) {
+    db.exec('ALTER TABLE task ADD COLUMN adiamentos INTEGER NOT NULL DEFAULT 0;');
+  },
+
+  down(db) {
+    db.exec('ALTER TABLE task DROP COLUMN adiamentos;');
+  },
+};
@@ -0,0 +1,22 @@
+/**
+ * @summary
+ * Adds the moment a task was moved to the trash. Deleted tasks keep their row, marked by
+ * `dataExclusao`, until the retention period ends; reverting brings the tasks in the trash back.
+ *
+ * @module migrations/017_addTaskTrash
+ */
+
+import { Migration } from '@/services/migration/migrationTypes';
+
+export const migration: Migration = {
+  version: 17,
+  name: 'addTaskTrash',
+
+  up(db) {
+    db.exec('ALTER TABLE task ADD COLUMN dataExclusao TEXT;');
+  },
+
+  down(db) {
+    db.exec('ALTER TABLE task DROP COLUMN dataExclusao;');
+  },
+};
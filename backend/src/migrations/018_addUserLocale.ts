@@ -0,0 +1,22 @@
+/**
+ * @summary
+ * Adds the language a user prefers the API to answer in. Existing users keep following the
+ * language their client asks for.
+ *
+ * @module migrations/018_addUserLocale
+ */
+
+import { Migration } from '@/services/migration/migrationTypes';
+
+export const migration: Migration = {
+  version: 18,
+  name: 'addUserLocale',
+
+  up(db) {
+    db.exec('ALTER TABLE user ADD COLUMN idioma TEXT;');
+  },
+
+  down(db) {
+    db.exec('ALTER TABLE user DROP COLUMN idioma;');
+  },
+};
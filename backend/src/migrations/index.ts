@@ -0,0 +1,48 @@
+/**
+ * @summary
+ * Ordered registry of database schema migrations.
+ * New migrations are added as `NNN_description.ts` files and appended here.
+ *
+ * @module migrations
+ */
+
+import { Migration } from '@/services/migration/migrationTypes';
+import { migration as createTaskTables } from './001_createTaskTables';
+import { migration as createUserTables } from './002_createUserTables';
+import { migration as addTaskOwner } from './003_addTaskOwner';
+import { migration as addTaskRecurrence } from './004_addTaskRecurrence';
+import { migration as createTaskChecklist } from './005_createTaskChecklist';
+import { migration as createTags } from './006_createTags';
+import { migration as createProjects } from './007_createProjects';
+import { migration as createTaskDependencies } from './008_createTaskDependencies';
+import { migration as createTimeEntries } from './009_createTimeEntries';
+import { migration as createReminders } from './010_createReminders';
+import { migration as createAttachments } from './011_createAttachments';
+import { migration as createComments } from './012_createComments';
+import { migration as isoDueDates } from './013_isoDueDates';
+import { migration as addTaskPlanningDates } from './014_addTaskPlanningDates';
+import { migration as addTaskSnooze } from './015_addTaskSnooze';
+import { migration as addTaskPostponements } from './016_addTaskPostponements';
+import { migration as addTaskTrash } from './017_addTaskTrash';
+import { migration as addUserLocale } from './018_addUserLocale';
+
+export const migrations: Migration[] = [
+  createTaskTables,
+  createUserTables,
+  addTaskOwner,
+  addTaskRecurrence,
+  createTaskChecklist,
+  createTags,
+  createProjects,
+  createTaskDependencies,
+  createTimeEntries,
+  createReminders,
+  createAttachments,
+  createComments,
+  isoDueDates,
+  addTaskPlanningDates,
+  addTaskSnooze,
+  addTaskPostponements,
+  addTaskTrash,
+  addUserLocale,
+];
@@ -7,6 +7,8 @@
  */
 
 import { Router } from 'express';
+import swaggerUi from 'swagger-ui-express';
+import { config } from '@/config';
 import v1Routes from './v1';
 
 const router = Router();
@@ -17,4 +19,16 @@ const router = Router();
  */
 router.use('/v1', v1Routes);
 
+/**
+ * @rule {be-api-documentation}
+ * Interactive documentation of the current API version
+ */
+router.use(
+  '/docs',
+  swaggerUi.serve,
+  swaggerUi.setup(undefined, {
+    swaggerOptions: { url: `/api/${config.api.version}/openapi.json` },
+  })
+);
+
 export default router;
@@ -7,13 +7,17 @@
  */
 
 import { Router } from 'express';
+import * as authController from '@/api/v1/external/auth/controller';
 
 const router = Router();
 
 /**
- * @remarks
- * External routes will be added here as features are implemented.
- * Examples: authentication, public data access, webhooks, etc.
+ * @rule {be-route-configuration}
+ * Authentication routes
  */
+router.post('/auth/register', authController.registerHandler);
+router.post('/auth/login', authController.loginHandler);
+router.post('/auth/refresh', authController.refreshHandler);
+router.post('/auth/logout', authController.logoutHandler);
 
 export default router;
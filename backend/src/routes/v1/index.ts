@@ -6,9 +6,10 @@
  * @module routes/v1
  */
 
-import { Router } from 'express';
+import { Request, Response, Router } from 'express';
 import externalRoutes from './externalRoutes';
 import internalRoutes from './internalRoutes';
+import { getOpenApiDocument } from './openapi';
 
 const router = Router();
 
@@ -24,4 +25,12 @@ router.use('/external', externalRoutes);
  */
 router.use('/internal', internalRoutes);
 
+/**
+ * @rule {be-api-documentation}
+ * OpenAPI document generated from the route schemas - public access
+ */
+router.get('/openapi.json', (req: Request, res: Response) => {
+  res.json(getOpenApiDocument());
+});
+
 export default router;
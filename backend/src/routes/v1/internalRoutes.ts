@@ -7,21 +7,45 @@
  */
 
 import { Router } from 'express';
+import { authMiddleware } from '@/middleware/auth';
 import * as taskController from '@/api/v1/internal/task/controller';
 import * as taskHistoryController from '@/api/v1/internal/task-history/controller';
+import * as taskSubtaskController from '@/api/v1/internal/task-subtask/controller';
+import * as taskDependencyController from '@/api/v1/internal/task-dependency/controller';
+import * as taskTimeEntryController from '@/api/v1/internal/task-time-entry/controller';
+import * as taskAttachmentController from '@/api/v1/internal/task-attachment/controller';
+import * as taskCommentController from '@/api/v1/internal/task-comment/controller';
+import * as tagController from '@/api/v1/internal/tag/controller';
+import * as projectController from '@/api/v1/internal/project/controller';
+import * as notificationController from '@/api/v1/internal/notification/controller';
+import * as userController from '@/api/v1/internal/user/controller';
 
 const router = Router();
 
+/**
+ * @rule {be-authentication}
+ * Every internal route requires a valid access token
+ */
+router.use(authMiddleware);
+
 /**
  * @rule {be-route-configuration}
  * Task management routes
  */
 router.get('/task', taskController.listHandler);
 router.post('/task', taskController.createHandler);
+router.get('/task/most-postponed', taskController.mostPostponedHandler);
+router.get('/task/trash', taskController.trashHandler);
 router.get('/task/:id', taskController.getHandler);
 router.put('/task/:id', taskController.updateHandler);
 router.delete('/task/:id', taskController.deleteHandler);
 router.patch('/task/:id/status', taskController.updateStatusHandler);
+router.get('/task/:id/transitions', taskController.transitionsHandler);
+router.patch('/task/:id/project', taskController.moveHandler);
+router.post('/task/:id/snooze', taskController.snoozeHandler);
+router.delete('/task/:id/snooze', taskController.unsnoozeHandler);
+router.post('/task/:id/reschedule', taskController.rescheduleHandler);
+router.post('/task/:id/restore', taskController.restoreHandler);
 
 /**
  * @rule {be-route-configuration}
@@ -29,4 +53,88 @@ router.patch('/task/:id/status', taskController.updateStatusHandler);
  */
 router.get('/task/:id/history', taskHistoryController.getHistoryHandler);
 
+/**
+ * @rule {be-route-configuration}
+ * Task checklist and subtask routes
+ */
+router.get('/task/:id/subtasks', taskSubtaskController.listHandler);
+router.post('/task/:id/subtasks', taskSubtaskController.createHandler);
+router.put('/task/:id/subtasks/:idSubtarefa', taskSubtaskController.updateHandler);
+router.delete('/task/:id/subtasks/:idSubtarefa', taskSubtaskController.deleteHandler);
+
+/**
+ * @rule {be-route-configuration}
+ * Task dependency routes
+ */
+router.get('/task/:id/dependencies', taskDependencyController.listHandler);
+router.post('/task/:id/dependencies', taskDependencyController.createHandler);
+router.delete(
+  '/task/:id/dependencies/:idTarefaBloqueadora',
+  taskDependencyController.deleteHandler
+);
+
+/**
+ * @rule {be-route-configuration}
+ * Time tracking routes
+ */
+router.get('/timer', taskTimeEntryController.runningHandler);
+router.post('/task/:id/timer/start', taskTimeEntryController.startHandler);
+router.post('/task/:id/timer/stop', taskTimeEntryController.stopHandler);
+router.get('/task/:id/time-entries', taskTimeEntryController.listHandler);
+router.post('/task/:id/time-entries', taskTimeEntryController.createHandler);
+router.put('/task/:id/time-entries/:idRegistro', taskTimeEntryController.updateHandler);
+router.delete('/task/:id/time-entries/:idRegistro', taskTimeEntryController.deleteHandler);
+
+/**
+ * @rule {be-route-configuration}
+ * Task attachment routes
+ */
+router.get('/task/:id/attachments', taskAttachmentController.listHandler);
+router.post('/task/:id/attachments', taskAttachmentController.createHandler);
+router.get('/task/:id/attachments/:idAnexo', taskAttachmentController.downloadHandler);
+router.delete('/task/:id/attachments/:idAnexo', taskAttachmentController.deleteHandler);
+
+/**
+ * @rule {be-route-configuration}
+ * Task comment routes
+ */
+router.get('/task/:id/comments', taskCommentController.listHandler);
+router.post('/task/:id/comments', taskCommentController.createHandler);
+router.put('/task/:id/comments/:idComentario', taskCommentController.updateHandler);
+router.delete('/task/:id/comments/:idComentario', taskCommentController.deleteHandler);
+
+/**
+ * @rule {be-route-configuration}
+ * Tag management routes
+ */
+router.get('/tag', tagController.listHandler);
+router.post('/tag', tagController.createHandler);
+router.put('/tag/:id', tagController.updateHandler);
+router.delete('/tag/:id', tagController.deleteHandler);
+router.post('/tag/:id/merge', tagController.mergeHandler);
+
+/**
+ * @rule {be-route-configuration}
+ * Project management routes
+ */
+router.get('/project', projectController.listHandler);
+router.post('/project', projectController.createHandler);
+router.get('/project/:id', projectController.getHandler);
+router.put('/project/:id', projectController.updateHandler);
+router.delete('/project/:id', projectController.deleteHandler);
+
+/**
+ * @rule {be-route-configuration}
+ * In-app reminder notification routes
+ */
+router.get('/notification', notificationController.listHandler);
+router.patch('/notification/:id/read', notificationController.readHandler);
+
+/**
+ * @rule {be-route-configuration}
+ * User preference routes
+ */
+router.get('/user/preferences', userController.getPreferencesHandler);
+router.patch('/user/preferences', userController.updatePreferencesHandler);
+
 export default router;
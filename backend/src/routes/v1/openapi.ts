@@ -0,0 +1,94 @@
+/**
+ * @summary
+ * OpenAPI document of the version 1 API.
+ * Gathers the route schemas declared by the controllers and documents the external and internal
+ * routers with them.
+ *
+ * @module routes/v1/openapi
+ */
+
+import {
+  ApiRoute,
+  HandlerSchema,
+  OpenApiMount,
+  buildOpenApiDocument,
+  findUndocumentedRoutes,
+} from '@/utils/openapi';
+import * as authController from '@/api/v1/external/auth/controller';
+import * as taskController from '@/api/v1/internal/task/controller';
+import * as taskHistoryController from '@/api/v1/internal/task-history/controller';
+import * as taskSubtaskController from '@/api/v1/internal/task-subtask/controller';
+import * as taskDependencyController from '@/api/v1/internal/task-dependency/controller';
+import * as taskTimeEntryController from '@/api/v1/internal/task-time-entry/controller';
+import * as taskAttachmentController from '@/api/v1/internal/task-attachment/controller';
+import * as taskCommentController from '@/api/v1/internal/task-comment/controller';
+import * as tagController from '@/api/v1/internal/tag/controller';
+import * as projectController from '@/api/v1/internal/project/controller';
+import * as notificationController from '@/api/v1/internal/notification/controller';
+import * as userController from '@/api/v1/internal/user/controller';
+import externalRoutes from './externalRoutes';
+import internalRoutes from './internalRoutes';
+
+/**
+ * @rule {be-api-documentation}
+ * Documented routers, mounted as in the version 1 router
+ */
+const mounts: OpenApiMount[] = [
+  { path: '/external', router: externalRoutes },
+  { path: '/internal', router: internalRoutes, authenticated: true },
+];
+
+/**
+ * @rule {be-api-documentation}
+ * Route schemas of every controller
+ */
+const routeSchemas: HandlerSchema[] = [
+  ...authController.routeSchemas,
+  ...taskController.routeSchemas,
+  ...taskHistoryController.routeSchemas,
+  ...taskSubtaskController.routeSchemas,
+  ...taskDependencyController.routeSchemas,
+  ...taskTimeEntryController.routeSchemas,
+  ...taskAttachmentController.routeSchemas,
+  ...taskCommentController.routeSchemas,
+  ...tagController.routeSchemas,
+  ...projectController.routeSchemas,
+  ...notificationController.routeSchemas,
+  ...userController.routeSchemas,
+];
+
+let document: Record<string, any> | null = null;
+
+/**
+ * @summary
+ * Returns the OpenAPI document of the version 1 API, built on first use
+ *
+ * @function getOpenApiDocument
+ * @module routes/v1/openapi
+ *
+ * @returns {object} OpenAPI 3.1 document
+ */
+export function getOpenApiDocument(): Record<string, any> {
+  if (!document) {
+    document = buildOpenApiDocument(
+      { title: 'Task Manager API', version: '1.0.0', serverUrl: '/api/v1' },
+      mounts,
+      routeSchemas
+    );
+  }
+
+  return document;
+}
+
+/**
+ * @summary
+ * Lists the version 1 routes that no controller describes
+ *
+ * @function getUndocumentedRoutes
+ * @module routes/v1/openapi
+ *
+ * @returns {ApiRoute[]} Routes missing from the document
+ */
+export function getUndocumentedRoutes(): ApiRoute[] {
+  return findUndocumentedRoutes(mounts, routeSchemas);
+}
@@ -0,0 +1,34 @@
+/**
+ * @summary
+ * Command-line check that every registered API route is described in the OpenAPI document.
+ * Exits with status 1 listing the routes whose handler has no schema.
+ *
+ * @module scripts/checkOpenApi
+ */
+
+import { getOpenApiDocument, getUndocumentedRoutes } from '@/routes/v1/openapi';
+
+function run(): void {
+  const undocumented = getUndocumentedRoutes();
+
+  if (undocumented.length > 0) {
+    console.error('Routes without an OpenAPI schema:');
+    for (const route of undocumented) {
+      console.error(`  ${route.method.toUpperCase()} ${route.path}`);
+    }
+    process.exit(1);
+  }
+
+  const operations = Object.values(getOpenApiDocument().paths).reduce(
+    (total: number, methods: any) => total + Object.keys(methods).length,
+    0
+  );
+  console.log(`OpenAPI document describes all ${operations} routes`);
+}
+
+try {
+  run();
+} catch (error: any) {
+  console.error(error.message);
+  process.exit(1);
+}
@@ -0,0 +1,67 @@
+/**
+ * @summary
+ * Command-line entry point for database schema migrations.
+ * Usage: `migrate [up|rollback [steps]|status]`.
+ *
+ * @module scripts/migrate
+ */
+
+import { config } from '@/config';
+import { closeDatabase } from '@/instances';
+import { migrationUp, migrationRollback, migrationStatus } from '@/services/migration';
+
+function run(): void {
+  const [command = 'up', arg] = process.argv.slice(2);
+
+  if (config.database.driver !== 'sqlite') {
+    console.log(`Database driver '${config.database.driver}' does not use migrations`);
+    return;
+  }
+
+  switch (command) {
+    case 'up': {
+      const applied = migrationUp();
+      if (applied.length === 0) {
+        console.log('Database is up to date');
+      }
+      for (const migration of applied) {
+        console.log(`Applied ${migration.version} ${migration.name}`);
+      }
+      break;
+    }
+
+    case 'rollback': {
+      const steps = arg ? parseInt(arg) : 1;
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error(`Invalid rollback steps: ${arg}`);
+      }
+      const reverted = migrationRollback(steps);
+      if (reverted.length === 0) {
+        console.log('No applied migrations to roll back');
+      }
+      for (const migration of reverted) {
+        console.log(`Rolled back ${migration.version} ${migration.name}`);
+      }
+      break;
+    }
+
+    case 'status':
+      for (const migration of migrationStatus()) {
+        const state = migration.appliedAt ? `applied ${migration.appliedAt.toISOString()}` : 'pending';
+        console.log(`${String(migration.version).padStart(3, '0')} ${migration.name} - ${state}`);
+      }
+      break;
+
+    default:
+      throw new Error(`Unknown migrate command: ${command}`);
+  }
+}
+
+try {
+  run();
+  closeDatabase();
+} catch (error: any) {
+  console.error(error.message);
+  closeDatabase();
+  process.exit(1);
+}
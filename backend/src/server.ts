@@ -14,10 +14,21 @@ import compression from 'compression';
 import { config } from '@/config';
 import { errorMiddleware } from '@/middleware/error';
 import { notFoundMiddleware } from '@/middleware/notFound';
+import { closeDatabase } from '@/instances';
+import { migrationPending } from '@/services/migration';
+import { startReminderScheduler, stopReminderScheduler } from '@/services/reminder';
+import { startTrashScheduler, stopTrashScheduler } from '@/services/task';
+import { configureIssueMessages } from '@/utils/validation';
 import apiRoutes from '@/routes';
 
 const app: Application = express();
 
+/**
+ * @rule {be-localization}
+ * Validation issues without a message of their own report a catalog code
+ */
+configureIssueMessages();
+
 /**
  * @rule {be-security-middleware}
  * Apply security headers and CORS configuration
@@ -64,12 +75,42 @@ app.use(errorMiddleware);
  */
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, closing server gracefully');
+  stopReminderScheduler();
+  stopTrashScheduler();
   server.close(() => {
+    closeDatabase();
     console.log('Server closed');
     process.exit(0);
   });
 });
 
+/**
+ * @rule {be-security-configuration}
+ * Refuse to start in production without an explicit token signing secret
+ */
+if (process.env.NODE_ENV === 'production' && !process.env.JWT_SECRET) {
+  console.error('JWT_SECRET must be set in production');
+  process.exit(1);
+}
+
+/**
+ * @rule {be-migration-check}
+ * Refuse to start against a database with pending schema migrations
+ */
+if (config.database.driver === 'sqlite') {
+  const pendingMigrations = migrationPending();
+
+  if (pendingMigrations.length > 0) {
+    console.error(
+      `Database has ${pendingMigrations.length} pending migration(s): ` +
+        pendingMigrations.map((migration) => `${migration.version} ${migration.name}`).join(', ')
+    );
+    console.error('Run `npm run migrate` before starting the server');
+    closeDatabase();
+    process.exit(1);
+  }
+}
+
 /**
  * @rule {be-server-startup}
  * Start HTTP server
@@ -77,6 +118,18 @@ process.on('SIGTERM', () => {
 const server = app.listen(config.api.port, () => {
   console.log(`Server running on port ${config.api.port} in ${process.env.NODE_ENV} mode`);
   console.log(`API available at http://localhost:${config.api.port}/api/${config.api.version}`);
+
+  /**
+   * @rule {be-task-reminders}
+   * Deliver reminders in the background while the server runs
+   */
+  startReminderScheduler();
+
+  /**
+   * @rule {be-task-trash}
+   * Purge tasks past the trash retention period in the background while the server runs
+   */
+  startTrashScheduler();
 });
 
 export default server;
@@ -0,0 +1,61 @@
+/**
+ * @summary
+ * In-memory attachment repository.
+ * Data lives only for the lifetime of the process.
+ *
+ * @module services/attachment/attachmentMemoryRepository
+ */
+
+import { AttachmentEntity, AttachmentRepository } from './attachmentTypes';
+
+/**
+ * @summary
+ * Creates an in-memory attachment repository
+ *
+ * @function createMemoryAttachmentRepository
+ * @module services/attachment
+ *
+ * @returns {AttachmentRepository} Attachment repository backed by an array
+ */
+export function createMemoryAttachmentRepository(): AttachmentRepository {
+  const attachments: AttachmentEntity[] = [];
+
+  return {
+    async findAll(idUsuario) {
+      return attachments
+        .filter((a) => a.idUsuario === idUsuario)
+        .map((attachment) => ({ ...attachment }));
+    },
+
+    async findByTask(idUsuario, idTarefa) {
+      return attachments
+        .filter((a) => a.idUsuario === idUsuario && a.idTarefa === idTarefa)
+        .sort((a, b) => a.dataCriacao.getTime() - b.dataCriacao.getTime())
+        .map((attachment) => ({ ...attachment }));
+    },
+
+    async findById(idUsuario, id) {
+      const attachment = attachments.find((a) => a.id === id && a.idUsuario === idUsuario);
+      return attachment ? { ...attachment } : null;
+    },
+
+    async countByHash(hash) {
+      return attachments.filter((a) => a.hash === hash).length;
+    },
+
+    async insert(attachment) {
+      attachments.push({ ...attachment });
+    },
+
+    async remove(idUsuario, id) {
+      const attachmentIndex = attachments.findIndex(
+        (a) => a.id === id && a.idUsuario === idUsuario
+      );
+      if (attachmentIndex === -1) {
+        return false;
+      }
+      attachments.splice(attachmentIndex, 1);
+      return true;
+    },
+  };
+}
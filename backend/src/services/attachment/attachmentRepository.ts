@@ -0,0 +1,34 @@
+/**
+ * @summary
+ * Attachment storage selection.
+ * Resolves the attachment repository for the driver configured in `config.database`.
+ *
+ * @module services/attachment/attachmentRepository
+ */
+
+import { config } from '@/config';
+import { getDatabase } from '@/instances/database';
+import { AttachmentRepository } from './attachmentTypes';
+import { createMemoryAttachmentRepository } from './attachmentMemoryRepository';
+import { createSqliteAttachmentRepository } from './attachmentSqliteRepository';
+
+let attachmentRepository: AttachmentRepository | null = null;
+
+/**
+ * @summary
+ * Returns the configured attachment repository, creating it on first use
+ *
+ * @function getAttachmentRepository
+ * @module services/attachment
+ *
+ * @returns {AttachmentRepository} Attachment repository
+ */
+export function getAttachmentRepository(): AttachmentRepository {
+  if (!attachmentRepository) {
+    attachmentRepository =
+      config.database.driver === 'memory'
+        ? createMemoryAttachmentRepository()
+        : createSqliteAttachmentRepository(getDatabase());
+  }
+  return attachmentRepository;
+}
@@ -0,0 +1,229 @@
+/**
+ * @summary
+ * Business logic for task attachments.
+ * Attachment contents are stored once per hash; records point at them and the contents are
+ * removed when the last record pointing at them goes.
+ *
+ * @module services/attachment/attachmentRules
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getTaskRepository } from '@/services/task/taskRepository';
+import { recordHistory } from '@/services/task/taskHistory';
+import { AttachmentEntity, AttachmentUpload, AttachmentDownload } from './attachmentTypes';
+import { getAttachmentRepository } from './attachmentRepository';
+import { getStorageDriver } from './attachmentStorage';
+import { ConflictError, ValidationError } from '@/utils/errors';
+
+/**
+ * @rule {be-task-attachments}
+ * Maximum number of attachments per task
+ */
+const MAX_ATTACHMENTS_PER_TASK = 20;
+
+/**
+ * @summary
+ * Removes stored contents no attachment points at anymore
+ *
+ * @function releaseContents
+ * @module services/attachment
+ *
+ * @param {string} hash - Hash of the contents
+ *
+ * @returns {Promise<void>}
+ */
+async function releaseContents(hash: string): Promise<void> {
+  if ((await getAttachmentRepository().countByHash(hash)) === 0) {
+    await getStorageDriver().remove(hash);
+  }
+}
+
+/**
+ * @summary
+ * Retrieves the attachments of a task
+ *
+ * @function attachmentList
+ * @module services/attachment
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Task identifier
+ *
+ * @returns {Promise<AttachmentEntity[] | null>} Attachments, oldest first, or null if the task
+ * is not found
+ */
+export async function attachmentList(
+  idUsuario: string,
+  idTarefa: string
+): Promise<AttachmentEntity[] | null> {
+  const task = await getTaskRepository().findById(idUsuario, idTarefa);
+
+  if (!task) {
+    return null;
+  }
+
+  return getAttachmentRepository().findByTask(idUsuario, idTarefa);
+}
+
+/**
+ * @summary
+ * Attaches an uploaded file to a task
+ *
+ * @function attachmentCreate
+ * @module services/attachment
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Task identifier
+ * @param {AttachmentUpload} upload - File name, type and contents
+ *
+ * @returns {Promise<AttachmentEntity | null>} Created attachment or null if the task is not found
+ *
+ * @throws {ValidationError | ConflictError} When the task already has the file or has too many
+ * attachments
+ */
+export async function attachmentCreate(
+  idUsuario: string,
+  idTarefa: string,
+  upload: AttachmentUpload
+): Promise<AttachmentEntity | null> {
+  const task = await getTaskRepository().findById(idUsuario, idTarefa);
+
+  if (!task) {
+    return null;
+  }
+
+  const hash = crypto.createHash('sha256').update(upload.conteudo).digest('hex');
+  const existing = await getAttachmentRepository().findByTask(idUsuario, idTarefa);
+
+  /**
+   * @rule {be-task-attachments}
+   * The same contents are attached to a task only once, whatever the file name
+   */
+  if (existing.some((attachment) => attachment.hash === hash)) {
+    throw new ConflictError('anexoDuplicado');
+  }
+
+  if (existing.length >= MAX_ATTACHMENTS_PER_TASK) {
+    throw new ValidationError('anexosDemais', { max: MAX_ATTACHMENTS_PER_TASK });
+  }
+
+  /**
+   * @rule {be-task-attachments}
+   * Contents already stored for another attachment are shared instead of written again
+   */
+  await getStorageDriver().put(hash, upload.conteudo);
+
+  const anexo: AttachmentEntity = {
+    id: uuidv4(),
+    idUsuario,
+    idTarefa,
+    nome: upload.nome,
+    tipo: upload.tipo,
+    tamanho: upload.conteudo.length,
+    hash,
+    dataCriacao: new Date(),
+  };
+
+  await getAttachmentRepository().insert(anexo);
+
+  await recordHistory({
+    idUsuario,
+    idTarefa,
+    tipoAlteracao: 'Edição',
+    campoAlterado: 'anexo',
+    valorAnterior: null,
+    valorNovo: anexo.nome,
+    origemAlteracao: 'Manual',
+  });
+
+  return anexo;
+}
+
+/**
+ * @summary
+ * Opens an attachment of a task for download
+ *
+ * @function attachmentDownload
+ * @module services/attachment
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Task identifier
+ * @param {string} id - Attachment identifier
+ *
+ * @returns {Promise<AttachmentDownload | null>} Attachment with its contents, or null if not
+ * found in the task
+ */
+export async function attachmentDownload(
+  idUsuario: string,
+  idTarefa: string,
+  id: string
+): Promise<AttachmentDownload | null> {
+  const anexo = await getAttachmentRepository().findById(idUsuario, id);
+
+  if (!anexo || anexo.idTarefa !== idTarefa) {
+    return null;
+  }
+
+  return { anexo, conteudo: await getStorageDriver().get(anexo.hash) };
+}
+
+/**
+ * @summary
+ * Removes an attachment from a task
+ *
+ * @function attachmentDelete
+ * @module services/attachment
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Task identifier
+ * @param {string} id - Attachment identifier
+ *
+ * @returns {Promise<boolean>} True if removed, false if not found in the task
+ */
+export async function attachmentDelete(
+  idUsuario: string,
+  idTarefa: string,
+  id: string
+): Promise<boolean> {
+  const anexo = await getAttachmentRepository().findById(idUsuario, id);
+
+  if (!anexo || anexo.idTarefa !== idTarefa) {
+    return false;
+  }
+
+  await getAttachmentRepository().remove(idUsuario, id);
+  await releaseContents(anexo.hash);
+
+  await recordHistory({
+    idUsuario,
+    idTarefa,
+    tipoAlteracao: 'Edição',
+    campoAlterado: 'anexo',
+    valorAnterior: anexo.nome,
+    valorNovo: null,
+    origemAlteracao: 'Manual',
+  });
+
+  return true;
+}
+
+/**
+ * @summary
+ * Removes every attachment of a task being deleted
+ *
+ * @function attachmentRemoveByTask
+ * @module services/attachment
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Task identifier
+ *
+ * @returns {Promise<void>}
+ */
+export async function attachmentRemoveByTask(idUsuario: string, idTarefa: string): Promise<void> {
+  const anexos = await getAttachmentRepository().findByTask(idUsuario, idTarefa);
+
+  for (const anexo of anexos) {
+    await getAttachmentRepository().remove(idUsuario, anexo.id);
+    await releaseContents(anexo.hash);
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * @summary
+ * SQLite-backed attachment repository.
+ * The table is created by the schema migrations in `src/migrations`.
+ *
+ * @module services/attachment/attachmentSqliteRepository
+ */
+
+import Database from 'better-sqlite3';
+import { AttachmentEntity, AttachmentRepository } from './attachmentTypes';
+
+/**
+ * @interface AttachmentRow
+ * @description Attachment row as stored in the `task_attachment` table
+ */
+interface AttachmentRow {
+  id: string;
+  idUsuario: string;
+  idTarefa: string;
+  nome: string;
+  tipo: string;
+  tamanho: number;
+  hash: string;
+  dataCriacao: string;
+}
+
+function toAttachmentEntity(row: AttachmentRow): AttachmentEntity {
+  return {
+    ...row,
+    dataCriacao: new Date(row.dataCriacao),
+  };
+}
+
+/**
+ * @summary
+ * Creates an attachment repository backed by the `task_attachment` table
+ *
+ * @function createSqliteAttachmentRepository
+ * @module services/attachment
+ *
+ * @param {Database.Database} db - Open database connection
+ *
+ * @returns {AttachmentRepository} SQLite attachment repository
+ */
+export function createSqliteAttachmentRepository(db: Database.Database): AttachmentRepository {
+  const selectAll = db.prepare('SELECT * FROM task_attachment WHERE idUsuario = ?');
+  const selectByTask = db.prepare(
+    'SELECT * FROM task_attachment WHERE idUsuario = ? AND idTarefa = ? ORDER BY dataCriacao'
+  );
+  const selectById = db.prepare('SELECT * FROM task_attachment WHERE idUsuario = ? AND id = ?');
+  const countHash = db.prepare('SELECT COUNT(*) AS total FROM task_attachment WHERE hash = ?');
+  const insertAttachment = db.prepare(`
+    INSERT INTO task_attachment (id, idUsuario, idTarefa, nome, tipo, tamanho, hash, dataCriacao)
+    VALUES (@id, @idUsuario, @idTarefa, @nome, @tipo, @tamanho, @hash, @dataCriacao)
+  `);
+  const deleteAttachment = db.prepare('DELETE FROM task_attachment WHERE idUsuario = ? AND id = ?');
+
+  return {
+    async findAll(idUsuario) {
+      return (selectAll.all(idUsuario) as AttachmentRow[]).map(toAttachmentEntity);
+    },
+
+    async findByTask(idUsuario, idTarefa) {
+      return (selectByTask.all(idUsuario, idTarefa) as AttachmentRow[]).map(toAttachmentEntity);
+    },
+
+    async findById(idUsuario, id) {
+      const row = selectById.get(idUsuario, id) as AttachmentRow | undefined;
+      return row ? toAttachmentEntity(row) : null;
+    },
+
+    async countByHash(hash) {
+      return (countHash.get(hash) as { total: number }).total;
+    },
+
+    async insert(attachment) {
+      insertAttachment.run({ ...attachment, dataCriacao: attachment.dataCriacao.toISOString() });
+    },
+
+    async remove(idUsuario, id) {
+      return deleteAttachment.run(idUsuario, id).changes > 0;
+    },
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * @summary
+ * Attachment content storage.
+ * Resolves the storage driver configured in `config.attachments`; the local driver keeps
+ * contents as files named after their hash.
+ *
+ * @module services/attachment/attachmentStorage
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { config } from '@/config';
+import { StorageDriver } from './attachmentTypes';
+
+let storageDriver: StorageDriver | null = null;
+
+/**
+ * @summary
+ * Creates a storage driver backed by a directory of the local filesystem
+ *
+ * @function createLocalStorageDriver
+ * @module services/attachment
+ *
+ * @param {string} directory - Root directory of the stored contents
+ *
+ * @returns {StorageDriver} Local filesystem storage driver
+ */
+export function createLocalStorageDriver(directory: string): StorageDriver {
+  /**
+   * @rule {be-task-attachments}
+   * Contents are spread over subdirectories named after the first two characters of their hash
+   */
+  const pathOf = (hash: string) => path.join(directory, hash.slice(0, 2), hash);
+
+  return {
+    async put(hash, conteudo) {
+      const filePath = pathOf(hash);
+
+      if (fs.existsSync(filePath)) {
+        return;
+      }
+
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+      /**
+       * @rule {be-task-attachments}
+       * Write to a temporary file first so an interrupted upload never leaves partial contents;
+       * each upload gets its own, so concurrent uploads of the same contents never share one
+       */
+      const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+      await fs.promises.writeFile(tempPath, conteudo);
+      await fs.promises.rename(tempPath, filePath);
+    },
+
+    async get(hash) {
+      const filePath = pathOf(hash);
+      await fs.promises.access(filePath, fs.constants.R_OK);
+      return fs.createReadStream(filePath);
+    },
+
+    async remove(hash) {
+      await fs.promises.rm(pathOf(hash), { force: true });
+    },
+  };
+}
+
+/**
+ * @summary
+ * Returns the configured storage driver, creating it on first use
+ *
+ * @function getStorageDriver
+ * @module services/attachment
+ *
+ * @returns {StorageDriver} Storage driver
+ */
+export function getStorageDriver(): StorageDriver {
+  if (!storageDriver) {
+    storageDriver = createLocalStorageDriver(path.resolve(config.attachments.directory));
+  }
+  return storageDriver;
+}
@@ -0,0 +1,94 @@
+/**
+ * @summary
+ * Type definitions for task attachments.
+ * Defines interfaces for attachments, their upload parameters, their storage and the storage
+ * of their contents.
+ *
+ * @module services/attachment/attachmentTypes
+ */
+
+import { Readable } from 'stream';
+
+/**
+ * @interface AttachmentEntity
+ * @description File attached to a task
+ *
+ * @property {string} id - Unique attachment identifier (UUID)
+ * @property {string} idUsuario - Owner user identifier
+ * @property {string} idTarefa - Task identifier
+ * @property {string} nome - Original file name
+ * @property {string} tipo - MIME type
+ * @property {number} tamanho - Size in bytes
+ * @property {string} hash - SHA-256 of the contents, addressing them in the storage
+ * @property {Date} dataCriacao - Upload timestamp
+ */
+export interface AttachmentEntity {
+  id: string;
+  idUsuario: string;
+  idTarefa: string;
+  nome: string;
+  tipo: string;
+  tamanho: number;
+  hash: string;
+  dataCriacao: Date;
+}
+
+/**
+ * @interface AttachmentUpload
+ * @description Uploaded file to attach to a task
+ *
+ * @property {string} nome - Original file name
+ * @property {string} tipo - MIME type
+ * @property {Buffer} conteudo - File contents
+ */
+export interface AttachmentUpload {
+  nome: string;
+  tipo: string;
+  conteudo: Buffer;
+}
+
+/**
+ * @interface AttachmentDownload
+ * @description Attachment with a stream of its contents
+ *
+ * @property {AttachmentEntity} anexo - Attachment
+ * @property {Readable} conteudo - File contents
+ */
+export interface AttachmentDownload {
+  anexo: AttachmentEntity;
+  conteudo: Readable;
+}
+
+/**
+ * @interface AttachmentRepository
+ * @description Storage contract for attachment records, scoped by owner
+ *
+ * @property {Function} findAll - Returns every attachment owned by a user
+ * @property {Function} findByTask - Returns the attachments of a user's task, oldest first
+ * @property {Function} findById - Returns a user's attachment by identifier or null
+ * @property {Function} countByHash - Counts the attachments of any user with the given contents
+ * @property {Function} insert - Stores a new attachment
+ * @property {Function} remove - Removes a user's attachment, resolving false when it does not exist
+ */
+export interface AttachmentRepository {
+  findAll(idUsuario: string): Promise<AttachmentEntity[]>;
+  findByTask(idUsuario: string, idTarefa: string): Promise<AttachmentEntity[]>;
+  findById(idUsuario: string, id: string): Promise<AttachmentEntity | null>;
+  countByHash(hash: string): Promise<number>;
+  insert(attachment: AttachmentEntity): Promise<void>;
+  remove(idUsuario: string, id: string): Promise<boolean>;
+}
+
+/**
+ * @interface StorageDriver
+ * @description Content-addressed storage for attachment contents
+ *
+ * @property {Function} put - Stores contents under their hash; storing existing contents is a no-op
+ * @property {Function} get - Opens a stream of the contents stored under a hash
+ * @property {Function} remove - Deletes the contents stored under a hash, if any
+ */
+export interface StorageDriver {
+  put(hash: string, conteudo: Buffer): Promise<void>;
+  get(hash: string): Promise<Readable>;
+  remove(hash: string): Promise<void>;
+}
@@ -0,0 +1,11 @@
+/**
+ * @summary
+ * Attachment service exports.
+ * Provides centralized access to task attachments and their storage.
+ *
+ * @module services/attachment
+ */
+
+export * from './attachmentTypes';
+export * from './attachmentRules';
+export * from './attachmentStorage';
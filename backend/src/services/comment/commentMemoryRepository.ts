@@ -0,0 +1,57 @@
+/**
+ * @summary
+ * In-memory comment repository.
+ * Data lives only for the lifetime of the process.
+ *
+ * @module services/comment/commentMemoryRepository
+ */
+
+import { CommentEntity, CommentRepository } from './commentTypes';
+
+/**
+ * @summary
+ * Creates an in-memory comment repository
+ *
+ * @function createMemoryCommentRepository
+ * @module services/comment
+ *
+ * @returns {CommentRepository} Comment repository backed by an array
+ */
+export function createMemoryCommentRepository(): CommentRepository {
+  let comments: CommentEntity[] = [];
+
+  return {
+    async findAll(idUsuario) {
+      return comments.filter((c) => c.idUsuario === idUsuario).map((comment) => ({ ...comment }));
+    },
+
+    async findByTask(idUsuario, idTarefa) {
+      return comments
+        .filter((c) => c.idUsuario === idUsuario && c.idTarefa === idTarefa)
+        .sort((a, b) => a.dataCriacao.getTime() - b.dataCriacao.getTime())
+        .map((comment) => ({ ...comment }));
+    },
+
+    async findById(idUsuario, id) {
+      const comment = comments.find((c) => c.id === id && c.idUsuario === idUsuario);
+      return comment ? { ...comment } : null;
+    },
+
+    async insert(comment) {
+      comments.push({ ...comment });
+    },
+
+    async update(comment) {
+      const commentIndex = comments.findIndex(
+        (c) => c.id === comment.id && c.idUsuario === comment.idUsuario
+      );
+      if (commentIndex !== -1) {
+        comments[commentIndex] = { ...comment };
+      }
+    },
+
+    async removeByTask(idUsuario, idTarefa) {
+      comments = comments.filter((c) => !(c.idUsuario === idUsuario && c.idTarefa === idTarefa));
+    },
+  };
+}
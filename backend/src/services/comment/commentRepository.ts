@@ -0,0 +1,34 @@
+/**
+ * @summary
+ * Comment storage selection.
+ * Resolves the comment repository for the driver configured in `config.database`.
+ *
+ * @module services/comment/commentRepository
+ */
+
+import { config } from '@/config';
+import { getDatabase } from '@/instances/database';
+import { CommentRepository } from './commentTypes';
+import { createMemoryCommentRepository } from './commentMemoryRepository';
+import { createSqliteCommentRepository } from './commentSqliteRepository';
+
+let commentRepository: CommentRepository | null = null;
+
+/**
+ * @summary
+ * Returns the configured comment repository, creating it on first use
+ *
+ * @function getCommentRepository
+ * @module services/comment
+ *
+ * @returns {CommentRepository} Comment repository
+ */
+export function getCommentRepository(): CommentRepository {
+  if (!commentRepository) {
+    commentRepository =
+      config.database.driver === 'memory'
+        ? createMemoryCommentRepository()
+        : createSqliteCommentRepository(getDatabase());
+  }
+  return commentRepository;
+}
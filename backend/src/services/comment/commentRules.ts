@@ -0,0 +1,229 @@
+/**
+ * @summary
+ * Business logic for task comments.
+ * Comments form a discussion thread per task. Bodies are markdown, sanitized before they are
+ * stored; deleted comments stay in the thread without their body.
+ *
+ * @module services/comment/commentRules
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { sanitizeMarkdown } from '@/utils/sanitize';
+import { getTaskRepository } from '@/services/task/taskRepository';
+import { getUserRepository } from '@/services/user/userRepository';
+import { CommentEntity, CommentListItem } from './commentTypes';
+import { getCommentRepository } from './commentRepository';
+import { ForbiddenError, ValidationError } from '@/utils/errors';
+
+/**
+ * @summary
+ * Converts comments into their thread view, resolving author names
+ *
+ * @function toCommentListItems
+ * @module services/comment
+ *
+ * @param {CommentEntity[]} comments - Comments to convert
+ *
+ * @returns {Promise<CommentListItem[]>} Comments with author names, deleted ones without body
+ */
+async function toCommentListItems(comments: CommentEntity[]): Promise<CommentListItem[]> {
+  const names = new Map<string, string>();
+
+  for (const idAutor of new Set(comments.map((comment) => comment.idAutor))) {
+    const autor = await getUserRepository().findById(idAutor);
+    names.set(idAutor, autor?.nome ?? 'Usuário removido');
+  }
+
+  return comments.map(({ idUsuario, corpo, ...comment }) => ({
+    ...comment,
+    nomeAutor: names.get(comment.idAutor)!,
+    corpo: comment.dataExclusao ? null : corpo,
+  }));
+}
+
+/**
+ * @summary
+ * Sanitizes a comment body, rejecting bodies left empty
+ *
+ * @function prepareBody
+ * @module services/comment
+ *
+ * @param {string} corpo - Body as written by the author
+ *
+ * @returns {string} Sanitized body
+ *
+ * @throws {ValidationError} When nothing is left of the body after sanitization
+ */
+function prepareBody(corpo: string): string {
+  /**
+   * @rule {be-task-comments}
+   * Bodies are sanitized on the server; clients rendering them must not be the only safeguard
+   */
+  const sanitized = sanitizeMarkdown(corpo);
+
+  if (!sanitized) {
+    throw new ValidationError('comentarioVazio');
+  }
+
+  return sanitized;
+}
+
+/**
+ * @summary
+ * Retrieves the comment thread of a task
+ *
+ * @function commentList
+ * @module services/comment
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Task identifier
+ *
+ * @returns {Promise<CommentListItem[] | null>} Comments, oldest first, or null if the task is
+ * not found
+ */
+export async function commentList(
+  idUsuario: string,
+  idTarefa: string
+): Promise<CommentListItem[] | null> {
+  const task = await getTaskRepository().findById(idUsuario, idTarefa);
+
+  if (!task) {
+    return null;
+  }
+
+  return toCommentListItems(await getCommentRepository().findByTask(idUsuario, idTarefa));
+}
+
+/**
+ * @summary
+ * Adds a comment to the thread of a task
+ *
+ * @function commentCreate
+ * @module services/comment
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Task identifier
+ * @param {string} idAutor - Author user identifier
+ * @param {string} corpo - Body in markdown
+ *
+ * @returns {Promise<CommentListItem | null>} Created comment or null if the task is not found
+ *
+ * @throws {ValidationError} When the body is empty after sanitization
+ */
+export async function commentCreate(
+  idUsuario: string,
+  idTarefa: string,
+  idAutor: string,
+  corpo: string
+): Promise<CommentListItem | null> {
+  const task = await getTaskRepository().findById(idUsuario, idTarefa);
+
+  if (!task) {
+    return null;
+  }
+
+  const comment: CommentEntity = {
+    id: uuidv4(),
+    idUsuario,
+    idTarefa,
+    idAutor,
+    corpo: prepareBody(corpo),
+    dataCriacao: new Date(),
+    dataEdicao: null,
+    dataExclusao: null,
+  };
+
+  await getCommentRepository().insert(comment);
+
+  const [item] = await toCommentListItems([comment]);
+  return item;
+}
+
+/**
+ * @summary
+ * Edits the body of a comment
+ *
+ * @function commentUpdate
+ * @module services/comment
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Task identifier
+ * @param {string} id - Comment identifier
+ * @param {string} idAutor - User editing the comment
+ * @param {string} corpo - New body in markdown
+ *
+ * @returns {Promise<CommentListItem | null>} Updated comment or null if not found in the task
+ *
+ * @throws {ForbiddenError | ValidationError} When the user is not the author or the body is empty
+ * after sanitization
+ */
+export async function commentUpdate(
+  idUsuario: string,
+  idTarefa: string,
+  id: string,
+  idAutor: string,
+  corpo: string
+): Promise<CommentListItem | null> {
+  const comment = await getCommentRepository().findById(idUsuario, id);
+
+  if (!comment || comment.idTarefa !== idTarefa || comment.dataExclusao) {
+    return null;
+  }
+
+  /**
+   * @rule {be-task-comments}
+   * Only the author edits or deletes a comment
+   */
+  if (comment.idAutor !== idAutor) {
+    throw new ForbiddenError('comentarioDeOutroAutor');
+  }
+
+  const sanitized = prepareBody(corpo);
+
+  if (sanitized !== comment.corpo) {
+    comment.corpo = sanitized;
+    comment.dataEdicao = new Date();
+    await getCommentRepository().update(comment);
+  }
+
+  const [item] = await toCommentListItems([comment]);
+  return item;
+}
+
+/**
+ * @summary
+ * Deletes a comment, keeping its place in the thread
+ *
+ * @function commentDelete
+ * @module services/comment
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Task identifier
+ * @param {string} id - Comment identifier
+ * @param {string} idAutor - User deleting the comment
+ *
+ * @returns {Promise<boolean>} True if deleted, false if not found in the task
+ *
+ * @throws {ForbiddenError} When the user is not the author
+ */
+export async function commentDelete(
+  idUsuario: string,
+  idTarefa: string,
+  id: string,
+  idAutor: string
+): Promise<boolean> {
+  const comment = await getCommentRepository().findById(idUsuario, id);
+
+  if (!comment || comment.idTarefa !== idTarefa || comment.dataExclusao) {
+    return false;
+  }
+
+  if (comment.idAutor !== idAutor) {
+    throw new ForbiddenError('comentarioDeOutroAutor');
+  }
+
+  comment.dataExclusao = new Date();
+  await getCommentRepository().update(comment);
+
+  return true;
+}
@@ -0,0 +1,101 @@
+/**
+ * @summary
+ * SQLite-backed comment repository.
+ * The table is created by the schema migrations in `src/migrations`.
+ *
+ * @module services/comment/commentSqliteRepository
+ */
+
+import Database from 'better-sqlite3';
+import { CommentEntity, CommentRepository } from './commentTypes';
+
+/**
+ * @interface CommentRow
+ * @description Comment row as stored in the `task_comment` table
+ */
+interface CommentRow {
+  id: string;
+  idUsuario: string;
+  idTarefa: string;
+  idAutor: string;
+  corpo: string;
+  dataCriacao: string;
+  dataEdicao: string | null;
+  dataExclusao: string | null;
+}
+
+function toCommentEntity(row: CommentRow): CommentEntity {
+  return {
+    ...row,
+    dataCriacao: new Date(row.dataCriacao),
+    dataEdicao: row.dataEdicao ? new Date(row.dataEdicao) : null,
+    dataExclusao: row.dataExclusao ? new Date(row.dataExclusao) : null,
+  };
+}
+
+function toCommentRow(comment: CommentEntity): CommentRow {
+  return {
+    ...comment,
+    dataCriacao: comment.dataCriacao.toISOString(),
+    dataEdicao: comment.dataEdicao ? comment.dataEdicao.toISOString() : null,
+    dataExclusao: comment.dataExclusao ? comment.dataExclusao.toISOString() : null,
+  };
+}
+
+/**
+ * @summary
+ * Creates a comment repository backed by the `task_comment` table
+ *
+ * @function createSqliteCommentRepository
+ * @module services/comment
+ *
+ * @param {Database.Database} db - Open database connection
+ *
+ * @returns {CommentRepository} SQLite comment repository
+ */
+export function createSqliteCommentRepository(db: Database.Database): CommentRepository {
+  const selectAll = db.prepare('SELECT * FROM task_comment WHERE idUsuario = ?');
+  const selectByTask = db.prepare(
+    'SELECT * FROM task_comment WHERE idUsuario = ? AND idTarefa = ? ORDER BY dataCriacao'
+  );
+  const selectById = db.prepare('SELECT * FROM task_comment WHERE idUsuario = ? AND id = ?');
+  const insertComment = db.prepare(`
+    INSERT INTO task_comment
+      (id, idUsuario, idTarefa, idAutor, corpo, dataCriacao, dataEdicao, dataExclusao)
+    VALUES
+      (@id, @idUsuario, @idTarefa, @idAutor, @corpo, @dataCriacao, @dataEdicao, @dataExclusao)
+  `);
+  const updateComment = db.prepare(`
+    UPDATE task_comment
+    SET corpo = @corpo, dataEdicao = @dataEdicao, dataExclusao = @dataExclusao
+    WHERE idUsuario = @idUsuario AND id = @id
+  `);
+  const deleteByTask = db.prepare('DELETE FROM task_comment WHERE idUsuario = ? AND idTarefa = ?');
+
+  return {
+    async findAll(idUsuario) {
+      return (selectAll.all(idUsuario) as CommentRow[]).map(toCommentEntity);
+    },
+
+    async findByTask(idUsuario, idTarefa) {
+      return (selectByTask.all(idUsuario, idTarefa) as CommentRow[]).map(toCommentEntity);
+    },
+
+    async findById(idUsuario, id) {
+      const row = selectById.get(idUsuario, id) as CommentRow | undefined;
+      return row ? toCommentEntity(row) : null;
+    },
+
+    async insert(comment) {
+      insertComment.run(toCommentRow(comment));
+    },
+
+    async update(comment) {
+      updateComment.run(toCommentRow(comment));
+    },
+
+    async removeByTask(idUsuario, idTarefa) {
+      deleteByTask.run(idUsuario, idTarefa);
+    },
+  };
+}
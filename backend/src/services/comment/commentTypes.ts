@@ -0,0 +1,63 @@
+/**
+ * @summary
+ * Type definitions for task comments.
+ * Defines interfaces for comments, their thread view and their storage.
+ *
+ * @module services/comment/commentTypes
+ */
+
+/**
+ * @interface CommentEntity
+ * @description Comment in the discussion thread of a task
+ *
+ * @property {string} id - Unique comment identifier (UUID)
+ * @property {string} idUsuario - Owner user identifier, the owner of the task
+ * @property {string} idTarefa - Task identifier
+ * @property {string} idAutor - Identifier of the user who wrote the comment
+ * @property {string} corpo - Body in markdown, sanitized
+ * @property {Date} dataCriacao - Creation timestamp
+ * @property {Date | null} dataEdicao - Last edit timestamp, null if never edited
+ * @property {Date | null} dataExclusao - Deletion timestamp, null while the comment exists
+ */
+export interface CommentEntity {
+  id: string;
+  idUsuario: string;
+  idTarefa: string;
+  idAutor: string;
+  corpo: string;
+  dataCriacao: Date;
+  dataEdicao: Date | null;
+  dataExclusao: Date | null;
+}
+
+/**
+ * @interface CommentListItem
+ * @description Comment as shown in a task thread
+ *
+ * @property {string} nomeAutor - Display name of the author
+ * @property {string | null} corpo - Body in markdown, null once the comment is deleted
+ */
+export interface CommentListItem extends Omit<CommentEntity, 'idUsuario' | 'corpo'> {
+  nomeAutor: string;
+  corpo: string | null;
+}
+
+/**
+ * @interface CommentRepository
+ * @description Storage contract for task comments, scoped by owner
+ *
+ * @property {Function} findAll - Returns every comment owned by a user, deleted ones included
+ * @property {Function} findByTask - Returns the comments of a user's task, oldest first
+ * @property {Function} findById - Returns a user's comment by identifier or null
+ * @property {Function} insert - Stores a new comment
+ * @property {Function} update - Replaces a stored comment
+ * @property {Function} removeByTask - Permanently removes every comment of a user's task
+ */
+export interface CommentRepository {
+  findAll(idUsuario: string): Promise<CommentEntity[]>;
+  findByTask(idUsuario: string, idTarefa: string): Promise<CommentEntity[]>;
+  findById(idUsuario: string, id: string): Promise<CommentEntity | null>;
+  insert(comment: CommentEntity): Promise<void>;
+  update(comment: CommentEntity): Promise<void>;
+  removeByTask(idUsuario: string, idTarefa: string): Promise<void>;
+}
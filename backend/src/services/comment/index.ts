@@ -0,0 +1,10 @@
+/**
+ * @summary
+ * Comment service exports.
+ * Provides centralized access to task comment threads.
+ *
+ * @module services/comment
+ */
+
+export * from './commentTypes';
+export * from './commentRules';
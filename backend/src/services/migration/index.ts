@@ -0,0 +1,10 @@
+/**
+ * @summary
+ * Migration service exports.
+ * Provides centralized access to schema migration operations.
+ *
+ * @module services/migration
+ */
+
+export * from './migrationTypes';
+export * from './migrationRules';
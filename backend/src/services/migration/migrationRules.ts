@@ -0,0 +1,164 @@
+/**
+ * @summary
+ * Schema migration runner for the embedded database.
+ * Applies, reverts and reports migrations tracked in the `schema_migrations` table.
+ *
+ * @module services/migration/migrationRules
+ */
+
+import Database from 'better-sqlite3';
+import { getDatabase } from '@/instances/database';
+import { migrations } from '@/migrations';
+import { Migration, MigrationStatus } from './migrationTypes';
+
+/**
+ * @summary
+ * Creates the migrations bookkeeping table when it does not exist yet
+ *
+ * @function ensureMigrationTable
+ * @module services/migration
+ *
+ * @param {Database.Database} db - Open database connection
+ *
+ * @returns {void}
+ */
+function ensureMigrationTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      appliedAt TEXT NOT NULL
+    )
+  `);
+}
+
+/**
+ * @summary
+ * Returns applied migration versions mapped to their application timestamp
+ *
+ * @function getAppliedVersions
+ * @module services/migration
+ *
+ * @param {Database.Database} db - Open database connection
+ *
+ * @returns {Map<number, Date>} Applied versions
+ */
+function getAppliedVersions(db: Database.Database): Map<number, Date> {
+  ensureMigrationTable(db);
+
+  const rows = db.prepare('SELECT version, appliedAt FROM schema_migrations').all() as Array<{
+    version: number;
+    appliedAt: string;
+  }>;
+
+  return new Map(rows.map((row) => [row.version, new Date(row.appliedAt)]));
+}
+
+/**
+ * @summary
+ * Lists every known migration with its applied state, in version order
+ *
+ * @function migrationStatus
+ * @module services/migration
+ *
+ * @param {Database.Database} [db] - Open database connection
+ *
+ * @returns {MigrationStatus[]} Migration states
+ */
+export function migrationStatus(db: Database.Database = getDatabase()): MigrationStatus[] {
+  const applied = getAppliedVersions(db);
+
+  return [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .map((migration) => ({
+      version: migration.version,
+      name: migration.name,
+      appliedAt: applied.get(migration.version) || null,
+    }));
+}
+
+/**
+ * @summary
+ * Lists migrations that have not been applied yet, in version order
+ *
+ * @function migrationPending
+ * @module services/migration
+ *
+ * @param {Database.Database} [db] - Open database connection
+ *
+ * @returns {Migration[]} Pending migrations
+ */
+export function migrationPending(db: Database.Database = getDatabase()): Migration[] {
+  const applied = getAppliedVersions(db);
+
+  return migrations
+    .filter((migration) => !applied.has(migration.version))
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * @summary
+ * Applies every pending migration, each one inside its own transaction
+ *
+ * @function migrationUp
+ * @module services/migration
+ *
+ * @param {Database.Database} [db] - Open database connection
+ *
+ * @returns {Migration[]} Migrations applied by this call
+ */
+export function migrationUp(db: Database.Database = getDatabase()): Migration[] {
+  const pending = migrationPending(db);
+  const recordMigration = db.prepare(
+    'INSERT INTO schema_migrations (version, name, appliedAt) VALUES (?, ?, ?)'
+  );
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      recordMigration.run(migration.version, migration.name, new Date().toISOString());
+    })();
+  }
+
+  return pending;
+}
+
+/**
+ * @summary
+ * Reverts the most recently applied migrations
+ *
+ * @function migrationRollback
+ * @module services/migration
+ *
+ * @param {number} [steps=1] - Number of migrations to revert
+ * @param {Database.Database} [db] - Open database connection
+ *
+ * @returns {Migration[]} Migrations reverted by this call
+ *
+ * @throws {Error} When an applied migration is unknown to this build
+ */
+export function migrationRollback(
+  steps: number = 1,
+  db: Database.Database = getDatabase()
+): Migration[] {
+  const applied = [...getAppliedVersions(db).keys()].sort((a, b) => b - a).slice(0, steps);
+  const removeMigration = db.prepare('DELETE FROM schema_migrations WHERE version = ?');
+  const reverted: Migration[] = [];
+
+  for (const version of applied) {
+    const migration = migrations.find((m) => m.version === version);
+
+    if (!migration) {
+      throw new Error(`migracaoDesconhecida: ${version}`);
+    }
+
+    db.transaction(() => {
+      migration.down(db);
+      removeMigration.run(version);
+    })();
+
+    reverted.push(migration);
+  }
+
+  return reverted;
+}
@@ -0,0 +1,38 @@
+/**
+ * @summary
+ * Type definitions for database schema migrations.
+ *
+ * @module services/migration/migrationTypes
+ */
+
+import Database from 'better-sqlite3';
+
+/**
+ * @interface Migration
+ * @description A numbered, reversible schema change
+ *
+ * @property {number} version - Sequential migration number
+ * @property {string} name - Short migration description
+ * @property {Function} up - Applies the schema change
+ * @property {Function} down - Reverts the schema change
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database.Database): void;
+  down(db: Database.Database): void;
+}
+
+/**
+ * @interface MigrationStatus
+ * @description Applied state of a known migration
+ *
+ * @property {number} version - Migration number
+ * @property {string} name - Migration description
+ * @property {Date | null} appliedAt - When the migration was applied, null when pending
+ */
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: Date | null;
+}
@@ -0,0 +1,10 @@
+/**
+ * @summary
+ * Project service exports.
+ * Provides centralized access to project management logic.
+ *
+ * @module services/project
+ */
+
+export * from './projectTypes';
+export * from './projectRules';
@@ -0,0 +1,65 @@
+/**
+ * @summary
+ * In-memory project repository.
+ * Data lives only for the lifetime of the process.
+ *
+ * @module services/project/projectMemoryRepository
+ */
+
+import { ProjectEntity, ProjectRepository } from './projectTypes';
+
+/**
+ * @summary
+ * Creates an in-memory project repository
+ *
+ * @function createMemoryProjectRepository
+ * @module services/project
+ *
+ * @returns {ProjectRepository} Project repository backed by an array
+ */
+export function createMemoryProjectRepository(): ProjectRepository {
+  const projects: ProjectEntity[] = [];
+
+  return {
+    async findAll(idUsuario) {
+      return projects
+        .filter((p) => p.idUsuario === idUsuario)
+        .sort((a, b) => a.nome.localeCompare(b.nome))
+        .map((project) => ({ ...project }));
+    },
+
+    async findById(idUsuario, id) {
+      const project = projects.find((p) => p.id === id && p.idUsuario === idUsuario);
+      return project ? { ...project } : null;
+    },
+
+    async findByName(idUsuario, nome) {
+      const project = projects.find(
+        (p) => p.idUsuario === idUsuario && p.nome.toLowerCase() === nome.toLowerCase()
+      );
+      return project ? { ...project } : null;
+    },
+
+    async insert(project) {
+      projects.push({ ...project });
+    },
+
+    async update(project) {
+      const projectIndex = projects.findIndex(
+        (p) => p.id === project.id && p.idUsuario === project.idUsuario
+      );
+      if (projectIndex !== -1) {
+        projects[projectIndex] = { ...project };
+      }
+    },
+
+    async remove(idUsuario, id) {
+      const projectIndex = projects.findIndex((p) => p.id === id && p.idUsuario === idUsuario);
+      if (projectIndex === -1) {
+        return false;
+      }
+      projects.splice(projectIndex, 1);
+      return true;
+    },
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * @summary
+ * Project storage selection.
+ * Resolves the project repository for the driver configured in `config.database`.
+ *
+ * @module services/project/projectRepository
+ */
+
+import { config } from '@/config';
+import { getDatabase } from '@/instances/database';
+import { ProjectRepository } from './projectTypes';
+import { createMemoryProjectRepository } from './projectMemoryRepository';
+import { createSqliteProjectRepository } from './projectSqliteRepository';
+
+let projectRepository: ProjectRepository | null = null;
+
+/**
+ * @summary
+ * Returns the configured project repository, creating it on first use
+ *
+ * @function getProjectRepository
+ * @module services/project
+ *
+ * @returns {ProjectRepository} Project repository
+ */
+export function getProjectRepository(): ProjectRepository {
+  if (!projectRepository) {
+    projectRepository =
+      config.database.driver === 'memory'
+        ? createMemoryProjectRepository()
+        : createSqliteProjectRepository(getDatabase());
+  }
+  return projectRepository;
+}
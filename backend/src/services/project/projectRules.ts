@@ -0,0 +1,212 @@
+/**
+ * @summary
+ * Business logic for projects.
+ * Implements project CRUD with per-project task counts; tasks of a deleted project are kept
+ * without a project.
+ *
+ * @module services/project/projectRules
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ProjectEntity, ProjectList, ProjectRequest, ProjectTaskCount } from './projectTypes';
+import { getProjectRepository } from './projectRepository';
+import { TaskEntity } from '@/services/task/taskTypes';
+import { getTaskRepository } from '@/services/task/taskRepository';
+import { isTaskClosed } from '@/services/task/taskStatusMachine';
+import { recordHistory } from '@/services/task/taskHistory';
+import { ConflictError } from '@/utils/errors';
+
+/**
+ * @summary
+ * Retrieves the projects of a user ordered by name, with their task counts
+ *
+ * @function projectList
+ * @module services/project
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {boolean} [incluirArquivados] - Whether archived projects are included
+ *
+ * @returns {Promise<ProjectList>} Projects and the counts of tasks without a project
+ */
+export async function projectList(
+  idUsuario: string,
+  incluirArquivados: boolean = false
+): Promise<ProjectList> {
+  const projects = await getProjectRepository().findAll(idUsuario);
+  const tasks = (await getTaskRepository().findAll(idUsuario)).filter((task) => !task.idTarefaPai);
+
+  return {
+    projetos: projects
+      .filter((project) => incluirArquivados || !project.arquivado)
+      .map((project) => ({
+        ...project,
+        tarefas: countTasks(tasks.filter((task) => task.idProjeto === project.id)),
+      })),
+    semProjeto: countTasks(tasks.filter((task) => !task.idProjeto)),
+  };
+}
+
+/**
+ * @summary
+ * Retrieves a specific project by ID
+ *
+ * @function projectGet
+ * @module services/project
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} id - Project identifier
+ *
+ * @returns {Promise<ProjectEntity | null>} Project or null if not found
+ */
+export async function projectGet(idUsuario: string, id: string): Promise<ProjectEntity | null> {
+  return getProjectRepository().findById(idUsuario, id);
+}
+
+/**
+ * @summary
+ * Creates a new project
+ *
+ * @function projectCreate
+ * @module services/project
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {ProjectRequest} data - Project name, color, icon and archived flag
+ *
+ * @returns {Promise<ProjectEntity | null>} Created project or null if the user already has a project with that name
+ */
+export async function projectCreate(
+  idUsuario: string,
+  data: ProjectRequest
+): Promise<ProjectEntity | null> {
+  const nome = data.nome.trim();
+
+  /**
+   * @rule {be-task-projects}
+   * Project names are unique per user, regardless of case
+   */
+  if (await getProjectRepository().findByName(idUsuario, nome)) {
+    return null;
+  }
+
+  const project: ProjectEntity = {
+    id: uuidv4(),
+    idUsuario,
+    nome,
+    cor: data.cor.toLowerCase(),
+    icone: data.icone,
+    arquivado: data.arquivado,
+    dataCriacao: new Date(),
+    dataAtualizacao: new Date(),
+  };
+
+  await getProjectRepository().insert(project);
+
+  return project;
+}
+
+/**
+ * @summary
+ * Renames, restyles, archives or unarchives a project
+ *
+ * @function projectUpdate
+ * @module services/project
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} id - Project identifier
+ * @param {ProjectRequest} data - New name, color, icon and archived flag
+ *
+ * @returns {Promise<ProjectEntity | null>} Updated project or null if not found
+ *
+ * @throws {ConflictError} When another project of the user already has the new name
+ */
+export async function projectUpdate(
+  idUsuario: string,
+  id: string,
+  data: ProjectRequest
+): Promise<ProjectEntity | null> {
+  const project = await getProjectRepository().findById(idUsuario, id);
+
+  if (!project) {
+    return null;
+  }
+
+  const nome = data.nome.trim();
+  const existing = await getProjectRepository().findByName(idUsuario, nome);
+
+  if (existing && existing.id !== id) {
+    throw new ConflictError('projetoJaExiste');
+  }
+
+  project.nome = nome;
+  project.cor = data.cor.toLowerCase();
+  project.icone = data.icone;
+  project.arquivado = data.arquivado;
+  project.dataAtualizacao = new Date();
+
+  await getProjectRepository().update(project);
+
+  return project;
+}
+
+/**
+ * @summary
+ * Deletes a project; its tasks are kept without a project
+ *
+ * @function projectDelete
+ * @module services/project
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} id - Project identifier
+ *
+ * @returns {Promise<boolean>} True if deleted, false if not found
+ */
+export async function projectDelete(idUsuario: string, id: string): Promise<boolean> {
+  const project = await getProjectRepository().findById(idUsuario, id);
+
+  if (!project) {
+    return false;
+  }
+
+  /**
+   * @rule {be-task-projects}
+   * Tasks of a deleted project move out of it, recording the move in their history
+   */
+  const tasks = await getTaskRepository().findAll(idUsuario);
+
+  for (const task of tasks.filter((t) => t.idProjeto === id)) {
+    task.idProjeto = null;
+    task.dataAtualizacao = new Date();
+
+    await getTaskRepository().update(task);
+
+    await recordHistory({
+      idUsuario,
+      idTarefa: task.id,
+      tipoAlteracao: 'Edição',
+      campoAlterado: 'projeto',
+      valorAnterior: project.nome,
+      valorNovo: null,
+      origemAlteracao: 'Manual',
+    });
+  }
+
+  return getProjectRepository().remove(idUsuario, id);
+}
+
+/**
+ * @summary
+ * Counts the tasks of a project
+ *
+ * @function countTasks
+ * @module services/project
+ *
+ * @param {TaskEntity[]} tasks - Top-level tasks of the project
+ *
+ * @returns {ProjectTaskCount} Total and still open tasks
+ */
+function countTasks(tasks: TaskEntity[]): ProjectTaskCount {
+  return {
+    total: tasks.length,
+    pendentes: tasks.filter((task) => !isTaskClosed(task.status)).length,
+  };
+}
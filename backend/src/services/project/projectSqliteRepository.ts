@@ -0,0 +1,104 @@
+/**
+ * @summary
+ * SQLite-backed project repository.
+ * The table is created by the schema migrations in `src/migrations`.
+ *
+ * @module services/project/projectSqliteRepository
+ */
+
+import Database from 'better-sqlite3';
+import { ProjectEntity, ProjectRepository } from './projectTypes';
+
+/**
+ * @interface ProjectRow
+ * @description Project row as stored in the `project` table
+ */
+interface ProjectRow {
+  id: string;
+  idUsuario: string;
+  nome: string;
+  cor: string;
+  icone: string;
+  arquivado: number;
+  dataCriacao: string;
+  dataAtualizacao: string;
+}
+
+function toProjectEntity(row: ProjectRow): ProjectEntity {
+  return {
+    ...row,
+    arquivado: row.arquivado === 1,
+    dataCriacao: new Date(row.dataCriacao),
+    dataAtualizacao: new Date(row.dataAtualizacao),
+  };
+}
+
+function toProjectRow(project: ProjectEntity): ProjectRow {
+  return {
+    ...project,
+    arquivado: project.arquivado ? 1 : 0,
+    dataCriacao: project.dataCriacao.toISOString(),
+    dataAtualizacao: project.dataAtualizacao.toISOString(),
+  };
+}
+
+/**
+ * @summary
+ * Creates a project repository backed by the `project` table
+ *
+ * @function createSqliteProjectRepository
+ * @module services/project
+ *
+ * @param {Database.Database} db - Open database connection
+ *
+ * @returns {ProjectRepository} SQLite project repository
+ */
+export function createSqliteProjectRepository(db: Database.Database): ProjectRepository {
+  const selectAll = db.prepare('SELECT * FROM project WHERE idUsuario = ? ORDER BY nome');
+  const selectById = db.prepare('SELECT * FROM project WHERE idUsuario = ? AND id = ?');
+  const selectByName = db.prepare(
+    'SELECT * FROM project WHERE idUsuario = ? AND nome = ? COLLATE NOCASE'
+  );
+  const insertProject = db.prepare(`
+    INSERT INTO project (id, idUsuario, nome, cor, icone, arquivado, dataCriacao, dataAtualizacao)
+    VALUES (@id, @idUsuario, @nome, @cor, @icone, @arquivado, @dataCriacao, @dataAtualizacao)
+  `);
+  const updateProject = db.prepare(`
+    UPDATE project SET
+      nome = @nome,
+      cor = @cor,
+      icone = @icone,
+      arquivado = @arquivado,
+      dataAtualizacao = @dataAtualizacao
+    WHERE id = @id AND idUsuario = @idUsuario
+  `);
+  const deleteProject = db.prepare('DELETE FROM project WHERE idUsuario = ? AND id = ?');
+
+  return {
+    async findAll(idUsuario) {
+      return (selectAll.all(idUsuario) as ProjectRow[]).map(toProjectEntity);
+    },
+
+    async findById(idUsuario, id) {
+      const row = selectById.get(idUsuario, id) as ProjectRow | undefined;
+      return row ? toProjectEntity(row) : null;
+    },
+
+    async findByName(idUsuario, nome) {
+      const row = selectByName.get(idUsuario, nome) as ProjectRow | undefined;
+      return row ? toProjectEntity(row) : null;
+    },
+
+    async insert(project) {
+      insertProject.run(toProjectRow(project));
+    },
+
+    async update(project) {
+      updateProject.run(toProjectRow(project));
+    },
+
+    async remove(idUsuario, id) {
+      return deleteProject.run(idUsuario, id).changes > 0;
+    },
+  };
+}
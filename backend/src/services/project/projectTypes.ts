@@ -0,0 +1,101 @@
+/**
+ * @summary
+ * Type definitions for projects.
+ * Defines interfaces for projects and project operations.
+ *
+ * @module services/project/projectTypes
+ */
+
+/**
+ * @interface ProjectEntity
+ * @description Represents a user-defined list that groups tasks, e.g. "Trabalho" or "Casa"
+ *
+ * @property {string} id - Unique project identifier (UUID)
+ * @property {string} idUsuario - Owner user identifier
+ * @property {string} nome - Project name, unique per user regardless of case
+ * @property {string} cor - Display color in #RRGGBB format
+ * @property {string} icone - Display icon name
+ * @property {boolean} arquivado - Whether the project is archived
+ * @property {Date} dataCriacao - Creation timestamp
+ * @property {Date} dataAtualizacao - Last update timestamp
+ */
+export interface ProjectEntity {
+  id: string;
+  idUsuario: string;
+  nome: string;
+  cor: string;
+  icone: string;
+  arquivado: boolean;
+  dataCriacao: Date;
+  dataAtualizacao: Date;
+}
+
+/**
+ * @interface ProjectTaskCount
+ * @description Number of top-level tasks in a project
+ *
+ * @property {number} total - Number of tasks in the project
+ * @property {number} pendentes - Number of tasks that are not completed
+ */
+export interface ProjectTaskCount {
+  total: number;
+  pendentes: number;
+}
+
+/**
+ * @interface ProjectListItem
+ * @description Project as returned by the project list
+ *
+ * @property {ProjectTaskCount} tarefas - Task counts of the project
+ */
+export interface ProjectListItem extends ProjectEntity {
+  tarefas: ProjectTaskCount;
+}
+
+/**
+ * @interface ProjectList
+ * @description Projects of a user together with the count of tasks outside any project
+ *
+ * @property {ProjectListItem[]} projetos - Projects ordered by name
+ * @property {ProjectTaskCount} semProjeto - Task counts of tasks without a project
+ */
+export interface ProjectList {
+  projetos: ProjectListItem[];
+  semProjeto: ProjectTaskCount;
+}
+
+/**
+ * @interface ProjectRequest
+ * @description Parameters for creating or updating a project
+ *
+ * @property {string} nome - Project name
+ * @property {string} cor - Display color in #RRGGBB format
+ * @property {string} icone - Display icon name
+ * @property {boolean} arquivado - Whether the project is archived
+ */
+export interface ProjectRequest {
+  nome: string;
+  cor: string;
+  icone: string;
+  arquivado: boolean;
+}
+
+/**
+ * @interface ProjectRepository
+ * @description Storage contract for projects, scoped by owner
+ *
+ * @property {Function} findAll - Returns every project owned by a user
+ * @property {Function} findById - Returns a user's project by identifier or null
+ * @property {Function} findByName - Returns a user's project by case-insensitive name or null
+ * @property {Function} insert - Stores a new project
+ * @property {Function} update - Replaces a stored project of the same owner
+ * @property {Function} remove - Removes a user's project, resolving false when it does not exist
+ */
+export interface ProjectRepository {
+  findAll(idUsuario: string): Promise<ProjectEntity[]>;
+  findById(idUsuario: string, id: string): Promise<ProjectEntity | null>;
+  findByName(idUsuario: string, nome: string): Promise<ProjectEntity | null>;
+  insert(project: ProjectEntity): Promise<void>;
+  update(project: ProjectEntity): Promise<void>;
+  remove(idUsuario: string, id: string): Promise<boolean>;
+}
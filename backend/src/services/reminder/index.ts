@@ -0,0 +1,12 @@
+/**
+ * @summary
+ * Reminder service exports.
+ * Provides centralized access to reminder delivery, its channels and its scheduler.
+ *
+ * @module services/reminder
+ */
+
+export * from './reminderTypes';
+export * from './reminderRules';
+export * from './reminderChannels';
+export * from './reminderScheduler';
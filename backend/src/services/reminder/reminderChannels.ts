@@ -0,0 +1,111 @@
+/**
+ * @summary
+ * Reminder delivery channels.
+ * Channels are registered by name and enabled through `config.reminders.channels`; the
+ * built-in ones deliver in-app, by e-mail and to a webhook.
+ *
+ * @module services/reminder/reminderChannels
+ */
+
+import { config } from '@/config';
+import { sendMail } from '@/instances/mail';
+import { getUserRepository } from '@/services/user/userRepository';
+import { ReminderChannel } from './reminderTypes';
+
+const channels = new Map<string, ReminderChannel>();
+
+/**
+ * @summary
+ * Registers a delivery channel, replacing any channel with the same name
+ *
+ * @function registerReminderChannel
+ * @module services/reminder
+ *
+ * @param {ReminderChannel} channel - Channel to register
+ *
+ * @returns {void}
+ */
+export function registerReminderChannel(channel: ReminderChannel): void {
+  channels.set(channel.canal, channel);
+}
+
+/**
+ * @summary
+ * Returns the registered channels enabled in the configuration
+ *
+ * @function getEnabledReminderChannels
+ * @module services/reminder
+ *
+ * @returns {ReminderChannel[]} Enabled channels, in configuration order
+ */
+export function getEnabledReminderChannels(): ReminderChannel[] {
+  return config.reminders.channels
+    .map((canal) => channels.get(canal))
+    .filter((channel): channel is ReminderChannel => channel !== undefined);
+}
+
+/**
+ * @summary
+ * Returns the channel names enabled in the configuration that no channel is registered for
+ *
+ * @function getUnknownReminderChannels
+ * @module services/reminder
+ *
+ * @returns {string[]} Unknown channel names
+ */
+export function getUnknownReminderChannels(): string[] {
+  return config.reminders.channels.filter((canal) => !channels.has(canal));
+}
+
+/**
+ * @rule {be-task-reminders}
+ * In-app reminders need no transport: the delivery record is the notification the app lists
+ */
+const appChannel: ReminderChannel = {
+  canal: 'App',
+  async deliver() {},
+};
+
+const emailChannel: ReminderChannel = {
+  canal: 'Email',
+  async deliver(notification) {
+    const user = await getUserRepository().findById(notification.idUsuario);
+
+    if (!user) {
+      throw new Error('usuarioNaoEncontrado');
+    }
+
+    await sendMail({ to: user.email, subject: notification.titulo, text: notification.mensagem });
+  },
+};
+
+const webhookChannel: ReminderChannel = {
+  canal: 'Webhook',
+  async deliver(notification) {
+    if (!config.reminders.webhookUrl) {
+      throw new Error('webhookNaoConfigurado');
+    }
+
+    const response = await fetch(config.reminders.webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        idUsuario: notification.idUsuario,
+        idTarefa: notification.idTarefa,
+        titulo: notification.titulo,
+        mensagem: notification.mensagem,
+        dataDisparo: notification.dataDisparo.toISOString(),
+        dataVencimento: notification.dataVencimento?.toISOString() ?? null,
+      }),
+      signal: AbortSignal.timeout(config.reminders.webhookTimeout),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+  },
+};
+
+registerReminderChannel(appChannel);
+registerReminderChannel(emailChannel);
+registerReminderChannel(webhookChannel);
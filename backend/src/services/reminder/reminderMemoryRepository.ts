@@ -0,0 +1,64 @@
+/**
+ * @summary
+ * In-memory reminder delivery repository.
+ * Data lives only for the lifetime of the process.
+ *
+ * @module services/reminder/reminderMemoryRepository
+ */
+
+import { ReminderDeliveryEntity, ReminderDeliveryRepository } from './reminderTypes';
+
+/**
+ * @summary
+ * Creates an in-memory reminder delivery repository
+ *
+ * @function createMemoryReminderDeliveryRepository
+ * @module services/reminder
+ *
+ * @returns {ReminderDeliveryRepository} Reminder delivery repository backed by an array
+ */
+export function createMemoryReminderDeliveryRepository(): ReminderDeliveryRepository {
+  let deliveries: ReminderDeliveryEntity[] = [];
+
+  return {
+    async findByChannel(idUsuario, canal, limit) {
+      return deliveries
+        .filter((d) => d.idUsuario === idUsuario && d.canal === canal)
+        .sort((a, b) => b.dataDisparo.getTime() - a.dataDisparo.getTime())
+        .slice(0, limit)
+        .map((delivery) => ({ ...delivery }));
+    },
+
+    async findById(idUsuario, id) {
+      const delivery = deliveries.find((d) => d.id === id && d.idUsuario === idUsuario);
+      return delivery ? { ...delivery } : null;
+    },
+
+    async claim(delivery) {
+      const delivered = deliveries.some(
+        (d) =>
+          d.idTarefa === delivery.idTarefa &&
+          d.canal === delivery.canal &&
+          d.dataDisparo.getTime() === delivery.dataDisparo.getTime()
+      );
+      if (delivered) {
+        return false;
+      }
+      deliveries.push({ ...delivery });
+      return true;
+    },
+
+    async update(delivery) {
+      const deliveryIndex = deliveries.findIndex(
+        (d) => d.id === delivery.id && d.idUsuario === delivery.idUsuario
+      );
+      if (deliveryIndex !== -1) {
+        deliveries[deliveryIndex] = { ...delivery };
+      }
+    },
+
+    async removeByTask(idUsuario, idTarefa) {
+      deliveries = deliveries.filter((d) => !(d.idUsuario === idUsuario && d.idTarefa === idTarefa));
+    },
+  };
+}
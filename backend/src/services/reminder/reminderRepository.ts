@@ -0,0 +1,34 @@
+/**
+ * @summary
+ * Reminder delivery storage selection.
+ * Resolves the delivery repository for the driver configured in `config.database`.
+ *
+ * @module services/reminder/reminderRepository
+ */
+
+import { config } from '@/config';
+import { getDatabase } from '@/instances/database';
+import { ReminderDeliveryRepository } from './reminderTypes';
+import { createMemoryReminderDeliveryRepository } from './reminderMemoryRepository';
+import { createSqliteReminderDeliveryRepository } from './reminderSqliteRepository';
+
+let reminderDeliveryRepository: ReminderDeliveryRepository | null = null;
+
+/**
+ * @summary
+ * Returns the configured reminder delivery repository, creating it on first use
+ *
+ * @function getReminderDeliveryRepository
+ * @module services/reminder
+ *
+ * @returns {ReminderDeliveryRepository} Reminder delivery repository
+ */
+export function getReminderDeliveryRepository(): ReminderDeliveryRepository {
+  if (!reminderDeliveryRepository) {
+    reminderDeliveryRepository =
+      config.database.driver === 'memory'
+        ? createMemoryReminderDeliveryRepository()
+        : createSqliteReminderDeliveryRepository(getDatabase());
+  }
+  return reminderDeliveryRepository;
+}
@@ -0,0 +1,239 @@
+/**
+ * @summary
+ * Business logic for reminder delivery.
+ * Fires the reminders whose moment has come through every enabled channel and lists the
+ * in-app notifications. Delivery records make each reminder fire once per channel, even
+ * across restarts.
+ *
+ * @module services/reminder/reminderRules
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { TaskEntity } from '@/services/task/taskTypes';
+import { getTaskRepository } from '@/services/task/taskRepository';
+import {
+  getTaskDueDate,
+  getReminderTime,
+  formatTaskDueDate,
+} from '@/services/task/taskSchedule';
+import { isTaskClosed } from '@/services/task/taskStatusMachine';
+import {
+  ReminderChannel,
+  ReminderDeliveryEntity,
+  ReminderNotification,
+  DeliveryStatus,
+} from './reminderTypes';
+import { getReminderDeliveryRepository } from './reminderRepository';
+import { getEnabledReminderChannels } from './reminderChannels';
+import { getUserRepository } from '@/services/user/userRepository';
+import { Locale } from '@/constants';
+import { formatErrorMessage, resolveLocale } from '@/utils/i18n';
+
+/**
+ * @summary
+ * Delivers every reminder whose moment has come and that was not delivered yet
+ *
+ * @function reminderDispatchDue
+ * @module services/reminder
+ *
+ * @param {Date} [now] - Current moment
+ *
+ * @returns {Promise<number>} Number of deliveries attempted
+ */
+export async function reminderDispatchDue(now: Date = new Date()): Promise<number> {
+  const channels = getEnabledReminderChannels();
+  const tasks = await getTaskRepository().findWithReminders();
+  const locales = new Map<string, Locale>();
+  let attempted = 0;
+
+  for (const task of tasks) {
+    /**
+     * @rule {be-task-reminders}
+     * Completed and cancelled tasks need no reminding
+     */
+    if (isTaskClosed(task.status)) {
+      continue;
+    }
+
+    const dueDate = getTaskDueDate(task);
+
+    for (const lembrete of task.lembretes) {
+      const dataDisparo = getReminderTime(task, lembrete);
+
+      if (!dataDisparo || dataDisparo > now) {
+        continue;
+      }
+
+      /**
+       * @rule {be-task-reminders}
+       * A lead-time reminder missed until the task is due is dropped rather than sent late
+       */
+      if (lembrete.antecedencia !== null && dueDate && dueDate <= now) {
+        continue;
+      }
+
+      /**
+       * @rule {be-localization}
+       * Notifications are written in the language chosen by their recipient
+       */
+      if (!locales.has(task.idUsuario)) {
+        const user = await getUserRepository().findById(task.idUsuario);
+        locales.set(task.idUsuario, resolveLocale(user?.idioma));
+      }
+
+      const notification = buildNotification(
+        task,
+        dataDisparo,
+        dueDate,
+        locales.get(task.idUsuario) as Locale
+      );
+
+      for (const channel of channels) {
+        if (await deliver(channel, notification)) {
+          attempted += 1;
+        }
+      }
+    }
+  }
+
+  return attempted;
+}
+
+/**
+ * @summary
+ * Retrieves the user's latest in-app notifications
+ *
+ * @function notificationList
+ * @module services/reminder
+ *
+ * @param {string} idUsuario - Owner user identifier
+ *
+ * @returns {Promise<ReminderDeliveryEntity[]>} Up to 50 notifications, newest first
+ */
+export async function notificationList(idUsuario: string): Promise<ReminderDeliveryEntity[]> {
+  return getReminderDeliveryRepository().findByChannel(idUsuario, 'App', 50);
+}
+
+/**
+ * @summary
+ * Marks an in-app notification as read
+ *
+ * @function notificationMarkRead
+ * @module services/reminder
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} id - Notification identifier
+ *
+ * @returns {Promise<ReminderDeliveryEntity | null>} Updated notification or null if not found
+ */
+export async function notificationMarkRead(
+  idUsuario: string,
+  id: string
+): Promise<ReminderDeliveryEntity | null> {
+  const delivery = await getReminderDeliveryRepository().findById(idUsuario, id);
+
+  if (!delivery || delivery.canal !== 'App') {
+    return null;
+  }
+
+  if (!delivery.lida) {
+    delivery.lida = true;
+    await getReminderDeliveryRepository().update(delivery);
+  }
+
+  return delivery;
+}
+
+/**
+ * @summary
+ * Builds the notification sent when a reminder of a task fires
+ *
+ * @function buildNotification
+ * @module services/reminder
+ *
+ * @param {TaskEntity} task - Task the reminder belongs to
+ * @param {Date} dataDisparo - Moment the reminder fired
+ * @param {Date | null} dataVencimento - Moment the task is due
+ * @param {Locale} locale - Language of the recipient
+ *
+ * @returns {ReminderNotification} Notification
+ */
+function buildNotification(
+  task: TaskEntity,
+  dataDisparo: Date,
+  dataVencimento: Date | null,
+  locale: Locale
+): ReminderNotification {
+  let mensagem = task.descricao ?? task.titulo;
+
+  const due = formatTaskDueDate(task, locale);
+
+  if (due) {
+    mensagem = formatErrorMessage('notificacaoLembreteVencimento', locale, {
+      vencimento: due,
+      mensagem,
+    });
+  }
+
+  return {
+    idUsuario: task.idUsuario,
+    idTarefa: task.id,
+    titulo: formatErrorMessage('notificacaoLembreteTitulo', locale, { titulo: task.titulo }),
+    mensagem,
+    dataDisparo,
+    dataVencimento,
+  };
+}
+
+/**
+ * @summary
+ * Delivers a notification through a channel unless it was already delivered there
+ *
+ * @function deliver
+ * @module services/reminder
+ *
+ * @param {ReminderChannel} channel - Delivery channel
+ * @param {ReminderNotification} notification - Notification to deliver
+ *
+ * @returns {Promise<boolean>} True if delivery was attempted, false if it was already done
+ */
+async function deliver(
+  channel: ReminderChannel,
+  notification: ReminderNotification
+): Promise<boolean> {
+  const delivery: ReminderDeliveryEntity = {
+    id: uuidv4(),
+    idUsuario: notification.idUsuario,
+    idTarefa: notification.idTarefa,
+    canal: channel.canal,
+    dataDisparo: notification.dataDisparo,
+    titulo: notification.titulo,
+    mensagem: notification.mensagem,
+    status: DeliveryStatus.Pendente,
+    erro: null,
+    lida: false,
+    dataCriacao: new Date(),
+    dataEntrega: null,
+  };
+
+  /**
+   * @rule {be-task-reminders}
+   * The delivery is recorded before sending, so a restart mid-delivery never sends it twice
+   */
+  if (!(await getReminderDeliveryRepository().claim(delivery))) {
+    return false;
+  }
+
+  try {
+    await channel.deliver(notification);
+    delivery.status = DeliveryStatus.Entregue;
+    delivery.dataEntrega = new Date();
+  } catch (error: any) {
+    delivery.status = DeliveryStatus.Falha;
+    delivery.erro = String(error?.message ?? error).slice(0, 500);
+  }
+
+  await getReminderDeliveryRepository().update(delivery);
+
+  return true;
+}
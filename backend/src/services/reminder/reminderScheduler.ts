@@ -0,0 +1,71 @@
+/**
+ * @summary
+ * Background scheduler for reminders.
+ * Checks for reminders to deliver every `config.reminders.checkInterval` seconds.
+ *
+ * @module services/reminder/reminderScheduler
+ */
+
+import { config } from '@/config';
+import { reminderDispatchDue } from './reminderRules';
+import { getUnknownReminderChannels } from './reminderChannels';
+
+let timer: NodeJS.Timeout | null = null;
+let dispatching = false;
+
+/**
+ * @summary
+ * Starts checking for reminders to deliver, at once and then periodically
+ *
+ * @function startReminderScheduler
+ * @module services/reminder
+ *
+ * @returns {void}
+ */
+export function startReminderScheduler(): void {
+  if (timer || config.reminders.checkInterval <= 0) {
+    return;
+  }
+
+  const unknownChannels = getUnknownReminderChannels();
+  if (unknownChannels.length > 0) {
+    console.warn(`Unknown reminder channel(s) ignored: ${unknownChannels.join(', ')}`);
+  }
+
+  /**
+   * @rule {be-task-reminders}
+   * A check never overlaps the previous one when deliveries are slow
+   */
+  const check = async () => {
+    if (dispatching) {
+      return;
+    }
+    dispatching = true;
+    try {
+      await reminderDispatchDue();
+    } catch (error) {
+      console.error('Reminder check failed:', error);
+    } finally {
+      dispatching = false;
+    }
+  };
+
+  timer = setInterval(check, config.reminders.checkInterval * 1000);
+  void check();
+}
+
+/**
+ * @summary
+ * Stops checking for reminders
+ *
+ * @function stopReminderScheduler
+ * @module services/reminder
+ *
+ * @returns {void}
+ */
+export function stopReminderScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
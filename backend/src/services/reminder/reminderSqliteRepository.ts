@@ -0,0 +1,117 @@
+/**
+ * @summary
+ * SQLite-backed reminder delivery repository.
+ * The table is created by the schema migrations in `src/migrations`.
+ *
+ * @module services/reminder/reminderSqliteRepository
+ */
+
+import Database from 'better-sqlite3';
+import { ReminderDeliveryEntity, ReminderDeliveryRepository, DeliveryStatus } from './reminderTypes';
+
+/**
+ * @interface ReminderDeliveryRow
+ * @description Delivery row as stored in the `reminder_delivery` table
+ */
+interface ReminderDeliveryRow {
+  id: string;
+  idUsuario: string;
+  idTarefa: string;
+  canal: string;
+  dataDisparo: string;
+  titulo: string;
+  mensagem: string;
+  status: string;
+  erro: string | null;
+  lida: number;
+  dataCriacao: string;
+  dataEntrega: string | null;
+}
+
+function toReminderDeliveryEntity(row: ReminderDeliveryRow): ReminderDeliveryEntity {
+  return {
+    ...row,
+    dataDisparo: new Date(row.dataDisparo),
+    status: row.status as DeliveryStatus,
+    lida: row.lida === 1,
+    dataCriacao: new Date(row.dataCriacao),
+    dataEntrega: row.dataEntrega ? new Date(row.dataEntrega) : null,
+  };
+}
+
+function toReminderDeliveryRow(delivery: ReminderDeliveryEntity): ReminderDeliveryRow {
+  return {
+    ...delivery,
+    dataDisparo: delivery.dataDisparo.toISOString(),
+    lida: delivery.lida ? 1 : 0,
+    dataCriacao: delivery.dataCriacao.toISOString(),
+    dataEntrega: delivery.dataEntrega ? delivery.dataEntrega.toISOString() : null,
+  };
+}
+
+/**
+ * @summary
+ * Creates a reminder delivery repository backed by the `reminder_delivery` table
+ *
+ * @function createSqliteReminderDeliveryRepository
+ * @module services/reminder
+ *
+ * @param {Database.Database} db - Open database connection
+ *
+ * @returns {ReminderDeliveryRepository} SQLite reminder delivery repository
+ */
+export function createSqliteReminderDeliveryRepository(
+  db: Database.Database
+): ReminderDeliveryRepository {
+  const selectByChannel = db.prepare(`
+    SELECT * FROM reminder_delivery WHERE idUsuario = ? AND canal = ?
+    ORDER BY dataDisparo DESC LIMIT ?
+  `);
+  const selectById = db.prepare('SELECT * FROM reminder_delivery WHERE idUsuario = ? AND id = ?');
+  const insertDelivery = db.prepare(`
+    INSERT OR IGNORE INTO reminder_delivery (
+      id, idUsuario, idTarefa, canal, dataDisparo, titulo, mensagem, status, erro, lida,
+      dataCriacao, dataEntrega
+    )
+    VALUES (
+      @id, @idUsuario, @idTarefa, @canal, @dataDisparo, @titulo, @mensagem, @status, @erro, @lida,
+      @dataCriacao, @dataEntrega
+    )
+  `);
+  const updateDelivery = db.prepare(`
+    UPDATE reminder_delivery SET
+      status = @status,
+      erro = @erro,
+      lida = @lida,
+      dataEntrega = @dataEntrega
+    WHERE id = @id AND idUsuario = @idUsuario
+  `);
+  const deleteByTask = db.prepare(
+    'DELETE FROM reminder_delivery WHERE idUsuario = ? AND idTarefa = ?'
+  );
+
+  return {
+    async findByChannel(idUsuario, canal, limit) {
+      return (selectByChannel.all(idUsuario, canal, limit) as ReminderDeliveryRow[]).map(
+        toReminderDeliveryEntity
+      );
+    },
+
+    async findById(idUsuario, id) {
+      const row = selectById.get(idUsuario, id) as ReminderDeliveryRow | undefined;
+      return row ? toReminderDeliveryEntity(row) : null;
+    },
+
+    async claim(delivery) {
+      return insertDelivery.run(toReminderDeliveryRow(delivery)).changes > 0;
+    },
+
+    async update(delivery) {
+      updateDelivery.run(toReminderDeliveryRow(delivery));
+    },
+
+    async removeByTask(idUsuario, idTarefa) {
+      deleteByTask.run(idUsuario, idTarefa);
+    },
+  };
+}
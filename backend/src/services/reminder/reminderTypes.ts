@@ -0,0 +1,101 @@
+/**
+ * @summary
+ * Type definitions for reminder delivery.
+ * Defines interfaces for delivery channels, delivered reminders and their storage.
+ *
+ * @module services/reminder/reminderTypes
+ */
+
+/**
+ * @enum DeliveryStatus
+ * @description Outcome of delivering a reminder through a channel
+ */
+export enum DeliveryStatus {
+  Pendente = 'Pendente',
+  Entregue = 'Entregue',
+  Falha = 'Falha',
+}
+
+/**
+ * @interface ReminderNotification
+ * @description Reminder handed to a delivery channel
+ *
+ * @property {string} idUsuario - Owner user identifier
+ * @property {string} idTarefa - Task identifier
+ * @property {string} titulo - Notification title
+ * @property {string} mensagem - Notification text
+ * @property {Date} dataDisparo - Moment the reminder fired
+ * @property {Date | null} dataVencimento - Moment the task is due, null when it has no due date
+ */
+export interface ReminderNotification {
+  idUsuario: string;
+  idTarefa: string;
+  titulo: string;
+  mensagem: string;
+  dataDisparo: Date;
+  dataVencimento: Date | null;
+}
+
+/**
+ * @interface ReminderChannel
+ * @description Delivery channel for fired reminders
+ *
+ * @property {string} canal - Channel name, as listed in `config.reminders.channels`
+ * @property {Function} deliver - Delivers a reminder, rejecting when delivery fails
+ */
+export interface ReminderChannel {
+  canal: string;
+  deliver(notification: ReminderNotification): Promise<void>;
+}
+
+/**
+ * @interface ReminderDeliveryEntity
+ * @description Record of a reminder delivered, or attempted, through a channel. A reminder
+ * is delivered at most once per channel for each moment it fires.
+ *
+ * @property {string} id - Unique delivery identifier (UUID)
+ * @property {string} idUsuario - Owner user identifier
+ * @property {string} idTarefa - Task identifier
+ * @property {string} canal - Channel name
+ * @property {Date} dataDisparo - Moment the reminder fired
+ * @property {string} titulo - Notification title
+ * @property {string} mensagem - Notification text
+ * @property {DeliveryStatus} status - Delivery outcome
+ * @property {string | null} erro - Failure reason, null unless the delivery failed
+ * @property {boolean} lida - Whether the user has read an in-app notification
+ * @property {Date} dataCriacao - Creation timestamp
+ * @property {Date | null} dataEntrega - Delivery timestamp, null until delivered
+ */
+export interface ReminderDeliveryEntity {
+  id: string;
+  idUsuario: string;
+  idTarefa: string;
+  canal: string;
+  dataDisparo: Date;
+  titulo: string;
+  mensagem: string;
+  status: DeliveryStatus;
+  erro: string | null;
+  lida: boolean;
+  dataCriacao: Date;
+  dataEntrega: Date | null;
+}
+
+/**
+ * @interface ReminderDeliveryRepository
+ * @description Storage contract for reminder deliveries, scoped by owner
+ *
+ * @property {Function} findByChannel - Returns a user's latest deliveries through a channel
+ * @property {Function} findById - Returns a user's delivery by identifier or null
+ * @property {Function} claim - Stores a new delivery, resolving false when the reminder was
+ * already delivered through the channel for the same moment
+ * @property {Function} update - Replaces a stored delivery of the same owner
+ * @property {Function} removeByTask - Removes every delivery of a task
+ */
+export interface ReminderDeliveryRepository {
+  findByChannel(idUsuario: string, canal: string, limit: number): Promise<ReminderDeliveryEntity[]>;
+  findById(idUsuario: string, id: string): Promise<ReminderDeliveryEntity | null>;
+  claim(delivery: ReminderDeliveryEntity): Promise<boolean>;
+  update(delivery: ReminderDeliveryEntity): Promise<void>;
+  removeByTask(idUsuario: string, idTarefa: string): Promise<void>;
+}
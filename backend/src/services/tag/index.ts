@@ -0,0 +1,10 @@
+/**
+ * @summary
+ * Tag service exports.
+ * Provides centralized access to tag management logic.
+ *
+ * @module services/tag
+ */
+
+export * from './tagTypes';
+export * from './tagRules';
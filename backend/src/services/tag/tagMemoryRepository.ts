@@ -0,0 +1,63 @@
+/**
+ * @summary
+ * In-memory tag repository.
+ * Data lives only for the lifetime of the process.
+ *
+ * @module services/tag/tagMemoryRepository
+ */
+
+import { TagEntity, TagRepository } from './tagTypes';
+
+/**
+ * @summary
+ * Creates an in-memory tag repository
+ *
+ * @function createMemoryTagRepository
+ * @module services/tag
+ *
+ * @returns {TagRepository} Tag repository backed by an array
+ */
+export function createMemoryTagRepository(): TagRepository {
+  const tags: TagEntity[] = [];
+
+  return {
+    async findAll(idUsuario) {
+      return tags
+        .filter((t) => t.idUsuario === idUsuario)
+        .sort((a, b) => a.nome.localeCompare(b.nome))
+        .map((tag) => ({ ...tag }));
+    },
+
+    async findById(idUsuario, id) {
+      const tag = tags.find((t) => t.id === id && t.idUsuario === idUsuario);
+      return tag ? { ...tag } : null;
+    },
+
+    async findByName(idUsuario, nome) {
+      const tag = tags.find(
+        (t) => t.idUsuario === idUsuario && t.nome.toLowerCase() === nome.toLowerCase()
+      );
+      return tag ? { ...tag } : null;
+    },
+
+    async insert(tag) {
+      tags.push({ ...tag });
+    },
+
+    async update(tag) {
+      const tagIndex = tags.findIndex((t) => t.id === tag.id && t.idUsuario === tag.idUsuario);
+      if (tagIndex !== -1) {
+        tags[tagIndex] = { ...tag };
+      }
+    },
+
+    async remove(idUsuario, id) {
+      const tagIndex = tags.findIndex((t) => t.id === id && t.idUsuario === idUsuario);
+      if (tagIndex === -1) {
+        return false;
+      }
+      tags.splice(tagIndex, 1);
+      return true;
+    },
+  };
+}
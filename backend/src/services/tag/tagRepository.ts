@@ -0,0 +1,34 @@
+/**
+ * @summary
+ * Tag storage selection.
+ * Resolves the tag repository for the driver configured in `config.database`.
+ *
+ * @module services/tag/tagRepository
+ */
+
+import { config } from '@/config';
+import { getDatabase } from '@/instances/database';
+import { TagRepository } from './tagTypes';
+import { createMemoryTagRepository } from './tagMemoryRepository';
+import { createSqliteTagRepository } from './tagSqliteRepository';
+
+let tagRepository: TagRepository | null = null;
+
+/**
+ * @summary
+ * Returns the configured tag repository, creating it on first use
+ *
+ * @function getTagRepository
+ * @module services/tag
+ *
+ * @returns {TagRepository} Tag repository
+ */
+export function getTagRepository(): TagRepository {
+  if (!tagRepository) {
+    tagRepository =
+      config.database.driver === 'memory'
+        ? createMemoryTagRepository()
+        : createSqliteTagRepository(getDatabase());
+  }
+  return tagRepository;
+}
@@ -0,0 +1,279 @@
+/**
+ * @summary
+ * Business logic for task tags.
+ * Implements tag CRUD plus rename and merge, keeping task assignments and history in sync.
+ *
+ * @module services/tag/tagRules
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { TagEntity, TagRequest } from './tagTypes';
+import { getTagRepository } from './tagRepository';
+import { TaskEntity } from '@/services/task/taskTypes';
+import { getTaskRepository } from '@/services/task/taskRepository';
+import { recordHistory } from '@/services/task/taskHistory';
+import { ConflictError, ValidationError } from '@/utils/errors';
+
+/**
+ * @summary
+ * Retrieves every tag of a user ordered by name
+ *
+ * @function tagList
+ * @module services/tag
+ *
+ * @param {string} idUsuario - Owner user identifier
+ *
+ * @returns {Promise<TagEntity[]>} User's tags
+ */
+export async function tagList(idUsuario: string): Promise<TagEntity[]> {
+  return getTagRepository().findAll(idUsuario);
+}
+
+/**
+ * @summary
+ * Creates a new tag
+ *
+ * @function tagCreate
+ * @module services/tag
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {TagRequest} data - Tag name and color
+ *
+ * @returns {Promise<TagEntity>} Created tag
+ *
+ * @throws {ConflictError} When the user already has a tag with that name
+ */
+export async function tagCreate(idUsuario: string, data: TagRequest): Promise<TagEntity> {
+  const nome = data.nome.trim();
+
+  /**
+   * @rule {be-task-tags}
+   * Tag names are unique per user, regardless of case
+   */
+  if (await getTagRepository().findByName(idUsuario, nome)) {
+    throw new ConflictError('tagJaExiste');
+  }
+
+  const tag: TagEntity = {
+    id: uuidv4(),
+    idUsuario,
+    nome,
+    cor: data.cor.toLowerCase(),
+    dataCriacao: new Date(),
+    dataAtualizacao: new Date(),
+  };
+
+  await getTagRepository().insert(tag);
+
+  return tag;
+}
+
+/**
+ * @summary
+ * Renames or recolors a tag; a rename is recorded in the history of every tagged task
+ *
+ * @function tagUpdate
+ * @module services/tag
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} id - Tag identifier
+ * @param {TagRequest} data - New name and color
+ *
+ * @returns {Promise<TagEntity | null>} Updated tag or null if not found
+ *
+ * @throws {ConflictError} When another tag of the user already has the new name
+ */
+export async function tagUpdate(
+  idUsuario: string,
+  id: string,
+  data: TagRequest
+): Promise<TagEntity | null> {
+  const tag = await getTagRepository().findById(idUsuario, id);
+
+  if (!tag) {
+    return null;
+  }
+
+  const nome = data.nome.trim();
+  const existing = await getTagRepository().findByName(idUsuario, nome);
+
+  if (existing && existing.id !== id) {
+    throw new ConflictError('tagJaExiste');
+  }
+
+  const oldNome = tag.nome;
+  tag.nome = nome;
+  tag.cor = data.cor.toLowerCase();
+  tag.dataAtualizacao = new Date();
+
+  await getTagRepository().update(tag);
+
+  if (oldNome !== nome) {
+    for (const task of await findTaggedTasks(idUsuario, id)) {
+      await recordHistory({
+        idUsuario,
+        idTarefa: task.id,
+        tipoAlteracao: 'Edição',
+        campoAlterado: 'tags',
+        valorAnterior: oldNome,
+        valorNovo: nome,
+        origemAlteracao: 'Manual',
+      });
+    }
+  }
+
+  return tag;
+}
+
+/**
+ * @summary
+ * Deletes a tag and removes it from every task
+ *
+ * @function tagDelete
+ * @module services/tag
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} id - Tag identifier
+ *
+ * @returns {Promise<boolean>} True if deleted, false if not found
+ */
+export async function tagDelete(idUsuario: string, id: string): Promise<boolean> {
+  const tag = await getTagRepository().findById(idUsuario, id);
+
+  if (!tag) {
+    return false;
+  }
+
+  await reassignTag(idUsuario, tag, null);
+
+  return getTagRepository().remove(idUsuario, id);
+}
+
+/**
+ * @summary
+ * Merges a tag into another one: tasks carrying the source tag get the target tag instead,
+ * and the source tag is deleted
+ *
+ * @function tagMerge
+ * @module services/tag
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} id - Source tag identifier
+ * @param {string} idTagDestino - Target tag identifier
+ *
+ * @returns {Promise<TagEntity | null>} Target tag or null if either tag is not found
+ *
+ * @throws {ValidationError} When a tag is merged into itself
+ */
+export async function tagMerge(
+  idUsuario: string,
+  id: string,
+  idTagDestino: string
+): Promise<TagEntity | null> {
+  if (id === idTagDestino) {
+    throw new ValidationError('tagMesclagemInvalida');
+  }
+
+  const source = await getTagRepository().findById(idUsuario, id);
+  const target = await getTagRepository().findById(idUsuario, idTagDestino);
+
+  if (!source || !target) {
+    return null;
+  }
+
+  await reassignTag(idUsuario, source, target);
+  await getTagRepository().remove(idUsuario, id);
+
+  return target;
+}
+
+/**
+ * @summary
+ * Formats tag assignments as a history value, e.g. "Cliente A, Financeiro"
+ *
+ * @function formatTagNames
+ * @module services/tag
+ *
+ * @param {string[]} ids - Assigned tag identifiers
+ * @param {TagEntity[]} tags - User's tags used to resolve names
+ *
+ * @returns {string | null} Sorted tag names, or null when no tag is assigned
+ */
+export function formatTagNames(ids: string[], tags: TagEntity[]): string | null {
+  const names = ids
+    .map((tagId) => tags.find((tag) => tag.id === tagId)?.nome ?? tagId)
+    .sort((a, b) => a.localeCompare(b));
+
+  return names.length > 0 ? names.join(', ') : null;
+}
+
+/**
+ * @summary
+ * Retrieves every task of a user that carries a tag, including the ones in the trash
+ *
+ * @function findTaggedTasks
+ * @module services/tag
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTag - Tag identifier
+ *
+ * @returns {Promise<TaskEntity[]>} Active and trashed tasks carrying the tag
+ */
+async function findTaggedTasks(idUsuario: string, idTag: string): Promise<TaskEntity[]> {
+  /**
+   * @rule {be-task-tags}
+   * Trashed tasks follow tag changes too, so a restored task never points at a removed tag
+   */
+  const tasks = [
+    ...(await getTaskRepository().findAll(idUsuario)),
+    ...(await getTaskRepository().findDeleted(idUsuario)),
+  ];
+
+  return tasks.filter((task) => task.tags.includes(idTag));
+}
+
+/**
+ * @summary
+ * Replaces a tag on every task that carries it, trashed ones included, recording the change in
+ * each task's history
+ *
+ * @function reassignTag
+ * @module services/tag
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {TagEntity} source - Tag being removed from the tasks
+ * @param {TagEntity | null} target - Tag assigned in its place, or null to just remove it
+ *
+ * @returns {Promise<void>}
+ */
+async function reassignTag(
+  idUsuario: string,
+  source: TagEntity,
+  target: TagEntity | null
+): Promise<void> {
+  const tags = await getTagRepository().findAll(idUsuario);
+
+  for (const task of await findTaggedTasks(idUsuario, source.id)) {
+    const oldTags = task.tags;
+    const newTags = oldTags.filter((tagId) => tagId !== source.id);
+
+    if (target && !newTags.includes(target.id)) {
+      newTags.push(target.id);
+    }
+
+    task.tags = newTags;
+    task.dataAtualizacao = new Date();
+
+    await getTaskRepository().update(task);
+
+    await recordHistory({
+      idUsuario,
+      idTarefa: task.id,
+      tipoAlteracao: 'Edição',
+      campoAlterado: 'tags',
+      valorAnterior: formatTagNames(oldTags, tags),
+      valorNovo: formatTagNames(newTags, tags),
+      origemAlteracao: 'Manual',
+    });
+  }
+}
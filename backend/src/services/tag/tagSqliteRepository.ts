@@ -0,0 +1,95 @@
+/**
+ * @summary
+ * SQLite-backed tag repository.
+ * The table is created by the schema migrations in `src/migrations`.
+ *
+ * @module services/tag/tagSqliteRepository
+ */
+
+import Database from 'better-sqlite3';
+import { TagEntity, TagRepository } from './tagTypes';
+
+/**
+ * @interface TagRow
+ * @description Tag row as stored in the `tag` table
+ */
+interface TagRow {
+  id: string;
+  idUsuario: string;
+  nome: string;
+  cor: string;
+  dataCriacao: string;
+  dataAtualizacao: string;
+}
+
+function toTagEntity(row: TagRow): TagEntity {
+  return {
+    ...row,
+    dataCriacao: new Date(row.dataCriacao),
+    dataAtualizacao: new Date(row.dataAtualizacao),
+  };
+}
+
+function toTagRow(tag: TagEntity): TagRow {
+  return {
+    ...tag,
+    dataCriacao: tag.dataCriacao.toISOString(),
+    dataAtualizacao: tag.dataAtualizacao.toISOString(),
+  };
+}
+
+/**
+ * @summary
+ * Creates a tag repository backed by the `tag` table
+ *
+ * @function createSqliteTagRepository
+ * @module services/tag
+ *
+ * @param {Database.Database} db - Open database connection
+ *
+ * @returns {TagRepository} SQLite tag repository
+ */
+export function createSqliteTagRepository(db: Database.Database): TagRepository {
+  const selectAll = db.prepare('SELECT * FROM tag WHERE idUsuario = ? ORDER BY nome');
+  const selectById = db.prepare('SELECT * FROM tag WHERE idUsuario = ? AND id = ?');
+  const selectByName = db.prepare(
+    'SELECT * FROM tag WHERE idUsuario = ? AND nome = ? COLLATE NOCASE'
+  );
+  const insertTag = db.prepare(`
+    INSERT INTO tag (id, idUsuario, nome, cor, dataCriacao, dataAtualizacao)
+    VALUES (@id, @idUsuario, @nome, @cor, @dataCriacao, @dataAtualizacao)
+  `);
+  const updateTag = db.prepare(`
+    UPDATE tag SET nome = @nome, cor = @cor, dataAtualizacao = @dataAtualizacao
+    WHERE id = @id AND idUsuario = @idUsuario
+  `);
+  const deleteTag = db.prepare('DELETE FROM tag WHERE idUsuario = ? AND id = ?');
+
+  return {
+    async findAll(idUsuario) {
+      return (selectAll.all(idUsuario) as TagRow[]).map(toTagEntity);
+    },
+
+    async findById(idUsuario, id) {
+      const row = selectById.get(idUsuario, id) as TagRow | undefined;
+      return row ? toTagEntity(row) : null;
+    },
+
+    async findByName(idUsuario, nome) {
+      const row = selectByName.get(idUsuario, nome) as TagRow | undefined;
+      return row ? toTagEntity(row) : null;
+    },
+
+    async insert(tag) {
+      insertTag.run(toTagRow(tag));
+    },
+
+    async update(tag) {
+      updateTag.run(toTagRow(tag));
+    },
+
+    async remove(idUsuario, id) {
+      return deleteTag.run(idUsuario, id).changes > 0;
+    },
+  };
+}
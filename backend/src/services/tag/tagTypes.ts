@@ -0,0 +1,59 @@
+/**
+ * @summary
+ * Type definitions for task tags.
+ * Defines interfaces for tags and tag operations.
+ *
+ * @module services/tag/tagTypes
+ */
+
+/**
+ * @interface TagEntity
+ * @description Represents a user-defined label that can be assigned to tasks
+ *
+ * @property {string} id - Unique tag identifier (UUID)
+ * @property {string} idUsuario - Owner user identifier
+ * @property {string} nome - Tag name, unique per user regardless of case
+ * @property {string} cor - Display color in #RRGGBB format
+ * @property {Date} dataCriacao - Creation timestamp
+ * @property {Date} dataAtualizacao - Last update timestamp
+ */
+export interface TagEntity {
+  id: string;
+  idUsuario: string;
+  nome: string;
+  cor: string;
+  dataCriacao: Date;
+  dataAtualizacao: Date;
+}
+
+/**
+ * @interface TagRequest
+ * @description Parameters for creating or updating a tag
+ *
+ * @property {string} nome - Tag name
+ * @property {string} cor - Display color in #RRGGBB format
+ */
+export interface TagRequest {
+  nome: string;
+  cor: string;
+}
+
+/**
+ * @interface TagRepository
+ * @description Storage contract for tags, scoped by owner
+ *
+ * @property {Function} findAll - Returns every tag owned by a user
+ * @property {Function} findById - Returns a user's tag by identifier or null
+ * @property {Function} findByName - Returns a user's tag by case-insensitive name or null
+ * @property {Function} insert - Stores a new tag
+ * @property {Function} update - Replaces a stored tag of the same owner
+ * @property {Function} remove - Removes a user's tag, resolving false when it does not exist
+ */
+export interface TagRepository {
+  findAll(idUsuario: string): Promise<TagEntity[]>;
+  findById(idUsuario: string, id: string): Promise<TagEntity | null>;
+  findByName(idUsuario: string, nome: string): Promise<TagEntity | null>;
+  insert(tag: TagEntity): Promise<void>;
+  update(tag: TagEntity): Promise<void>;
+  remove(idUsuario: string, id: string): Promise<boolean>;
+}
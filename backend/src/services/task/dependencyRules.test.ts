@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  DependencyRepository,
+  HistoryRepository,
+  TaskEntity,
+  TaskImportance,
+  TaskRepository,
+  TaskStatus,
+} from './taskTypes';
+import {
+  createMemoryDependencyRepository,
+  createMemoryHistoryRepository,
+  createMemoryTaskRepository,
+} from './taskMemoryRepository';
+import { dependencyCreate, dependencyList } from './dependencyRules';
+import { ValidationError } from '@/utils/errors';
+
+let mockRepositories: {
+  tasks: TaskRepository;
+  dependencies: DependencyRepository;
+  history: HistoryRepository;
+};
+
+jest.mock('./taskRepository', () => ({
+  getTaskRepository: () => mockRepositories.tasks,
+  getDependencyRepository: () => mockRepositories.dependencies,
+  getHistoryRepository: () => mockRepositories.history,
+}));
+
+const ID_USUARIO = 'usuario-1';
+
+const buildTask = (id: string): TaskEntity => ({
+  id,
+  idUsuario: ID_USUARIO,
+  titulo: `Tarefa ${id}`,
+  descricao: null,
+  dataVencimento: null,
+  fusoHorario: 'UTC',
+  diaInteiro: true,
+  dataInicio: null,
+  dataAgendada: null,
+  sonecaAte: null,
+  adiamentos: 0,
+  dataExclusao: null,
+  importancia: TaskImportance.Média,
+  status: TaskStatus.Pendente,
+  recorrencia: null,
+  idSerie: null,
+  ocorrencia: null,
+  idProximaOcorrencia: null,
+  idTarefaPai: null,
+  tags: [],
+  idProjeto: null,
+  duracaoEstimada: null,
+  lembretes: [],
+  dataCriacao: new Date(),
+  dataAtualizacao: new Date(),
+});
+
+/**
+ * Links each pair as `[dependent, blocker]`
+ */
+const link = async (...pairs: [string, string][]) => {
+  for (const [idTarefa, idTarefaBloqueadora] of pairs) {
+    await dependencyCreate(ID_USUARIO, idTarefa, idTarefaBloqueadora);
+  }
+};
+
+const expectCycle = (promise: Promise<unknown>) =>
+  expect(promise).rejects.toMatchObject({
+    constructor: ValidationError,
+    code: 'dependenciaCiclica',
+  });
+
+beforeEach(async () => {
+  mockRepositories = {
+    tasks: createMemoryTaskRepository(),
+    dependencies: createMemoryDependencyRepository(),
+    history: createMemoryHistoryRepository(),
+  };
+
+  for (const id of ['a', 'b', 'c', 'd']) {
+    await mockRepositories.tasks.insert(buildTask(id));
+  }
+});
+
+describe('dependencyCreate cycle detection', () => {
+  it('links a task to a blocker that does not depend on it', async () => {
+    await link(['a', 'b'], ['b', 'c']);
+
+    const dependencies = await dependencyList(ID_USUARIO, 'b');
+    expect(dependencies?.bloqueadaPor.map((t) => t.id)).toEqual(['c']);
+    expect(dependencies?.bloqueando.map((t) => t.id)).toEqual(['a']);
+  });
+
+  it('rejects a task blocking itself', async () => {
+    await expectCycle(dependencyCreate(ID_USUARIO, 'a', 'a'));
+  });
+
+  it('rejects a direct cycle', async () => {
+    await link(['a', 'b']);
+
+    await expectCycle(dependencyCreate(ID_USUARIO, 'b', 'a'));
+  });
+
+  it('rejects a cycle through other tasks', async () => {
+    await link(['a', 'b'], ['b', 'c'], ['c', 'd']);
+
+    await expectCycle(dependencyCreate(ID_USUARIO, 'd', 'a'));
+    expect(await mockRepositories.dependencies.findAll(ID_USUARIO)).toHaveLength(3);
+  });
+
+  it('accepts converging links that form no cycle', async () => {
+    await link(['a', 'b'], ['a', 'c'], ['b', 'd'], ['c', 'd']);
+
+    expect(await mockRepositories.dependencies.findAll(ID_USUARIO)).toHaveLength(4);
+  });
+
+  it('ignores a link that already exists instead of seeing a cycle in it', async () => {
+    await link(['a', 'b']);
+    await link(['a', 'b']);
+
+    expect(await mockRepositories.dependencies.findAll(ID_USUARIO)).toHaveLength(1);
+    expect(await mockRepositories.history.findByTask(ID_USUARIO, 'a')).toHaveLength(1);
+  });
+
+  it('does not follow links of other users', async () => {
+    await mockRepositories.dependencies.insert({
+      idUsuario: 'usuario-2',
+      idTarefa: 'b',
+      idTarefaBloqueadora: 'a',
+      dataCriacao: new Date(),
+    });
+
+    await expect(dependencyCreate(ID_USUARIO, 'a', 'b')).resolves.not.toBeNull();
+  });
+});
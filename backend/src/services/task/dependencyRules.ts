@@ -0,0 +1,211 @@
+/**
+ * @summary
+ * Business logic for task dependencies.
+ * A dependency is a blocked-by link: the dependent task should not be completed
+ * before its blocking task. Links never form cycles.
+ *
+ * @module services/task/dependencyRules
+ */
+
+import { TaskEntity, TaskDependencies, DependencyEntity } from './taskTypes';
+import { getTaskRepository, getDependencyRepository } from './taskRepository';
+import { recordHistory } from './taskHistory';
+import { isTaskClosed } from './taskStatusMachine';
+import { ValidationError } from '@/utils/errors';
+
+/**
+ * @summary
+ * Retrieves the tasks blocking a task and the tasks it blocks
+ *
+ * @function dependencyList
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Task identifier
+ *
+ * @returns {Promise<TaskDependencies | null>} Linked tasks, or null if the task is not found
+ */
+export async function dependencyList(
+  idUsuario: string,
+  idTarefa: string
+): Promise<TaskDependencies | null> {
+  const task = await getTaskRepository().findById(idUsuario, idTarefa);
+
+  if (!task) {
+    return null;
+  }
+
+  const tasks = await getTaskRepository().findAll(idUsuario);
+  const dependencies = await getDependencyRepository().findAll(idUsuario);
+
+  const findTasks = (ids: string[]) => tasks.filter((t) => ids.includes(t.id));
+
+  return {
+    bloqueadaPor: findTasks(
+      dependencies.filter((d) => d.idTarefa === idTarefa).map((d) => d.idTarefaBloqueadora)
+    ),
+    bloqueando: findTasks(
+      dependencies.filter((d) => d.idTarefaBloqueadora === idTarefa).map((d) => d.idTarefa)
+    ),
+  };
+}
+
+/**
+ * @summary
+ * Marks a task as blocked by another task
+ *
+ * @function dependencyCreate
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Dependent task identifier
+ * @param {string} idTarefaBloqueadora - Blocking task identifier
+ *
+ * @returns {Promise<TaskDependencies | null>} Updated links of the dependent task, or null if
+ * either task is not found
+ *
+ * @throws {ValidationError} When the link would make a task depend on itself, directly or through a
+ * cycle
+ */
+export async function dependencyCreate(
+  idUsuario: string,
+  idTarefa: string,
+  idTarefaBloqueadora: string
+): Promise<TaskDependencies | null> {
+  const task = await getTaskRepository().findById(idUsuario, idTarefa);
+  const blocker = await getTaskRepository().findById(idUsuario, idTarefaBloqueadora);
+
+  if (!task || !blocker) {
+    return null;
+  }
+
+  const dependencies = await getDependencyRepository().findAll(idUsuario);
+
+  const exists = dependencies.some(
+    (d) => d.idTarefa === idTarefa && d.idTarefaBloqueadora === idTarefaBloqueadora
+  );
+
+  if (!exists) {
+    /**
+     * @rule {be-task-dependencies}
+     * A link is rejected when the blocking task already depends, directly or
+     * transitively, on the dependent task
+     */
+    if (dependsOn(dependencies, idTarefaBloqueadora, idTarefa)) {
+      throw new ValidationError('dependenciaCiclica');
+    }
+
+    await getDependencyRepository().insert({
+      idUsuario,
+      idTarefa,
+      idTarefaBloqueadora,
+      dataCriacao: new Date(),
+    });
+
+    await recordHistory({
+      idUsuario,
+      idTarefa,
+      tipoAlteracao: 'Edição',
+      campoAlterado: 'dependencia',
+      valorAnterior: null,
+      valorNovo: blocker.titulo,
+      origemAlteracao: 'Manual',
+    });
+  }
+
+  return dependencyList(idUsuario, idTarefa);
+}
+
+/**
+ * @summary
+ * Removes a blocked-by link between two tasks
+ *
+ * @function dependencyDelete
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Dependent task identifier
+ * @param {string} idTarefaBloqueadora - Blocking task identifier
+ *
+ * @returns {Promise<boolean>} True if removed, false if the link does not exist
+ */
+export async function dependencyDelete(
+  idUsuario: string,
+  idTarefa: string,
+  idTarefaBloqueadora: string
+): Promise<boolean> {
+  const removed = await getDependencyRepository().remove(idUsuario, idTarefa, idTarefaBloqueadora);
+
+  if (removed) {
+    const blocker = await getTaskRepository().findById(idUsuario, idTarefaBloqueadora);
+
+    await recordHistory({
+      idUsuario,
+      idTarefa,
+      tipoAlteracao: 'Edição',
+      campoAlterado: 'dependencia',
+      valorAnterior: blocker?.titulo ?? idTarefaBloqueadora,
+      valorNovo: null,
+      origemAlteracao: 'Manual',
+    });
+  }
+
+  return removed;
+}
+
+/**
+ * @summary
+ * Retrieves the blocking tasks of a task that are not completed yet
+ *
+ * @function dependencyOpenBlockers
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Dependent task identifier
+ *
+ * @returns {Promise<TaskEntity[]>} Open blocking tasks
+ */
+export async function dependencyOpenBlockers(
+  idUsuario: string,
+  idTarefa: string
+): Promise<TaskEntity[]> {
+  const dependencies = await dependencyList(idUsuario, idTarefa);
+
+  return (dependencies?.bloqueadaPor ?? []).filter((t) => !isTaskClosed(t.status));
+}
+
+/**
+ * @summary
+ * Checks whether a task depends, directly or through other tasks, on another task
+ *
+ * @function dependsOn
+ * @module services/task
+ *
+ * @param {DependencyEntity[]} dependencies - Every link of the user
+ * @param {string} idTarefa - Task whose blockers are followed
+ * @param {string} idAlvo - Task searched for among the blockers
+ *
+ * @returns {boolean} True if idAlvo is reachable from idTarefa, or both are the same task
+ */
+function dependsOn(dependencies: DependencyEntity[], idTarefa: string, idAlvo: string): boolean {
+  const visited = new Set<string>();
+  const pending = [idTarefa];
+
+  while (pending.length > 0) {
+    const current = pending.pop() as string;
+
+    if (current === idAlvo) {
+      return true;
+    }
+    if (visited.has(current)) {
+      continue;
+    }
+    visited.add(current);
+
+    for (const dependency of dependencies.filter((d) => d.idTarefa === current)) {
+      pending.push(dependency.idTarefaBloqueadora);
+    }
+  }
+
+  return false;
+}
@@ -1,10 +1,15 @@
 /**
  * @summary
  * Task service exports.
- * Provides centralized access to task business logic.
+ * Provides centralized access to task business logic and the trash scheduler.
  *
  * @module services/task
  */
 
 export * from './taskTypes';
 export * from './taskRules';
+export * from './taskStatusMachine';
+export * from './subtaskRules';
+export * from './dependencyRules';
+export * from './timeEntryRules';
+export * from './trashScheduler';
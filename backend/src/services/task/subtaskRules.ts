@@ -0,0 +1,401 @@
+/**
+ * @summary
+ * Business logic for task checklists and subtasks.
+ * Checklist items are ordered text entries with a done flag; subtasks are full tasks
+ * linked to a parent task through `idTarefaPai`.
+ *
+ * @module services/task/subtaskRules
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  TaskEntity,
+  TaskCreateRequest,
+  TaskUpdateRequest,
+  TaskProgress,
+  ChecklistItemEntity,
+  ChecklistItemUpdateRequest,
+  SubtaskList,
+} from './taskTypes';
+import { getTaskRepository, getChecklistRepository } from './taskRepository';
+import { taskCreate, taskUpdate, taskDelete } from './taskRules';
+import { recordHistory, describeChecklistItem } from './taskHistory';
+import { calculateTaskProgress } from './taskProgress';
+import { ValidationError } from '@/utils/errors';
+
+/**
+ * @summary
+ * Retrieves the checklist items and subtasks of a task
+ *
+ * @function subtaskList
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Parent task identifier
+ *
+ * @returns {Promise<SubtaskList | null>} Items, subtasks and progress, or null if the task is not found
+ */
+export async function subtaskList(
+  idUsuario: string,
+  idTarefa: string
+): Promise<SubtaskList | null> {
+  const task = await getTaskRepository().findById(idUsuario, idTarefa);
+
+  if (!task) {
+    return null;
+  }
+
+  const itens = await getChecklistRepository().findByTask(idUsuario, idTarefa);
+  const tarefas = await getTaskRepository().findByParent(idUsuario, idTarefa);
+
+  return { itens, tarefas, progresso: calculateTaskProgress(itens, tarefas) };
+}
+
+/**
+ * @summary
+ * Retrieves the subtask progress of a task
+ *
+ * @function subtaskProgress
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Parent task identifier
+ *
+ * @returns {Promise<TaskProgress | null>} Progress or null if the task is not found
+ */
+export async function subtaskProgress(
+  idUsuario: string,
+  idTarefa: string
+): Promise<TaskProgress | null> {
+  const subtasks = await subtaskList(idUsuario, idTarefa);
+  return subtasks ? subtasks.progresso : null;
+}
+
+/**
+ * @summary
+ * Appends a checklist item to a task
+ *
+ * @function subtaskCreateItem
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Parent task identifier
+ * @param {string} texto - Item text
+ *
+ * @returns {Promise<ChecklistItemEntity | null>} Created item or null if the task is not found
+ *
+ * @throws {ValidationError} When validation fails
+ */
+export async function subtaskCreateItem(
+  idUsuario: string,
+  idTarefa: string,
+  texto: string
+): Promise<ChecklistItemEntity | null> {
+  const task = await getTaskRepository().findById(idUsuario, idTarefa);
+
+  if (!task) {
+    return null;
+  }
+
+  /**
+   * @validation Validate required fields
+   */
+  validateItemText(texto);
+
+  /**
+   * @rule {be-task-subtasks}
+   * New items go to the end of the checklist
+   */
+  const items = await getChecklistRepository().findByTask(idUsuario, idTarefa);
+
+  const item: ChecklistItemEntity = {
+    id: uuidv4(),
+    idUsuario,
+    idTarefa,
+    texto: texto.trim(),
+    concluido: false,
+    ordem: items.length,
+    dataCriacao: new Date(),
+    dataAtualizacao: new Date(),
+  };
+
+  await getChecklistRepository().insert(item);
+
+  await recordHistory({
+    idUsuario,
+    idTarefa,
+    tipoAlteracao: 'Edição',
+    campoAlterado: 'checklist',
+    valorAnterior: null,
+    valorNovo: describeChecklistItem(item),
+    origemAlteracao: 'Manual',
+  });
+
+  return item;
+}
+
+/**
+ * @summary
+ * Creates a subtask under a task
+ *
+ * @function subtaskCreateTask
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Parent task identifier
+ * @param {TaskCreateRequest} data - Subtask creation parameters
+ *
+ * @returns {Promise<TaskEntity | null>} Created subtask or null if the parent task is not found
+ *
+ * @throws {ValidationError} When validation fails or the parent is itself a subtask
+ */
+export async function subtaskCreateTask(
+  idUsuario: string,
+  idTarefa: string,
+  data: TaskCreateRequest
+): Promise<TaskEntity | null> {
+  const parent = await getTaskRepository().findById(idUsuario, idTarefa);
+
+  if (!parent) {
+    return null;
+  }
+
+  /**
+   * @rule {be-task-subtasks}
+   * Subtasks are a single level deep
+   */
+  if (parent.idTarefaPai) {
+    throw new ValidationError('subtarefaAninhada');
+  }
+
+  const subtask = await taskCreate(idUsuario, {
+    ...data,
+    idTarefaPai: idTarefa,
+    idProjeto: parent.idProjeto,
+  });
+
+  await recordHistory({
+    idUsuario,
+    idTarefa,
+    tipoAlteracao: 'Edição',
+    campoAlterado: 'subtarefa',
+    valorAnterior: null,
+    valorNovo: subtask.titulo,
+    origemAlteracao: 'Manual',
+  });
+
+  return subtask;
+}
+
+/**
+ * @summary
+ * Updates the text, done flag or position of a checklist item
+ *
+ * @function subtaskUpdateItem
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Parent task identifier
+ * @param {string} id - Checklist item identifier
+ * @param {ChecklistItemUpdateRequest} data - Fields to change
+ *
+ * @returns {Promise<ChecklistItemEntity | null>} Updated item or null if not found in the task
+ *
+ * @throws {ValidationError} When validation fails
+ */
+export async function subtaskUpdateItem(
+  idUsuario: string,
+  idTarefa: string,
+  id: string,
+  data: ChecklistItemUpdateRequest
+): Promise<ChecklistItemEntity | null> {
+  const item = await getChecklistRepository().findById(idUsuario, id);
+
+  if (!item || item.idTarefa !== idTarefa) {
+    return null;
+  }
+
+  if (data.texto !== undefined) {
+    validateItemText(data.texto);
+  }
+
+  const previous = describeChecklistItem(item);
+  item.texto = data.texto !== undefined ? data.texto.trim() : item.texto;
+  item.concluido = data.concluido ?? item.concluido;
+  item.dataAtualizacao = new Date();
+
+  await getChecklistRepository().update(item);
+
+  if (describeChecklistItem(item) !== previous) {
+    await recordHistory({
+      idUsuario,
+      idTarefa,
+      tipoAlteracao: 'Edição',
+      campoAlterado: 'checklist',
+      valorAnterior: previous,
+      valorNovo: describeChecklistItem(item),
+      origemAlteracao: 'Manual',
+    });
+  }
+
+  /**
+   * @rule {be-task-subtasks}
+   * Moving an item shifts the items between its old and new position
+   */
+  if (data.ordem !== undefined && data.ordem !== item.ordem) {
+    const items = await getChecklistRepository().findByTask(idUsuario, idTarefa);
+    const oldOrdem = items.findIndex((i) => i.id === item.id);
+    const newOrdem = Math.min(Math.max(data.ordem, 0), items.length - 1);
+
+    const [moved] = items.splice(oldOrdem, 1);
+    items.splice(newOrdem, 0, moved);
+
+    for (const [ordem, sibling] of items.entries()) {
+      if (sibling.ordem !== ordem) {
+        sibling.ordem = ordem;
+        sibling.dataAtualizacao = new Date();
+        await getChecklistRepository().update(sibling);
+      }
+    }
+
+    if (oldOrdem !== newOrdem) {
+      await recordHistory({
+        idUsuario,
+        idTarefa,
+        tipoAlteracao: 'Edição',
+        campoAlterado: 'checklist.ordem',
+        valorAnterior: `${oldOrdem + 1}. ${item.texto}`,
+        valorNovo: `${newOrdem + 1}. ${item.texto}`,
+        origemAlteracao: 'Manual',
+      });
+    }
+
+    item.ordem = newOrdem;
+  }
+
+  return item;
+}
+
+/**
+ * @summary
+ * Updates a subtask of a task
+ *
+ * @function subtaskUpdateTask
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Parent task identifier
+ * @param {string} id - Subtask identifier
+ * @param {TaskUpdateRequest} data - Update parameters
+ *
+ * @returns {Promise<TaskEntity | null>} Updated subtask or null if not found in the task
+ *
+ * @throws {ValidationError} When validation fails
+ */
+export async function subtaskUpdateTask(
+  idUsuario: string,
+  idTarefa: string,
+  id: string,
+  data: TaskUpdateRequest
+): Promise<TaskEntity | null> {
+  const subtask = await getTaskRepository().findById(idUsuario, id);
+
+  if (!subtask || subtask.idTarefaPai !== idTarefa) {
+    return null;
+  }
+
+  return taskUpdate(idUsuario, id, data);
+}
+
+/**
+ * @summary
+ * Removes a checklist item or a subtask from a task
+ *
+ * @function subtaskDelete
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Parent task identifier
+ * @param {string} id - Checklist item or subtask identifier
+ *
+ * @returns {Promise<boolean>} True if deleted, false if not found in the task
+ */
+export async function subtaskDelete(
+  idUsuario: string,
+  idTarefa: string,
+  id: string
+): Promise<boolean> {
+  const item = await getChecklistRepository().findById(idUsuario, id);
+
+  if (item && item.idTarefa === idTarefa) {
+    await getChecklistRepository().remove(idUsuario, id);
+
+    /**
+     * @rule {be-task-subtasks}
+     * Close the gap left in the checklist order
+     */
+    const items = await getChecklistRepository().findByTask(idUsuario, idTarefa);
+
+    for (const [ordem, sibling] of items.entries()) {
+      if (sibling.ordem !== ordem) {
+        sibling.ordem = ordem;
+        await getChecklistRepository().update(sibling);
+      }
+    }
+
+    await recordHistory({
+      idUsuario,
+      idTarefa,
+      tipoAlteracao: 'Edição',
+      campoAlterado: 'checklist',
+      valorAnterior: describeChecklistItem(item),
+      valorNovo: null,
+      origemAlteracao: 'Manual',
+    });
+
+    return true;
+  }
+
+  const subtask = await getTaskRepository().findById(idUsuario, id);
+
+  if (subtask && subtask.idTarefaPai === idTarefa) {
+    await taskDelete(idUsuario, id);
+
+    await recordHistory({
+      idUsuario,
+      idTarefa,
+      tipoAlteracao: 'Edição',
+      campoAlterado: 'subtarefa',
+      valorAnterior: subtask.titulo,
+      valorNovo: null,
+      origemAlteracao: 'Manual',
+    });
+
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * @summary
+ * Validates the text of a checklist item
+ *
+ * @function validateItemText
+ * @module services/task
+ *
+ * @param {string} texto - Item text
+ *
+ * @returns {void}
+ *
+ * @throws {ValidationError} When the text is empty or too long
+ */
+function validateItemText(texto: string): void {
+  if (!texto || texto.trim().length === 0) {
+    throw new ValidationError('textoObrigatorio');
+  }
+
+  if (texto.length > 200) {
+    throw new ValidationError('textoMuitoLongo', { max: 200 });
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * @summary
+ * Task history recording shared by the task and subtask rules.
+ *
+ * @module services/task/taskHistory
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { HistoryEntry, ChecklistItemEntity, TimeEntryEntity, TaskReminder } from './taskTypes';
+import { getHistoryRepository } from './taskRepository';
+
+/**
+ * @summary
+ * Records a change in task history
+ *
+ * @function recordHistory
+ * @module services/task
+ *
+ * @param {object} data - History entry data
+ *
+ * @returns {Promise<void>}
+ */
+export async function recordHistory(data: {
+  idUsuario: string;
+  idTarefa: string;
+  tipoAlteracao: string;
+  campoAlterado: string | null;
+  valorAnterior: string | null;
+  valorNovo: string | null;
+  origemAlteracao: string;
+}): Promise<void> {
+  const entry: HistoryEntry = {
+    id: uuidv4(),
+    idUsuario: data.idUsuario,
+    idTarefa: data.idTarefa,
+    dataAlteracao: new Date(),
+    tipoAlteracao: data.tipoAlteracao,
+    campoAlterado: data.campoAlterado,
+    valorAnterior: data.valorAnterior,
+    valorNovo: data.valorNovo,
+    origemAlteracao: data.origemAlteracao,
+  };
+
+  await getHistoryRepository().insert(entry);
+}
+
+/**
+ * @summary
+ * Formats a checklist item as a history value, e.g. "[x] Comprar pão"
+ *
+ * @function describeChecklistItem
+ * @module services/task
+ *
+ * @param {ChecklistItemEntity} item - Checklist item
+ *
+ * @returns {string} Item text prefixed with its checked state
+ */
+export function describeChecklistItem(item: ChecklistItemEntity): string {
+  return `${item.concluido ? '[x]' : '[ ]'} ${item.texto}`;
+}
+
+/**
+ * @summary
+ * Formats a time entry as a history value, e.g. "1h 30min - Reunião com cliente"
+ *
+ * @function describeTimeEntry
+ * @module services/task
+ *
+ * @param {TimeEntryEntity} entry - Time entry
+ *
+ * @returns {string} Entry duration, or "em andamento" while running, followed by its note
+ */
+export function describeTimeEntry(entry: TimeEntryEntity): string {
+  let description = 'em andamento';
+
+  if (entry.fim) {
+    const minutes = Math.round((entry.fim.getTime() - entry.inicio.getTime()) / 60000);
+    const hours = Math.floor(minutes / 60);
+    description =
+      hours > 0 ? `${hours}h ${String(minutes % 60).padStart(2, '0')}min` : `${minutes}min`;
+  }
+
+  return entry.nota ? `${description} - ${entry.nota}` : description;
+}
+
+/**
+ * @summary
+ * Formats task reminders as a history value, e.g. "1 dia antes, 20/10/2026 09:00"
+ *
+ * @function describeReminders
+ * @module services/task
+ *
+ * @param {TaskReminder[]} lembretes - Task reminders
+ *
+ * @returns {string} Reminders separated by commas, or "nenhum"
+ */
+export function describeReminders(lembretes: TaskReminder[]): string {
+  if (lembretes.length === 0) {
+    return 'nenhum';
+  }
+
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return lembretes
+    .map(({ antecedencia, dataLembrete }) => {
+      if (dataLembrete) {
+        return (
+          `${pad(dataLembrete.getDate())}/${pad(dataLembrete.getMonth() + 1)}/` +
+          `${dataLembrete.getFullYear()} ${pad(dataLembrete.getHours())}:` +
+          pad(dataLembrete.getMinutes())
+        );
+      }
+
+      const minutes = antecedencia ?? 0;
+      if (minutes % 1440 === 0) {
+        return `${minutes / 1440} ${minutes === 1440 ? 'dia' : 'dias'} antes`;
+      }
+      if (minutes % 60 === 0) {
+        return `${minutes / 60}h antes`;
+      }
+      return `${minutes}min antes`;
+    })
+    .join(', ');
+}
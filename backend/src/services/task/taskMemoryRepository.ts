@@ -0,0 +1,295 @@
+/**
+ * @summary
+ * In-memory task, history, checklist, dependency and time entry repositories.
+ * Data lives only for the lifetime of the process.
+ *
+ * @module services/task/taskMemoryRepository
+ */
+
+import {
+  TaskEntity,
+  HistoryEntry,
+  ChecklistItemEntity,
+  DependencyEntity,
+  TimeEntryEntity,
+  TaskRepository,
+  HistoryRepository,
+  ChecklistRepository,
+  DependencyRepository,
+  TimeEntryRepository,
+} from './taskTypes';
+
+/**
+ * @summary
+ * Creates an in-memory task repository
+ *
+ * @function createMemoryTaskRepository
+ * @module services/task
+ *
+ * @returns {TaskRepository} Task repository backed by an array
+ */
+export function createMemoryTaskRepository(): TaskRepository {
+  const tasks: TaskEntity[] = [];
+
+  const copyTask = (task: TaskEntity): TaskEntity => ({
+    ...task,
+    tags: [...task.tags],
+    lembretes: task.lembretes.map((lembrete) => ({ ...lembrete })),
+  });
+
+  return {
+    async findAll(idUsuario) {
+      return tasks
+        .filter((t) => t.idUsuario === idUsuario && !t.dataExclusao)
+        .map((task) => copyTask(task));
+    },
+
+    async findById(idUsuario, id) {
+      const task = tasks.find((t) => t.id === id && t.idUsuario === idUsuario && !t.dataExclusao);
+      return task ? copyTask(task) : null;
+    },
+
+    async findByParent(idUsuario, idTarefaPai) {
+      return tasks
+        .filter(
+          (t) => t.idTarefaPai === idTarefaPai && t.idUsuario === idUsuario && !t.dataExclusao
+        )
+        .map((task) => copyTask(task));
+    },
+
+    async findWithReminders() {
+      return tasks
+        .filter((t) => t.lembretes.length > 0 && !t.dataExclusao)
+        .map((task) => copyTask(task));
+    },
+
+    async findDeleted(idUsuario) {
+      return tasks
+        .filter((t) => t.idUsuario === idUsuario && t.dataExclusao)
+        .sort((a, b) => (b.dataExclusao as Date).getTime() - (a.dataExclusao as Date).getTime())
+        .map((task) => copyTask(task));
+    },
+
+    async findDeletedById(idUsuario, id) {
+      const task = tasks.find((t) => t.id === id && t.idUsuario === idUsuario && t.dataExclusao);
+      return task ? copyTask(task) : null;
+    },
+
+    async findDeletedBefore(limite) {
+      return tasks
+        .filter((t) => t.dataExclusao && t.dataExclusao.getTime() < limite.getTime())
+        .map((task) => copyTask(task));
+    },
+
+    async insert(task) {
+      tasks.push(copyTask(task));
+    },
+
+    async update(task) {
+      const taskIndex = tasks.findIndex((t) => t.id === task.id && t.idUsuario === task.idUsuario);
+      if (taskIndex !== -1) {
+        tasks[taskIndex] = copyTask(task);
+      }
+    },
+
+    async remove(idUsuario, id) {
+      const taskIndex = tasks.findIndex((t) => t.id === id && t.idUsuario === idUsuario);
+      if (taskIndex === -1) {
+        return false;
+      }
+      tasks.splice(taskIndex, 1);
+      return true;
+    },
+  };
+}
+
+/**
+ * @summary
+ * Creates an in-memory history repository
+ *
+ * @function createMemoryHistoryRepository
+ * @module services/task
+ *
+ * @returns {HistoryRepository} History repository backed by an array
+ */
+export function createMemoryHistoryRepository(): HistoryRepository {
+  const history: HistoryEntry[] = [];
+
+  return {
+    async insert(entry) {
+      history.push({ ...entry });
+    },
+
+    async findByTask(idUsuario, idTarefa) {
+      return history
+        .filter((h) => h.idTarefa === idTarefa && h.idUsuario === idUsuario)
+        .map((h) => ({ ...h }));
+    },
+  };
+}
+
+/**
+ * @summary
+ * Creates an in-memory checklist repository
+ *
+ * @function createMemoryChecklistRepository
+ * @module services/task
+ *
+ * @returns {ChecklistRepository} Checklist repository backed by an array
+ */
+export function createMemoryChecklistRepository(): ChecklistRepository {
+  let items: ChecklistItemEntity[] = [];
+
+  return {
+    async findAll(idUsuario) {
+      return items.filter((i) => i.idUsuario === idUsuario).map((item) => ({ ...item }));
+    },
+
+    async findByTask(idUsuario, idTarefa) {
+      return items
+        .filter((i) => i.idTarefa === idTarefa && i.idUsuario === idUsuario)
+        .sort((a, b) => a.ordem - b.ordem)
+        .map((item) => ({ ...item }));
+    },
+
+    async findById(idUsuario, id) {
+      const item = items.find((i) => i.id === id && i.idUsuario === idUsuario);
+      return item ? { ...item } : null;
+    },
+
+    async insert(item) {
+      items.push({ ...item });
+    },
+
+    async update(item) {
+      const itemIndex = items.findIndex((i) => i.id === item.id && i.idUsuario === item.idUsuario);
+      if (itemIndex !== -1) {
+        items[itemIndex] = { ...item };
+      }
+    },
+
+    async remove(idUsuario, id) {
+      const itemIndex = items.findIndex((i) => i.id === id && i.idUsuario === idUsuario);
+      if (itemIndex === -1) {
+        return false;
+      }
+      items.splice(itemIndex, 1);
+      return true;
+    },
+
+    async removeByTask(idUsuario, idTarefa) {
+      items = items.filter((i) => !(i.idTarefa === idTarefa && i.idUsuario === idUsuario));
+    },
+  };
+}
+
+/**
+ * @summary
+ * Creates an in-memory dependency repository
+ *
+ * @function createMemoryDependencyRepository
+ * @module services/task
+ *
+ * @returns {DependencyRepository} Dependency repository backed by an array
+ */
+export function createMemoryDependencyRepository(): DependencyRepository {
+  let dependencies: DependencyEntity[] = [];
+
+  return {
+    async findAll(idUsuario) {
+      return dependencies
+        .filter((d) => d.idUsuario === idUsuario)
+        .map((dependency) => ({ ...dependency }));
+    },
+
+    async insert(dependency) {
+      dependencies.push({ ...dependency });
+    },
+
+    async remove(idUsuario, idTarefa, idTarefaBloqueadora) {
+      const dependencyIndex = dependencies.findIndex(
+        (d) =>
+          d.idUsuario === idUsuario &&
+          d.idTarefa === idTarefa &&
+          d.idTarefaBloqueadora === idTarefaBloqueadora
+      );
+      if (dependencyIndex === -1) {
+        return false;
+      }
+      dependencies.splice(dependencyIndex, 1);
+      return true;
+    },
+
+    async removeByTask(idUsuario, idTarefa) {
+      dependencies = dependencies.filter(
+        (d) =>
+          !(
+            d.idUsuario === idUsuario &&
+            (d.idTarefa === idTarefa || d.idTarefaBloqueadora === idTarefa)
+          )
+      );
+    },
+  };
+}
+
+/**
+ * @summary
+ * Creates an in-memory time entry repository
+ *
+ * @function createMemoryTimeEntryRepository
+ * @module services/task
+ *
+ * @returns {TimeEntryRepository} Time entry repository backed by an array
+ */
+export function createMemoryTimeEntryRepository(): TimeEntryRepository {
+  let entries: TimeEntryEntity[] = [];
+
+  return {
+    async findAll(idUsuario) {
+      return entries.filter((e) => e.idUsuario === idUsuario).map((entry) => ({ ...entry }));
+    },
+
+    async findByTask(idUsuario, idTarefa) {
+      return entries
+        .filter((e) => e.idTarefa === idTarefa && e.idUsuario === idUsuario)
+        .sort((a, b) => a.inicio.getTime() - b.inicio.getTime())
+        .map((entry) => ({ ...entry }));
+    },
+
+    async findById(idUsuario, id) {
+      const entry = entries.find((e) => e.id === id && e.idUsuario === idUsuario);
+      return entry ? { ...entry } : null;
+    },
+
+    async findRunning(idUsuario) {
+      const entry = entries.find((e) => e.idUsuario === idUsuario && !e.fim);
+      return entry ? { ...entry } : null;
+    },
+
+    async insert(entry) {
+      entries.push({ ...entry });
+    },
+
+    async update(entry) {
+      const entryIndex = entries.findIndex(
+        (e) => e.id === entry.id && e.idUsuario === entry.idUsuario
+      );
+      if (entryIndex !== -1) {
+        entries[entryIndex] = { ...entry };
+      }
+    },
+
+    async remove(idUsuario, id) {
+      const entryIndex = entries.findIndex((e) => e.id === id && e.idUsuario === idUsuario);
+      if (entryIndex === -1) {
+        return false;
+      }
+      entries.splice(entryIndex, 1);
+      return true;
+    },
+
+    async removeByTask(idUsuario, idTarefa) {
+      entries = entries.filter((e) => !(e.idTarefa === idTarefa && e.idUsuario === idUsuario));
+    },
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * @summary
+ * Subtask progress calculation shared by the task and subtask rules.
+ *
+ * @module services/task/taskProgress
+ */
+
+import { ChecklistItemEntity, TaskEntity, TaskProgress, TaskStatus } from './taskTypes';
+
+/**
+ * @summary
+ * Counts completed checklist items and subtasks
+ *
+ * @function calculateTaskProgress
+ * @module services/task
+ *
+ * @param {ChecklistItemEntity[]} itens - Checklist items of the task
+ * @param {TaskEntity[]} tarefas - Subtasks of the task
+ *
+ * @returns {TaskProgress} Progress; a task without subtasks has 0 of 0 at 0%
+ */
+export function calculateTaskProgress(
+  itens: ChecklistItemEntity[],
+  tarefas: TaskEntity[]
+): TaskProgress {
+  /**
+   * @rule {be-task-status-workflow}
+   * Cancelled subtasks are no longer part of the work
+   */
+  const pending = tarefas.filter((tarefa) => tarefa.status !== TaskStatus.Cancelada);
+  const total = itens.length + pending.length;
+  const concluidas =
+    itens.filter((item) => item.concluido).length +
+    pending.filter((tarefa) => tarefa.status === TaskStatus.Concluída).length;
+
+  return {
+    total,
+    concluidas,
+    percentual: total === 0 ? 0 : Math.round((concluidas / total) * 100),
+  };
+}
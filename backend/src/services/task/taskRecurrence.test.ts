@@ -0,0 +1,149 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  getNextOccurrence,
+  isValidRecurrenceRule,
+  parseRecurrenceRule,
+  RecurrenceFrequency,
+  RecurrenceRule,
+} from './taskRecurrence';
+
+const date = (year: number, month: number, day: number) => new Date(year, month - 1, day);
+
+const parse = (rule: string): RecurrenceRule => {
+  const parsed = parseRecurrenceRule(rule);
+  if (!parsed) throw new Error(`Unsupported rule in test: ${rule}`);
+  return parsed;
+};
+
+/**
+ * Expands a series from its first occurrence, as the task rules do one completion at a time
+ */
+const expand = (rule: string, start: Date, limit = 10): Date[] => {
+  const parsed = parse(rule);
+  const dates = [start];
+  let current = { date: start, occurrence: 1 };
+
+  while (dates.length < limit) {
+    const next = getNextOccurrence(parsed, current.date, current.occurrence, current.date);
+    if (!next) break;
+    dates.push(next.date);
+    current = next;
+  }
+
+  return dates;
+};
+
+describe('parseRecurrenceRule', () => {
+  it('parses the supported subset, with or without the RRULE prefix', () => {
+    expect(parseRecurrenceRule('RRULE:FREQ=weekly;INTERVAL=2;BYDAY=FR,MO,MO')).toEqual({
+      freq: RecurrenceFrequency.Weekly,
+      interval: 2,
+      byDay: [1, 5],
+      byMonthDay: null,
+      until: null,
+      count: null,
+    });
+    expect(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=31;UNTIL=20241231')).toMatchObject({
+      freq: RecurrenceFrequency.Monthly,
+      interval: 1,
+      byMonthDay: 31,
+      until: date(2024, 12, 31),
+    });
+  });
+
+  it.each([
+    ['', 'no frequency'],
+    ['FREQ=HOURLY', 'an unsupported frequency'],
+    ['FREQ=DAILY;INTERVAL=0', 'a zero interval'],
+    ['FREQ=DAILY;BYDAY=MO', 'BYDAY outside weekly rules'],
+    ['FREQ=WEEKLY;BYMONTHDAY=1', 'BYMONTHDAY outside monthly rules'],
+    ['FREQ=WEEKLY;BYDAY=XX', 'an unknown weekday'],
+    ['FREQ=DAILY;COUNT=3;UNTIL=20240101', 'both COUNT and UNTIL'],
+    ['FREQ=DAILY;UNTIL=20240230', 'an impossible UNTIL date'],
+    ['FREQ=DAILY;FREQ=WEEKLY', 'a repeated part'],
+    ['FREQ=DAILY;WKST=MO', 'an unsupported part'],
+  ])('rejects %p, which has %s', (rule) => {
+    expect(parseRecurrenceRule(rule)).toBeNull();
+    expect(isValidRecurrenceRule(rule)).toBe(false);
+  });
+});
+
+describe('recurrence expansion', () => {
+  it('repeats daily rules every interval days', () => {
+    expect(expand('FREQ=DAILY;INTERVAL=3;COUNT=4', date(2024, 2, 27))).toEqual([
+      date(2024, 2, 27),
+      date(2024, 3, 1),
+      date(2024, 3, 4),
+      date(2024, 3, 7),
+    ]);
+  });
+
+  it('repeats weekly rules on the same weekday without BYDAY', () => {
+    expect(expand('FREQ=WEEKLY;COUNT=3', date(2024, 12, 25))).toEqual([
+      date(2024, 12, 25),
+      date(2025, 1, 1),
+      date(2025, 1, 8),
+    ]);
+  });
+
+  it('walks the BYDAY weekdays and skips weeks by the interval, weeks starting on Monday', () => {
+    // 2024-06-05 is a Wednesday
+    expect(expand('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,SU;COUNT=6', date(2024, 6, 5))).toEqual([
+      date(2024, 6, 5),
+      date(2024, 6, 9),
+      date(2024, 6, 17),
+      date(2024, 6, 19),
+      date(2024, 6, 23),
+      date(2024, 7, 1),
+    ]);
+  });
+
+  it('clamps monthly rules to the last day of shorter months', () => {
+    expect(expand('FREQ=MONTHLY;BYMONTHDAY=31;COUNT=4', date(2024, 1, 31))).toEqual([
+      date(2024, 1, 31),
+      date(2024, 2, 29),
+      date(2024, 3, 31),
+      date(2024, 4, 30),
+    ]);
+  });
+
+  it('clamps yearly rules started on 29 February', () => {
+    expect(expand('FREQ=YEARLY;COUNT=3', date(2024, 2, 29))).toEqual([
+      date(2024, 2, 29),
+      date(2025, 2, 28),
+      date(2026, 2, 28),
+    ]);
+  });
+
+  it('stops at COUNT occurrences', () => {
+    expect(expand('FREQ=DAILY;COUNT=2', date(2024, 1, 1), 10)).toHaveLength(2);
+  });
+
+  it('stops after the UNTIL date, which is inclusive', () => {
+    expect(expand('FREQ=DAILY;INTERVAL=2;UNTIL=20240105', date(2024, 1, 1))).toEqual([
+      date(2024, 1, 1),
+      date(2024, 1, 3),
+      date(2024, 1, 5),
+    ]);
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('skips occurrences before the minimum date and keeps counting them', () => {
+    expect(
+      getNextOccurrence(parse('FREQ=DAILY'), date(2024, 1, 1), 1, date(2024, 1, 10))
+    ).toEqual({ date: date(2024, 1, 10), occurrence: 10 });
+  });
+
+  it('returns null when the skipped occurrences use up the series', () => {
+    expect(
+      getNextOccurrence(parse('FREQ=DAILY;COUNT=5'), date(2024, 1, 1), 1, date(2024, 1, 10))
+    ).toBeNull();
+  });
+
+  it('returns null after the last occurrence of the series', () => {
+    expect(
+      getNextOccurrence(parse('FREQ=WEEKLY;COUNT=3'), date(2024, 1, 15), 3, date(2024, 1, 15))
+    ).toBeNull();
+  });
+});
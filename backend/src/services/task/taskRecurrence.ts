@@ -0,0 +1,220 @@
+/**
+ * @summary
+ * Recurrence rules for repeating tasks.
+ * Parses, validates and evaluates the supported subset of RFC 5545 RRULE:
+ * FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY (weekly only),
+ * BYMONTHDAY (monthly only), UNTIL (date only) and COUNT.
+ *
+ * @module services/task/taskRecurrence
+ */
+
+/**
+ * @enum RecurrenceFrequency
+ * @description Supported RRULE frequencies
+ */
+export enum RecurrenceFrequency {
+  Daily = 'DAILY',
+  Weekly = 'WEEKLY',
+  Monthly = 'MONTHLY',
+  Yearly = 'YEARLY',
+}
+
+/**
+ * @interface RecurrenceRule
+ * @description Parsed recurrence rule
+ *
+ * @property {RecurrenceFrequency} freq - Repetition frequency
+ * @property {number} interval - Number of periods between occurrences
+ * @property {number[]} byDay - Weekdays for weekly rules (0 = Sunday)
+ * @property {number | null} byMonthDay - Day of month for monthly rules
+ * @property {Date | null} until - Last allowed occurrence date
+ * @property {number | null} count - Total number of occurrences in the series
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: number[];
+  byMonthDay: number | null;
+  until: Date | null;
+  count: number | null;
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * @summary
+ * Parses an RRULE string, with or without the `RRULE:` prefix
+ *
+ * @function parseRecurrenceRule
+ * @module services/task
+ *
+ * @param {string} rule - RRULE string
+ *
+ * @returns {RecurrenceRule | null} Parsed rule or null when outside the supported subset
+ */
+export function parseRecurrenceRule(rule: string): RecurrenceRule | null {
+  const parts = rule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  const values = new Map<string, string>();
+
+  for (const part of parts) {
+    const [key, value] = part.split('=');
+    if (!key || !value || values.has(key.toUpperCase())) return null;
+    values.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = values.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !Object.values(RecurrenceFrequency).includes(freq)) return null;
+
+  const interval = values.has('INTERVAL') ? Number(values.get('INTERVAL')) : 1;
+  if (!Number.isInteger(interval) || interval < 1 || interval > 365) return null;
+
+  let byDay: number[] = [];
+  if (values.has('BYDAY')) {
+    if (freq !== RecurrenceFrequency.Weekly) return null;
+    byDay = values
+      .get('BYDAY')!
+      .split(',')
+      .map((code) => WEEKDAY_CODES.indexOf(code));
+    if (byDay.some((day) => day === -1)) return null;
+    byDay = [...new Set(byDay)].sort((a, b) => a - b);
+  }
+
+  let byMonthDay: number | null = null;
+  if (values.has('BYMONTHDAY')) {
+    if (freq !== RecurrenceFrequency.Monthly) return null;
+    byMonthDay = Number(values.get('BYMONTHDAY'));
+    if (!Number.isInteger(byMonthDay) || byMonthDay < 1 || byMonthDay > 31) return null;
+  }
+
+  if (values.has('UNTIL') && values.has('COUNT')) return null;
+
+  let until: Date | null = null;
+  if (values.has('UNTIL')) {
+    const match = /^(\d{4})(\d{2})(\d{2})$/.exec(values.get('UNTIL')!);
+    if (!match) return null;
+    until = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    if (until.getMonth() !== Number(match[2]) - 1) return null;
+  }
+
+  let count: number | null = null;
+  if (values.has('COUNT')) {
+    count = Number(values.get('COUNT'));
+    if (!Number.isInteger(count) || count < 1) return null;
+  }
+
+  const supported = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'UNTIL', 'COUNT'];
+  if ([...values.keys()].some((key) => !supported.includes(key))) return null;
+
+  return { freq, interval, byDay, byMonthDay, until, count };
+}
+
+/**
+ * @summary
+ * Checks whether a string is an RRULE within the supported subset
+ *
+ * @function isValidRecurrenceRule
+ * @module services/task
+ *
+ * @param {string} rule - RRULE string
+ *
+ * @returns {boolean} True when the rule can be evaluated
+ */
+export function isValidRecurrenceRule(rule: string): boolean {
+  return parseRecurrenceRule(rule) !== null;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function clampedDate(year: number, month: number, day: number): Date {
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(day, daysInMonth));
+}
+
+/**
+ * @summary
+ * Computes the occurrence that directly follows a given one
+ *
+ * @function nextOccurrenceDate
+ * @module services/task
+ *
+ * @param {RecurrenceRule} rule - Parsed recurrence rule
+ * @param {Date} current - Current occurrence date
+ *
+ * @returns {Date} Next occurrence date, ignoring UNTIL and COUNT
+ */
+function nextOccurrenceDate(rule: RecurrenceRule, current: Date): Date {
+  switch (rule.freq) {
+    case RecurrenceFrequency.Daily:
+      return addDays(current, rule.interval);
+
+    case RecurrenceFrequency.Weekly: {
+      if (rule.byDay.length === 0) {
+        return addDays(current, 7 * rule.interval);
+      }
+
+      /**
+       * @rule {be-task-recurrence}
+       * Weeks start on Monday (RFC 5545 default WKST)
+       */
+      const weekdayIndex = (current.getDay() + 6) % 7;
+      const laterThisWeek = rule.byDay
+        .map((day) => (day + 6) % 7)
+        .sort((a, b) => a - b)
+        .find((index) => index > weekdayIndex);
+
+      if (laterThisWeek !== undefined) {
+        return addDays(current, laterThisWeek - weekdayIndex);
+      }
+
+      const weekStart = addDays(current, -weekdayIndex);
+      const firstIndex = Math.min(...rule.byDay.map((day) => (day + 6) % 7));
+      return addDays(weekStart, 7 * rule.interval + firstIndex);
+    }
+
+    case RecurrenceFrequency.Monthly:
+      return clampedDate(
+        current.getFullYear(),
+        current.getMonth() + rule.interval,
+        rule.byMonthDay ?? current.getDate()
+      );
+
+    case RecurrenceFrequency.Yearly:
+      return clampedDate(current.getFullYear() + rule.interval, current.getMonth(), current.getDate());
+  }
+}
+
+/**
+ * @summary
+ * Finds the next occurrence of a series that falls on or after a minimum date
+ *
+ * @function getNextOccurrence
+ * @module services/task
+ *
+ * @param {RecurrenceRule} rule - Parsed recurrence rule
+ * @param {Date} current - Date of the current occurrence
+ * @param {number} occurrence - 1-based number of the current occurrence in the series
+ * @param {Date} notBefore - Occurrences before this date are skipped
+ *
+ * @returns {{ date: Date; occurrence: number } | null} Next occurrence or null when the series has ended
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  current: Date,
+  occurrence: number,
+  notBefore: Date
+): { date: Date; occurrence: number } | null {
+  let date = current;
+  let number = occurrence;
+
+  do {
+    date = nextOccurrenceDate(rule, date);
+    number++;
+
+    if (rule.until && date > rule.until) return null;
+    if (rule.count !== null && number > rule.count) return null;
+  } while (date < notBefore);
+
+  return { date, occurrence: number };
+}
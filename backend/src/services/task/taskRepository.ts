@@ -0,0 +1,133 @@
+/**
+ * @summary
+ * Task storage selection.
+ * Resolves the task, history, checklist, dependency and time entry repositories for the driver
+ * configured in `config.database`.
+ *
+ * @module services/task/taskRepository
+ */
+
+import { config } from '@/config';
+import { getDatabase } from '@/instances/database';
+import {
+  TaskRepository,
+  HistoryRepository,
+  ChecklistRepository,
+  DependencyRepository,
+  TimeEntryRepository,
+} from './taskTypes';
+import {
+  createMemoryTaskRepository,
+  createMemoryHistoryRepository,
+  createMemoryChecklistRepository,
+  createMemoryDependencyRepository,
+  createMemoryTimeEntryRepository,
+} from './taskMemoryRepository';
+import {
+  createSqliteTaskRepository,
+  createSqliteHistoryRepository,
+  createSqliteChecklistRepository,
+  createSqliteDependencyRepository,
+  createSqliteTimeEntryRepository,
+} from './taskSqliteRepository';
+
+let taskRepository: TaskRepository | null = null;
+let historyRepository: HistoryRepository | null = null;
+let checklistRepository: ChecklistRepository | null = null;
+let dependencyRepository: DependencyRepository | null = null;
+let timeEntryRepository: TimeEntryRepository | null = null;
+
+/**
+ * @summary
+ * Returns the configured task repository, creating it on first use
+ *
+ * @function getTaskRepository
+ * @module services/task
+ *
+ * @returns {TaskRepository} Task repository
+ */
+export function getTaskRepository(): TaskRepository {
+  if (!taskRepository) {
+    taskRepository =
+      config.database.driver === 'memory'
+        ? createMemoryTaskRepository()
+        : createSqliteTaskRepository(getDatabase());
+  }
+  return taskRepository;
+}
+
+/**
+ * @summary
+ * Returns the configured history repository, creating it on first use
+ *
+ * @function getHistoryRepository
+ * @module services/task
+ *
+ * @returns {HistoryRepository} History repository
+ */
+export function getHistoryRepository(): HistoryRepository {
+  if (!historyRepository) {
+    historyRepository =
+      config.database.driver === 'memory'
+        ? createMemoryHistoryRepository()
+        : createSqliteHistoryRepository(getDatabase());
+  }
+  return historyRepository;
+}
+
+/**
+ * @summary
+ * Returns the configured checklist repository, creating it on first use
+ *
+ * @function getChecklistRepository
+ * @module services/task
+ *
+ * @returns {ChecklistRepository} Checklist repository
+ */
+export function getChecklistRepository(): ChecklistRepository {
+  if (!checklistRepository) {
+    checklistRepository =
+      config.database.driver === 'memory'
+        ? createMemoryChecklistRepository()
+        : createSqliteChecklistRepository(getDatabase());
+  }
+  return checklistRepository;
+}
+
+/**
+ * @summary
+ * Returns the configured dependency repository, creating it on first use
+ *
+ * @function getDependencyRepository
+ * @module services/task
+ *
+ * @returns {DependencyRepository} Dependency repository
+ */
+export function getDependencyRepository(): DependencyRepository {
+  if (!dependencyRepository) {
+    dependencyRepository =
+      config.database.driver === 'memory'
+        ? createMemoryDependencyRepository()
+        : createSqliteDependencyRepository(getDatabase());
+  }
+  return dependencyRepository;
+}
+
+/**
+ * @summary
+ * Returns the configured time entry repository, creating it on first use
+ *
+ * @function getTimeEntryRepository
+ * @module services/task
+ *
+ * @returns {TimeEntryRepository} Time entry repository
+ */
+export function getTimeEntryRepository(): TimeEntryRepository {
+  if (!timeEntryRepository) {
+    timeEntryRepository =
+      config.database.driver === 'memory'
+        ? createMemoryTimeEntryRepository()
+        : createSqliteTimeEntryRepository(getDatabase());
+  }
+  return timeEntryRepository;
+}
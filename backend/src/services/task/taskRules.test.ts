@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  ChecklistRepository,
+  HistoryRepository,
+  TaskEntity,
+  TaskImportance,
+  TaskRepository,
+  TaskStatus,
+} from './taskTypes';
+import {
+  createMemoryChecklistRepository,
+  createMemoryHistoryRepository,
+  createMemoryTaskRepository,
+} from './taskMemoryRepository';
+import { taskCheckOverdue } from './taskRules';
+
+let mockRepositories: {
+  tasks: TaskRepository;
+  history: HistoryRepository;
+  checklist: ChecklistRepository;
+};
+
+jest.mock('./taskRepository', () => ({
+  getTaskRepository: () => mockRepositories.tasks,
+  getHistoryRepository: () => mockRepositories.history,
+  getChecklistRepository: () => mockRepositories.checklist,
+}));
+
+const ID_USUARIO = 'usuario-1';
+const DAY = 24 * 60 * 60 * 1000;
+
+const buildTask = (id: string, overrides: Partial<TaskEntity> = {}): TaskEntity => ({
+  id,
+  idUsuario: ID_USUARIO,
+  titulo: `Tarefa ${id}`,
+  descricao: null,
+  dataVencimento: new Date(Date.now() - DAY),
+  fusoHorario: 'UTC',
+  diaInteiro: false,
+  dataInicio: null,
+  dataAgendada: null,
+  sonecaAte: null,
+  adiamentos: 0,
+  dataExclusao: null,
+  importancia: TaskImportance.Média,
+  status: TaskStatus.Pendente,
+  recorrencia: null,
+  idSerie: null,
+  ocorrencia: null,
+  idProximaOcorrencia: null,
+  idTarefaPai: null,
+  tags: [],
+  idProjeto: null,
+  duracaoEstimada: null,
+  lembretes: [],
+  dataCriacao: new Date(),
+  dataAtualizacao: new Date(),
+  ...overrides,
+});
+
+beforeEach(() => {
+  mockRepositories = {
+    tasks: createMemoryTaskRepository(),
+    history: createMemoryHistoryRepository(),
+    checklist: createMemoryChecklistRepository(),
+  };
+});
+
+describe('taskCheckOverdue', () => {
+  it.each([TaskStatus.Pendente, TaskStatus.EmAndamento, TaskStatus.Aguardando])(
+    'marks %p tasks past their due date as overdue',
+    async (status) => {
+      await mockRepositories.tasks.insert(buildTask('a', { status }));
+
+      await taskCheckOverdue(ID_USUARIO);
+
+      expect((await mockRepositories.tasks.findById(ID_USUARIO, 'a'))?.status).toBe(
+        TaskStatus.Vencida
+      );
+      expect(await mockRepositories.history.findByTask(ID_USUARIO, 'a')).toEqual([
+        expect.objectContaining({
+          campoAlterado: 'status',
+          valorAnterior: status,
+          valorNovo: TaskStatus.Vencida,
+          origemAlteracao: 'Automática',
+        }),
+      ]);
+    }
+  );
+
+  it.each([TaskStatus.EmAndamento, TaskStatus.Aguardando])(
+    'schedules the next occurrence of a recurring %p task that becomes overdue',
+    async (status) => {
+      await mockRepositories.tasks.insert(
+        buildTask('a', { status, recorrencia: 'FREQ=DAILY', idSerie: 'a', ocorrencia: 1 })
+      );
+
+      await taskCheckOverdue(ID_USUARIO);
+
+      const tasks = await mockRepositories.tasks.findAll(ID_USUARIO);
+      const overdue = tasks.find((task) => task.id === 'a');
+      const next = tasks.find((task) => task.id !== 'a');
+
+      expect(next).toMatchObject({ status: TaskStatus.Pendente, idSerie: 'a', ocorrencia: 2 });
+      expect(overdue?.idProximaOcorrencia).toBe(next?.id);
+    }
+  );
+
+  it('leaves tasks that are closed or not yet due as they are', async () => {
+    await mockRepositories.tasks.insert(buildTask('a', { status: TaskStatus.Concluída }));
+    await mockRepositories.tasks.insert(buildTask('b', { status: TaskStatus.Cancelada }));
+    await mockRepositories.tasks.insert(
+      buildTask('c', { status: TaskStatus.EmAndamento, dataVencimento: new Date(Date.now() + DAY) })
+    );
+
+    await taskCheckOverdue(ID_USUARIO);
+
+    expect((await mockRepositories.tasks.findAll(ID_USUARIO)).map((task) => task.status)).toEqual([
+      TaskStatus.Concluída,
+      TaskStatus.Cancelada,
+      TaskStatus.EmAndamento,
+    ]);
+  });
+});
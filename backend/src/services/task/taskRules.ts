@@ -7,22 +7,74 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
+import { TASK_LIMITS } from '@taskmanager/shared';
+import { config } from '@/config';
 import {
   TaskEntity,
   TaskCreateRequest,
   TaskUpdateRequest,
   TaskListFilters,
+  TaskListItem,
+  TaskTrashItem,
   TaskStatus,
-  TaskImportance,
+  TaskTransitions,
+  TaskReminder,
+  SubtaskCompletionPolicy,
+  DependencyCompletionPolicy,
+  SnoozePreset,
+  TaskDueDateInput,
   HistoryEntry,
 } from './taskTypes';
+import {
+  getTaskRepository,
+  getHistoryRepository,
+  getChecklistRepository,
+  getDependencyRepository,
+  getTimeEntryRepository,
+} from './taskRepository';
+import { parseRecurrenceRule, getNextOccurrence } from './taskRecurrence';
+import { recordHistory, describeChecklistItem, describeReminders } from './taskHistory';
+import {
+  formatTaskDueDate,
+  getTaskDueDate,
+  getTaskDueDay,
+  isDayInPeriod,
+  isDueDayInPast,
+  resolveDueDate,
+  resolveSnoozeTime,
+  shiftTaskDay,
+} from './taskSchedule';
+import { getZonedParts, toZonedDateKey, zonedTimeToUtc } from '@/utils/date';
+import {
+  assertTransition,
+  canTransition,
+  isTaskClosed,
+  getAvailableTransitions,
+} from './taskStatusMachine';
+import { calculateTaskProgress } from './taskProgress';
+import { dependencyOpenBlockers } from './dependencyRules';
+import { sumTrackedTime, timerStopByTask } from './timeEntryRules';
+import { getTagRepository } from '@/services/tag/tagRepository';
+import { formatTagNames } from '@/services/tag/tagRules';
+import { getProjectRepository } from '@/services/project/projectRepository';
+import { getReminderDeliveryRepository } from '@/services/reminder/reminderRepository';
+import { getAttachmentRepository } from '@/services/attachment/attachmentRepository';
+import { attachmentRemoveByTask } from '@/services/attachment/attachmentRules';
+import { getCommentRepository } from '@/services/comment/commentRepository';
+import { ConflictError, ValidationError } from '@/utils/errors';
 
 /**
- * @remarks
- * In-memory storage for tasks and history
+ * @rule {fn-order-processing}
+ * Status filter values and the status each one selects
  */
-const tasks: TaskEntity[] = [];
-const history: HistoryEntry[] = [];
+const STATUS_FILTERS: Record<string, TaskStatus> = {
+  Pendentes: TaskStatus.Pendente,
+  'Em andamento': TaskStatus.EmAndamento,
+  Aguardando: TaskStatus.Aguardando,
+  Concluídas: TaskStatus.Concluída,
+  Canceladas: TaskStatus.Cancelada,
+  Vencidas: TaskStatus.Vencida,
+};
 
 /**
  * @summary
@@ -31,51 +83,89 @@ const history: HistoryEntry[] = [];
  * @function taskCreate
  * @module services/task
  *
+ * @param {string} idUsuario - Owner user identifier
  * @param {TaskCreateRequest} data - Task creation parameters
  *
  * @returns {Promise<TaskEntity>} Created task entity
  *
- * @throws {Error} When validation fails
+ * @throws {ValidationError} When validation fails
  */
-export async function taskCreate(data: TaskCreateRequest): Promise<TaskEntity> {
+export async function taskCreate(
+  idUsuario: string,
+  data: TaskCreateRequest
+): Promise<TaskEntity> {
   /**
    * @validation Validate required fields
    */
   if (!data.titulo || data.titulo.trim().length === 0) {
-    throw new Error('tituloObrigatorio');
+    throw new ValidationError('tituloObrigatorio');
+  }
+
+  if (data.titulo.length > TASK_LIMITS.titulo) {
+    throw new ValidationError('tituloMuitoLongo', { max: TASK_LIMITS.titulo });
+  }
+
+  if (data.descricao && data.descricao.length > TASK_LIMITS.descricao) {
+    throw new ValidationError('descricaoMuitoLonga', { max: TASK_LIMITS.descricao });
   }
 
-  if (data.titulo.length > 100) {
-    throw new Error('tituloMuitoLongo');
+  if (data.recorrencia && !parseRecurrenceRule(data.recorrencia)) {
+    throw new ValidationError('recorrenciaInvalida');
   }
 
-  if (data.descricao && data.descricao.length > 500) {
-    throw new Error('descricaoMuitoLonga');
+  if (data.recorrencia && !data.dataVencimento) {
+    throw new ValidationError('recorrenciaSemVencimento');
   }
 
+  const tags = await resolveTags(idUsuario, data.tags);
+  const idProjeto = await resolveProject(idUsuario, data.idProjeto ?? null);
+  const lembretes = resolveReminders(data.lembretes ?? [], data.dataVencimento);
+  const dataInicio = data.dataInicio ?? null;
+  const dataAgendada = data.dataAgendada ?? null;
+
+  assertStartBeforeDue(dataInicio, data);
+
   /**
    * @rule {fn-order-processing}
    * Create new task with default status 'Pendente'
    */
+  const id = uuidv4();
   const newTask: TaskEntity = {
-    id: uuidv4(),
+    id,
+    idUsuario,
     titulo: data.titulo,
     descricao: data.descricao,
     dataVencimento: data.dataVencimento,
-    horaVencimento: data.horaVencimento,
+    fusoHorario: data.fusoHorario,
+    diaInteiro: data.diaInteiro,
+    dataInicio,
+    dataAgendada,
+    sonecaAte: null,
+    adiamentos: 0,
+    dataExclusao: null,
     importancia: data.importancia,
     status: TaskStatus.Pendente,
+    recorrencia: data.recorrencia,
+    idSerie: data.recorrencia ? id : null,
+    ocorrencia: data.recorrencia ? 1 : null,
+    idProximaOcorrencia: null,
+    idTarefaPai: data.idTarefaPai ?? null,
+    tags,
+    idProjeto,
+    duracaoEstimada: data.duracaoEstimada ?? null,
+    lembretes,
     dataCriacao: new Date(),
     dataAtualizacao: new Date(),
   };
 
-  tasks.push(newTask);
+  await getTaskRepository().insert(newTask);
 
   /**
    * @rule {fn-order-processing}
    * Record creation in history
    */
   await recordHistory({
+    idUsuario,
     idTarefa: newTask.id,
     tipoAlteracao: 'Criação',
     campoAlterado: null,
@@ -89,24 +179,76 @@ export async function taskCreate(data: TaskCreateRequest): Promise<TaskEntity> {
 
 /**
  * @summary
- * Retrieves a filtered and sorted list of tasks
+ * Retrieves a filtered and sorted list of the user's top-level tasks with their subtask progress
  *
  * @function taskList
  * @module services/task
  *
+ * @param {string} idUsuario - Owner user identifier
  * @param {TaskListFilters} filters - List filters and sorting options
  *
- * @returns {Promise<TaskEntity[]>} Filtered and sorted task list
+ * @returns {Promise<TaskListItem[]>} Filtered and sorted task list
  */
-export async function taskList(filters: TaskListFilters): Promise<TaskEntity[]> {
-  let filteredTasks = [...tasks];
+export async function taskList(
+  idUsuario: string,
+  filters: TaskListFilters
+): Promise<TaskListItem[]> {
+  const allTasks = await getTaskRepository().findAll(idUsuario);
+
+  /**
+   * @rule {be-task-subtasks}
+   * Subtasks are listed inside their parent task, not on their own
+   */
+  let filteredTasks = allTasks.filter((task) => !task.idTarefaPai);
+
+  /**
+   * @rule {be-task-projects}
+   * Apply project filter; tasks of archived projects are only listed when their project is selected
+   */
+  if (filters.filterProject === 'Sem projeto') {
+    filteredTasks = filteredTasks.filter((task) => !task.idProjeto);
+  } else if (filters.filterProject !== 'Todas') {
+    filteredTasks = filteredTasks.filter((task) => task.idProjeto === filters.filterProject);
+  } else {
+    const archivedProjects = (await getProjectRepository().findAll(idUsuario))
+      .filter((project) => project.arquivado)
+      .map((project) => project.id);
+
+    filteredTasks = filteredTasks.filter(
+      (task) => !task.idProjeto || !archivedProjects.includes(task.idProjeto)
+    );
+  }
+
+  /**
+   * @rule {be-task-snooze}
+   * Snoozed open tasks are hidden until their snooze expires; the 'Sonecas' period lists only them
+   */
+  const now = new Date();
+  filteredTasks = filteredTasks.filter((task) => {
+    const snoozed = !!task.sonecaAte && task.sonecaAte > now && !isTaskClosed(task.status);
+    return filters.filterPeriod === 'Sonecas' ? snoozed : !snoozed;
+  });
+
+  /**
+   * @rule {be-task-planning}
+   * Tasks whose start date is still ahead are hidden unless asked for
+   */
+  if (filters.filterStart !== 'Todas') {
+    filteredTasks = filteredTasks.filter((task) => {
+      const started =
+        !task.dataInicio ||
+        toZonedDateKey(task.dataInicio, task.fusoHorario) <= toZonedDateKey(now, task.fusoHorario);
+      return filters.filterStart === 'Não iniciadas' ? !started : started;
+    });
+  }
 
   /**
    * @rule {fn-order-processing}
    * Apply status filter
    */
   if (filters.filterStatus !== 'Todas') {
-    filteredTasks = filteredTasks.filter((task) => task.status === filters.filterStatus);
+    const status = STATUS_FILTERS[filters.filterStatus];
+    filteredTasks = filteredTasks.filter((task) => task.status === status);
   }
 
   /**
@@ -122,50 +264,26 @@ export async function taskList(filters: TaskListFilters): Promise<TaskEntity[]>
    * Apply period filter
    */
   if (filters.filterPeriod !== 'Todas') {
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-
+    /**
+     * @rule {be-task-due-date}
+     * Calendar periods are evaluated in the time zone of each task
+     */
     switch (filters.filterPeriod) {
       case 'Hoje':
-        filteredTasks = filteredTasks.filter((task) => {
-          if (!task.dataVencimento) return false;
-          const [day, month, year] = task.dataVencimento.split('/').map(Number);
-          const dueDate = new Date(year, month - 1, day);
-          return dueDate.getTime() === today.getTime();
-        });
-        break;
-
       case 'Esta semana':
-        const weekEnd = new Date(today);
-        weekEnd.setDate(weekEnd.getDate() + 7);
-        filteredTasks = filteredTasks.filter((task) => {
-          if (!task.dataVencimento) return false;
-          const [day, month, year] = task.dataVencimento.split('/').map(Number);
-          const dueDate = new Date(year, month - 1, day);
-          return dueDate >= today && dueDate <= weekEnd;
-        });
-        break;
-
       case 'Este mês':
         filteredTasks = filteredTasks.filter((task) => {
-          if (!task.dataVencimento) return false;
-          const [day, month, year] = task.dataVencimento.split('/').map(Number);
-          return month === now.getMonth() + 1 && year === now.getFullYear();
+          const dueDay = getTaskDueDay(task);
+          return !!dueDay && isDayInPeriod(dueDay, filters.filterPeriod, task.fusoHorario, now);
         });
         break;
 
       case 'Próximas ao vencimento':
         const fortyEightHours = new Date(now.getTime() + 48 * 60 * 60 * 1000);
         filteredTasks = filteredTasks.filter((task) => {
-          if (!task.dataVencimento) return false;
-          const [day, month, year] = task.dataVencimento.split('/').map(Number);
-          const dueDate = new Date(year, month - 1, day);
-          if (task.horaVencimento) {
-            const [hours, minutes] = task.horaVencimento.split(':').map(Number);
-            dueDate.setHours(hours, minutes);
-          }
+          const dueDate = getTaskDueDate(task);
           return (
-            dueDate >= now && dueDate <= fortyEightHours && task.status === TaskStatus.Pendente
+            !!dueDate && dueDate >= now && dueDate <= fortyEightHours && !isTaskClosed(task.status)
           );
         });
         break;
@@ -180,6 +298,31 @@ export async function taskList(filters: TaskListFilters): Promise<TaskEntity[]>
     }
   }
 
+  /**
+   * @rule {be-task-planning}
+   * Apply scheduled date period filter
+   */
+  if (filters.filterScheduled !== 'Todas') {
+    filteredTasks = filteredTasks.filter((task) => {
+      if (filters.filterScheduled === 'Sem agendamento') return !task.dataAgendada;
+      if (!task.dataAgendada) return false;
+      const scheduledDay = toZonedDateKey(task.dataAgendada, task.fusoHorario);
+      return isDayInPeriod(scheduledDay, filters.filterScheduled, task.fusoHorario, now);
+    });
+  }
+
+  /**
+   * @rule {be-task-tags}
+   * Apply tag filter: any of the selected tags, or all of them
+   */
+  if (filters.filterTags.length > 0) {
+    filteredTasks = filteredTasks.filter((task) =>
+      filters.filterTagsMode === 'Todas'
+        ? filters.filterTags.every((idTag) => task.tags.includes(idTag))
+        : filters.filterTags.some((idTag) => task.tags.includes(idTag))
+    );
+  }
+
   /**
    * @rule {fn-order-processing}
    * Apply search term filter
@@ -202,16 +345,15 @@ export async function taskList(filters: TaskListFilters): Promise<TaskEntity[]>
 
     switch (filters.orderBy) {
       case 'Data de vencimento':
-        if (!a.dataVencimento && !b.dataVencimento) comparison = 0;
-        else if (!a.dataVencimento) comparison = 1;
-        else if (!b.dataVencimento) comparison = -1;
-        else {
-          const [dayA, monthA, yearA] = a.dataVencimento.split('/').map(Number);
-          const [dayB, monthB, yearB] = b.dataVencimento.split('/').map(Number);
-          const dateA = new Date(yearA, monthA - 1, dayA);
-          const dateB = new Date(yearB, monthB - 1, dayB);
-          comparison = dateA.getTime() - dateB.getTime();
-        }
+        comparison = compareOptionalDates(a.dataVencimento, b.dataVencimento);
+        break;
+
+      case 'Data de início':
+        comparison = compareOptionalDates(a.dataInicio, b.dataInicio);
+        break;
+
+      case 'Data agendada':
+        comparison = compareOptionalDates(a.dataAgendada, b.dataAgendada);
         break;
 
       case 'Importância':
@@ -227,7 +369,44 @@ export async function taskList(filters: TaskListFilters): Promise<TaskEntity[]>
     return filters.orderDirection === 'Crescente' ? comparison : -comparison;
   });
 
-  return filteredTasks;
+  /**
+   * @rule {be-task-subtasks}
+   * Attach checklist and subtask progress to each task
+   */
+  const checklistItems = await getChecklistRepository().findAll(idUsuario);
+
+  /**
+   * @rule {be-task-dependencies}
+   * Attach the open tasks blocking each task and the open tasks it blocks
+   */
+  const dependencies = await getDependencyRepository().findAll(idUsuario);
+  const openIds = new Set(
+    allTasks.filter((t) => !isTaskClosed(t.status)).map((t) => t.id)
+  );
+  const timeEntries = await getTimeEntryRepository().findAll(idUsuario);
+  const attachments = await getAttachmentRepository().findAll(idUsuario);
+  const comments = (await getCommentRepository().findAll(idUsuario)).filter(
+    (comment) => !comment.dataExclusao
+  );
+
+  return filteredTasks.map((task) => {
+    const itens = checklistItems.filter((item) => item.idTarefa === task.id);
+    const tarefas = allTasks.filter((child) => child.idTarefaPai === task.id);
+
+    return {
+      ...task,
+      progresso: itens.length + tarefas.length > 0 ? calculateTaskProgress(itens, tarefas) : null,
+      bloqueadaPor: dependencies
+        .filter((d) => d.idTarefa === task.id && openIds.has(d.idTarefaBloqueadora))
+        .map((d) => d.idTarefaBloqueadora),
+      bloqueando: dependencies
+        .filter((d) => d.idTarefaBloqueadora === task.id && openIds.has(d.idTarefa))
+        .map((d) => d.idTarefa),
+      tempoRegistrado: sumTrackedTime(timeEntries.filter((entry) => entry.idTarefa === task.id)),
+      anexos: attachments.filter((attachment) => attachment.idTarefa === task.id).length,
+      comentarios: comments.filter((comment) => comment.idTarefa === task.id).length,
+    };
+  });
 }
 
 /**
@@ -237,13 +416,13 @@ export async function taskList(filters: TaskListFilters): Promise<TaskEntity[]>
  * @function taskGet
  * @module services/task
  *
+ * @param {string} idUsuario - Owner user identifier
  * @param {string} id - Task identifier
  *
- * @returns {Promise<TaskEntity | null>} Task entity or null if not found
+ * @returns {Promise<TaskEntity | null>} Task entity or null if not found or owned by another user
  */
-export async function taskGet(id: string): Promise<TaskEntity | null> {
-  const task = tasks.find((t) => t.id === id);
-  return task || null;
+export async function taskGet(idUsuario: string, id: string): Promise<TaskEntity | null> {
+  return getTaskRepository().findById(idUsuario, id);
 }
 
 /**
@@ -253,17 +432,22 @@ export async function taskGet(id: string): Promise<TaskEntity | null> {
  * @function taskUpdate
  * @module services/task
  *
+ * @param {string} idUsuario - Owner user identifier
  * @param {string} id - Task identifier
  * @param {TaskUpdateRequest} data - Update parameters
  *
- * @returns {Promise<TaskEntity | null>} Updated task entity or null if not found
+ * @returns {Promise<TaskEntity | null>} Updated task entity or null if not found or owned by another user
  *
- * @throws {Error} When validation fails
+ * @throws {ValidationError} When validation fails
  */
-export async function taskUpdate(id: string, data: TaskUpdateRequest): Promise<TaskEntity | null> {
-  const taskIndex = tasks.findIndex((t) => t.id === id);
+export async function taskUpdate(
+  idUsuario: string,
+  id: string,
+  data: TaskUpdateRequest
+): Promise<TaskEntity | null> {
+  const oldTask = await getTaskRepository().findById(idUsuario, id);
 
-  if (taskIndex === -1) {
+  if (!oldTask) {
     return null;
   }
 
@@ -271,56 +455,99 @@ export async function taskUpdate(id: string, data: TaskUpdateRequest): Promise<T
    * @validation Validate required fields
    */
   if (!data.titulo || data.titulo.trim().length === 0) {
-    throw new Error('tituloObrigatorio');
+    throw new ValidationError('tituloObrigatorio');
+  }
+
+  if (data.titulo.length > TASK_LIMITS.titulo) {
+    throw new ValidationError('tituloMuitoLongo', { max: TASK_LIMITS.titulo });
+  }
+
+  if (data.descricao && data.descricao.length > TASK_LIMITS.descricao) {
+    throw new ValidationError('descricaoMuitoLonga', { max: TASK_LIMITS.descricao });
+  }
+
+  if (data.recorrencia && !parseRecurrenceRule(data.recorrencia)) {
+    throw new ValidationError('recorrenciaInvalida');
   }
 
-  if (data.titulo.length > 100) {
-    throw new Error('tituloMuitoLongo');
+  if (data.recorrencia && !data.dataVencimento) {
+    throw new ValidationError('recorrenciaSemVencimento');
   }
 
-  if (data.descricao && data.descricao.length > 500) {
-    throw new Error('descricaoMuitoLonga');
+  const tags = data.tags !== undefined ? await resolveTags(idUsuario, data.tags) : oldTask.tags;
+
+  let idProjeto = oldTask.idProjeto;
+
+  if (data.idProjeto !== undefined && data.idProjeto !== oldTask.idProjeto) {
+    if (oldTask.idTarefaPai) {
+      throw new ValidationError('projetoSubtarefa');
+    }
+
+    idProjeto = await resolveProject(idUsuario, data.idProjeto);
   }
 
-  const oldTask = { ...tasks[taskIndex] };
+  const lembretes = resolveReminders(data.lembretes ?? oldTask.lembretes, data.dataVencimento);
+  const dataInicio = data.dataInicio !== undefined ? data.dataInicio : oldTask.dataInicio;
+  const dataAgendada = data.dataAgendada !== undefined ? data.dataAgendada : oldTask.dataAgendada;
+
+  assertStartBeforeDue(dataInicio, data);
 
   /**
    * @rule {fn-order-processing}
    * Update task fields and check if status should change from Vencida to Pendente
    */
-  tasks[taskIndex] = {
-    ...tasks[taskIndex],
+  const updatedTask: TaskEntity = {
+    ...oldTask,
     titulo: data.titulo,
     descricao: data.descricao,
     dataVencimento: data.dataVencimento,
-    horaVencimento: data.horaVencimento,
+    fusoHorario: data.fusoHorario,
+    diaInteiro: data.diaInteiro,
+    dataInicio,
+    dataAgendada,
     importancia: data.importancia,
+    recorrencia: data.recorrencia,
+    tags,
+    idProjeto,
+    duracaoEstimada:
+      data.duracaoEstimada !== undefined ? data.duracaoEstimada : oldTask.duracaoEstimada,
+    lembretes,
     dataAtualizacao: new Date(),
   };
 
   /**
-   * @rule {fn-order-processing}
-   * If task was Vencida and due date changed to future, change status to Pendente
-   */
-  if (tasks[taskIndex].status === TaskStatus.Vencida && data.dataVencimento) {
-    const [day, month, year] = data.dataVencimento.split('/').map(Number);
-    const dueDate = new Date(year, month - 1, day);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    if (dueDate >= today) {
-      tasks[taskIndex].status = TaskStatus.Pendente;
-      await recordHistory({
-        idTarefa: id,
-        tipoAlteracao: 'Alteração de Status',
-        campoAlterado: 'status',
-        valorAnterior: TaskStatus.Vencida,
-        valorNovo: TaskStatus.Pendente,
-        origemAlteracao: 'Automática',
-      });
-    }
+   * @rule {be-task-recurrence}
+   * A task that becomes recurring starts a new series
+   */
+  if (data.recorrencia && !updatedTask.idSerie) {
+    updatedTask.idSerie = updatedTask.id;
+    updatedTask.ocorrencia = 1;
+  }
+
+  /**
+   * @rule {be-task-status-workflow}
+   * An overdue task whose due date no longer lies in the past goes back to Pendente
+   */
+  const dueDate = getTaskDueDate(updatedTask);
+
+  if (
+    (!dueDate || dueDate >= new Date()) &&
+    canTransition(updatedTask.status, TaskStatus.Pendente, 'Automática')
+  ) {
+    updatedTask.status = TaskStatus.Pendente;
+    await recordHistory({
+      idUsuario,
+      idTarefa: id,
+      tipoAlteracao: 'Alteração de Status',
+      campoAlterado: 'status',
+      valorAnterior: oldTask.status,
+      valorNovo: TaskStatus.Pendente,
+      origemAlteracao: 'Automática',
+    });
   }
 
+  await getTaskRepository().update(updatedTask);
+
   /**
    * @rule {fn-order-processing}
    * Record changes in history
@@ -337,18 +564,39 @@ export async function taskUpdate(id: string, data: TaskUpdateRequest): Promise<T
       newValue: data.descricao,
     });
   }
-  if (oldTask.dataVencimento !== data.dataVencimento) {
+  if (oldTask.dataVencimento?.getTime() !== data.dataVencimento?.getTime()) {
     changedFields.push({
       field: 'dataVencimento',
-      oldValue: oldTask.dataVencimento,
-      newValue: data.dataVencimento,
+      oldValue: oldTask.dataVencimento?.toISOString() ?? null,
+      newValue: data.dataVencimento?.toISOString() ?? null,
+    });
+  }
+  if (oldTask.fusoHorario !== data.fusoHorario) {
+    changedFields.push({
+      field: 'fusoHorario',
+      oldValue: oldTask.fusoHorario,
+      newValue: data.fusoHorario,
+    });
+  }
+  if (oldTask.diaInteiro !== data.diaInteiro) {
+    changedFields.push({
+      field: 'diaInteiro',
+      oldValue: String(oldTask.diaInteiro),
+      newValue: String(data.diaInteiro),
+    });
+  }
+  if (oldTask.dataInicio?.getTime() !== dataInicio?.getTime()) {
+    changedFields.push({
+      field: 'dataInicio',
+      oldValue: oldTask.dataInicio?.toISOString() ?? null,
+      newValue: dataInicio?.toISOString() ?? null,
     });
   }
-  if (oldTask.horaVencimento !== data.horaVencimento) {
+  if (oldTask.dataAgendada?.getTime() !== dataAgendada?.getTime()) {
     changedFields.push({
-      field: 'horaVencimento',
-      oldValue: oldTask.horaVencimento,
-      newValue: data.horaVencimento,
+      field: 'dataAgendada',
+      oldValue: oldTask.dataAgendada?.toISOString() ?? null,
+      newValue: dataAgendada?.toISOString() ?? null,
     });
   }
   if (oldTask.importancia !== data.importancia) {
@@ -358,9 +606,42 @@ export async function taskUpdate(id: string, data: TaskUpdateRequest): Promise<T
       newValue: data.importancia,
     });
   }
+  if (oldTask.recorrencia !== data.recorrencia) {
+    changedFields.push({
+      field: 'recorrencia',
+      oldValue: oldTask.recorrencia,
+      newValue: data.recorrencia,
+    });
+  }
+
+  if (oldTask.duracaoEstimada !== updatedTask.duracaoEstimada) {
+    changedFields.push({
+      field: 'duracaoEstimada',
+      oldValue: oldTask.duracaoEstimada,
+      newValue: updatedTask.duracaoEstimada,
+    });
+  }
+
+  if (describeReminders(oldTask.lembretes) !== describeReminders(lembretes)) {
+    changedFields.push({
+      field: 'lembretes',
+      oldValue: describeReminders(oldTask.lembretes),
+      newValue: describeReminders(lembretes),
+    });
+  }
+
+  if ([...oldTask.tags].sort().join() !== [...tags].sort().join()) {
+    const userTags = await getTagRepository().findAll(idUsuario);
+    changedFields.push({
+      field: 'tags',
+      oldValue: formatTagNames(oldTask.tags, userTags),
+      newValue: formatTagNames(tags, userTags),
+    });
+  }
 
   for (const change of changedFields) {
     await recordHistory({
+      idUsuario,
       idTarefa: id,
       tipoAlteracao: 'Edição',
       campoAlterado: change.field,
@@ -370,170 +651,1250 @@ export async function taskUpdate(id: string, data: TaskUpdateRequest): Promise<T
     });
   }
 
-  return tasks[taskIndex];
+  if (idProjeto !== oldTask.idProjeto) {
+    await recordProjectMove(updatedTask, oldTask.idProjeto);
+  }
+
+  return updatedTask;
 }
 
 /**
  * @summary
- * Deletes a task permanently
+ * Moves a task, together with its subtasks, to another project or out of any project
  *
- * @function taskDelete
+ * @function taskMove
  * @module services/task
  *
+ * @param {string} idUsuario - Owner user identifier
  * @param {string} id - Task identifier
+ * @param {string | null} idProjeto - Target project identifier, or null for no project
+ *
+ * @returns {Promise<TaskEntity | null>} Moved task or null if not found or owned by another user
  *
- * @returns {Promise<boolean>} True if deleted, false if not found
+ * @throws {ValidationError | ConflictError} When the task is a subtask or the project is missing or
+ * archived
  */
-export async function taskDelete(id: string): Promise<boolean> {
-  const taskIndex = tasks.findIndex((t) => t.id === id);
+export async function taskMove(
+  idUsuario: string,
+  id: string,
+  idProjeto: string | null
+): Promise<TaskEntity | null> {
+  const task = await getTaskRepository().findById(idUsuario, id);
 
-  if (taskIndex === -1) {
-    return false;
+  if (!task) {
+    return null;
+  }
+
+  if (task.idProjeto === idProjeto) {
+    return task;
   }
 
   /**
-   * @rule {fn-order-processing}
-   * Record deletion in history before removing
+   * @rule {be-task-projects}
+   * Subtasks always live in the project of their parent task
    */
-  await recordHistory({
-    idTarefa: id,
-    tipoAlteracao: 'Exclusão',
-    campoAlterado: null,
-    valorAnterior: null,
-    valorNovo: null,
-    origemAlteracao: 'Manual',
-  });
+  if (task.idTarefaPai) {
+    throw new ValidationError('projetoSubtarefa');
+  }
 
-  tasks.splice(taskIndex, 1);
-  return true;
+  const previousProject = task.idProjeto;
+  task.idProjeto = await resolveProject(idUsuario, idProjeto);
+  task.dataAtualizacao = new Date();
+
+  await getTaskRepository().update(task);
+  await recordProjectMove(task, previousProject);
+
+  return task;
 }
 
 /**
  * @summary
- * Updates the status of a task
+ * Snoozes a task, hiding it from the task list until the snooze expires without touching its
+ * due date
  *
- * @function taskUpdateStatus
+ * @function taskSnooze
  * @module services/task
  *
+ * @param {string} idUsuario - Owner user identifier
  * @param {string} id - Task identifier
- * @param {TaskStatus} status - New status
+ * @param {SnoozePreset} preset - When the task comes back
+ * @param {Date | null} sonecaAte - Chosen moment, used by the 'Personalizado' preset
+ *
+ * @returns {Promise<TaskEntity | null>} Snoozed task or null if not found or owned by another user
+ *
+ * @throws {ValidationError | ConflictError} When the task is closed or the custom moment is missing
+ * or not in the future
+ */
+export async function taskSnooze(
+  idUsuario: string,
+  id: string,
+  preset: SnoozePreset,
+  sonecaAte: Date | null
+): Promise<TaskEntity | null> {
+  const task = await getTaskRepository().findById(idUsuario, id);
+
+  if (!task) {
+    return null;
+  }
+
+  /**
+   * @rule {be-task-snooze}
+   * Only open tasks can be snoozed
+   */
+  if (isTaskClosed(task.status)) {
+    throw new ConflictError('tarefaEncerrada');
+  }
+
+  const previousSnooze = task.sonecaAte;
+  task.sonecaAte = resolveSnoozeTime(preset, sonecaAte, task.fusoHorario, new Date());
+  task.dataAtualizacao = new Date();
+
+  await getTaskRepository().update(task);
+  await recordSnoozeChange(task, previousSnooze, 'Manual');
+
+  return task;
+}
+
+/**
+ * @summary
+ * Brings a snoozed task back to the task list before its snooze expires
+ *
+ * @function taskUnsnooze
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} id - Task identifier
+ *
+ * @returns {Promise<TaskEntity | null>} Task or null if not found or owned by another user
+ */
+export async function taskUnsnooze(idUsuario: string, id: string): Promise<TaskEntity | null> {
+  const task = await getTaskRepository().findById(idUsuario, id);
+
+  if (!task || !task.sonecaAte) {
+    return task;
+  }
+
+  const previousSnooze = task.sonecaAte;
+  task.sonecaAte = null;
+  task.dataAtualizacao = new Date();
+
+  await getTaskRepository().update(task);
+  await recordSnoozeChange(task, previousSnooze, 'Manual');
+
+  return task;
+}
+
+/**
+ * @summary
+ * Moves the due date of a task, reopening it when it was overdue and counting the postponement
+ *
+ * @function taskReschedule
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} id - Task identifier
+ * @param {TaskDueDateInput} input - New due date; the time zone defaults to the task's
+ * @param {string | null} motivo - Why the task was rescheduled
  *
- * @returns {Promise<TaskEntity | null>} Updated task entity or null if not found
+ * @returns {Promise<TaskEntity | null>} Rescheduled task or null if not found or owned by another
+ * user
  *
- * @throws {Error} When status change is not allowed
+ * @throws {ValidationError | ConflictError} When the task is closed, or the new due date is
+ * invalid, in the past or before the start date
  */
-export async function taskUpdateStatus(id: string, status: TaskStatus): Promise<TaskEntity | null> {
-  const taskIndex = tasks.findIndex((t) => t.id === id);
+export async function taskReschedule(
+  idUsuario: string,
+  id: string,
+  input: TaskDueDateInput,
+  motivo: string | null
+): Promise<TaskEntity | null> {
+  const task = await getTaskRepository().findById(idUsuario, id);
 
-  if (taskIndex === -1) {
+  if (!task) {
     return null;
   }
 
-  const oldStatus = tasks[taskIndex].status;
+  /**
+   * @rule {be-task-reschedule}
+   * Closed tasks have nothing left to postpone
+   */
+  if (isTaskClosed(task.status)) {
+    throw new ConflictError('tarefaEncerrada');
+  }
+
+  const due = resolveDueDate({ ...input, fusoHorario: input.fusoHorario ?? task.fusoHorario });
+
+  if (!due.dataVencimento || isDueDayInPast(due)) {
+    throw new ValidationError('dataVencimentoPassado');
+  }
+
+  assertStartBeforeDue(task.dataInicio, due);
+
+  const previous = `${formatTaskDueDate(task) ?? 'sem data'}, ${task.status}`;
 
   /**
-   * @rule {fn-order-processing}
-   * Validate status change rules
+   * @rule {be-task-reschedule}
+   * The new due date, the reopened status and the postponement count are stored together
    */
-  if (oldStatus === TaskStatus.Vencida && status === TaskStatus.Pendente) {
-    throw new Error('alteracaoNaoPermitida');
+  task.dataVencimento = due.dataVencimento;
+  task.fusoHorario = due.fusoHorario;
+  task.diaInteiro = due.diaInteiro;
+  task.lembretes = resolveReminders(task.lembretes, task.dataVencimento);
+  task.adiamentos += 1;
+  task.dataAtualizacao = new Date();
+
+  if (canTransition(task.status, TaskStatus.Pendente, 'Automática')) {
+    task.status = TaskStatus.Pendente;
   }
 
-  tasks[taskIndex].status = status;
-  tasks[taskIndex].dataAtualizacao = new Date();
+  await getTaskRepository().update(task);
 
   /**
-   * @rule {fn-order-processing}
-   * Record status change in history
+   * @rule {be-task-reschedule}
+   * A reschedule is recorded as a single history entry, with the reason when given
    */
+  const current = `${formatTaskDueDate(task)}, ${task.status}`;
+
   await recordHistory({
+    idUsuario,
     idTarefa: id,
-    tipoAlteracao: 'Alteração de Status',
-    campoAlterado: 'status',
-    valorAnterior: oldStatus,
-    valorNovo: status,
+    tipoAlteracao: 'Reagendamento',
+    campoAlterado: 'dataVencimento',
+    valorAnterior: previous,
+    valorNovo: motivo ? `${current}. Motivo: ${motivo}` : current,
     origemAlteracao: 'Manual',
   });
 
-  return tasks[taskIndex];
+  return task;
 }
 
 /**
  * @summary
- * Checks for overdue tasks and updates their status
+ * Lists the open tasks that were rescheduled the most
  *
- * @function taskCheckOverdue
+ * @function taskMostPostponed
  * @module services/task
  *
- * @returns {Promise<void>}
+ * @param {string} idUsuario - Owner user identifier
+ * @param {number} limite - Maximum number of tasks to return
+ *
+ * @returns {Promise<TaskEntity[]>} Tasks with at least one postponement, most postponed first
  */
-export async function taskCheckOverdue(): Promise<void> {
-  const now = new Date();
+export async function taskMostPostponed(
+  idUsuario: string,
+  limite: number
+): Promise<TaskEntity[]> {
+  const tasks = await getTaskRepository().findAll(idUsuario);
 
-  for (const task of tasks) {
-    if (task.status === TaskStatus.Pendente && task.dataVencimento) {
-      const [day, month, year] = task.dataVencimento.split('/').map(Number);
-      const dueDate = new Date(year, month - 1, day);
-
-      if (task.horaVencimento) {
-        const [hours, minutes] = task.horaVencimento.split(':').map(Number);
-        dueDate.setHours(hours, minutes);
-      } else {
-        dueDate.setHours(23, 59, 59);
-      }
+  return tasks
+    .filter((task) => task.adiamentos > 0 && !isTaskClosed(task.status))
+    .sort(
+      (a, b) =>
+        b.adiamentos - a.adiamentos || compareOptionalDates(a.dataVencimento, b.dataVencimento)
+    )
+    .slice(0, limite);
+}
 
-      /**
-       * @rule {fn-order-processing}
-       * Update status to Vencida if due date has passed
-       */
-      if (dueDate < now) {
-        task.status = TaskStatus.Vencida;
-        task.dataAtualizacao = new Date();
+/**
+ * @summary
+ * Moves a task and its subtasks to the trash, from where they can be restored until the
+ * retention period ends
+ *
+ * @function taskDelete
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} id - Task identifier
+ *
+ * @returns {Promise<boolean>} True if deleted, false if not found or owned by another user
+ */
+export async function taskDelete(idUsuario: string, id: string): Promise<boolean> {
+  const task = await getTaskRepository().findById(idUsuario, id);
 
-        await recordHistory({
-          idTarefa: task.id,
-          tipoAlteracao: 'Alteração de Status',
-          campoAlterado: 'status',
-          valorAnterior: TaskStatus.Pendente,
-          valorNovo: TaskStatus.Vencida,
-          origemAlteracao: 'Automática',
-        });
-      }
-    }
+  if (!task) {
+    return false;
   }
+
+  await moveToTrash(task, new Date(), 'Manual');
+
+  return true;
 }
 
 /**
  * @summary
- * Records a change in task history
+ * Lists the tasks in the trash, most recently deleted first. Subtasks deleted together with
+ * their parent are counted on the parent instead of listed.
  *
- * @function recordHistory
+ * @function taskTrash
  * @module services/task
  *
- * @param {object} data - History entry data
+ * @param {string} idUsuario - Owner user identifier
  *
- * @returns {Promise<void>}
+ * @returns {Promise<TaskTrashItem[]>} Tasks in the trash
  */
-async function recordHistory(data: {
-  idTarefa: string;
-  tipoAlteracao: string;
-  campoAlterado: string | null;
-  valorAnterior: string | null;
-  valorNovo: string | null;
-  origemAlteracao: string;
-}): Promise<void> {
-  const entry: HistoryEntry = {
-    id: uuidv4(),
-    idTarefa: data.idTarefa,
-    dataAlteracao: new Date(),
-    tipoAlteracao: data.tipoAlteracao,
-    campoAlterado: data.campoAlterado,
-    valorAnterior: data.valorAnterior,
-    valorNovo: data.valorNovo,
-    origemAlteracao: data.origemAlteracao,
-  };
+export async function taskTrash(idUsuario: string): Promise<TaskTrashItem[]> {
+  const deleted = await getTaskRepository().findDeleted(idUsuario);
+  const retention = config.tasks.trashRetentionDays * 24 * 60 * 60 * 1000;
+
+  const deletedWithParent = (task: TaskEntity) =>
+    deleted.some(
+      (t) =>
+        t.id === task.idTarefaPai &&
+        (t.dataExclusao as Date).getTime() === (task.dataExclusao as Date).getTime()
+    );
+
+  return deleted
+    .filter((task) => !deletedWithParent(task))
+    .map((task) => ({
+      ...task,
+      subtarefas: countDeletedSubtasks(deleted, task),
+      dataPurga: new Date((task.dataExclusao as Date).getTime() + retention),
+    }));
+}
+
+/**
+ * @summary
+ * Retrieves a task in the trash
+ *
+ * @function taskGetDeleted
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} id - Task identifier
+ *
+ * @returns {Promise<TaskEntity | null>} Task entity or null if not in the user's trash
+ */
+export async function taskGetDeleted(idUsuario: string, id: string): Promise<TaskEntity | null> {
+  return getTaskRepository().findDeletedById(idUsuario, id);
+}
+
+/**
+ * @summary
+ * Restores a task from the trash, together with the subtasks deleted with it. Dependency links
+ * removed when the task was deleted are not restored.
+ *
+ * @function taskRestore
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} id - Task identifier
+ *
+ * @returns {Promise<TaskEntity | null>} Restored task or null if not in the user's trash
+ *
+ * @throws {ConflictError} When the parent task of a subtask is still in the trash
+ */
+export async function taskRestore(idUsuario: string, id: string): Promise<TaskEntity | null> {
+  const task = await getTaskRepository().findDeletedById(idUsuario, id);
+
+  if (!task) {
+    return null;
+  }
+
+  /**
+   * @rule {be-task-trash}
+   * A subtask only comes back while its parent is active
+   */
+  if (task.idTarefaPai && !(await getTaskRepository().findById(idUsuario, task.idTarefaPai))) {
+    throw new ConflictError('tarefaPaiExcluida');
+  }
 
-  history.push(entry);
+  const deleted = await getTaskRepository().findDeleted(idUsuario);
+  const tags = (await getTagRepository().findAll(idUsuario)).map((tag) => tag.id);
+
+  /**
+   * @rule {be-task-trash}
+   * Subtasks deleted at the same moment come back with their parent; tags and projects removed
+   * while the task was in the trash are dropped from it, and dependency links removed on
+   * deletion stay removed
+   */
+  const restore = async (current: TaskEntity): Promise<void> => {
+    const deletedAt = current.dataExclusao as Date;
+
+    current.dataExclusao = null;
+    current.tags = current.tags.filter((idTag) => tags.includes(idTag));
+    if (
+      current.idProjeto &&
+      !(await getProjectRepository().findById(idUsuario, current.idProjeto))
+    ) {
+      current.idProjeto = null;
+    }
+    current.dataAtualizacao = new Date();
+
+    await getTaskRepository().update(current);
+
+    await recordHistory({
+      idUsuario,
+      idTarefa: current.id,
+      tipoAlteracao: 'Restauração',
+      campoAlterado: null,
+      valorAnterior: null,
+      valorNovo: null,
+      origemAlteracao: current.id === task.id ? 'Manual' : 'Automática',
+    });
+
+    for (const child of deleted.filter(
+      (t) =>
+        t.idTarefaPai === current.id && (t.dataExclusao as Date).getTime() === deletedAt.getTime()
+    )) {
+      await restore(child);
+    }
+  };
+
+  await restore(task);
+
+  return getTaskRepository().findById(idUsuario, id);
+}
+
+/**
+ * @summary
+ * Permanently deletes a task in the trash, together with its subtasks and everything attached
+ * to it
+ *
+ * @function taskPurge
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} id - Task identifier
+ *
+ * @returns {Promise<boolean>} True if deleted, false if not in the user's trash
+ */
+export async function taskPurge(idUsuario: string, id: string): Promise<boolean> {
+  const task = await getTaskRepository().findDeletedById(idUsuario, id);
+
+  if (!task) {
+    return false;
+  }
+
+  /**
+   * @rule {be-task-subtasks}
+   * Subtasks and checklist items do not outlive their parent
+   */
+  const children = (await getTaskRepository().findDeleted(idUsuario)).filter(
+    (t) => t.idTarefaPai === id
+  );
+
+  for (const child of children) {
+    await taskPurge(idUsuario, child.id);
+  }
+
+  await getChecklistRepository().removeByTask(idUsuario, id);
+
+  /**
+   * @rule {be-task-time-tracking}
+   * Time entries, including a running timer, are removed with their task
+   */
+  await getTimeEntryRepository().removeByTask(idUsuario, id);
+
+  /**
+   * @rule {be-task-reminders}
+   * Delivered reminders, including in-app notifications, go with their task
+   */
+  await getReminderDeliveryRepository().removeByTask(idUsuario, id);
+
+  /**
+   * @rule {be-task-attachments}
+   * Attachments go with their task, and so do contents no other attachment shares
+   */
+  await attachmentRemoveByTask(idUsuario, id);
+
+  /**
+   * @rule {be-task-comments}
+   * The comment thread, deleted comments included, is removed with its task
+   */
+  await getCommentRepository().removeByTask(idUsuario, id);
+
+  /**
+   * @rule {be-task-dependencies}
+   * Links are already removed when the task goes to the trash; this only covers tasks trashed
+   * before that rule
+   */
+  await detachDependencies(task);
+
+  return getTaskRepository().remove(idUsuario, id);
+}
+
+/**
+ * @summary
+ * Permanently deletes the tasks of every user that stayed in the trash longer than the
+ * retention period
+ *
+ * @function taskPurgeExpired
+ * @module services/task
+ *
+ * @returns {Promise<number>} Number of tasks deleted, subtasks not counted
+ */
+export async function taskPurgeExpired(): Promise<number> {
+  const limite = new Date(Date.now() - config.tasks.trashRetentionDays * 24 * 60 * 60 * 1000);
+  let purged = 0;
+
+  for (const task of await getTaskRepository().findDeletedBefore(limite)) {
+    if (await taskPurge(task.idUsuario, task.id)) {
+      purged += 1;
+    }
+  }
+
+  return purged;
+}
+
+/**
+ * @summary
+ * Updates the status of a task
+ *
+ * @function taskUpdateStatus
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} id - Task identifier
+ * @param {TaskStatus} status - New status
+ * @param {SubtaskCompletionPolicy} [politicaSubtarefas] - Handling of open subtasks on completion
+ * @param {DependencyCompletionPolicy} [politicaDependencias] - Handling of open blocking tasks
+ * on completion
+ *
+ * @returns {Promise<TaskEntity | null>} Updated task entity or null if not found or owned by another user
+ *
+ * @throws {ConflictError} When the status workflow does not allow the change, or open subtasks or
+ * blocking tasks block the completion
+ */
+export async function taskUpdateStatus(
+  idUsuario: string,
+  id: string,
+  status: TaskStatus,
+  politicaSubtarefas: SubtaskCompletionPolicy = config.tasks
+    .subtaskCompletionPolicy as SubtaskCompletionPolicy,
+  politicaDependencias: DependencyCompletionPolicy = config.tasks
+    .dependencyCompletionPolicy as DependencyCompletionPolicy
+): Promise<TaskEntity | null> {
+  const task = await getTaskRepository().findById(idUsuario, id);
+
+  if (!task) {
+    return null;
+  }
+
+  const oldStatus = task.status;
+
+  if (status === oldStatus) {
+    return task;
+  }
+
+  /**
+   * @rule {be-task-status-workflow}
+   * Only changes listed in the status workflow may be made by the user
+   */
+  assertTransition(oldStatus, status, 'Manual');
+
+  if (status === TaskStatus.Concluída) {
+    /**
+     * @rule {be-task-dependencies}
+     * Bloquear rejects completing a task while its blocking tasks are open; Avisar lets it through
+     */
+    if (politicaDependencias === DependencyCompletionPolicy.Bloquear) {
+      const openBlockers = await dependencyOpenBlockers(idUsuario, id);
+
+      if (openBlockers.length > 0) {
+        throw new ConflictError('dependenciasPendentes');
+      }
+    }
+
+    await applySubtaskCompletionPolicy(task, politicaSubtarefas);
+  }
+
+  task.status = status;
+  task.dataAtualizacao = new Date();
+
+  await getTaskRepository().update(task);
+
+  /**
+   * @rule {fn-order-processing}
+   * Record status change in history
+   */
+  await recordHistory({
+    idUsuario,
+    idTarefa: id,
+    tipoAlteracao: 'Alteração de Status',
+    campoAlterado: 'status',
+    valorAnterior: oldStatus,
+    valorNovo: status,
+    origemAlteracao: 'Manual',
+  });
+
+  /**
+   * @rule {be-task-recurrence}
+   * Completing or cancelling an occurrence of a recurring task schedules the next one
+   */
+  if (isTaskClosed(status)) {
+    await generateNextOccurrence(task);
+  }
+
+  return task;
+}
+
+/**
+ * @summary
+ * Lists the statuses the user may move a task to
+ *
+ * @function taskTransitions
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} id - Task identifier
+ *
+ * @returns {Promise<TaskTransitions | null>} Current and allowed next statuses, or null if the task
+ * is not found
+ */
+export async function taskTransitions(
+  idUsuario: string,
+  id: string
+): Promise<TaskTransitions | null> {
+  const task = await getTaskRepository().findById(idUsuario, id);
+
+  if (!task) {
+    return null;
+  }
+
+  return { status: task.status, transicoes: getAvailableTransitions(task.status, 'Manual') };
+}
+
+/**
+ * @summary
+ * Checks the user's tasks for overdue ones and updates their status
+ *
+ * @function taskCheckOverdue
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ *
+ * @returns {Promise<void>}
+ */
+export async function taskCheckOverdue(idUsuario: string): Promise<void> {
+  const now = new Date();
+
+  const tasks = await getTaskRepository().findAll(idUsuario);
+
+  for (const task of tasks) {
+    const dueDate = getTaskDueDate(task);
+
+    if (dueDate && canTransition(task.status, TaskStatus.Vencida, 'Automática')) {
+      /**
+       * @rule {be-task-status-workflow}
+       * Update status to Vencida if due date has passed
+       */
+      if (dueDate < now) {
+        const previousStatus = task.status;
+        task.status = TaskStatus.Vencida;
+        task.dataAtualizacao = new Date();
+
+        await getTaskRepository().update(task);
+
+        await recordHistory({
+          idUsuario,
+          idTarefa: task.id,
+          tipoAlteracao: 'Alteração de Status',
+          campoAlterado: 'status',
+          valorAnterior: previousStatus,
+          valorNovo: TaskStatus.Vencida,
+          origemAlteracao: 'Automática',
+        });
+
+        /**
+         * @rule {be-task-recurrence}
+         * A missed occurrence of a recurring task still schedules the next one
+         */
+        await generateNextOccurrence(task);
+      }
+    }
+  }
+}
+
+/**
+ * @summary
+ * Clears the snooze of tasks whose snooze has expired
+ *
+ * @function taskWakeSnoozed
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ *
+ * @returns {Promise<void>}
+ */
+export async function taskWakeSnoozed(idUsuario: string): Promise<void> {
+  const now = new Date();
+
+  const tasks = await getTaskRepository().findAll(idUsuario);
+
+  for (const task of tasks) {
+    /**
+     * @rule {be-task-snooze}
+     * An expired snooze is cleared automatically and recorded in history
+     */
+    if (task.sonecaAte && task.sonecaAte <= now) {
+      const previousSnooze = task.sonecaAte;
+      task.sonecaAte = null;
+      task.dataAtualizacao = new Date();
+
+      await getTaskRepository().update(task);
+      await recordSnoozeChange(task, previousSnooze, 'Automática');
+    }
+  }
+}
+
+/**
+ * @summary
+ * Creates the next occurrence of a recurring task, at most once per occurrence
+ *
+ * @function generateNextOccurrence
+ * @module services/task
+ *
+ * @param {TaskEntity} task - Occurrence that was completed or became overdue
+ *
+ * @returns {Promise<TaskEntity | null>} Generated occurrence or null when none is due
+ */
+async function generateNextOccurrence(task: TaskEntity): Promise<TaskEntity | null> {
+  if (!task.recorrencia || !task.dataVencimento || task.idProximaOcorrencia) {
+    return null;
+  }
+
+  const rule = parseRecurrenceRule(task.recorrencia);
+
+  if (!rule) {
+    return null;
+  }
+
+  /**
+   * @rule {be-task-recurrence}
+   * Occurrences that would already be in the past are skipped
+   */
+  const due = getZonedParts(task.dataVencimento, task.fusoHorario);
+  const today = toZonedDateKey(new Date(), task.fusoHorario).split('-').map(Number);
+
+  const next = getNextOccurrence(
+    rule,
+    new Date(due.year, due.month - 1, due.day),
+    task.ocorrencia ?? 1,
+    new Date(today[0], today[1] - 1, today[2])
+  );
+
+  if (!next) {
+    return null;
+  }
+
+  /**
+   * @rule {be-task-due-date}
+   * The next occurrence keeps the wall-clock due time in the task's time zone
+   */
+  const nextDueDate = zonedTimeToUtc(
+    {
+      ...due,
+      year: next.date.getFullYear(),
+      month: next.date.getMonth() + 1,
+      day: next.date.getDate(),
+    },
+    task.fusoHorario
+  );
+  const shift = Math.round(
+    (Date.UTC(next.date.getFullYear(), next.date.getMonth(), next.date.getDate()) -
+      Date.UTC(due.year, due.month - 1, due.day)) /
+      (24 * 60 * 60 * 1000)
+  );
+
+  const nextTask: TaskEntity = {
+    id: uuidv4(),
+    idUsuario: task.idUsuario,
+    titulo: task.titulo,
+    descricao: task.descricao,
+    dataVencimento: nextDueDate,
+    fusoHorario: task.fusoHorario,
+    diaInteiro: task.diaInteiro,
+    /**
+     * @rule {be-task-planning}
+     * Start and scheduled dates keep their distance to the due date
+     */
+    dataInicio: task.dataInicio && shiftTaskDay(task.dataInicio, shift, task.fusoHorario),
+    dataAgendada: task.dataAgendada && shiftTaskDay(task.dataAgendada, shift, task.fusoHorario),
+    sonecaAte: null,
+    adiamentos: 0,
+    dataExclusao: null,
+    importancia: task.importancia,
+    status: TaskStatus.Pendente,
+    recorrencia: task.recorrencia,
+    idSerie: task.idSerie ?? task.id,
+    ocorrencia: next.occurrence,
+    idProximaOcorrencia: null,
+    idTarefaPai: task.idTarefaPai,
+    tags: [...task.tags],
+    idProjeto: task.idProjeto,
+    duracaoEstimada: task.duracaoEstimada,
+    /**
+     * @rule {be-task-reminders}
+     * Lead-time reminders follow the series; reminders at a fixed moment stay with their occurrence
+     */
+    lembretes: task.lembretes.filter((lembrete) => lembrete.antecedencia !== null),
+    dataCriacao: new Date(),
+    dataAtualizacao: new Date(),
+  };
+
+  await getTaskRepository().insert(nextTask);
+
+  task.idProximaOcorrencia = nextTask.id;
+  await getTaskRepository().update(task);
+
+  /**
+   * @rule {be-task-subtasks}
+   * The next occurrence starts with the same checklist, unchecked
+   */
+  const checklistItems = await getChecklistRepository().findByTask(task.idUsuario, task.id);
+
+  for (const item of checklistItems) {
+    await getChecklistRepository().insert({
+      ...item,
+      id: uuidv4(),
+      idTarefa: nextTask.id,
+      concluido: false,
+      dataCriacao: new Date(),
+      dataAtualizacao: new Date(),
+    });
+  }
+
+  await recordHistory({
+    idUsuario: task.idUsuario,
+    idTarefa: nextTask.id,
+    tipoAlteracao: 'Criação',
+    campoAlterado: 'ocorrencia',
+    valorAnterior: task.ocorrencia !== null ? String(task.ocorrencia) : null,
+    valorNovo: String(next.occurrence),
+    origemAlteracao: 'Automática',
+  });
+
+  return nextTask;
+}
+
+/**
+ * @summary
+ * Records a change of the snooze of a task in history
+ *
+ * @function recordSnoozeChange
+ * @module services/task
+ *
+ * @param {TaskEntity} task - Task with its new snooze
+ * @param {Date | null} sonecaAnterior - Previous snooze
+ * @param {string} origemAlteracao - History origin: Manual, or Automática when the snooze expired
+ *
+ * @returns {Promise<void>}
+ */
+async function recordSnoozeChange(
+  task: TaskEntity,
+  sonecaAnterior: Date | null,
+  origemAlteracao: string
+): Promise<void> {
+  await recordHistory({
+    idUsuario: task.idUsuario,
+    idTarefa: task.id,
+    tipoAlteracao: 'Edição',
+    campoAlterado: 'sonecaAte',
+    valorAnterior: sonecaAnterior?.toISOString() ?? null,
+    valorNovo: task.sonecaAte?.toISOString() ?? null,
+    origemAlteracao,
+  });
+}
+
+/**
+ * @summary
+ * Moves a task and its active subtasks to the trash, stopping a timer running on them and
+ * removing their dependency links
+ *
+ * @function moveToTrash
+ * @module services/task
+ *
+ * @param {TaskEntity} task - Task to delete
+ * @param {Date} dataExclusao - Deletion moment, shared by the task and its subtasks
+ * @param {string} origemAlteracao - History origin: Manual or Automática
+ *
+ * @returns {Promise<void>}
+ */
+async function moveToTrash(
+  task: TaskEntity,
+  dataExclusao: Date,
+  origemAlteracao: string
+): Promise<void> {
+  const children = await getTaskRepository().findByParent(task.idUsuario, task.id);
+
+  for (const child of children) {
+    await moveToTrash(child, dataExclusao, 'Automática');
+  }
+
+  /**
+   * @rule {be-task-time-tracking}
+   * A timer running on a deleted task is stopped
+   */
+  await timerStopByTask(task.idUsuario, task.id);
+
+  /**
+   * @rule {be-task-dependencies}
+   * A deleted task stops blocking and being blocked right away; its links are not brought back
+   * by a restore
+   */
+  await detachDependencies(task);
+
+  task.dataExclusao = dataExclusao;
+  task.dataAtualizacao = new Date();
+
+  await getTaskRepository().update(task);
+
+  await recordHistory({
+    idUsuario: task.idUsuario,
+    idTarefa: task.id,
+    tipoAlteracao: 'Exclusão',
+    campoAlterado: null,
+    valorAnterior: null,
+    valorNovo: null,
+    origemAlteracao,
+  });
+}
+
+/**
+ * @summary
+ * Removes the links to and from a task; tasks it blocked keep a note in their history
+ *
+ * @function detachDependencies
+ * @module services/task
+ *
+ * @param {TaskEntity} task - Task leaving the active tasks
+ *
+ * @returns {Promise<void>}
+ */
+async function detachDependencies(task: TaskEntity): Promise<void> {
+  const dependents = (await getDependencyRepository().findAll(task.idUsuario)).filter(
+    (d) => d.idTarefaBloqueadora === task.id
+  );
+
+  await getDependencyRepository().removeByTask(task.idUsuario, task.id);
+
+  for (const dependency of dependents) {
+    await recordHistory({
+      idUsuario: task.idUsuario,
+      idTarefa: dependency.idTarefa,
+      tipoAlteracao: 'Edição',
+      campoAlterado: 'dependencia',
+      valorAnterior: task.titulo,
+      valorNovo: null,
+      origemAlteracao: 'Automática',
+    });
+  }
+}
+
+/**
+ * @summary
+ * Counts the subtasks, at any depth, deleted together with a task
+ *
+ * @function countDeletedSubtasks
+ * @module services/task
+ *
+ * @param {TaskEntity[]} deleted - Every task of the user in the trash
+ * @param {TaskEntity} task - Task whose subtasks are counted
+ *
+ * @returns {number} Number of subtasks in the trash since the same moment
+ */
+function countDeletedSubtasks(deleted: TaskEntity[], task: TaskEntity): number {
+  return deleted
+    .filter(
+      (t) =>
+        t.idTarefaPai === task.id &&
+        (t.dataExclusao as Date).getTime() === (task.dataExclusao as Date).getTime()
+    )
+    .reduce((count, child) => count + 1 + countDeletedSubtasks(deleted, child), 0);
+}
+
+/**
+ * @summary
+ * Checks that a task does not start after the day it is due
+ *
+ * @function assertStartBeforeDue
+ * @module services/task
+ *
+ * @param {Date | null} dataInicio - Start of the start day
+ * @param {Pick<TaskEntity, 'dataVencimento' | 'fusoHorario'>} due - Due date and time zone
+ *
+ * @returns {void}
+ *
+ * @throws {ValidationError} When the start day comes after the due day
+ */
+function assertStartBeforeDue(
+  dataInicio: Date | null,
+  due: Pick<TaskEntity, 'dataVencimento' | 'fusoHorario'>
+): void {
+  const dueDay = getTaskDueDay(due);
+
+  if (dataInicio && dueDay && toZonedDateKey(dataInicio, due.fusoHorario) > dueDay) {
+    throw new ValidationError('dataInicioAposVencimento');
+  }
+}
+
+/**
+ * @summary
+ * Orders optional dates ascending, with missing dates last
+ *
+ * @function compareOptionalDates
+ * @module services/task
+ *
+ * @param {Date | null} a - First date
+ * @param {Date | null} b - Second date
+ *
+ * @returns {number} Negative when a comes first, positive when b does, 0 when equal
+ */
+function compareOptionalDates(a: Date | null, b: Date | null): number {
+  if (!a && !b) return 0;
+  if (!a) return 1;
+  if (!b) return -1;
+  return a.getTime() - b.getTime();
+}
+
+/**
+ * @summary
+ * Validates and deduplicates the tags assigned to a task
+ *
+ * @function resolveTags
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string[]} ids - Requested tag identifiers
+ *
+ * @returns {Promise<string[]>} Unique tag identifiers
+ *
+ * @throws {ValidationError} When a tag does not exist or belongs to another user
+ */
+async function resolveTags(idUsuario: string, ids: string[]): Promise<string[]> {
+  const uniqueIds = [...new Set(ids)];
+
+  for (const idTag of uniqueIds) {
+    if (!(await getTagRepository().findById(idUsuario, idTag))) {
+      throw new ValidationError('tagNaoEncontrada');
+    }
+  }
+
+  return uniqueIds;
+}
+
+/**
+ * @summary
+ * Validates and deduplicates the reminders of a task
+ *
+ * @function resolveReminders
+ * @module services/task
+ *
+ * @param {TaskReminder[]} lembretes - Requested reminders
+ * @param {Date | null} dataVencimento - Due date of the task
+ *
+ * @returns {TaskReminder[]} Unique reminders
+ *
+ * @throws {ValidationError} When there are too many reminders, a reminder sets both or neither of
+ * its fields, or a lead-time reminder is set on a task without due date
+ */
+function resolveReminders(
+  lembretes: TaskReminder[],
+  dataVencimento: Date | null
+): TaskReminder[] {
+  const unique = new Map<string, TaskReminder>();
+
+  for (const lembrete of lembretes) {
+    if ((lembrete.antecedencia === null) === (lembrete.dataLembrete === null)) {
+      throw new ValidationError('lembreteInvalido');
+    }
+
+    /**
+     * @rule {be-task-reminders}
+     * Lead-time reminders count back from the due date, so the task needs one
+     */
+    if (lembrete.antecedencia !== null && !dataVencimento) {
+      throw new ValidationError('lembreteSemVencimento');
+    }
+
+    const key =
+      lembrete.antecedencia !== null
+        ? `antecedencia:${lembrete.antecedencia}`
+        : `data:${lembrete.dataLembrete?.getTime()}`;
+    unique.set(key, lembrete);
+  }
+
+  if (unique.size > TASK_LIMITS.lembretes) {
+    throw new ValidationError('lembretesDemais', { max: TASK_LIMITS.lembretes });
+  }
+
+  return [...unique.values()];
+}
+
+/**
+ * @summary
+ * Validates the project a task is created in or moved to
+ *
+ * @function resolveProject
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string | null} idProjeto - Requested project identifier, or null for no project
+ *
+ * @returns {Promise<string | null>} Project identifier, or null for no project
+ *
+ * @throws {ValidationError | ConflictError} When the project does not exist, belongs to another
+ * user or is archived
+ */
+async function resolveProject(
+  idUsuario: string,
+  idProjeto: string | null
+): Promise<string | null> {
+  if (!idProjeto) {
+    return null;
+  }
+
+  const project = await getProjectRepository().findById(idUsuario, idProjeto);
+
+  if (!project) {
+    throw new ValidationError('projetoNaoEncontrado');
+  }
+
+  /**
+   * @rule {be-task-projects}
+   * Archived projects do not receive new tasks
+   */
+  if (project.arquivado) {
+    throw new ConflictError('projetoArquivado');
+  }
+
+  return project.id;
+}
+
+/**
+ * @summary
+ * Records a project move in the task's history and carries its subtasks along
+ *
+ * @function recordProjectMove
+ * @module services/task
+ *
+ * @param {TaskEntity} task - Task already saved in its new project
+ * @param {string | null} idProjetoAnterior - Project the task was moved out of
+ *
+ * @returns {Promise<void>}
+ */
+async function recordProjectMove(
+  task: TaskEntity,
+  idProjetoAnterior: string | null
+): Promise<void> {
+  const projects = await getProjectRepository().findAll(task.idUsuario);
+  const projectName = (idProjeto: string | null) =>
+    projects.find((project) => project.id === idProjeto)?.nome ?? null;
+
+  await recordHistory({
+    idUsuario: task.idUsuario,
+    idTarefa: task.id,
+    tipoAlteracao: 'Edição',
+    campoAlterado: 'projeto',
+    valorAnterior: projectName(idProjetoAnterior),
+    valorNovo: projectName(task.idProjeto),
+    origemAlteracao: 'Manual',
+  });
+
+  const children = await getTaskRepository().findByParent(task.idUsuario, task.id);
+
+  for (const child of children) {
+    child.idProjeto = task.idProjeto;
+    child.dataAtualizacao = new Date();
+
+    await getTaskRepository().update(child);
+
+    await recordHistory({
+      idUsuario: task.idUsuario,
+      idTarefa: child.id,
+      tipoAlteracao: 'Edição',
+      campoAlterado: 'projeto',
+      valorAnterior: projectName(idProjetoAnterior),
+      valorNovo: projectName(task.idProjeto),
+      origemAlteracao: 'Automática',
+    });
+  }
+}
+
+/**
+ * @summary
+ * Enforces the subtask completion policy before a task is completed
+ *
+ * @function applySubtaskCompletionPolicy
+ * @module services/task
+ *
+ * @param {TaskEntity} task - Task about to be completed
+ * @param {SubtaskCompletionPolicy} politica - Handling of open checklist items and subtasks
+ *
+ * @returns {Promise<void>}
+ *
+ * @throws {ConflictError} When the policy is Bloquear and there are open subtasks
+ */
+async function applySubtaskCompletionPolicy(
+  task: TaskEntity,
+  politica: SubtaskCompletionPolicy
+): Promise<void> {
+  const openItems = (await getChecklistRepository().findByTask(task.idUsuario, task.id)).filter(
+    (item) => !item.concluido
+  );
+  const openChildren = (await getTaskRepository().findByParent(task.idUsuario, task.id)).filter(
+    (child) => !isTaskClosed(child.status)
+  );
+
+  if (openItems.length + openChildren.length === 0) {
+    return;
+  }
+
+  /**
+   * @rule {be-task-subtasks}
+   * Bloquear rejects the completion; Avisar lets it through untouched
+   */
+  if (politica === SubtaskCompletionPolicy.Bloquear) {
+    throw new ConflictError('subtarefasPendentes');
+  }
+
+  if (politica !== SubtaskCompletionPolicy.Concluir) {
+    return;
+  }
+
+  /**
+   * @rule {be-task-subtasks}
+   * Concluir checks every open item and completes every open subtask
+   */
+  for (const item of openItems) {
+    const previous = describeChecklistItem(item);
+    item.concluido = true;
+    item.dataAtualizacao = new Date();
+
+    await getChecklistRepository().update(item);
+
+    await recordHistory({
+      idUsuario: task.idUsuario,
+      idTarefa: task.id,
+      tipoAlteracao: 'Edição',
+      campoAlterado: 'checklist',
+      valorAnterior: previous,
+      valorNovo: describeChecklistItem(item),
+      origemAlteracao: 'Automática',
+    });
+  }
+
+  for (const child of openChildren) {
+    assertTransition(child.status, TaskStatus.Concluída, 'Automática');
+
+    const previousStatus = child.status;
+    child.status = TaskStatus.Concluída;
+    child.dataAtualizacao = new Date();
+
+    await getTaskRepository().update(child);
+
+    await recordHistory({
+      idUsuario: task.idUsuario,
+      idTarefa: child.id,
+      tipoAlteracao: 'Alteração de Status',
+      campoAlterado: 'status',
+      valorAnterior: previousStatus,
+      valorNovo: TaskStatus.Concluída,
+      origemAlteracao: 'Automática',
+    });
+
+    await generateNextOccurrence(child);
+  }
 }
 
 /**
@@ -543,6 +1904,7 @@ async function recordHistory(data: {
  * @function taskGetHistory
  * @module services/task
  *
+ * @param {string} idUsuario - Owner user identifier
  * @param {string} idTarefa - Task identifier
  * @param {string} [filterTipo] - Filter by change type
  * @param {string} [filterOrigem] - Filter by change origin
@@ -550,11 +1912,12 @@ async function recordHistory(data: {
  * @returns {Promise<HistoryEntry[]>} Task history entries
  */
 export async function taskGetHistory(
+  idUsuario: string,
   idTarefa: string,
   filterTipo?: string,
   filterOrigem?: string
 ): Promise<HistoryEntry[]> {
-  let entries = history.filter((h) => h.idTarefa === idTarefa);
+  let entries = await getHistoryRepository().findByTask(idUsuario, idTarefa);
 
   if (filterTipo && filterTipo !== 'Todas') {
     entries = entries.filter((h) => h.tipoAlteracao === filterTipo);
@@ -0,0 +1,502 @@
+/**
+ * @summary
+ * Due date and reminder time calculation shared by the task rules and the reminder scheduler.
+ * Due dates are instants tied to an IANA time zone; all-day tasks store the start of their due
+ * day in that zone.
+ *
+ * @module services/task/taskSchedule
+ */
+
+import { config } from '@/config';
+import {
+  getZonedParts,
+  isValidCalendarDate,
+  isValidTime,
+  isValidTimeZone,
+  toZonedDateKey,
+  zonedTimeToUtc,
+} from '@/utils/date';
+import {
+  SnoozePreset,
+  TaskDueDate,
+  TaskDueDateInput,
+  TaskEntity,
+  TaskReminder,
+} from './taskTypes';
+import { ValidationError } from '@/utils/errors';
+import { formatErrorMessage } from '@/utils/i18n';
+import { DEFAULT_LOCALE, Locale } from '@/constants';
+
+const LEGACY_DATE_PATTERN = /^(\d{2})\/(\d{2})\/(\d{4})$/;
+const ISO_DATE_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d{1,3})?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+const TIME_PATTERN = /^(\d{2}):(\d{2})$/;
+const SNOOZE_LATER_TODAY_HOURS = 3;
+const SNOOZE_MORNING_HOUR = 9;
+
+interface ParsedDueDate {
+  year: number;
+  month: number;
+  day: number;
+  time: { hours: number; minutes: number; seconds: number } | null;
+  offset: string | null;
+}
+
+function parseDueDateString(value: string): ParsedDueDate | null {
+  const legacy = LEGACY_DATE_PATTERN.exec(value);
+
+  if (legacy) {
+    const [, day, month, year] = legacy.map(Number);
+    return isValidCalendarDate(year, month, day)
+      ? { year, month, day, time: null, offset: null }
+      : null;
+  }
+
+  const iso = ISO_DATE_PATTERN.exec(value);
+
+  if (!iso) {
+    return null;
+  }
+
+  const [year, month, day] = iso.slice(1, 4).map(Number);
+
+  if (!isValidCalendarDate(year, month, day)) {
+    return null;
+  }
+
+  if (iso[4] === undefined) {
+    return { year, month, day, time: null, offset: null };
+  }
+
+  const hours = Number(iso[4]);
+  const minutes = Number(iso[5]);
+  const seconds = iso[6] !== undefined ? Number(iso[6]) : 0;
+
+  if (!isValidTime(hours, minutes) || seconds > 59) {
+    return null;
+  }
+
+  if (iso[7] && iso[7] !== 'Z') {
+    const [offsetHours, offsetMinutes] = iso[7].slice(1).split(':').map(Number);
+    if (!isValidTime(offsetHours, offsetMinutes)) return null;
+  }
+
+  return { year, month, day, time: { hours, minutes, seconds }, offset: iso[7] ?? null };
+}
+
+/**
+ * @summary
+ * Checks whether a string is an accepted due date: ISO 8601 (date, local date-time or date-time
+ * with offset) or the legacy DD/MM/YYYY format, on a day that exists in the calendar
+ *
+ * @function isValidDueDate
+ * @module services/task
+ *
+ * @param {string} value - Due date string
+ *
+ * @returns {boolean} True when the due date can be parsed
+ */
+export function isValidDueDate(value: string): boolean {
+  return parseDueDateString(value) !== null;
+}
+
+/**
+ * @summary
+ * Checks whether a string is a legacy due time in HH:MM format
+ *
+ * @function isValidDueTime
+ * @module services/task
+ *
+ * @param {string} value - Due time string
+ *
+ * @returns {boolean} True for 00:00 through 23:59
+ */
+export function isValidDueTime(value: string): boolean {
+  const match = TIME_PATTERN.exec(value);
+  return !!match && isValidTime(Number(match[1]), Number(match[2]));
+}
+
+/**
+ * @summary
+ * Checks whether a string is an accepted calendar day: ISO 8601 date or legacy DD/MM/YYYY
+ *
+ * @function isValidTaskDay
+ * @module services/task
+ *
+ * @param {string} value - Day string
+ *
+ * @returns {boolean} True when the day exists in the calendar and carries no time
+ */
+export function isValidTaskDay(value: string): boolean {
+  const parsed = parseDueDateString(value);
+  return !!parsed && !parsed.time;
+}
+
+/**
+ * @summary
+ * Resolves a planning day of a task, such as its start or scheduled date, to the start of that day
+ * in the task's time zone
+ *
+ * @function resolveTaskDay
+ * @module services/task
+ *
+ * @param {string | null | undefined} value - ISO 8601 date or legacy DD/MM/YYYY
+ * @param {string} fusoHorario - IANA time zone of the task
+ *
+ * @returns {Date | null | undefined} Start of the day, null when cleared, undefined when omitted
+ *
+ * @throws {ValidationError} When the value is not a calendar day
+ */
+export function resolveTaskDay(
+  value: string | null | undefined,
+  fusoHorario: string
+): Date | null | undefined {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  const parsed = parseDueDateString(value);
+
+  if (!parsed || parsed.time) {
+    throw new ValidationError('dataInvalida');
+  }
+
+  return zonedTimeToUtc({ ...parsed, hours: 0, minutes: 0, seconds: 0 }, fusoHorario);
+}
+
+/**
+ * @summary
+ * Moves a planning day of a task by a number of calendar days in the task's time zone
+ *
+ * @function shiftTaskDay
+ * @module services/task
+ *
+ * @param {Date} date - Start of the day
+ * @param {number} days - Number of days to move, negative to move back
+ * @param {string} fusoHorario - IANA time zone of the task
+ *
+ * @returns {Date} Start of the resulting day
+ */
+export function shiftTaskDay(date: Date, days: number, fusoHorario: string): Date {
+  const { year, month, day } = getZonedParts(date, fusoHorario);
+  return zonedTimeToUtc(
+    { year, month, day: day + days, hours: 0, minutes: 0, seconds: 0 },
+    fusoHorario
+  );
+}
+
+/**
+ * @summary
+ * Checks whether a calendar day falls in a list period relative to today in a time zone
+ *
+ * @function isDayInPeriod
+ * @module services/task
+ *
+ * @param {string} day - Day in YYYY-MM-DD format
+ * @param {string} period - 'Hoje', 'Esta semana' (today and the next 7 days) or 'Este mês'
+ * @param {string} timeZone - IANA time zone today is taken in
+ * @param {Date} now - Current moment
+ *
+ * @returns {boolean} True when the day falls in the period
+ */
+export function isDayInPeriod(day: string, period: string, timeZone: string, now: Date): boolean {
+  const today = toZonedDateKey(now, timeZone);
+
+  switch (period) {
+    case 'Hoje':
+      return day === today;
+
+    case 'Esta semana':
+      const weekEnd = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+      return day >= today && day <= toZonedDateKey(weekEnd, timeZone);
+
+    case 'Este mês':
+      return day.slice(0, 7) === today.slice(0, 7);
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * @summary
+ * Resolves the moment a snoozed task comes back, in the task's time zone
+ *
+ * @function resolveSnoozeTime
+ * @module services/task
+ *
+ * @param {SnoozePreset} preset - 'Mais tarde hoje' (in three hours), 'Amanhã de manhã' (9:00
+ * tomorrow), 'Próxima semana' (9:00 next Monday) or 'Personalizado'
+ * @param {Date | null} custom - Chosen moment, used by 'Personalizado'
+ * @param {string} fusoHorario - IANA time zone of the task
+ * @param {Date} now - Current moment
+ *
+ * @returns {Date} Moment the snooze expires
+ *
+ * @throws {ValidationError} When a custom moment is missing or not in the future
+ */
+export function resolveSnoozeTime(
+  preset: SnoozePreset,
+  custom: Date | null,
+  fusoHorario: string,
+  now: Date
+): Date {
+  const today = getZonedParts(now, fusoHorario);
+  const morning = (days: number) =>
+    zonedTimeToUtc(
+      { ...today, day: today.day + days, hours: SNOOZE_MORNING_HOUR, minutes: 0, seconds: 0 },
+      fusoHorario
+    );
+
+  switch (preset) {
+    case SnoozePreset.MaisTardeHoje:
+      return new Date(now.getTime() + SNOOZE_LATER_TODAY_HOURS * 60 * 60 * 1000);
+
+    case SnoozePreset.AmanhaDeManha:
+      return morning(1);
+
+    case SnoozePreset.ProximaSemana:
+      const weekday = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay();
+      return morning((8 - weekday) % 7 || 7);
+
+    default:
+      if (!custom) {
+        throw new ValidationError('sonecaObrigatoria');
+      }
+
+      if (custom <= now) {
+        throw new ValidationError('sonecaPassada');
+      }
+
+      return custom;
+  }
+}
+
+/**
+ * @summary
+ * Resolves the due instant, time zone and all-day flag of a task from request input
+ *
+ * @function resolveDueDate
+ * @module services/task
+ *
+ * @param {TaskDueDateInput} input - Due date, legacy due time, time zone and all-day flag
+ *
+ * @returns {TaskDueDate} Due instant (null without due date), time zone and all-day flag
+ *
+ * @throws {ValidationError} When the date, time or time zone is invalid, a legacy due time is
+ * combined with a date-time, or a task that is not all-day has no time
+ */
+export function resolveDueDate(input: TaskDueDateInput): TaskDueDate {
+  const fusoHorario = input.fusoHorario || config.tasks.defaultTimeZone;
+
+  if (!isValidTimeZone(fusoHorario)) {
+    throw new ValidationError('fusoHorarioInvalido');
+  }
+
+  if (!input.dataVencimento) {
+    if (input.horaVencimento) {
+      throw new ValidationError('horaVencimentoInvalida');
+    }
+
+    return { dataVencimento: null, fusoHorario, diaInteiro: false };
+  }
+
+  const parsed = parseDueDateString(input.dataVencimento);
+
+  if (!parsed) {
+    throw new ValidationError('dataVencimentoInvalida');
+  }
+
+  let time = parsed.time;
+
+  /**
+   * @rule {be-task-due-date}
+   * The legacy HH:MM due time is only accepted next to a date without time
+   */
+  if (input.horaVencimento) {
+    if (time || !isValidDueTime(input.horaVencimento)) {
+      throw new ValidationError('horaVencimentoInvalida');
+    }
+
+    const [hours, minutes] = input.horaVencimento.split(':').map(Number);
+    time = { hours, minutes, seconds: 0 };
+  }
+
+  const diaInteiro = input.diaInteiro ?? !time;
+
+  if (!diaInteiro && !time) {
+    throw new ValidationError('horaVencimentoObrigatoria');
+  }
+
+  /**
+   * @rule {be-task-due-date}
+   * An explicit offset pins the instant; otherwise the wall-clock time is read in the time zone
+   */
+  const instant =
+    parsed.offset && time
+      ? new Date(input.dataVencimento)
+      : zonedTimeToUtc(
+          {
+            year: parsed.year,
+            month: parsed.month,
+            day: parsed.day,
+            hours: time?.hours ?? 0,
+            minutes: time?.minutes ?? 0,
+            seconds: time?.seconds ?? 0,
+          },
+          fusoHorario
+        );
+
+  if (!diaInteiro) {
+    return { dataVencimento: instant, fusoHorario, diaInteiro };
+  }
+
+  /**
+   * @rule {be-task-due-date}
+   * All-day tasks are stored at the start of their due day in the time zone
+   */
+  const { year, month, day } = parsed.offset ? getZonedParts(instant, fusoHorario) : parsed;
+
+  return {
+    dataVencimento: zonedTimeToUtc(
+      { year, month, day, hours: 0, minutes: 0, seconds: 0 },
+      fusoHorario
+    ),
+    fusoHorario,
+    diaInteiro,
+  };
+}
+
+/**
+ * @summary
+ * Resolves the moment a task is due
+ *
+ * @function getTaskDueDate
+ * @module services/task
+ *
+ * @param {TaskEntity} task - Task with its due date, time zone and all-day flag
+ *
+ * @returns {Date | null} Due moment, the end of the due day in the task's time zone for all-day
+ * tasks, or null when the task has no due date
+ */
+export function getTaskDueDate(
+  task: Pick<TaskEntity, 'dataVencimento' | 'fusoHorario' | 'diaInteiro'>
+): Date | null {
+  if (!task.dataVencimento) {
+    return null;
+  }
+
+  if (!task.diaInteiro) {
+    return task.dataVencimento;
+  }
+
+  const { year, month, day } = getZonedParts(task.dataVencimento, task.fusoHorario);
+  const nextDay = zonedTimeToUtc(
+    { year, month, day: day + 1, hours: 0, minutes: 0, seconds: 0 },
+    task.fusoHorario
+  );
+
+  return new Date(nextDay.getTime() - 1000);
+}
+
+/**
+ * @summary
+ * Resolves the calendar day a task is due on, in the task's time zone
+ *
+ * @function getTaskDueDay
+ * @module services/task
+ *
+ * @param {TaskEntity} task - Task with its due date and time zone
+ *
+ * @returns {string | null} Due day in YYYY-MM-DD format, or null when the task has no due date
+ */
+export function getTaskDueDay(
+  task: Pick<TaskEntity, 'dataVencimento' | 'fusoHorario'>
+): string | null {
+  return task.dataVencimento ? toZonedDateKey(task.dataVencimento, task.fusoHorario) : null;
+}
+
+/**
+ * @summary
+ * Checks whether a due date falls on a day before today in its time zone
+ *
+ * @function isDueDayInPast
+ * @module services/task
+ *
+ * @param {TaskDueDate} due - Resolved due date
+ *
+ * @returns {boolean} True when the due day has already ended
+ */
+export function isDueDayInPast(due: Pick<TaskDueDate, 'dataVencimento' | 'fusoHorario'>): boolean {
+  const dueDay = getTaskDueDay(due);
+  return !!dueDay && dueDay < toZonedDateKey(new Date(), due.fusoHorario);
+}
+
+/**
+ * @summary
+ * Formats the due date of a task for people, in the task's time zone
+ *
+ * @function formatTaskDueDate
+ * @module services/task
+ *
+ * @param {TaskEntity} task - Task with its due date, time zone and all-day flag
+ * @param {Locale} [locale] - Language of the reader
+ *
+ * @returns {string | null} Date in the format of the locale (DD/MM/YYYY in pt-BR), followed by the
+ * time for tasks that are not all-day, or null when the task has no due date
+ */
+export function formatTaskDueDate(
+  task: Pick<TaskEntity, 'dataVencimento' | 'fusoHorario' | 'diaInteiro'>,
+  locale: Locale = DEFAULT_LOCALE
+): string | null {
+  if (!task.dataVencimento) {
+    return null;
+  }
+
+  const { year, month, day, hours, minutes } = getZonedParts(
+    task.dataVencimento,
+    task.fusoHorario
+  );
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const date = formatErrorMessage('formatoData', locale, {
+    dia: pad(day),
+    mes: pad(month),
+    ano: year,
+  });
+
+  if (task.diaInteiro) {
+    return date;
+  }
+
+  return formatErrorMessage('formatoDataHora', locale, {
+    data: date,
+    hora: `${pad(hours)}:${pad(minutes)}`,
+  });
+}
+
+/**
+ * @summary
+ * Resolves the moment a reminder of a task fires
+ *
+ * @function getReminderTime
+ * @module services/task
+ *
+ * @param {TaskEntity} task - Task the reminder belongs to
+ * @param {TaskReminder} lembrete - Reminder
+ *
+ * @returns {Date | null} Firing moment, or null when a lead-time reminder has no due date to
+ * count from
+ */
+export function getReminderTime(task: TaskEntity, lembrete: TaskReminder): Date | null {
+  if (lembrete.dataLembrete) {
+    return lembrete.dataLembrete;
+  }
+
+  const dueDate = getTaskDueDate(task);
+
+  if (!dueDate || lembrete.antecedencia === null) {
+    return null;
+  }
+
+  return new Date(dueDate.getTime() - lembrete.antecedencia * 60000);
+}
@@ -0,0 +1,627 @@
+/**
+ * @summary
+ * SQLite-backed task, history, checklist, dependency and time entry repositories.
+ * Persists tasks, their change history, their checklist items, the blocked-by links between
+ * them and the time spent on them in the embedded database.
+ * The tables are created by the schema migrations in `src/migrations`.
+ *
+ * @module services/task/taskSqliteRepository
+ */
+
+import Database from 'better-sqlite3';
+import {
+  TaskEntity,
+  HistoryEntry,
+  ChecklistItemEntity,
+  DependencyEntity,
+  TimeEntryEntity,
+  TaskRepository,
+  HistoryRepository,
+  ChecklistRepository,
+  DependencyRepository,
+  TimeEntryRepository,
+  TaskReminder,
+  TaskImportance,
+  TaskStatus,
+} from './taskTypes';
+
+/**
+ * @interface TaskRow
+ * @description Task row as stored in the `task` table
+ */
+interface TaskRow {
+  id: string;
+  idUsuario: string;
+  titulo: string;
+  descricao: string | null;
+  dataVencimento: string | null;
+  fusoHorario: string;
+  diaInteiro: number;
+  dataInicio: string | null;
+  dataAgendada: string | null;
+  sonecaAte: string | null;
+  adiamentos: number;
+  dataExclusao: string | null;
+  importancia: string;
+  status: string;
+  recorrencia: string | null;
+  idSerie: string | null;
+  ocorrencia: number | null;
+  idProximaOcorrencia: string | null;
+  idTarefaPai: string | null;
+  idProjeto: string | null;
+  duracaoEstimada: number | null;
+  dataCriacao: string;
+  dataAtualizacao: string;
+}
+
+/**
+ * @interface ReminderRow
+ * @description Task reminder row as stored in the `task_reminder` table
+ */
+interface ReminderRow {
+  idTarefa: string;
+  antecedencia: number | null;
+  dataLembrete: string | null;
+}
+
+/**
+ * @interface HistoryRow
+ * @description History row as stored in the `task_history` table
+ */
+interface HistoryRow {
+  id: string;
+  idUsuario: string;
+  idTarefa: string;
+  dataAlteracao: string;
+  tipoAlteracao: string;
+  campoAlterado: string | null;
+  valorAnterior: string | null;
+  valorNovo: string | null;
+  origemAlteracao: string;
+}
+
+/**
+ * @interface ChecklistItemRow
+ * @description Checklist item row as stored in the `task_checklist_item` table
+ */
+interface ChecklistItemRow {
+  id: string;
+  idUsuario: string;
+  idTarefa: string;
+  texto: string;
+  concluido: number;
+  ordem: number;
+  dataCriacao: string;
+  dataAtualizacao: string;
+}
+
+/**
+ * @interface DependencyRow
+ * @description Blocked-by link row as stored in the `task_dependency` table
+ */
+interface DependencyRow {
+  idUsuario: string;
+  idTarefa: string;
+  idTarefaBloqueadora: string;
+  dataCriacao: string;
+}
+
+/**
+ * @interface TimeEntryRow
+ * @description Time entry row as stored in the `task_time_entry` table
+ */
+interface TimeEntryRow {
+  id: string;
+  idUsuario: string;
+  idTarefa: string;
+  inicio: string;
+  fim: string | null;
+  nota: string | null;
+  dataCriacao: string;
+  dataAtualizacao: string;
+}
+
+function toTaskEntity(row: TaskRow, tags: string[], lembretes: TaskReminder[]): TaskEntity {
+  return {
+    ...row,
+    tags,
+    lembretes,
+    importancia: row.importancia as TaskImportance,
+    status: row.status as TaskStatus,
+    dataVencimento: row.dataVencimento ? new Date(row.dataVencimento) : null,
+    diaInteiro: row.diaInteiro === 1,
+    dataInicio: row.dataInicio ? new Date(row.dataInicio) : null,
+    dataAgendada: row.dataAgendada ? new Date(row.dataAgendada) : null,
+    sonecaAte: row.sonecaAte ? new Date(row.sonecaAte) : null,
+    adiamentos: row.adiamentos,
+    dataExclusao: row.dataExclusao ? new Date(row.dataExclusao) : null,
+    dataCriacao: new Date(row.dataCriacao),
+    dataAtualizacao: new Date(row.dataAtualizacao),
+  };
+}
+
+function toTaskRow(task: TaskEntity): TaskRow {
+  return {
+    id: task.id,
+    idUsuario: task.idUsuario,
+    titulo: task.titulo,
+    descricao: task.descricao,
+    dataVencimento: task.dataVencimento?.toISOString() ?? null,
+    fusoHorario: task.fusoHorario,
+    diaInteiro: task.diaInteiro ? 1 : 0,
+    dataInicio: task.dataInicio?.toISOString() ?? null,
+    dataAgendada: task.dataAgendada?.toISOString() ?? null,
+    sonecaAte: task.sonecaAte?.toISOString() ?? null,
+    adiamentos: task.adiamentos,
+    dataExclusao: task.dataExclusao?.toISOString() ?? null,
+    importancia: task.importancia,
+    status: task.status,
+    recorrencia: task.recorrencia,
+    idSerie: task.idSerie,
+    ocorrencia: task.ocorrencia,
+    idProximaOcorrencia: task.idProximaOcorrencia,
+    idTarefaPai: task.idTarefaPai,
+    idProjeto: task.idProjeto,
+    duracaoEstimada: task.duracaoEstimada,
+    dataCriacao: task.dataCriacao.toISOString(),
+    dataAtualizacao: task.dataAtualizacao.toISOString(),
+  };
+}
+
+function toTaskReminder(row: ReminderRow): TaskReminder {
+  return {
+    antecedencia: row.antecedencia,
+    dataLembrete: row.dataLembrete ? new Date(row.dataLembrete) : null,
+  };
+}
+
+function toHistoryEntry(row: HistoryRow): HistoryEntry {
+  return {
+    ...row,
+    dataAlteracao: new Date(row.dataAlteracao),
+  };
+}
+
+function toChecklistItemEntity(row: ChecklistItemRow): ChecklistItemEntity {
+  return {
+    ...row,
+    concluido: row.concluido === 1,
+    dataCriacao: new Date(row.dataCriacao),
+    dataAtualizacao: new Date(row.dataAtualizacao),
+  };
+}
+
+function toChecklistItemRow(item: ChecklistItemEntity): ChecklistItemRow {
+  return {
+    ...item,
+    concluido: item.concluido ? 1 : 0,
+    dataCriacao: item.dataCriacao.toISOString(),
+    dataAtualizacao: item.dataAtualizacao.toISOString(),
+  };
+}
+
+function toTimeEntryEntity(row: TimeEntryRow): TimeEntryEntity {
+  return {
+    ...row,
+    inicio: new Date(row.inicio),
+    fim: row.fim ? new Date(row.fim) : null,
+    dataCriacao: new Date(row.dataCriacao),
+    dataAtualizacao: new Date(row.dataAtualizacao),
+  };
+}
+
+function toTimeEntryRow(entry: TimeEntryEntity): TimeEntryRow {
+  return {
+    ...entry,
+    inicio: entry.inicio.toISOString(),
+    fim: entry.fim ? entry.fim.toISOString() : null,
+    dataCriacao: entry.dataCriacao.toISOString(),
+    dataAtualizacao: entry.dataAtualizacao.toISOString(),
+  };
+}
+
+/**
+ * @summary
+ * Creates a task repository backed by the `task` table
+ *
+ * @function createSqliteTaskRepository
+ * @module services/task
+ *
+ * @param {Database.Database} db - Open database connection
+ *
+ * @returns {TaskRepository} SQLite task repository
+ */
+export function createSqliteTaskRepository(db: Database.Database): TaskRepository {
+  const selectTagsByUser = db.prepare('SELECT idTarefa, idTag FROM task_tag WHERE idUsuario = ?');
+  const selectTagsByTask = db.prepare('SELECT idTag FROM task_tag WHERE idTarefa = ?');
+  const insertTaskTag = db.prepare(
+    'INSERT INTO task_tag (idUsuario, idTarefa, idTag) VALUES (@idUsuario, @idTarefa, @idTag)'
+  );
+  const deleteTaskTags = db.prepare('DELETE FROM task_tag WHERE idUsuario = ? AND idTarefa = ?');
+  const selectRemindersByUser = db.prepare(
+    'SELECT * FROM task_reminder WHERE idUsuario = ? ORDER BY idTarefa, ordem'
+  );
+  const selectRemindersByTask = db.prepare(
+    'SELECT * FROM task_reminder WHERE idTarefa = ? ORDER BY ordem'
+  );
+  const insertTaskReminder = db.prepare(`
+    INSERT INTO task_reminder (idUsuario, idTarefa, ordem, antecedencia, dataLembrete)
+    VALUES (@idUsuario, @idTarefa, @ordem, @antecedencia, @dataLembrete)
+  `);
+  const deleteTaskReminders = db.prepare(
+    'DELETE FROM task_reminder WHERE idUsuario = ? AND idTarefa = ?'
+  );
+  const selectAll = db.prepare('SELECT * FROM task WHERE idUsuario = ? AND dataExclusao IS NULL');
+  const selectById = db.prepare(
+    'SELECT * FROM task WHERE idUsuario = ? AND id = ? AND dataExclusao IS NULL'
+  );
+  const selectByParent = db.prepare(`
+    SELECT * FROM task
+    WHERE idUsuario = ? AND idTarefaPai = ? AND dataExclusao IS NULL
+    ORDER BY dataCriacao
+  `);
+  const selectWithReminders = db.prepare(`
+    SELECT * FROM task
+    WHERE dataExclusao IS NULL AND id IN (SELECT idTarefa FROM task_reminder)
+  `);
+  const selectDeleted = db.prepare(
+    'SELECT * FROM task WHERE idUsuario = ? AND dataExclusao IS NOT NULL ORDER BY dataExclusao DESC'
+  );
+  const selectDeletedById = db.prepare(
+    'SELECT * FROM task WHERE idUsuario = ? AND id = ? AND dataExclusao IS NOT NULL'
+  );
+  const selectDeletedBefore = db.prepare('SELECT * FROM task WHERE dataExclusao < ?');
+  const insertTask = db.prepare(`
+    INSERT INTO task (
+      id, idUsuario, titulo, descricao, dataVencimento, fusoHorario, diaInteiro, dataInicio,
+      dataAgendada, sonecaAte, adiamentos, dataExclusao, importancia, status, recorrencia,
+      idSerie, ocorrencia, idProximaOcorrencia, idTarefaPai, idProjeto, duracaoEstimada,
+      dataCriacao, dataAtualizacao
+    )
+    VALUES (
+      @id, @idUsuario, @titulo, @descricao, @dataVencimento, @fusoHorario, @diaInteiro,
+      @dataInicio, @dataAgendada, @sonecaAte, @adiamentos, @dataExclusao, @importancia, @status,
+      @recorrencia, @idSerie, @ocorrencia, @idProximaOcorrencia, @idTarefaPai, @idProjeto,
+      @duracaoEstimada, @dataCriacao, @dataAtualizacao
+    )
+  `);
+  const updateTask = db.prepare(`
+    UPDATE task SET
+      titulo = @titulo,
+      descricao = @descricao,
+      dataVencimento = @dataVencimento,
+      fusoHorario = @fusoHorario,
+      diaInteiro = @diaInteiro,
+      dataInicio = @dataInicio,
+      dataAgendada = @dataAgendada,
+      sonecaAte = @sonecaAte,
+      adiamentos = @adiamentos,
+      dataExclusao = @dataExclusao,
+      importancia = @importancia,
+      status = @status,
+      recorrencia = @recorrencia,
+      idSerie = @idSerie,
+      ocorrencia = @ocorrencia,
+      idProximaOcorrencia = @idProximaOcorrencia,
+      idTarefaPai = @idTarefaPai,
+      idProjeto = @idProjeto,
+      duracaoEstimada = @duracaoEstimada,
+      dataCriacao = @dataCriacao,
+      dataAtualizacao = @dataAtualizacao
+    WHERE id = @id AND idUsuario = @idUsuario
+  `);
+  const deleteTask = db.prepare('DELETE FROM task WHERE idUsuario = ? AND id = ?');
+
+  const findTags = (idTarefa: string): string[] =>
+    (selectTagsByTask.all(idTarefa) as Array<{ idTag: string }>).map((row) => row.idTag);
+
+  const findReminders = (idTarefa: string): TaskReminder[] =>
+    (selectRemindersByTask.all(idTarefa) as ReminderRow[]).map(toTaskReminder);
+
+  const toEntity = (row: TaskRow): TaskEntity =>
+    toTaskEntity(row, findTags(row.id), findReminders(row.id));
+
+  const replaceTags = db.transaction((task: TaskEntity) => {
+    deleteTaskTags.run(task.idUsuario, task.id);
+    for (const idTag of task.tags) {
+      insertTaskTag.run({ idUsuario: task.idUsuario, idTarefa: task.id, idTag });
+    }
+  });
+
+  const replaceReminders = db.transaction((task: TaskEntity) => {
+    deleteTaskReminders.run(task.idUsuario, task.id);
+    task.lembretes.forEach((lembrete, ordem) => {
+      insertTaskReminder.run({
+        idUsuario: task.idUsuario,
+        idTarefa: task.id,
+        ordem,
+        antecedencia: lembrete.antecedencia,
+        dataLembrete: lembrete.dataLembrete ? lembrete.dataLembrete.toISOString() : null,
+      });
+    });
+  });
+
+  return {
+    async findAll(idUsuario) {
+      const tagsByTask = new Map<string, string[]>();
+      for (const row of selectTagsByUser.all(idUsuario) as Array<{ idTarefa: string; idTag: string }>) {
+        tagsByTask.set(row.idTarefa, [...(tagsByTask.get(row.idTarefa) ?? []), row.idTag]);
+      }
+
+      const remindersByTask = new Map<string, TaskReminder[]>();
+      for (const row of selectRemindersByUser.all(idUsuario) as ReminderRow[]) {
+        remindersByTask.set(row.idTarefa, [
+          ...(remindersByTask.get(row.idTarefa) ?? []),
+          toTaskReminder(row),
+        ]);
+      }
+
+      return (selectAll.all(idUsuario) as TaskRow[]).map((row) =>
+        toTaskEntity(row, tagsByTask.get(row.id) ?? [], remindersByTask.get(row.id) ?? [])
+      );
+    },
+
+    async findById(idUsuario, id) {
+      const row = selectById.get(idUsuario, id) as TaskRow | undefined;
+      return row ? toEntity(row) : null;
+    },
+
+    async findByParent(idUsuario, idTarefaPai) {
+      return (selectByParent.all(idUsuario, idTarefaPai) as TaskRow[]).map(toEntity);
+    },
+
+    async findWithReminders() {
+      return (selectWithReminders.all() as TaskRow[]).map(toEntity);
+    },
+
+    async findDeleted(idUsuario) {
+      return (selectDeleted.all(idUsuario) as TaskRow[]).map(toEntity);
+    },
+
+    async findDeletedById(idUsuario, id) {
+      const row = selectDeletedById.get(idUsuario, id) as TaskRow | undefined;
+      return row ? toEntity(row) : null;
+    },
+
+    async findDeletedBefore(limite) {
+      return (selectDeletedBefore.all(limite.toISOString()) as TaskRow[]).map(toEntity);
+    },
+
+    async insert(task) {
+      insertTask.run(toTaskRow(task));
+      replaceTags(task);
+      replaceReminders(task);
+    },
+
+    async update(task) {
+      updateTask.run(toTaskRow(task));
+      replaceTags(task);
+      replaceReminders(task);
+    },
+
+    async remove(idUsuario, id) {
+      deleteTaskTags.run(idUsuario, id);
+      deleteTaskReminders.run(idUsuario, id);
+      return deleteTask.run(idUsuario, id).changes > 0;
+    },
+  };
+}
+
+/**
+ * @summary
+ * Creates a history repository backed by the `task_history` table
+ *
+ * @function createSqliteHistoryRepository
+ * @module services/task
+ *
+ * @param {Database.Database} db - Open database connection
+ *
+ * @returns {HistoryRepository} SQLite history repository
+ */
+export function createSqliteHistoryRepository(db: Database.Database): HistoryRepository {
+  const insertEntry = db.prepare(`
+    INSERT INTO task_history (id, idUsuario, idTarefa, dataAlteracao, tipoAlteracao, campoAlterado, valorAnterior, valorNovo, origemAlteracao)
+    VALUES (@id, @idUsuario, @idTarefa, @dataAlteracao, @tipoAlteracao, @campoAlterado, @valorAnterior, @valorNovo, @origemAlteracao)
+  `);
+  const selectByTask = db.prepare(
+    'SELECT * FROM task_history WHERE idUsuario = ? AND idTarefa = ?'
+  );
+
+  return {
+    async insert(entry) {
+      insertEntry.run({ ...entry, dataAlteracao: entry.dataAlteracao.toISOString() });
+    },
+
+    async findByTask(idUsuario, idTarefa) {
+      return (selectByTask.all(idUsuario, idTarefa) as HistoryRow[]).map(toHistoryEntry);
+    },
+  };
+}
+
+/**
+ * @summary
+ * Creates a checklist repository backed by the `task_checklist_item` table
+ *
+ * @function createSqliteChecklistRepository
+ * @module services/task
+ *
+ * @param {Database.Database} db - Open database connection
+ *
+ * @returns {ChecklistRepository} SQLite checklist repository
+ */
+export function createSqliteChecklistRepository(db: Database.Database): ChecklistRepository {
+  const selectAll = db.prepare('SELECT * FROM task_checklist_item WHERE idUsuario = ?');
+  const selectByTask = db.prepare(
+    'SELECT * FROM task_checklist_item WHERE idUsuario = ? AND idTarefa = ? ORDER BY ordem'
+  );
+  const selectById = db.prepare('SELECT * FROM task_checklist_item WHERE idUsuario = ? AND id = ?');
+  const insertItem = db.prepare(`
+    INSERT INTO task_checklist_item (id, idUsuario, idTarefa, texto, concluido, ordem, dataCriacao, dataAtualizacao)
+    VALUES (@id, @idUsuario, @idTarefa, @texto, @concluido, @ordem, @dataCriacao, @dataAtualizacao)
+  `);
+  const updateItem = db.prepare(`
+    UPDATE task_checklist_item SET
+      texto = @texto,
+      concluido = @concluido,
+      ordem = @ordem,
+      dataAtualizacao = @dataAtualizacao
+    WHERE id = @id AND idUsuario = @idUsuario
+  `);
+  const deleteItem = db.prepare('DELETE FROM task_checklist_item WHERE idUsuario = ? AND id = ?');
+  const deleteByTask = db.prepare(
+    'DELETE FROM task_checklist_item WHERE idUsuario = ? AND idTarefa = ?'
+  );
+
+  return {
+    async findAll(idUsuario) {
+      return (selectAll.all(idUsuario) as ChecklistItemRow[]).map(toChecklistItemEntity);
+    },
+
+    async findByTask(idUsuario, idTarefa) {
+      return (selectByTask.all(idUsuario, idTarefa) as ChecklistItemRow[]).map(
+        toChecklistItemEntity
+      );
+    },
+
+    async findById(idUsuario, id) {
+      const row = selectById.get(idUsuario, id) as ChecklistItemRow | undefined;
+      return row ? toChecklistItemEntity(row) : null;
+    },
+
+    async insert(item) {
+      insertItem.run(toChecklistItemRow(item));
+    },
+
+    async update(item) {
+      updateItem.run(toChecklistItemRow(item));
+    },
+
+    async remove(idUsuario, id) {
+      return deleteItem.run(idUsuario, id).changes > 0;
+    },
+
+    async removeByTask(idUsuario, idTarefa) {
+      deleteByTask.run(idUsuario, idTarefa);
+    },
+  };
+}
+
+/**
+ * @summary
+ * Creates a dependency repository backed by the `task_dependency` table
+ *
+ * @function createSqliteDependencyRepository
+ * @module services/task
+ *
+ * @param {Database.Database} db - Open database connection
+ *
+ * @returns {DependencyRepository} SQLite dependency repository
+ */
+export function createSqliteDependencyRepository(db: Database.Database): DependencyRepository {
+  const selectAll = db.prepare('SELECT * FROM task_dependency WHERE idUsuario = ?');
+  const insertDependency = db.prepare(`
+    INSERT INTO task_dependency (idUsuario, idTarefa, idTarefaBloqueadora, dataCriacao)
+    VALUES (@idUsuario, @idTarefa, @idTarefaBloqueadora, @dataCriacao)
+  `);
+  const deleteDependency = db.prepare(
+    'DELETE FROM task_dependency WHERE idUsuario = ? AND idTarefa = ? AND idTarefaBloqueadora = ?'
+  );
+  const deleteByTask = db.prepare(
+    'DELETE FROM task_dependency WHERE idUsuario = ? AND (idTarefa = ? OR idTarefaBloqueadora = ?)'
+  );
+
+  return {
+    async findAll(idUsuario) {
+      return (selectAll.all(idUsuario) as DependencyRow[]).map(
+        (row): DependencyEntity => ({ ...row, dataCriacao: new Date(row.dataCriacao) })
+      );
+    },
+
+    async insert(dependency) {
+      insertDependency.run({ ...dependency, dataCriacao: dependency.dataCriacao.toISOString() });
+    },
+
+    async remove(idUsuario, idTarefa, idTarefaBloqueadora) {
+      return deleteDependency.run(idUsuario, idTarefa, idTarefaBloqueadora).changes > 0;
+    },
+
+    async removeByTask(idUsuario, idTarefa) {
+      deleteByTask.run(idUsuario, idTarefa, idTarefa);
+    },
+  };
+}
+
+/**
+ * @summary
+ * Creates a time entry repository backed by the `task_time_entry` table
+ *
+ * @function createSqliteTimeEntryRepository
+ * @module services/task
+ *
+ * @param {Database.Database} db - Open database connection
+ *
+ * @returns {TimeEntryRepository} SQLite time entry repository
+ */
+export function createSqliteTimeEntryRepository(db: Database.Database): TimeEntryRepository {
+  const selectAll = db.prepare('SELECT * FROM task_time_entry WHERE idUsuario = ?');
+  const selectByTask = db.prepare(
+    'SELECT * FROM task_time_entry WHERE idUsuario = ? AND idTarefa = ? ORDER BY inicio'
+  );
+  const selectById = db.prepare('SELECT * FROM task_time_entry WHERE idUsuario = ? AND id = ?');
+  const selectRunning = db.prepare(
+    'SELECT * FROM task_time_entry WHERE idUsuario = ? AND fim IS NULL'
+  );
+  const insertEntry = db.prepare(`
+    INSERT INTO task_time_entry (id, idUsuario, idTarefa, inicio, fim, nota, dataCriacao, dataAtualizacao)
+    VALUES (@id, @idUsuario, @idTarefa, @inicio, @fim, @nota, @dataCriacao, @dataAtualizacao)
+  `);
+  const updateEntry = db.prepare(`
+    UPDATE task_time_entry SET
+      inicio = @inicio,
+      fim = @fim,
+      nota = @nota,
+      dataAtualizacao = @dataAtualizacao
+    WHERE id = @id AND idUsuario = @idUsuario
+  `);
+  const deleteEntry = db.prepare('DELETE FROM task_time_entry WHERE idUsuario = ? AND id = ?');
+  const deleteByTask = db.prepare(
+    'DELETE FROM task_time_entry WHERE idUsuario = ? AND idTarefa = ?'
+  );
+
+  return {
+    async findAll(idUsuario) {
+      return (selectAll.all(idUsuario) as TimeEntryRow[]).map(toTimeEntryEntity);
+    },
+
+    async findByTask(idUsuario, idTarefa) {
+      return (selectByTask.all(idUsuario, idTarefa) as TimeEntryRow[]).map(toTimeEntryEntity);
+    },
+
+    async findById(idUsuario, id) {
+      const row = selectById.get(idUsuario, id) as TimeEntryRow | undefined;
+      return row ? toTimeEntryEntity(row) : null;
+    },
+
+    async findRunning(idUsuario) {
+      const row = selectRunning.get(idUsuario) as TimeEntryRow | undefined;
+      return row ? toTimeEntryEntity(row) : null;
+    },
+
+    async insert(entry) {
+      insertEntry.run(toTimeEntryRow(entry));
+    },
+
+    async update(entry) {
+      updateEntry.run(toTimeEntryRow(entry));
+    },
+
+    async remove(idUsuario, id) {
+      return deleteEntry.run(idUsuario, id).changes > 0;
+    },
+
+    async removeByTask(idUsuario, idTarefa) {
+      deleteByTask.run(idUsuario, idTarefa);
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from '@jest/globals';
+import { TaskStatus } from './taskTypes';
+import {
+  assertTransition,
+  canTransition,
+  getAvailableTransitions,
+  isTaskClosed,
+} from './taskStatusMachine';
+import { ForbiddenTransitionError } from '@/utils/errors';
+
+const { Pendente, EmAndamento, Aguardando, Concluída, Cancelada, Vencida } = TaskStatus;
+
+describe('canTransition', () => {
+  it('allows the manual changes listed in the workflow', () => {
+    expect(canTransition(Pendente, EmAndamento, 'Manual')).toBe(true);
+    expect(canTransition(Aguardando, Concluída, 'Manual')).toBe(true);
+    expect(canTransition(Cancelada, Pendente, 'Manual')).toBe(true);
+  });
+
+  it('rejects changes out of a closed task other than reopening it', () => {
+    expect(canTransition(Concluída, EmAndamento, 'Manual')).toBe(false);
+    expect(canTransition(Cancelada, Concluída, 'Manual')).toBe(false);
+  });
+
+  it('leaves overdue changes to the system', () => {
+    expect(canTransition(Pendente, Vencida, 'Manual')).toBe(false);
+    expect(canTransition(Pendente, Vencida, 'Automática')).toBe(true);
+    expect(canTransition(Vencida, Pendente, 'Manual')).toBe(false);
+    expect(canTransition(Vencida, Pendente, 'Automática')).toBe(true);
+  });
+
+  it.each([Pendente, EmAndamento, Aguardando])('lets the system mark %p tasks as overdue', (de) => {
+    expect(canTransition(de, Vencida, 'Automática')).toBe(true);
+    expect(canTransition(de, Vencida, 'Manual')).toBe(false);
+  });
+
+  it.each([Concluída, Cancelada])('never marks %p tasks as overdue', (de) => {
+    expect(canTransition(de, Vencida, 'Automática')).toBe(false);
+  });
+
+  it('rejects keeping the same status', () => {
+    expect(canTransition(Pendente, Pendente, 'Manual')).toBe(false);
+  });
+});
+
+describe('getAvailableTransitions', () => {
+  it('lists the manual changes in the order of TaskStatus', () => {
+    expect(getAvailableTransitions(Pendente)).toEqual([
+      EmAndamento,
+      Aguardando,
+      Concluída,
+      Cancelada,
+    ]);
+    expect(getAvailableTransitions(Concluída)).toEqual([Pendente]);
+  });
+
+  it('lists the automatic changes when asked for them', () => {
+    expect(getAvailableTransitions(Vencida, 'Automática')).toEqual([Pendente, Concluída]);
+    expect(getAvailableTransitions(Cancelada, 'Automática')).toEqual([]);
+  });
+});
+
+describe('isTaskClosed', () => {
+  it('is true only for completed and cancelled tasks', () => {
+    expect(Object.values(TaskStatus).filter(isTaskClosed)).toEqual([Concluída, Cancelada]);
+  });
+});
+
+describe('assertTransition', () => {
+  it('accepts an allowed change', () => {
+    expect(() => assertTransition(EmAndamento, Aguardando, 'Manual')).not.toThrow();
+  });
+
+  it('throws ForbiddenTransitionError with both statuses for a forbidden change', () => {
+    expect.assertions(3);
+
+    try {
+      assertTransition(Concluída, Aguardando, 'Manual');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ForbiddenTransitionError);
+      expect((error as ForbiddenTransitionError).code).toBe('alteracaoNaoPermitida');
+      expect((error as ForbiddenTransitionError).details).toEqual({
+        de: Concluída,
+        para: Aguardando,
+      });
+    }
+  });
+});
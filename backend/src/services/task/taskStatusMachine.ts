@@ -0,0 +1,110 @@
+/**
+ * @summary
+ * Task status workflow.
+ * Declares every allowed status change and who may trigger it; every service function that
+ * changes a status checks it against this table.
+ *
+ * @module services/task/taskStatusMachine
+ */
+
+import { TaskStatus, TransitionOrigin, StatusTransition } from './taskTypes';
+import { ForbiddenTransitionError } from '@/utils/errors';
+
+const { Pendente, EmAndamento, Aguardando, Concluída, Cancelada, Vencida } = TaskStatus;
+
+/**
+ * @rule {be-task-status-workflow}
+ * Allowed status changes. Manual ones are made by the user; automatic ones by the system when an
+ * open task becomes overdue, gets a new due date, or is completed along with its parent
+ */
+export const STATUS_TRANSITIONS: StatusTransition[] = [
+  { de: [EmAndamento, Aguardando, Concluída, Cancelada], para: Pendente, origem: 'Manual' },
+  { de: [Pendente, Aguardando, Vencida], para: EmAndamento, origem: 'Manual' },
+  { de: [Pendente, EmAndamento, Vencida], para: Aguardando, origem: 'Manual' },
+  { de: [Pendente, EmAndamento, Aguardando, Vencida], para: Concluída, origem: 'Manual' },
+  { de: [Pendente, EmAndamento, Aguardando, Vencida], para: Cancelada, origem: 'Manual' },
+  { de: [Pendente, EmAndamento, Aguardando], para: Vencida, origem: 'Automática' },
+  { de: [Vencida], para: Pendente, origem: 'Automática' },
+  { de: [Pendente, EmAndamento, Aguardando, Vencida], para: Concluída, origem: 'Automática' },
+];
+
+/**
+ * @rule {be-task-status-workflow}
+ * Closed tasks need no more work: they block nothing and get no reminders
+ */
+const CLOSED_STATUSES: TaskStatus[] = [Concluída, Cancelada];
+
+/**
+ * @summary
+ * Tells whether a task status means no more work is expected
+ *
+ * @function isTaskClosed
+ * @module services/task
+ *
+ * @param {TaskStatus} status - Task status
+ *
+ * @returns {boolean} True for completed and cancelled tasks
+ */
+export function isTaskClosed(status: TaskStatus): boolean {
+  return CLOSED_STATUSES.includes(status);
+}
+
+/**
+ * @summary
+ * Tells whether a status change is allowed
+ *
+ * @function canTransition
+ * @module services/task
+ *
+ * @param {TaskStatus} de - Current status
+ * @param {TaskStatus} para - New status
+ * @param {TransitionOrigin} origem - Who triggers the change
+ *
+ * @returns {boolean} True if the table lists the change for that origin
+ */
+export function canTransition(de: TaskStatus, para: TaskStatus, origem: TransitionOrigin): boolean {
+  return STATUS_TRANSITIONS.some(
+    (transition) =>
+      transition.para === para && transition.origem === origem && transition.de.includes(de)
+  );
+}
+
+/**
+ * @summary
+ * Lists the statuses a task may move to from its current one
+ *
+ * @function getAvailableTransitions
+ * @module services/task
+ *
+ * @param {TaskStatus} de - Current status
+ * @param {TransitionOrigin} [origem] - Who triggers the change
+ *
+ * @returns {TaskStatus[]} Allowed next statuses, in the order of `TaskStatus`
+ */
+export function getAvailableTransitions(
+  de: TaskStatus,
+  origem: TransitionOrigin = 'Manual'
+): TaskStatus[] {
+  return Object.values(TaskStatus).filter((para) => canTransition(de, para, origem));
+}
+
+/**
+ * @summary
+ * Rejects a status change the table does not allow
+ *
+ * @function assertTransition
+ * @module services/task
+ *
+ * @param {TaskStatus} de - Current status
+ * @param {TaskStatus} para - New status
+ * @param {TransitionOrigin} origem - Who triggers the change
+ *
+ * @returns {void}
+ *
+ * @throws {ForbiddenTransitionError} When the change is not allowed
+ */
+export function assertTransition(de: TaskStatus, para: TaskStatus, origem: TransitionOrigin): void {
+  if (!canTransition(de, para, origem)) {
+    throw new ForbiddenTransitionError(de, para);
+  }
+}
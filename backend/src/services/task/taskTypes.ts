@@ -8,14 +8,38 @@
 
 /**
  * @enum TaskStatus
- * @description Task status enumeration
+ * @description Task status enumeration; the allowed changes between statuses are listed in
+ * `taskStatusMachine`
  */
 export enum TaskStatus {
   Pendente = 'Pendente',
+  EmAndamento = 'Em andamento',
+  Aguardando = 'Aguardando',
   Concluída = 'Concluída',
+  Cancelada = 'Cancelada',
   Vencida = 'Vencida',
 }
 
+/**
+ * @type TransitionOrigin
+ * @description Who triggers a status change: the user (Manual) or the system (Automática)
+ */
+export type TransitionOrigin = 'Manual' | 'Automática';
+
+/**
+ * @interface StatusTransition
+ * @description Allowed status change
+ *
+ * @property {TaskStatus[]} de - Statuses the change may start from
+ * @property {TaskStatus} para - Resulting status
+ * @property {TransitionOrigin} origem - Who may trigger the change
+ */
+export interface StatusTransition {
+  de: TaskStatus[];
+  para: TaskStatus;
+  origem: TransitionOrigin;
+}
+
 /**
  * @enum TaskImportance
  * @description Task importance level enumeration
@@ -26,48 +50,374 @@ export enum TaskImportance {
   Baixa = 'Baixa',
 }
 
+/**
+ * @enum SubtaskCompletionPolicy
+ * @description What happens when a task is completed while it still has open subtasks
+ */
+export enum SubtaskCompletionPolicy {
+  Bloquear = 'Bloquear',
+  Concluir = 'Concluir',
+  Avisar = 'Avisar',
+}
+
+/**
+ * @enum DependencyCompletionPolicy
+ * @description What happens when a task is completed while tasks blocking it are still open
+ */
+export enum DependencyCompletionPolicy {
+  Bloquear = 'Bloquear',
+  Avisar = 'Avisar',
+}
+
+/**
+ * @enum SnoozePreset
+ * @description When a snoozed task comes back to the list
+ */
+export enum SnoozePreset {
+  MaisTardeHoje = 'Mais tarde hoje',
+  AmanhaDeManha = 'Amanhã de manhã',
+  ProximaSemana = 'Próxima semana',
+  Personalizado = 'Personalizado',
+}
+
+/**
+ * @interface TaskTransitions
+ * @description Current status of a task and the statuses the user may move it to
+ *
+ * @property {TaskStatus} status - Current status
+ * @property {TaskStatus[]} transicoes - Allowed next statuses
+ */
+export interface TaskTransitions {
+  status: TaskStatus;
+  transicoes: TaskStatus[];
+}
+
 /**
  * @interface TaskEntity
  * @description Represents a task entity in the system
  *
  * @property {string} id - Unique task identifier (UUID)
+ * @property {string} idUsuario - Owner user identifier
  * @property {string} titulo - Task title
  * @property {string | null} descricao - Task description
- * @property {string | null} dataVencimento - Due date in DD/MM/YYYY format
- * @property {string | null} horaVencimento - Due time in HH:MM format
+ * @property {Date | null} dataVencimento - Due instant; the start of the due day for all-day tasks
+ * @property {string} fusoHorario - IANA time zone the due date is expressed in
+ * @property {boolean} diaInteiro - Whether the task is due at any time on its due day
+ * @property {Date | null} dataInicio - Start of the day work on the task can begin
+ * @property {Date | null} dataAgendada - Start of the day the task is planned to be done
+ * @property {Date | null} sonecaAte - Moment a snoozed task comes back to the list
+ * @property {number} adiamentos - Number of times the task was rescheduled
+ * @property {Date | null} dataExclusao - Moment the task was moved to the trash, null while it is active
  * @property {TaskImportance} importancia - Importance level
  * @property {TaskStatus} status - Current task status
+ * @property {string | null} recorrencia - Recurrence rule (RFC 5545 RRULE subset)
+ * @property {string | null} idSerie - Identifier of the first task of a recurring series
+ * @property {number | null} ocorrencia - 1-based position of the task in its series
+ * @property {string | null} idProximaOcorrencia - Identifier of the generated next occurrence
+ * @property {string | null} idTarefaPai - Parent task identifier when this task is a subtask
+ * @property {string[]} tags - Identifiers of the tags assigned to the task
+ * @property {string | null} idProjeto - Project the task belongs to, null when it has none
+ * @property {number | null} duracaoEstimada - Estimated effort in minutes, null when not estimated
+ * @property {TaskReminder[]} lembretes - Reminders of the task
  * @property {Date} dataCriacao - Creation timestamp
  * @property {Date} dataAtualizacao - Last update timestamp
  */
 export interface TaskEntity {
   id: string;
+  idUsuario: string;
   titulo: string;
   descricao: string | null;
-  dataVencimento: string | null;
-  horaVencimento: string | null;
+  dataVencimento: Date | null;
+  fusoHorario: string;
+  diaInteiro: boolean;
+  dataInicio: Date | null;
+  dataAgendada: Date | null;
+  sonecaAte: Date | null;
+  adiamentos: number;
+  dataExclusao: Date | null;
   importancia: TaskImportance;
   status: TaskStatus;
+  recorrencia: string | null;
+  idSerie: string | null;
+  ocorrencia: number | null;
+  idProximaOcorrencia: string | null;
+  idTarefaPai: string | null;
+  tags: string[];
+  idProjeto: string | null;
+  duracaoEstimada: number | null;
+  lembretes: TaskReminder[];
   dataCriacao: Date;
   dataAtualizacao: Date;
 }
 
+/**
+ * @interface TaskReminder
+ * @description Reminder of a task, fired either some time before the task is due or at a
+ * fixed moment. Exactly one of the two fields is set.
+ *
+ * @property {number | null} antecedencia - Minutes before the due date and time
+ * @property {Date | null} dataLembrete - Fixed moment to fire at
+ */
+export interface TaskReminder {
+  antecedencia: number | null;
+  dataLembrete: Date | null;
+}
+
+/**
+ * @interface TaskProgress
+ * @description Completion of a task's checklist items and subtasks
+ *
+ * @property {number} total - Number of checklist items and subtasks
+ * @property {number} concluidas - Number of completed checklist items and subtasks
+ * @property {number} percentual - Completed share, from 0 to 100
+ */
+export interface TaskProgress {
+  total: number;
+  concluidas: number;
+  percentual: number;
+}
+
+/**
+ * @interface TaskListItem
+ * @description Task as returned by the task list
+ *
+ * @property {TaskProgress | null} progresso - Subtask progress, null when the task has none
+ * @property {string[]} bloqueadaPor - Identifiers of the open tasks blocking this task
+ * @property {string[]} bloqueando - Identifiers of the open tasks this task blocks
+ * @property {number} tempoRegistrado - Tracked time in seconds, a running timer counted up to now
+ * @property {number} anexos - Number of attachments
+ * @property {number} comentarios - Number of comments, deleted ones not counted
+ */
+export interface TaskListItem extends TaskEntity {
+  progresso: TaskProgress | null;
+  bloqueadaPor: string[];
+  bloqueando: string[];
+  tempoRegistrado: number;
+  anexos: number;
+  comentarios: number;
+}
+
+/**
+ * @interface TaskTrashItem
+ * @description Task as returned by the trash
+ *
+ * @property {number} subtarefas - Number of subtasks moved to the trash together with the task
+ * @property {Date} dataPurga - Moment the task is permanently deleted
+ */
+export interface TaskTrashItem extends TaskEntity {
+  subtarefas: number;
+  dataPurga: Date;
+}
+
+/**
+ * @interface DependencyEntity
+ * @description Blocked-by link: a task cannot be completed before its blocking task
+ *
+ * @property {string} idUsuario - Owner user identifier
+ * @property {string} idTarefa - Blocked task identifier
+ * @property {string} idTarefaBloqueadora - Blocking task identifier
+ * @property {Date} dataCriacao - Creation timestamp
+ */
+export interface DependencyEntity {
+  idUsuario: string;
+  idTarefa: string;
+  idTarefaBloqueadora: string;
+  dataCriacao: Date;
+}
+
+/**
+ * @interface TaskDependencies
+ * @description Tasks linked to a task through blocked-by links
+ *
+ * @property {TaskEntity[]} bloqueadaPor - Tasks blocking the task
+ * @property {TaskEntity[]} bloqueando - Tasks the task blocks
+ */
+export interface TaskDependencies {
+  bloqueadaPor: TaskEntity[];
+  bloqueando: TaskEntity[];
+}
+
+/**
+ * @interface TimeEntryEntity
+ * @description Period of time spent on a task, tracked by a timer or entered manually
+ *
+ * @property {string} id - Unique entry identifier (UUID)
+ * @property {string} idUsuario - Owner user identifier
+ * @property {string} idTarefa - Task the time was spent on
+ * @property {Date} inicio - Start of the period
+ * @property {Date | null} fim - End of the period, null while the timer is running
+ * @property {string | null} nota - Free-text note
+ * @property {Date} dataCriacao - Creation timestamp
+ * @property {Date} dataAtualizacao - Last update timestamp
+ */
+export interface TimeEntryEntity {
+  id: string;
+  idUsuario: string;
+  idTarefa: string;
+  inicio: Date;
+  fim: Date | null;
+  nota: string | null;
+  dataCriacao: Date;
+  dataAtualizacao: Date;
+}
+
+/**
+ * @interface TimeEntryRequest
+ * @description Parameters for entering or editing a time entry by hand
+ *
+ * @property {Date} inicio - Start of the period
+ * @property {Date | null} fim - End of the period; null is only accepted for a running entry
+ * @property {string | null} nota - Free-text note
+ */
+export interface TimeEntryRequest {
+  inicio: Date;
+  fim: Date | null;
+  nota: string | null;
+}
+
+/**
+ * @interface TimeEntryList
+ * @description Time entries of a task with their total
+ *
+ * @property {TimeEntryEntity[]} registros - Entries ordered by start
+ * @property {number} tempoRegistrado - Tracked time in seconds, a running timer counted up to now
+ * @property {number | null} duracaoEstimada - Estimated effort in minutes
+ */
+export interface TimeEntryList {
+  registros: TimeEntryEntity[];
+  tempoRegistrado: number;
+  duracaoEstimada: number | null;
+}
+
+/**
+ * @interface RunningTimer
+ * @description The user's running time entry together with its task
+ *
+ * @property {TimeEntryEntity} registro - Running entry
+ * @property {TaskEntity} tarefa - Task being timed
+ */
+export interface RunningTimer {
+  registro: TimeEntryEntity;
+  tarefa: TaskEntity;
+}
+
+/**
+ * @interface ChecklistItemEntity
+ * @description Ordered checklist item inside a task
+ *
+ * @property {string} id - Unique item identifier (UUID)
+ * @property {string} idUsuario - Owner user identifier
+ * @property {string} idTarefa - Task the item belongs to
+ * @property {string} texto - Item text
+ * @property {boolean} concluido - Whether the item is checked
+ * @property {number} ordem - 0-based position inside the checklist
+ * @property {Date} dataCriacao - Creation timestamp
+ * @property {Date} dataAtualizacao - Last update timestamp
+ */
+export interface ChecklistItemEntity {
+  id: string;
+  idUsuario: string;
+  idTarefa: string;
+  texto: string;
+  concluido: boolean;
+  ordem: number;
+  dataCriacao: Date;
+  dataAtualizacao: Date;
+}
+
+/**
+ * @interface ChecklistItemUpdateRequest
+ * @description Parameters for updating a checklist item; omitted fields are kept
+ *
+ * @property {string} [texto] - Item text
+ * @property {boolean} [concluido] - Whether the item is checked
+ * @property {number} [ordem] - New 0-based position inside the checklist
+ */
+export interface ChecklistItemUpdateRequest {
+  texto?: string;
+  concluido?: boolean;
+  ordem?: number;
+}
+
+/**
+ * @interface SubtaskList
+ * @description Checklist items and subtasks of a task
+ *
+ * @property {ChecklistItemEntity[]} itens - Checklist items in order
+ * @property {TaskEntity[]} tarefas - Subtasks ordered by creation
+ * @property {TaskProgress} progresso - Completion of items and subtasks together
+ */
+export interface SubtaskList {
+  itens: ChecklistItemEntity[];
+  tarefas: TaskEntity[];
+  progresso: TaskProgress;
+}
+
+/**
+ * @interface TaskDueDateInput
+ * @description Due date fields as received by the API
+ *
+ * @property {string} [dataVencimento] - ISO 8601 date or date-time, or legacy DD/MM/YYYY
+ * @property {string} [horaVencimento] - Legacy due time in HH:MM format, next to a date
+ * @property {string} [fusoHorario] - IANA time zone; defaults to DEFAULT_TIMEZONE
+ * @property {boolean} [diaInteiro] - Whether the task is due at any time on its due day; defaults
+ * to true when no time is given
+ */
+export interface TaskDueDateInput {
+  dataVencimento?: string;
+  horaVencimento?: string;
+  fusoHorario?: string;
+  diaInteiro?: boolean;
+}
+
+/**
+ * @interface TaskDueDate
+ * @description Resolved due date of a task
+ *
+ * @property {Date | null} dataVencimento - Due instant; the start of the due day for all-day tasks
+ * @property {string} fusoHorario - IANA time zone the due date is expressed in
+ * @property {boolean} diaInteiro - Whether the task is due at any time on its due day
+ */
+export interface TaskDueDate {
+  dataVencimento: Date | null;
+  fusoHorario: string;
+  diaInteiro: boolean;
+}
+
 /**
  * @interface TaskCreateRequest
  * @description Parameters for creating a new task
  *
  * @property {string} titulo - Task title
  * @property {string | null} descricao - Task description
- * @property {string | null} dataVencimento - Due date in DD/MM/YYYY format
- * @property {string | null} horaVencimento - Due time in HH:MM format
+ * @property {Date | null} dataVencimento - Due instant; the start of the due day for all-day tasks
+ * @property {string} fusoHorario - IANA time zone the due date is expressed in
+ * @property {boolean} diaInteiro - Whether the task is due at any time on its due day
  * @property {TaskImportance} importancia - Importance level
+ * @property {string | null} recorrencia - Recurrence rule (RFC 5545 RRULE subset)
+ * @property {string[]} tags - Identifiers of the user's tags to assign
+ * @property {string | null} [idTarefaPai] - Parent task identifier when creating a subtask
+ * @property {string | null} [idProjeto] - Project to create the task in
+ * @property {number | null} [duracaoEstimada] - Estimated effort in minutes
+ * @property {TaskReminder[]} [lembretes] - Reminders of the task
+ * @property {Date | null} [dataInicio] - Start of the day work on the task can begin
+ * @property {Date | null} [dataAgendada] - Start of the day the task is planned to be done
  */
 export interface TaskCreateRequest {
   titulo: string;
   descricao: string | null;
-  dataVencimento: string | null;
-  horaVencimento: string | null;
+  dataVencimento: Date | null;
+  fusoHorario: string;
+  diaInteiro: boolean;
   importancia: TaskImportance;
+  recorrencia: string | null;
+  tags: string[];
+  idTarefaPai?: string | null;
+  idProjeto?: string | null;
+  duracaoEstimada?: number | null;
+  lembretes?: TaskReminder[];
+  dataInicio?: Date | null;
+  dataAgendada?: Date | null;
 }
 
 /**
@@ -76,16 +426,35 @@ export interface TaskCreateRequest {
  *
  * @property {string} titulo - Task title
  * @property {string | null} descricao - Task description
- * @property {string | null} dataVencimento - Due date in DD/MM/YYYY format
- * @property {string | null} horaVencimento - Due time in HH:MM format
+ * @property {Date | null} dataVencimento - Due instant; the start of the due day for all-day tasks
+ * @property {string} fusoHorario - IANA time zone the due date is expressed in
+ * @property {boolean} diaInteiro - Whether the task is due at any time on its due day
  * @property {TaskImportance} importancia - Importance level
+ * @property {string | null} recorrencia - Recurrence rule (RFC 5545 RRULE subset)
+ * @property {string[]} [tags] - Identifiers of the user's tags to assign; omitted to keep the
+ * current ones
+ * @property {string | null} [idProjeto] - Project to move the task to; omitted to keep the current one
+ * @property {number | null} [duracaoEstimada] - Estimated effort in minutes; omitted to keep the
+ * current one
+ * @property {TaskReminder[]} [lembretes] - Reminders of the task; omitted to keep the current ones
+ * @property {Date | null} [dataInicio] - Start of the start day; omitted to keep the current one
+ * @property {Date | null} [dataAgendada] - Start of the scheduled day; omitted to keep the current
+ * one
  */
 export interface TaskUpdateRequest {
   titulo: string;
   descricao: string | null;
-  dataVencimento: string | null;
-  horaVencimento: string | null;
+  dataVencimento: Date | null;
+  fusoHorario: string;
+  diaInteiro: boolean;
   importancia: TaskImportance;
+  recorrencia: string | null;
+  tags?: string[];
+  idProjeto?: string | null;
+  duracaoEstimada?: number | null;
+  lembretes?: TaskReminder[];
+  dataInicio?: Date | null;
+  dataAgendada?: Date | null;
 }
 
 /**
@@ -95,6 +464,12 @@ export interface TaskUpdateRequest {
  * @property {string} filterStatus - Status filter
  * @property {string} filterImportance - Importance filter
  * @property {string} filterPeriod - Period filter
+ * @property {string} filterStart - 'Iniciadas' hides tasks whose start date is ahead, 'Não iniciadas'
+ * lists only those, 'Todas' lists both
+ * @property {string} filterScheduled - Scheduled date period filter
+ * @property {string[]} filterTags - Tag identifiers to filter by; empty for no tag filter
+ * @property {string} filterTagsMode - 'Qualquer' matches any of the tags, 'Todas' requires all
+ * @property {string} filterProject - Project identifier, 'Sem projeto', or 'Todas' for every active project
  * @property {string} orderBy - Sort field
  * @property {string} orderDirection - Sort direction
  * @property {string} [searchTerm] - Search term
@@ -103,6 +478,11 @@ export interface TaskListFilters {
   filterStatus: string;
   filterImportance: string;
   filterPeriod: string;
+  filterStart: string;
+  filterScheduled: string;
+  filterTags: string[];
+  filterTagsMode: string;
+  filterProject: string;
   orderBy: string;
   orderDirection: string;
   searchTerm?: string;
@@ -113,6 +493,7 @@ export interface TaskListFilters {
  * @description Represents a task history entry
  *
  * @property {string} id - History entry identifier
+ * @property {string} idUsuario - Owner user identifier
  * @property {string} idTarefa - Task identifier
  * @property {Date} dataAlteracao - Change timestamp
  * @property {string} tipoAlteracao - Change type
@@ -123,6 +504,7 @@ export interface TaskListFilters {
  */
 export interface HistoryEntry {
   id: string;
+  idUsuario: string;
   idTarefa: string;
   dataAlteracao: Date;
   tipoAlteracao: string;
@@ -131,3 +513,105 @@ export interface HistoryEntry {
   valorNovo: string | null;
   origemAlteracao: string;
 }
+
+/**
+ * @interface TaskRepository
+ * @description Storage contract for task entities, scoped by owner
+ *
+ * @property {Function} findAll - Returns every active task owned by a user
+ * @property {Function} findById - Returns a user's active task by identifier or null
+ * @property {Function} findByParent - Returns the active subtasks of a user's task
+ * @property {Function} findWithReminders - Returns the active tasks of every user that have reminders
+ * @property {Function} findDeleted - Returns every task of a user that is in the trash
+ * @property {Function} findDeletedById - Returns a user's task in the trash by identifier or null
+ * @property {Function} findDeletedBefore - Returns the tasks of every user trashed before a moment
+ * @property {Function} insert - Stores a new task
+ * @property {Function} update - Replaces a stored task of the same owner
+ * @property {Function} remove - Removes a user's task, resolving false when it does not exist
+ */
+export interface TaskRepository {
+  findAll(idUsuario: string): Promise<TaskEntity[]>;
+  findById(idUsuario: string, id: string): Promise<TaskEntity | null>;
+  findByParent(idUsuario: string, idTarefaPai: string): Promise<TaskEntity[]>;
+  findWithReminders(): Promise<TaskEntity[]>;
+  findDeleted(idUsuario: string): Promise<TaskEntity[]>;
+  findDeletedById(idUsuario: string, id: string): Promise<TaskEntity | null>;
+  findDeletedBefore(limite: Date): Promise<TaskEntity[]>;
+  insert(task: TaskEntity): Promise<void>;
+  update(task: TaskEntity): Promise<void>;
+  remove(idUsuario: string, id: string): Promise<boolean>;
+}
+
+/**
+ * @interface HistoryRepository
+ * @description Storage contract for task history entries
+ *
+ * @property {Function} insert - Stores a new history entry
+ * @property {Function} findByTask - Returns every history entry of a user's task
+ */
+export interface HistoryRepository {
+  insert(entry: HistoryEntry): Promise<void>;
+  findByTask(idUsuario: string, idTarefa: string): Promise<HistoryEntry[]>;
+}
+
+/**
+ * @interface DependencyRepository
+ * @description Storage contract for blocked-by links, scoped by owner
+ *
+ * @property {Function} findAll - Returns every link owned by a user
+ * @property {Function} insert - Stores a new link
+ * @property {Function} remove - Removes a link, resolving false when it does not exist
+ * @property {Function} removeByTask - Removes every link in which a task is blocked or blocking
+ */
+export interface DependencyRepository {
+  findAll(idUsuario: string): Promise<DependencyEntity[]>;
+  insert(dependency: DependencyEntity): Promise<void>;
+  remove(idUsuario: string, idTarefa: string, idTarefaBloqueadora: string): Promise<boolean>;
+  removeByTask(idUsuario: string, idTarefa: string): Promise<void>;
+}
+
+/**
+ * @interface ChecklistRepository
+ * @description Storage contract for checklist items, scoped by owner
+ *
+ * @property {Function} findAll - Returns every checklist item owned by a user
+ * @property {Function} findByTask - Returns the items of a user's task ordered by position
+ * @property {Function} findById - Returns a user's checklist item by identifier or null
+ * @property {Function} insert - Stores a new checklist item
+ * @property {Function} update - Replaces a stored checklist item of the same owner
+ * @property {Function} remove - Removes a user's checklist item, resolving false when it does not exist
+ * @property {Function} removeByTask - Removes every item of a user's task
+ */
+export interface ChecklistRepository {
+  findAll(idUsuario: string): Promise<ChecklistItemEntity[]>;
+  findByTask(idUsuario: string, idTarefa: string): Promise<ChecklistItemEntity[]>;
+  findById(idUsuario: string, id: string): Promise<ChecklistItemEntity | null>;
+  insert(item: ChecklistItemEntity): Promise<void>;
+  update(item: ChecklistItemEntity): Promise<void>;
+  remove(idUsuario: string, id: string): Promise<boolean>;
+  removeByTask(idUsuario: string, idTarefa: string): Promise<void>;
+}
+
+/**
+ * @interface TimeEntryRepository
+ * @description Storage contract for time entries, scoped by owner
+ *
+ * @property {Function} findAll - Returns every entry owned by a user
+ * @property {Function} findByTask - Returns the entries of a user's task ordered by start
+ * @property {Function} findById - Returns a user's entry by identifier or null
+ * @property {Function} findRunning - Returns the user's entry without an end, or null
+ * @property {Function} insert - Stores a new entry
+ * @property {Function} update - Replaces a stored entry of the same owner
+ * @property {Function} remove - Removes a user's entry, resolving false when it does not exist
+ * @property {Function} removeByTask - Removes every entry of a user's task
+ */
+export interface TimeEntryRepository {
+  findAll(idUsuario: string): Promise<TimeEntryEntity[]>;
+  findByTask(idUsuario: string, idTarefa: string): Promise<TimeEntryEntity[]>;
+  findById(idUsuario: string, id: string): Promise<TimeEntryEntity | null>;
+  findRunning(idUsuario: string): Promise<TimeEntryEntity | null>;
+  insert(entry: TimeEntryEntity): Promise<void>;
+  update(entry: TimeEntryEntity): Promise<void>;
+  remove(idUsuario: string, id: string): Promise<boolean>;
+  removeByTask(idUsuario: string, idTarefa: string): Promise<void>;
+}
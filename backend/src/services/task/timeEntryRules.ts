@@ -0,0 +1,425 @@
+/**
+ * @summary
+ * Business logic for time tracking.
+ * Time is recorded as entries with a start and an end, either by starting and stopping a
+ * timer or by entering them by hand. A user has at most one running timer.
+ *
+ * @module services/task/timeEntryRules
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { TimeEntryEntity, TimeEntryRequest, TimeEntryList, RunningTimer } from './taskTypes';
+import { getTaskRepository, getTimeEntryRepository } from './taskRepository';
+import { recordHistory, describeTimeEntry } from './taskHistory';
+import { ConflictError, ValidationError } from '@/utils/errors';
+
+/**
+ * @summary
+ * Adds up the duration of time entries
+ *
+ * @function sumTrackedTime
+ * @module services/task
+ *
+ * @param {TimeEntryEntity[]} entries - Entries to add up
+ * @param {Date} [now] - End assumed for a running entry
+ *
+ * @returns {number} Total duration in seconds
+ */
+export function sumTrackedTime(entries: TimeEntryEntity[], now: Date = new Date()): number {
+  const milliseconds = entries.reduce(
+    (total, entry) => total + ((entry.fim ?? now).getTime() - entry.inicio.getTime()),
+    0
+  );
+
+  return Math.max(0, Math.floor(milliseconds / 1000));
+}
+
+/**
+ * @summary
+ * Retrieves the time entries of a task with the tracked total
+ *
+ * @function timeEntryList
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Task identifier
+ *
+ * @returns {Promise<TimeEntryList | null>} Entries and totals, or null if the task is not found
+ */
+export async function timeEntryList(
+  idUsuario: string,
+  idTarefa: string
+): Promise<TimeEntryList | null> {
+  const task = await getTaskRepository().findById(idUsuario, idTarefa);
+
+  if (!task) {
+    return null;
+  }
+
+  const registros = await getTimeEntryRepository().findByTask(idUsuario, idTarefa);
+
+  return {
+    registros,
+    tempoRegistrado: sumTrackedTime(registros),
+    duracaoEstimada: task.duracaoEstimada,
+  };
+}
+
+/**
+ * @summary
+ * Retrieves the user's running timer
+ *
+ * @function timerGetRunning
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ *
+ * @returns {Promise<RunningTimer | null>} Running entry with its task, or null when none is running
+ */
+export async function timerGetRunning(idUsuario: string): Promise<RunningTimer | null> {
+  const registro = await getTimeEntryRepository().findRunning(idUsuario);
+
+  if (!registro) {
+    return null;
+  }
+
+  const tarefa = await getTaskRepository().findById(idUsuario, registro.idTarefa);
+
+  return tarefa ? { registro, tarefa } : null;
+}
+
+/**
+ * @summary
+ * Starts a timer on a task, stopping the timer the user had running on another task
+ *
+ * @function timerStart
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Task identifier
+ *
+ * @returns {Promise<RunningTimer | null>} Running timer or null if the task is not found
+ */
+export async function timerStart(
+  idUsuario: string,
+  idTarefa: string
+): Promise<RunningTimer | null> {
+  const tarefa = await getTaskRepository().findById(idUsuario, idTarefa);
+
+  if (!tarefa) {
+    return null;
+  }
+
+  const running = await getTimeEntryRepository().findRunning(idUsuario);
+
+  if (running && running.idTarefa === idTarefa) {
+    return { registro: running, tarefa };
+  }
+
+  /**
+   * @rule {be-task-time-tracking}
+   * Only one timer runs per user: starting a timer stops the one already running
+   */
+  if (running) {
+    await stopEntry(running, null, 'Automática');
+  }
+
+  const registro: TimeEntryEntity = {
+    id: uuidv4(),
+    idUsuario,
+    idTarefa,
+    inicio: new Date(),
+    fim: null,
+    nota: null,
+    dataCriacao: new Date(),
+    dataAtualizacao: new Date(),
+  };
+
+  await getTimeEntryRepository().insert(registro);
+
+  await recordHistory({
+    idUsuario,
+    idTarefa,
+    tipoAlteracao: 'Edição',
+    campoAlterado: 'tempo',
+    valorAnterior: null,
+    valorNovo: describeTimeEntry(registro),
+    origemAlteracao: 'Manual',
+  });
+
+  return { registro, tarefa };
+}
+
+/**
+ * @summary
+ * Stops the timer running on a task
+ *
+ * @function timerStop
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Task identifier
+ * @param {string | null} nota - Note stored with the entry
+ *
+ * @returns {Promise<TimeEntryEntity | null>} Stopped entry or null if the task is not found
+ *
+ * @throws {ConflictError} When no timer is running on the task
+ */
+export async function timerStop(
+  idUsuario: string,
+  idTarefa: string,
+  nota: string | null
+): Promise<TimeEntryEntity | null> {
+  const task = await getTaskRepository().findById(idUsuario, idTarefa);
+
+  if (!task) {
+    return null;
+  }
+
+  const running = await getTimeEntryRepository().findRunning(idUsuario);
+
+  if (!running || running.idTarefa !== idTarefa) {
+    throw new ConflictError('cronometroParado');
+  }
+
+  return stopEntry(running, nota, 'Manual');
+}
+
+/**
+ * @summary
+ * Stops the user's running timer when it runs on a task, recording it as an automatic change
+ *
+ * @function timerStopByTask
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Task identifier
+ *
+ * @returns {Promise<void>}
+ */
+export async function timerStopByTask(idUsuario: string, idTarefa: string): Promise<void> {
+  const running = await getTimeEntryRepository().findRunning(idUsuario);
+
+  if (running && running.idTarefa === idTarefa) {
+    await stopEntry(running, null, 'Automática');
+  }
+}
+
+/**
+ * @summary
+ * Enters a finished time entry by hand
+ *
+ * @function timeEntryCreate
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Task identifier
+ * @param {TimeEntryRequest} data - Start, end and note
+ *
+ * @returns {Promise<TimeEntryEntity | null>} Created entry or null if the task is not found
+ *
+ * @throws {ValidationError} When the entry has no end or ends before it starts
+ */
+export async function timeEntryCreate(
+  idUsuario: string,
+  idTarefa: string,
+  data: TimeEntryRequest
+): Promise<TimeEntryEntity | null> {
+  const task = await getTaskRepository().findById(idUsuario, idTarefa);
+
+  if (!task) {
+    return null;
+  }
+
+  /**
+   * @rule {be-task-time-tracking}
+   * Entries entered by hand are finished; running entries only come from the timer
+   */
+  if (!data.fim) {
+    throw new ValidationError('registroSemFim');
+  }
+
+  validatePeriod(data);
+
+  const registro: TimeEntryEntity = {
+    id: uuidv4(),
+    idUsuario,
+    idTarefa,
+    inicio: data.inicio,
+    fim: data.fim,
+    nota: data.nota,
+    dataCriacao: new Date(),
+    dataAtualizacao: new Date(),
+  };
+
+  await getTimeEntryRepository().insert(registro);
+
+  await recordHistory({
+    idUsuario,
+    idTarefa,
+    tipoAlteracao: 'Edição',
+    campoAlterado: 'tempo',
+    valorAnterior: null,
+    valorNovo: describeTimeEntry(registro),
+    origemAlteracao: 'Manual',
+  });
+
+  return registro;
+}
+
+/**
+ * @summary
+ * Edits the start, end or note of a time entry
+ *
+ * @function timeEntryUpdate
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Task identifier
+ * @param {string} id - Entry identifier
+ * @param {TimeEntryRequest} data - New start, end and note
+ *
+ * @returns {Promise<TimeEntryEntity | null>} Updated entry or null if not found in the task
+ *
+ * @throws {ValidationError} When a finished entry loses its end or the entry ends before it starts
+ */
+export async function timeEntryUpdate(
+  idUsuario: string,
+  idTarefa: string,
+  id: string,
+  data: TimeEntryRequest
+): Promise<TimeEntryEntity | null> {
+  const registro = await getTimeEntryRepository().findById(idUsuario, id);
+
+  if (!registro || registro.idTarefa !== idTarefa) {
+    return null;
+  }
+
+  if (!data.fim && registro.fim) {
+    throw new ValidationError('registroSemFim');
+  }
+
+  validatePeriod(data);
+
+  const previous = describeTimeEntry(registro);
+
+  registro.inicio = data.inicio;
+  registro.fim = data.fim;
+  registro.nota = data.nota;
+  registro.dataAtualizacao = new Date();
+
+  await getTimeEntryRepository().update(registro);
+
+  await recordHistory({
+    idUsuario,
+    idTarefa,
+    tipoAlteracao: 'Edição',
+    campoAlterado: 'tempo',
+    valorAnterior: previous,
+    valorNovo: describeTimeEntry(registro),
+    origemAlteracao: 'Manual',
+  });
+
+  return registro;
+}
+
+/**
+ * @summary
+ * Deletes a time entry
+ *
+ * @function timeEntryDelete
+ * @module services/task
+ *
+ * @param {string} idUsuario - Owner user identifier
+ * @param {string} idTarefa - Task identifier
+ * @param {string} id - Entry identifier
+ *
+ * @returns {Promise<boolean>} True if deleted, false if not found in the task
+ */
+export async function timeEntryDelete(
+  idUsuario: string,
+  idTarefa: string,
+  id: string
+): Promise<boolean> {
+  const registro = await getTimeEntryRepository().findById(idUsuario, id);
+
+  if (!registro || registro.idTarefa !== idTarefa) {
+    return false;
+  }
+
+  await getTimeEntryRepository().remove(idUsuario, id);
+
+  await recordHistory({
+    idUsuario,
+    idTarefa,
+    tipoAlteracao: 'Edição',
+    campoAlterado: 'tempo',
+    valorAnterior: describeTimeEntry(registro),
+    valorNovo: null,
+    origemAlteracao: 'Manual',
+  });
+
+  return true;
+}
+
+/**
+ * @summary
+ * Checks that a time entry does not end before it starts or start in the future
+ *
+ * @function validatePeriod
+ * @module services/task
+ *
+ * @param {TimeEntryRequest} data - Entry period
+ *
+ * @returns {void}
+ *
+ * @throws {ValidationError} When the period is invalid
+ */
+function validatePeriod(data: TimeEntryRequest): void {
+  if (data.inicio.getTime() > Date.now()) {
+    throw new ValidationError('intervaloInvalido');
+  }
+
+  if (data.fim && data.fim.getTime() <= data.inicio.getTime()) {
+    throw new ValidationError('intervaloInvalido');
+  }
+}
+
+/**
+ * @summary
+ * Ends a running time entry now and records it in the task history
+ *
+ * @function stopEntry
+ * @module services/task
+ *
+ * @param {TimeEntryEntity} registro - Running entry
+ * @param {string | null} nota - Note to store, or null to keep the current one
+ * @param {string} origemAlteracao - History origin: Manual or Automática
+ *
+ * @returns {Promise<TimeEntryEntity>} Stopped entry
+ */
+async function stopEntry(
+  registro: TimeEntryEntity,
+  nota: string | null,
+  origemAlteracao: string
+): Promise<TimeEntryEntity> {
+  const previous = describeTimeEntry(registro);
+
+  registro.fim = new Date();
+  registro.nota = nota ?? registro.nota;
+  registro.dataAtualizacao = new Date();
+
+  await getTimeEntryRepository().update(registro);
+
+  await recordHistory({
+    idUsuario: registro.idUsuario,
+    idTarefa: registro.idTarefa,
+    tipoAlteracao: 'Edição',
+    campoAlterado: 'tempo',
+    valorAnterior: previous,
+    valorNovo: describeTimeEntry(registro),
+    origemAlteracao,
+  });
+
+  return registro;
+}
@@ -0,0 +1,66 @@
+/**
+ * @summary
+ * Background scheduler for the task trash.
+ * Permanently deletes tasks past the retention period every `config.tasks.trashPurgeInterval`
+ * seconds.
+ *
+ * @module services/task/trashScheduler
+ */
+
+import { config } from '@/config';
+import { taskPurgeExpired } from './taskRules';
+
+let timer: NodeJS.Timeout | null = null;
+let purging = false;
+
+/**
+ * @summary
+ * Starts purging expired tasks from the trash, at once and then periodically
+ *
+ * @function startTrashScheduler
+ * @module services/task
+ *
+ * @returns {void}
+ */
+export function startTrashScheduler(): void {
+  if (timer || config.tasks.trashPurgeInterval <= 0) {
+    return;
+  }
+
+  /**
+   * @rule {be-task-trash}
+   * A purge never overlaps the previous one when the trash is large
+   */
+  const purge = async () => {
+    if (purging) {
+      return;
+    }
+    purging = true;
+    try {
+      await taskPurgeExpired();
+    } catch (error) {
+      console.error('Trash purge failed:', error);
+    } finally {
+      purging = false;
+    }
+  };
+
+  timer = setInterval(purge, config.tasks.trashPurgeInterval * 1000);
+  void purge();
+}
+
+/**
+ * @summary
+ * Stops purging expired tasks from the trash
+ *
+ * @function stopTrashScheduler
+ * @module services/task
+ *
+ * @returns {void}
+ */
+export function stopTrashScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * @summary
+ * User service exports.
+ * Provides centralized access to account and authentication logic.
+ *
+ * @module services/user
+ */
+
+export * from './userTypes';
+export * from './userRules';
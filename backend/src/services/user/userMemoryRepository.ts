@@ -0,0 +1,76 @@
+/**
+ * @summary
+ * In-memory user and session repositories.
+ * Data lives only for the lifetime of the process.
+ *
+ * @module services/user/userMemoryRepository
+ */
+
+import { UserEntity, UserSession, UserRepository, SessionRepository } from './userTypes';
+
+/**
+ * @summary
+ * Creates an in-memory user repository
+ *
+ * @function createMemoryUserRepository
+ * @module services/user
+ *
+ * @returns {UserRepository} User repository backed by an array
+ */
+export function createMemoryUserRepository(): UserRepository {
+  const users: UserEntity[] = [];
+
+  return {
+    async findById(id) {
+      const user = users.find((u) => u.id === id);
+      return user ? { ...user } : null;
+    },
+
+    async findByEmail(email) {
+      const user = users.find((u) => u.email === email);
+      return user ? { ...user } : null;
+    },
+
+    async insert(user) {
+      users.push({ ...user });
+    },
+
+    async update(user) {
+      const userIndex = users.findIndex((u) => u.id === user.id);
+      if (userIndex !== -1) {
+        users[userIndex] = { ...user };
+      }
+    },
+  };
+}
+
+/**
+ * @summary
+ * Creates an in-memory session repository
+ *
+ * @function createMemorySessionRepository
+ * @module services/user
+ *
+ * @returns {SessionRepository} Session repository backed by an array
+ */
+export function createMemorySessionRepository(): SessionRepository {
+  const sessions: UserSession[] = [];
+
+  return {
+    async findById(id) {
+      const session = sessions.find((s) => s.id === id);
+      return session ? { ...session } : null;
+    },
+
+    async insert(session) {
+      sessions.push({ ...session });
+    },
+
+    async remove(id) {
+      const sessionIndex = sessions.findIndex((s) => s.id === id);
+      if (sessionIndex !== -1) {
+        sessions.splice(sessionIndex, 1);
+      }
+    },
+  };
+}
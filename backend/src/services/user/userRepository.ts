@@ -0,0 +1,54 @@
+/**
+ * @summary
+ * User storage selection.
+ * Resolves the user and session repositories for the driver configured in `config.database`.
+ *
+ * @module services/user/userRepository
+ */
+
+import { config } from '@/config';
+import { getDatabase } from '@/instances/database';
+import { UserRepository, SessionRepository } from './userTypes';
+import { createMemoryUserRepository, createMemorySessionRepository } from './userMemoryRepository';
+import { createSqliteUserRepository, createSqliteSessionRepository } from './userSqliteRepository';
+
+let userRepository: UserRepository | null = null;
+let sessionRepository: SessionRepository | null = null;
+
+/**
+ * @summary
+ * Returns the configured user repository, creating it on first use
+ *
+ * @function getUserRepository
+ * @module services/user
+ *
+ * @returns {UserRepository} User repository
+ */
+export function getUserRepository(): UserRepository {
+  if (!userRepository) {
+    userRepository =
+      config.database.driver === 'memory'
+        ? createMemoryUserRepository()
+        : createSqliteUserRepository(getDatabase());
+  }
+  return userRepository;
+}
+
+/**
+ * @summary
+ * Returns the configured session repository, creating it on first use
+ *
+ * @function getSessionRepository
+ * @module services/user
+ *
+ * @returns {SessionRepository} Session repository
+ */
+export function getSessionRepository(): SessionRepository {
+  if (!sessionRepository) {
+    sessionRepository =
+      config.database.driver === 'memory'
+        ? createMemorySessionRepository()
+        : createSqliteSessionRepository(getDatabase());
+  }
+  return sessionRepository;
+}
@@ -0,0 +1,272 @@
+/**
+ * @summary
+ * Business logic for user accounts and authentication.
+ * Implements registration, login, logout and access token verification.
+ *
+ * @module services/user/userRules
+ */
+
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '@/config';
+import {
+  UserEntity,
+  AuthUser,
+  AuthResult,
+  UserRegisterRequest,
+  UserLoginRequest,
+  UserPreferencesRequest,
+} from './userTypes';
+import { getUserRepository, getSessionRepository } from './userRepository';
+
+/**
+ * @summary
+ * Registers a new user account and opens a session for it
+ *
+ * @function userRegister
+ * @module services/user
+ *
+ * @param {UserRegisterRequest} data - Registration parameters
+ *
+ * @returns {Promise<AuthResult | null>} Authentication result or null if the e-mail is taken
+ */
+export async function userRegister(data: UserRegisterRequest): Promise<AuthResult | null> {
+  const email = data.email.trim().toLowerCase();
+
+  /**
+   * @rule {be-user-registration}
+   * E-mail addresses are unique per account
+   */
+  if (await getUserRepository().findByEmail(email)) {
+    return null;
+  }
+
+  const newUser: UserEntity = {
+    id: uuidv4(),
+    nome: data.nome.trim(),
+    email,
+    senhaHash: await bcrypt.hash(data.senha, config.security.bcryptRounds),
+    idioma: null,
+    dataCriacao: new Date(),
+    dataAtualizacao: new Date(),
+  };
+
+  await getUserRepository().insert(newUser);
+
+  return createSession(newUser);
+}
+
+/**
+ * @summary
+ * Validates credentials and opens a new session
+ *
+ * @function userLogin
+ * @module services/user
+ *
+ * @param {UserLoginRequest} data - Login parameters
+ *
+ * @returns {Promise<AuthResult | null>} Authentication result or null if credentials are invalid
+ */
+export async function userLogin(data: UserLoginRequest): Promise<AuthResult | null> {
+  const user = await getUserRepository().findByEmail(data.email.trim().toLowerCase());
+
+  if (!user || !(await bcrypt.compare(data.senha, user.senhaHash))) {
+    return null;
+  }
+
+  return createSession(user);
+}
+
+/**
+ * @summary
+ * Ends the session behind an access token
+ *
+ * @function userLogout
+ * @module services/user
+ *
+ * @param {string} token - Access token
+ *
+ * @returns {Promise<boolean>} True if a session was ended, false if the token was invalid
+ */
+export async function userLogout(token: string): Promise<boolean> {
+  const payload = decodeToken(token);
+
+  if (!payload) {
+    return false;
+  }
+
+  await getSessionRepository().remove(payload.sid);
+  return true;
+}
+
+/**
+ * @summary
+ * Exchanges a still-valid access token for a new one, ending the old session
+ *
+ * @function userRefresh
+ * @module services/user
+ *
+ * @param {string} token - Current access token
+ *
+ * @returns {Promise<AuthResult | null>} New authentication result or null if the token is invalid
+ */
+export async function userRefresh(token: string): Promise<AuthResult | null> {
+  const payload = decodeToken(token);
+
+  if (!payload || !(await userVerifyToken(token))) {
+    return null;
+  }
+
+  const user = await getUserRepository().findById(payload.sub);
+
+  if (!user) {
+    return null;
+  }
+
+  await getSessionRepository().remove(payload.sid);
+
+  return createSession(user);
+}
+
+/**
+ * @summary
+ * Resolves the user behind an access token
+ *
+ * @function userVerifyToken
+ * @module services/user
+ *
+ * @param {string} token - Access token
+ *
+ * @returns {Promise<AuthUser | null>} Authenticated user or null if the token is invalid, expired or revoked
+ */
+export async function userVerifyToken(token: string): Promise<AuthUser | null> {
+  const payload = decodeToken(token);
+
+  if (!payload) {
+    return null;
+  }
+
+  /**
+   * @rule {be-user-session}
+   * A token is only valid while its session has not been ended by logout
+   */
+  const session = await getSessionRepository().findById(payload.sid);
+
+  if (!session || session.idUsuario !== payload.sub || session.dataExpiracao < new Date()) {
+    return null;
+  }
+
+  const user = await getUserRepository().findById(session.idUsuario);
+
+  return user ? toAuthUser(user) : null;
+}
+
+/**
+ * @summary
+ * Retrieves a user's public data by ID
+ *
+ * @function userGet
+ * @module services/user
+ *
+ * @param {string} id - User identifier
+ *
+ * @returns {Promise<AuthUser | null>} User or null if not found
+ */
+export async function userGet(id: string): Promise<AuthUser | null> {
+  const user = await getUserRepository().findById(id);
+  return user ? toAuthUser(user) : null;
+}
+
+/**
+ * @summary
+ * Updates a user's preferences
+ *
+ * @function userUpdatePreferences
+ * @module services/user
+ *
+ * @param {string} id - User identifier
+ * @param {UserPreferencesRequest} data - New preferences
+ *
+ * @returns {Promise<AuthUser | null>} Updated user or null if not found
+ */
+export async function userUpdatePreferences(
+  id: string,
+  data: UserPreferencesRequest
+): Promise<AuthUser | null> {
+  const user = await getUserRepository().findById(id);
+
+  if (!user) {
+    return null;
+  }
+
+  const updatedUser: UserEntity = {
+    ...user,
+    idioma: data.idioma,
+    dataAtualizacao: new Date(),
+  };
+
+  await getUserRepository().update(updatedUser);
+
+  return toAuthUser(updatedUser);
+}
+
+/**
+ * @summary
+ * Opens a session for a user and signs its access token
+ *
+ * @function createSession
+ * @module services/user
+ *
+ * @param {UserEntity} user - Authenticated user
+ *
+ * @returns {Promise<AuthResult>} Signed token and public user data
+ */
+async function createSession(user: UserEntity): Promise<AuthResult> {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + config.security.accessTokenTtl * 1000);
+  const sessionId = uuidv4();
+
+  await getSessionRepository().insert({
+    id: sessionId,
+    idUsuario: user.id,
+    dataCriacao: now,
+    dataExpiracao: expiresAt,
+  });
+
+  const token = jwt.sign({ sid: sessionId }, config.security.jwtSecret, {
+    subject: user.id,
+    expiresIn: config.security.accessTokenTtl,
+  });
+
+  return { token, expiresAt, user: toAuthUser(user) };
+}
+
+/**
+ * @summary
+ * Verifies an access token signature and expiry
+ *
+ * @function decodeToken
+ * @module services/user
+ *
+ * @param {string} token - Access token
+ *
+ * @returns {{ sub: string; sid: string } | null} Token claims or null if invalid
+ */
+function decodeToken(token: string): { sub: string; sid: string } | null {
+  try {
+    const payload = jwt.verify(token, config.security.jwtSecret);
+
+    if (typeof payload === 'string' || !payload.sub || typeof payload.sid !== 'string') {
+      return null;
+    }
+
+    return { sub: payload.sub, sid: payload.sid };
+  } catch {
+    return null;
+  }
+}
+
+function toAuthUser(user: UserEntity): AuthUser {
+  return { id: user.id, nome: user.nome, email: user.email, idioma: user.idioma };
+}
@@ -0,0 +1,148 @@
+/**
+ * @summary
+ * SQLite-backed user and session repositories.
+ * The tables are created by the schema migrations in `src/migrations`.
+ *
+ * @module services/user/userSqliteRepository
+ */
+
+import Database from 'better-sqlite3';
+import { Locale } from '@/constants';
+import { UserEntity, UserSession, UserRepository, SessionRepository } from './userTypes';
+
+/**
+ * @interface UserRow
+ * @description User row as stored in the `user` table
+ */
+interface UserRow {
+  id: string;
+  nome: string;
+  email: string;
+  senhaHash: string;
+  idioma: Locale | null;
+  dataCriacao: string;
+  dataAtualizacao: string;
+}
+
+/**
+ * @interface SessionRow
+ * @description Session row as stored in the `user_session` table
+ */
+interface SessionRow {
+  id: string;
+  idUsuario: string;
+  dataCriacao: string;
+  dataExpiracao: string;
+}
+
+function toUserEntity(row: UserRow): UserEntity {
+  return {
+    ...row,
+    dataCriacao: new Date(row.dataCriacao),
+    dataAtualizacao: new Date(row.dataAtualizacao),
+  };
+}
+
+function toUserSession(row: SessionRow): UserSession {
+  return {
+    ...row,
+    dataCriacao: new Date(row.dataCriacao),
+    dataExpiracao: new Date(row.dataExpiracao),
+  };
+}
+
+/**
+ * @summary
+ * Creates a user repository backed by the `user` table
+ *
+ * @function createSqliteUserRepository
+ * @module services/user
+ *
+ * @param {Database.Database} db - Open database connection
+ *
+ * @returns {UserRepository} SQLite user repository
+ */
+export function createSqliteUserRepository(db: Database.Database): UserRepository {
+  const selectById = db.prepare('SELECT * FROM user WHERE id = ?');
+  const selectByEmail = db.prepare('SELECT * FROM user WHERE email = ?');
+  const insertUser = db.prepare(`
+    INSERT INTO user (id, nome, email, senhaHash, idioma, dataCriacao, dataAtualizacao)
+    VALUES (@id, @nome, @email, @senhaHash, @idioma, @dataCriacao, @dataAtualizacao)
+  `);
+  const updateUser = db.prepare(`
+    UPDATE user
+       SET nome = @nome, email = @email, senhaHash = @senhaHash, idioma = @idioma,
+           dataAtualizacao = @dataAtualizacao
+     WHERE id = @id
+  `);
+
+  return {
+    async findById(id) {
+      const row = selectById.get(id) as UserRow | undefined;
+      return row ? toUserEntity(row) : null;
+    },
+
+    async findByEmail(email) {
+      const row = selectByEmail.get(email) as UserRow | undefined;
+      return row ? toUserEntity(row) : null;
+    },
+
+    async insert(user) {
+      insertUser.run({
+        ...user,
+        dataCriacao: user.dataCriacao.toISOString(),
+        dataAtualizacao: user.dataAtualizacao.toISOString(),
+      });
+    },
+
+    async update(user) {
+      updateUser.run({
+        id: user.id,
+        nome: user.nome,
+        email: user.email,
+        senhaHash: user.senhaHash,
+        idioma: user.idioma,
+        dataAtualizacao: user.dataAtualizacao.toISOString(),
+      });
+    },
+  };
+}
+
+/**
+ * @summary
+ * Creates a session repository backed by the `user_session` table
+ *
+ * @function createSqliteSessionRepository
+ * @module services/user
+ *
+ * @param {Database.Database} db - Open database connection
+ *
+ * @returns {SessionRepository} SQLite session repository
+ */
+export function createSqliteSessionRepository(db: Database.Database): SessionRepository {
+  const selectById = db.prepare('SELECT * FROM user_session WHERE id = ?');
+  const insertSession = db.prepare(`
+    INSERT INTO user_session (id, idUsuario, dataCriacao, dataExpiracao)
+    VALUES (@id, @idUsuario, @dataCriacao, @dataExpiracao)
+  `);
+  const deleteSession = db.prepare('DELETE FROM user_session WHERE id = ?');
+
+  return {
+    async findById(id) {
+      const row = selectById.get(id) as SessionRow | undefined;
+      return row ? toUserSession(row) : null;
+    },
+
+    async insert(session) {
+      insertSession.run({
+        ...session,
+        dataCriacao: session.dataCriacao.toISOString(),
+        dataExpiracao: session.dataExpiracao.toISOString(),
+      });
+    },
+
+    async remove(id) {
+      deleteSession.run(id);
+    },
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * @summary
+ * Type definitions for user accounts and authentication.
+ * Defines interfaces for users, sessions and authentication results.
+ *
+ * @module services/user/userTypes
+ */
+
+import { Locale } from '@/constants';
+
+/**
+ * @interface UserEntity
+ * @description Represents a user account in the system
+ *
+ * @property {string} id - Unique user identifier (UUID)
+ * @property {string} nome - Display name
+ * @property {string} email - Login e-mail, stored lowercase
+ * @property {string} senhaHash - Bcrypt password hash
+ * @property {Locale | null} idioma - Preferred language, or null to follow the client's
+ * @property {Date} dataCriacao - Creation timestamp
+ * @property {Date} dataAtualizacao - Last update timestamp
+ */
+export interface UserEntity {
+  id: string;
+  nome: string;
+  email: string;
+  senhaHash: string;
+  idioma: Locale | null;
+  dataCriacao: Date;
+  dataAtualizacao: Date;
+}
+
+/**
+ * @interface UserSession
+ * @description Represents an active login session backing an access token
+ *
+ * @property {string} id - Session identifier, embedded in the token
+ * @property {string} idUsuario - Owner user identifier
+ * @property {Date} dataCriacao - Login timestamp
+ * @property {Date} dataExpiracao - Session expiry timestamp
+ */
+export interface UserSession {
+  id: string;
+  idUsuario: string;
+  dataCriacao: Date;
+  dataExpiracao: Date;
+}
+
+/**
+ * @interface AuthUser
+ * @description Public user data exposed to clients and request handlers
+ *
+ * @property {string} id - User identifier
+ * @property {string} nome - Display name
+ * @property {string} email - Login e-mail
+ * @property {Locale | null} idioma - Preferred language, or null to follow the client's
+ */
+export interface AuthUser {
+  id: string;
+  nome: string;
+  email: string;
+  idioma: Locale | null;
+}
+
+/**
+ * @interface AuthResult
+ * @description Result of a successful registration or login
+ *
+ * @property {string} token - Signed access token
+ * @property {Date} expiresAt - Token expiry timestamp
+ * @property {AuthUser} user - Authenticated user
+ */
+export interface AuthResult {
+  token: string;
+  expiresAt: Date;
+  user: AuthUser;
+}
+
+/**
+ * @interface UserRegisterRequest
+ * @description Parameters for registering a new user
+ *
+ * @property {string} nome - Display name
+ * @property {string} email - Login e-mail
+ * @property {string} senha - Plain-text password
+ */
+export interface UserRegisterRequest {
+  nome: string;
+  email: string;
+  senha: string;
+}
+
+/**
+ * @interface UserLoginRequest
+ * @description Parameters for logging in
+ *
+ * @property {string} email - Login e-mail
+ * @property {string} senha - Plain-text password
+ */
+export interface UserLoginRequest {
+  email: string;
+  senha: string;
+}
+
+/**
+ * @interface UserPreferencesRequest
+ * @description Parameters for updating a user's preferences
+ *
+ * @property {Locale | null} idioma - Preferred language, or null to follow the client's
+ */
+export interface UserPreferencesRequest {
+  idioma: Locale | null;
+}
+
+/**
+ * @interface UserRepository
+ * @description Storage contract for user accounts
+ *
+ * @property {Function} findById - Returns a user by identifier or null
+ * @property {Function} findByEmail - Returns a user by e-mail or null
+ * @property {Function} insert - Stores a new user
+ * @property {Function} update - Replaces a stored user
+ */
+export interface UserRepository {
+  findById(id: string): Promise<UserEntity | null>;
+  findByEmail(email: string): Promise<UserEntity | null>;
+  insert(user: UserEntity): Promise<void>;
+  update(user: UserEntity): Promise<void>;
+}
+
+/**
+ * @interface SessionRepository
+ * @description Storage contract for login sessions
+ *
+ * @property {Function} findById - Returns a session by identifier or null
+ * @property {Function} insert - Stores a new session
+ * @property {Function} remove - Removes a session
+ */
+export interface SessionRepository {
+  findById(id: string): Promise<UserSession | null>;
+  insert(session: UserSession): Promise<void>;
+  remove(id: string): Promise<void>;
+}
@@ -0,0 +1,226 @@
+/**
+ * @summary
+ * Calendar and time zone utilities built on the Intl API.
+ * Converts between absolute instants and wall-clock times in IANA time zones.
+ *
+ * @module utils/date
+ */
+
+/**
+ * @interface ZonedDateTime
+ * @description Wall-clock date and time in a time zone
+ *
+ * @property {number} year - Full year
+ * @property {number} month - Month (1-12)
+ * @property {number} day - Day of month (1-31)
+ * @property {number} hours - Hours (0-23)
+ * @property {number} minutes - Minutes (0-59)
+ * @property {number} seconds - Seconds (0-59)
+ */
+export interface ZonedDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+}
+
+/**
+ * @summary
+ * Checks whether a string is an IANA time zone known to the runtime
+ *
+ * @function isValidTimeZone
+ * @module utils/date
+ *
+ * @param {string} timeZone - Time zone name, e.g. America/Sao_Paulo
+ *
+ * @returns {boolean} True when the time zone can be used for conversions
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * @summary
+ * Resolves the time zone the server runs in
+ *
+ * @function getLocalTimeZone
+ * @module utils/date
+ *
+ * @returns {string} IANA time zone name
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * @summary
+ * Checks whether a day exists in the Gregorian calendar
+ *
+ * @function isValidCalendarDate
+ * @module utils/date
+ *
+ * @param {number} year - Full year
+ * @param {number} month - Month (1-12)
+ * @param {number} day - Day of month
+ *
+ * @returns {boolean} False for impossible dates such as 31/02
+ */
+export function isValidCalendarDate(year: number, month: number, day: number): boolean {
+  if (![year, month, day].every(Number.isInteger) || year < 1 || month < 1 || month > 12) {
+    return false;
+  }
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return day >= 1 && day <= daysInMonth;
+}
+
+/**
+ * @summary
+ * Checks whether hours and minutes form a valid wall-clock time
+ *
+ * @function isValidTime
+ * @module utils/date
+ *
+ * @param {number} hours - Hours
+ * @param {number} minutes - Minutes
+ *
+ * @returns {boolean} True for 00:00 through 23:59
+ */
+export function isValidTime(hours: number, minutes: number): boolean {
+  return (
+    Number.isInteger(hours) &&
+    Number.isInteger(minutes) &&
+    hours >= 0 &&
+    hours <= 23 &&
+    minutes >= 0 &&
+    minutes <= 59
+  );
+}
+
+/**
+ * @summary
+ * Resolves the wall-clock time of an instant in a time zone
+ *
+ * @function getZonedParts
+ * @module utils/date
+ *
+ * @param {Date} date - Instant
+ * @param {string} timeZone - IANA time zone name
+ *
+ * @returns {ZonedDateTime} Wall-clock date and time
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateTime {
+  const values: Record<string, number> = {};
+
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      values[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hours: values.hour,
+    minutes: values.minute,
+    seconds: values.second,
+  };
+}
+
+function getTimeZoneOffset(timestamp: number, timeZone: string): number {
+  const parts = getZonedParts(new Date(timestamp), timeZone);
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hours,
+    parts.minutes,
+    parts.seconds
+  );
+
+  return wallClock - (timestamp - (((timestamp % 1000) + 1000) % 1000));
+}
+
+/**
+ * @summary
+ * Resolves the instant a wall-clock time happens in a time zone
+ *
+ * @function zonedTimeToUtc
+ * @module utils/date
+ *
+ * @param {ZonedDateTime} parts - Wall-clock date and time; out-of-range values roll over
+ * @param {string} timeZone - IANA time zone name
+ *
+ * @returns {Date} Instant; times skipped by a daylight saving change move forward by the gap
+ */
+export function zonedTimeToUtc(parts: ZonedDateTime, timeZone: string): Date {
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hours,
+    parts.minutes,
+    parts.seconds
+  );
+
+  const offset = getTimeZoneOffset(wallClock, timeZone);
+  let timestamp = wallClock - offset;
+  const correctedOffset = getTimeZoneOffset(timestamp, timeZone);
+
+  if (correctedOffset !== offset) {
+    timestamp = wallClock - correctedOffset;
+  }
+
+  return new Date(timestamp);
+}
+
+/**
+ * @summary
+ * Formats the calendar day of an instant in a time zone
+ *
+ * @function toZonedDateKey
+ * @module utils/date
+ *
+ * @param {Date} date - Instant
+ * @param {string} timeZone - IANA time zone name
+ *
+ * @returns {string} Day in YYYY-MM-DD format, comparable as a string
+ */
+export function toZonedDateKey(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return [
+    String(year).padStart(4, '0'),
+    String(month).padStart(2, '0'),
+    String(day).padStart(2, '0'),
+  ].join('-');
+}
@@ -0,0 +1,120 @@
+/**
+ * @summary
+ * Domain error hierarchy.
+ * Services throw these errors with a code from the error catalog; the error middleware turns
+ * them into responses with the HTTP status of their class and the message of the code in the
+ * locale of the request.
+ *
+ * @module utils/errors
+ */
+
+import { DEFAULT_LOCALE, ErrorCode } from '@/constants';
+import { formatErrorMessage, MessageParams } from '@/utils/i18n';
+
+/**
+ * @summary
+ * Base class of the errors a request can fail with
+ *
+ * @class DomainError
+ * @module utils/errors
+ *
+ * @property {ErrorCode} code - Stable error code from the catalog
+ * @property {number} statusCode - HTTP status of the response
+ * @property {MessageParams} params - Values of the placeholders of the message (optional)
+ * @property {any} details - Additional error details (optional)
+ */
+export class DomainError extends Error {
+  readonly code: ErrorCode;
+  readonly statusCode: number;
+  readonly params?: MessageParams;
+  readonly details?: any;
+
+  constructor(code: ErrorCode, statusCode: number, params?: MessageParams, details?: any) {
+    super(formatErrorMessage(code, DEFAULT_LOCALE, params));
+    this.name = new.target.name;
+    this.code = code;
+    this.statusCode = statusCode;
+    this.params = params;
+    this.details = details;
+  }
+}
+
+/**
+ * @summary
+ * Input that breaks a business rule (400)
+ *
+ * @class ValidationError
+ * @module utils/errors
+ */
+export class ValidationError extends DomainError {
+  constructor(code: ErrorCode, params?: MessageParams, details?: any) {
+    super(code, 400, params, details);
+  }
+}
+
+/**
+ * @summary
+ * Missing or invalid credentials (401)
+ *
+ * @class UnauthorizedError
+ * @module utils/errors
+ */
+export class UnauthorizedError extends DomainError {
+  constructor(code: ErrorCode, params?: MessageParams, details?: any) {
+    super(code, 401, params, details);
+  }
+}
+
+/**
+ * @summary
+ * Action the authenticated user may not take on an existing resource (403)
+ *
+ * @class ForbiddenError
+ * @module utils/errors
+ */
+export class ForbiddenError extends DomainError {
+  constructor(code: ErrorCode, params?: MessageParams, details?: any) {
+    super(code, 403, params, details);
+  }
+}
+
+/**
+ * @summary
+ * Resource that does not exist or belongs to another user (404)
+ *
+ * @class NotFoundError
+ * @module utils/errors
+ */
+export class NotFoundError extends DomainError {
+  constructor(code: ErrorCode, params?: MessageParams, details?: any) {
+    super(code, 404, params, details);
+  }
+}
+
+/**
+ * @summary
+ * Request that conflicts with the current state of a resource (409)
+ *
+ * @class ConflictError
+ * @module utils/errors
+ */
+export class ConflictError extends DomainError {
+  constructor(code: ErrorCode, params?: MessageParams, details?: any) {
+    super(code, 409, params, details);
+  }
+}
+
+/**
+ * @summary
+ * Status change the task workflow does not allow from the current status (409)
+ *
+ * @class ForbiddenTransitionError
+ * @module utils/errors
+ *
+ * @property {any} details - Current and requested status: `{ de, para }`
+ */
+export class ForbiddenTransitionError extends ConflictError {
+  constructor(de: string, para: string) {
+    super('alteracaoNaoPermitida', { de, para }, { de, para });
+  }
+}
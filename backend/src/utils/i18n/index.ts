@@ -0,0 +1,86 @@
+/**
+ * @summary
+ * Localization helpers.
+ * Picks the locale a request is answered in and renders catalog messages in it.
+ *
+ * @module utils/i18n
+ */
+
+import { DEFAULT_LOCALE, LOCALES, Locale } from '@/constants';
+
+export { formatErrorMessage, isErrorCode } from '@taskmanager/shared';
+export type { MessageParams } from '@taskmanager/shared';
+
+/**
+ * @summary
+ * Checks whether a value is a supported locale
+ *
+ * @function isLocale
+ * @module utils/i18n
+ *
+ * @param {unknown} value - Value to check
+ *
+ * @returns {boolean} True when the value is one of `LOCALES`
+ */
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+/**
+ * @summary
+ * Finds the supported locale an `Accept-Language` header prefers
+ *
+ * @function parseAcceptLanguage
+ * @module utils/i18n
+ *
+ * @param {string} [header] - Header value, e.g. `en-GB,en;q=0.9,pt;q=0.5`
+ *
+ * @returns {Locale | null} Best supported locale or null if none is accepted
+ */
+export function parseAcceptLanguage(header?: string): Locale | null {
+  if (!header) return null;
+
+  const ranges = header
+    .split(',')
+    .map((part) => {
+      const [tag, ...attributes] = part.trim().split(';');
+      const quality = attributes
+        .map((attribute) => attribute.trim())
+        .find((attribute) => attribute.startsWith('q='));
+      return { tag: tag.trim().toLowerCase(), q: quality ? Number(quality.slice(2)) : 1 };
+    })
+    .filter((range) => range.tag && range.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  /**
+   * @rule {be-localization}
+   * An exact tag wins; otherwise the language alone picks its supported variant, so `en-GB`
+   * and `pt` are answered in en-US and pt-BR
+   */
+  for (const { tag } of ranges) {
+    const language = tag.split('-')[0];
+    const locale =
+      LOCALES.find((supported) => supported.toLowerCase() === tag) ??
+      LOCALES.find((supported) => supported.split('-')[0].toLowerCase() === language);
+
+    if (locale) return locale;
+  }
+
+  return null;
+}
+
+/**
+ * @summary
+ * Resolves the locale of a response
+ *
+ * @function resolveLocale
+ * @module utils/i18n
+ *
+ * @param {Locale | null} [preference] - Language chosen by the authenticated user
+ * @param {string} [acceptLanguage] - `Accept-Language` header of the request
+ *
+ * @returns {Locale} The user's preference, else the header's best match, else the default
+ */
+export function resolveLocale(preference?: Locale | null, acceptLanguage?: string): Locale {
+  return preference ?? parseAcceptLanguage(acceptLanguage) ?? DEFAULT_LOCALE;
+}
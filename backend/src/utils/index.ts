@@ -8,3 +8,8 @@
 
 export * from './response';
 export * from './validation';
+export * from './sanitize';
+export * from './date';
+export * from './i18n';
+export * from './errors';
+export * from './openapi';
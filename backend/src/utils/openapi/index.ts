@@ -0,0 +1,311 @@
+/**
+ * @summary
+ * OpenAPI document generation.
+ * Builds an OpenAPI 3.1 document from the zod schemas each controller declares for its routes,
+ * walking the Express routers so the document lists exactly the registered routes.
+ *
+ * @module utils/openapi
+ */
+
+import { STATUS_CODES } from 'http';
+import { RequestHandler, Router } from 'express';
+import { z } from 'zod';
+import { zDateString } from '@/utils/validation';
+
+/**
+ * @interface RouteSchema
+ * @description Schemas of the request and response of a route handler
+ *
+ * @property {string} summary - Short description of the route
+ * @property {string} [description] - Longer explanation of the route behavior
+ * @property {z.ZodType} [params] - Path parameters
+ * @property {z.ZodType} [query] - Query string parameters
+ * @property {z.ZodType} [body] - Request body
+ * @property {string} [bodyType] - Media type of the body; defaults to `application/json`
+ * @property {number} [status] - Status of a successful response; defaults to 200
+ * @property {z.ZodType} response - Body of a successful response
+ * @property {string} [responseType] - Media type of the response; defaults to `application/json`
+ */
+export interface RouteSchema {
+  summary: string;
+  description?: string;
+  params?: z.ZodType;
+  query?: z.ZodType;
+  body?: z.ZodType;
+  bodyType?: string;
+  status?: number;
+  response: z.ZodType;
+  responseType?: string;
+}
+
+/**
+ * @interface HandlerSchema
+ * @description Route schema bound to its handler and the document section it is listed under
+ *
+ * @property {RequestHandler} handler - Controller handler the schema describes
+ * @property {string} tag - Section of the document, e.g. `Task`
+ */
+export interface HandlerSchema extends RouteSchema {
+  handler: RequestHandler;
+  tag: string;
+}
+
+/**
+ * @interface OpenApiMount
+ * @description Router whose routes are documented, and where it is mounted
+ *
+ * @property {string} path - Mount path relative to the server URL, e.g. `/internal`
+ * @property {Router} router - Express router
+ * @property {boolean} [authenticated] - Whether its routes require a bearer token
+ */
+export interface OpenApiMount {
+  path: string;
+  router: Router;
+  authenticated?: boolean;
+}
+
+/**
+ * @interface ApiRoute
+ * @description Route registered on a router
+ *
+ * @property {string} method - Lowercase HTTP method
+ * @property {string} path - Express path including the mount path, e.g. `/internal/task/:id`
+ * @property {RequestHandler} handler - Last handler of the route
+ * @property {boolean} authenticated - Whether the route requires a bearer token
+ */
+export interface ApiRoute {
+  method: string;
+  path: string;
+  handler: RequestHandler;
+  authenticated: boolean;
+}
+
+/**
+ * @interface OpenApiInfo
+ * @description Metadata of the document
+ */
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+  serverUrl: string;
+}
+
+/**
+ * @validation Body of every error response
+ */
+export const errorResponseSchema = z.object({
+  success: z.literal(false),
+  error: z.object({
+    code: z.string().describe('Stable error code'),
+    message: z.string().describe('Message in the language of the request'),
+    details: z.unknown().optional().describe('Validation issues or error specific data'),
+  }),
+  timestamp: zDateString,
+});
+
+/**
+ * @summary
+ * Describes the body of a success response around its data
+ *
+ * @function successSchema
+ * @module utils/openapi
+ *
+ * @param {z.ZodType} data - Schema of `data`
+ * @param {z.ZodRawShape} [metadata] - Fields added to `metadata` besides the timestamp
+ *
+ * @returns {z.ZodType} Schema of the response body
+ */
+export function successSchema(data: z.ZodType, metadata: z.ZodRawShape = {}): z.ZodType {
+  return z.object({
+    success: z.literal(true),
+    data,
+    metadata: z.object({ timestamp: zDateString, ...metadata }),
+  });
+}
+
+/**
+ * @summary
+ * Binds route schemas to their handlers under a document section
+ *
+ * @function describeRoutes
+ * @module utils/openapi
+ *
+ * @param {string} tag - Section of the document
+ * @param {Array} routes - Route schemas, each with its handler
+ *
+ * @returns {HandlerSchema[]} Schemas ready to be registered in the document
+ */
+export function describeRoutes(
+  tag: string,
+  routes: (RouteSchema & { handler: RequestHandler })[]
+): HandlerSchema[] {
+  return routes.map((route) => ({ ...route, tag }));
+}
+
+/**
+ * @summary
+ * Lists the routes registered on the mounted routers
+ *
+ * @function listRoutes
+ * @module utils/openapi
+ *
+ * @param {OpenApiMount[]} mounts - Routers and their mount paths
+ *
+ * @returns {ApiRoute[]} One entry per method of each route, in registration order
+ */
+export function listRoutes(mounts: OpenApiMount[]): ApiRoute[] {
+  return mounts.flatMap((mount) =>
+    mount.router.stack
+      .filter((layer) => layer.route)
+      .flatMap((layer) => {
+        const route = layer.route as any;
+        const handler = route.stack[route.stack.length - 1].handle as RequestHandler;
+
+        return Object.keys(route.methods).map((method) => ({
+          method,
+          path: `${mount.path}${route.path}`,
+          handler,
+          authenticated: !!mount.authenticated,
+        }));
+      })
+  );
+}
+
+/**
+ * @summary
+ * Finds the registered routes whose handler has no schema
+ *
+ * @function findUndocumentedRoutes
+ * @module utils/openapi
+ *
+ * @param {OpenApiMount[]} mounts - Routers and their mount paths
+ * @param {HandlerSchema[]} schemas - Schemas declared by the controllers
+ *
+ * @returns {ApiRoute[]} Routes missing from the document
+ */
+export function findUndocumentedRoutes(
+  mounts: OpenApiMount[],
+  schemas: HandlerSchema[]
+): ApiRoute[] {
+  const documented = new Set(schemas.map((schema) => schema.handler));
+
+  return listRoutes(mounts).filter((route) => !documented.has(route.handler));
+}
+
+/**
+ * @summary
+ * Converts a zod schema to a JSON Schema (draft 2020-12, the dialect of OpenAPI 3.1)
+ */
+function toJsonSchema(schema: z.ZodType, io: 'input' | 'output'): Record<string, any> {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema, {
+    io,
+    unrepresentable: 'any',
+    reused: 'inline',
+  });
+
+  return jsonSchema;
+}
+
+/**
+ * @summary
+ * Converts an object schema to OpenAPI parameters
+ */
+function toParameters(schema: z.ZodType, location: 'path' | 'query'): Record<string, any>[] {
+  const jsonSchema = toJsonSchema(schema, 'input');
+  const required: string[] = jsonSchema.required ?? [];
+
+  return Object.entries<Record<string, any>>(jsonSchema.properties ?? {}).map(
+    ([name, { description, ...property }]) => ({
+      name,
+      in: location,
+      required: location === 'path' || required.includes(name),
+      ...(description && { description }),
+      schema: property,
+    })
+  );
+}
+
+/**
+ * @summary
+ * Builds the OpenAPI 3.1 document of the mounted routers
+ *
+ * @function buildOpenApiDocument
+ * @module utils/openapi
+ *
+ * @param {OpenApiInfo} info - Title, version and server URL of the API
+ * @param {OpenApiMount[]} mounts - Routers and their mount paths
+ * @param {HandlerSchema[]} schemas - Schemas declared by the controllers
+ *
+ * @returns {object} OpenAPI document; routes without a schema are left out
+ */
+export function buildOpenApiDocument(
+  info: OpenApiInfo,
+  mounts: OpenApiMount[],
+  schemas: HandlerSchema[]
+): Record<string, any> {
+  const schemaByHandler = new Map(schemas.map((schema) => [schema.handler, schema]));
+  const paths: Record<string, Record<string, any>> = {};
+
+  for (const route of listRoutes(mounts)) {
+    const schema = schemaByHandler.get(route.handler);
+    if (!schema) continue;
+
+    const status = schema.status ?? 200;
+    const path = route.path.replace(/:(\w+)/g, '{$1}');
+
+    paths[path] = paths[path] ?? {};
+    paths[path][route.method] = {
+      tags: [schema.tag],
+      summary: schema.summary,
+      ...(schema.description && { description: schema.description }),
+      ...(route.authenticated && { security: [{ bearerAuth: [] }] }),
+      parameters: [
+        ...(schema.params ? toParameters(schema.params, 'path') : []),
+        ...(schema.query ? toParameters(schema.query, 'query') : []),
+      ],
+      ...(schema.body && {
+        requestBody: {
+          required: true,
+          content: {
+            [schema.bodyType ?? 'application/json']: {
+              schema: toJsonSchema(schema.body, 'input'),
+            },
+          },
+        },
+      }),
+      responses: {
+        [status]: {
+          description: STATUS_CODES[status],
+          content: {
+            [schema.responseType ?? 'application/json']: {
+              schema: toJsonSchema(schema.response, 'output'),
+            },
+          },
+        },
+        default: {
+          description: 'Error',
+          content: {
+            'application/json': { schema: toJsonSchema(errorResponseSchema, 'output') },
+          },
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: info.title,
+      version: info.version,
+      ...(info.description && { description: info.description }),
+    },
+    servers: [{ url: info.serverUrl }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from '@jest/globals';
+import { sanitizeMarkdown } from './index';
+
+describe('sanitizeMarkdown', () => {
+  it('keeps plain markdown as written', () => {
+    const markdown = '# Título\n\n- **item** com [link](https://example.com)\n> citação';
+    expect(sanitizeMarkdown(markdown)).toBe(markdown);
+  });
+
+  it('removes raw HTML tags but keeps their text', () => {
+    expect(sanitizeMarkdown('<b>negrito</b> e <span class="x">texto</span>')).toBe(
+      'negrito e texto'
+    );
+  });
+
+  it('removes script-capable elements with their contents', () => {
+    expect(sanitizeMarkdown('antes<script>alert(1)</script>depois')).toBe('antesdepois');
+    expect(sanitizeMarkdown('a<svg onload="alert(1)"><circle/></svg>b')).toBe('ab');
+    expect(sanitizeMarkdown('a<iframe src="x">')).toBe('a');
+  });
+
+  it('removes HTML comments', () => {
+    expect(sanitizeMarkdown('a<!-- oculto -->b')).toBe('ab');
+  });
+
+  it('does not let removing a tag assemble a new one', () => {
+    expect(sanitizeMarkdown('<scr<script></script>ipt>alert(1)</script>')).not.toMatch(
+      /<script/i
+    );
+    expect(sanitizeMarkdown('<<b>img src=x onerror=alert(1)>')).not.toMatch(/<img/i);
+  });
+
+  it('neutralizes unsafe link targets', () => {
+    expect(sanitizeMarkdown('[clique](javascript:alert(1))')).toBe('[clique](#)');
+    expect(sanitizeMarkdown('[a](  JavaScript :alert(1))')).toBe('[a](#)');
+    expect(sanitizeMarkdown('[img](data:text/html;base64,PHNjcmlwdD4=)')).toBe('[img](#)');
+    expect(sanitizeMarkdown('<javascript:alert(1)>')).toBe('');
+    expect(sanitizeMarkdown('[ref]: vbscript:msgbox')).toBe('[ref]: #');
+  });
+
+  it('keeps safe link targets', () => {
+    expect(sanitizeMarkdown('[a](https://example.com/a_(b))')).toBe(
+      '[a](https://example.com/a_(b))'
+    );
+    expect(sanitizeMarkdown('<https://example.com>')).toBe('<https://example.com>');
+  });
+
+  it('keeps inline code and fenced code blocks untouched', () => {
+    expect(sanitizeMarkdown('use `<script>` com cuidado')).toBe('use `<script>` com cuidado');
+
+    const block = '```html\n<script>alert(1)</script>\n```';
+    expect(sanitizeMarkdown(`antes <b>x</b>\n${block}\ndepois <i>y</i>`)).toBe(
+      `antes x\n${block}\ndepois y`
+    );
+  });
+
+  it('sanitizes what follows an unclosed fence as code', () => {
+    expect(sanitizeMarkdown('~~~\n<b>x</b>')).toBe('~~~\n<b>x</b>');
+  });
+
+  it('normalizes line breaks, drops null characters and trims', () => {
+    expect(sanitizeMarkdown('  a\r\nb\rc\0d  ')).toBe('a\nb\ncd');
+  });
+});
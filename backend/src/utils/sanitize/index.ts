@@ -0,0 +1,91 @@
+/**
+ * @summary
+ * Sanitization of user-written markdown.
+ * Removes raw HTML and script-capable link targets from prose while keeping code spans and
+ * fenced code blocks untouched, so the stored text stays readable markdown.
+ *
+ * @module utils/sanitize
+ */
+
+/**
+ * @rule {be-markdown-sanitization}
+ * Fenced code blocks and inline code spans are shown literally by markdown renderers
+ */
+const CODE_PATTERN = /(^|\n)(```|~~~)[^\n]*\n[\s\S]*?(\n\2[^\n]*(?=\n|$)|$)|`[^`\n]+`/g;
+
+/**
+ * @rule {be-markdown-sanitization}
+ * Elements whose contents must go with their tags
+ */
+const DANGEROUS_ELEMENT_PATTERN =
+  /<(script|style|iframe|object|embed|svg|math|template|noscript)\b[\s\S]*?(<\/\1\s*>|$)/gi;
+
+const COMMENT_PATTERN = /<!--[\s\S]*?(-->|$)/g;
+const TAG_PATTERN = /<\/?[a-z][\w:-]*(\s[^<>]*)?\/?>/gi;
+const UNSAFE_SCHEME = '(?:javascript|vbscript|data|file)\\s*:';
+const UNSAFE_AUTOLINK_PATTERN = new RegExp(`<\\s*${UNSAFE_SCHEME}[^>]*>`, 'gi');
+const UNSAFE_INLINE_LINK_PATTERN = new RegExp(
+  `\\]\\(\\s*<?\\s*${UNSAFE_SCHEME}(?:[^()]|\\([^()]*\\))*\\)`,
+  'gi'
+);
+const UNSAFE_REFERENCE_LINK_PATTERN = new RegExp(
+  `^(\\s{0,3}\\[[^\\]]+\\]:\\s*)<?\\s*${UNSAFE_SCHEME}\\S*`,
+  'gim'
+);
+
+/**
+ * @summary
+ * Removes raw HTML and unsafe link targets from a stretch of markdown prose
+ *
+ * @function sanitizeProse
+ * @module utils/sanitize
+ *
+ * @param {string} text - Markdown without code
+ *
+ * @returns {string} Sanitized markdown
+ */
+function sanitizeProse(text: string): string {
+  let previous: string;
+  let result = text;
+
+  /**
+   * @rule {be-markdown-sanitization}
+   * Repeat until nothing changes, so removing a tag cannot join its surroundings into a new one
+   */
+  do {
+    previous = result;
+    result = result
+      .replace(COMMENT_PATTERN, '')
+      .replace(DANGEROUS_ELEMENT_PATTERN, '')
+      .replace(UNSAFE_AUTOLINK_PATTERN, '')
+      .replace(TAG_PATTERN, '')
+      .replace(UNSAFE_INLINE_LINK_PATTERN, '](#)')
+      .replace(UNSAFE_REFERENCE_LINK_PATTERN, '$1#');
+  } while (result !== previous);
+
+  return result;
+}
+
+/**
+ * @summary
+ * Sanitizes user-written markdown before it is stored
+ *
+ * @function sanitizeMarkdown
+ * @module utils/sanitize
+ *
+ * @param {string} markdown - Markdown as written by the user
+ *
+ * @returns {string} Markdown without raw HTML or script-capable links, trimmed
+ */
+export function sanitizeMarkdown(markdown: string): string {
+  const text = markdown.replace(/\r\n?/g, '\n').replace(/\0/g, '');
+  let result = '';
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CODE_PATTERN)) {
+    result += sanitizeProse(text.slice(lastIndex, match.index)) + match[0];
+    lastIndex = match.index! + match[0].length;
+  }
+
+  return (result + sanitizeProse(text.slice(lastIndex))).trim();
+}
@@ -7,6 +7,8 @@
  */
 
 import { z } from 'zod';
+import { setIssueMessages } from '@taskmanager/shared';
+import { ErrorCode } from '@/constants';
 
 /**
  * @rule {be-zod-validation}
@@ -39,3 +41,42 @@ export const zPositiveInt = z.number().int().positive();
  * Validates non-negative integer
  */
 export const zNonNegativeInt = z.number().int().min(0);
+
+/**
+ * @summary
+ * Catalog code of a zod issue raised by a schema that gives it no message of its own
+ *
+ * @function getIssueCode
+ * @module utils/validation
+ *
+ * @param {z.core.$ZodRawIssue} issue - Issue being reported
+ *
+ * @returns {ErrorCode} `campoObrigatorio` for a missing field, else the code of the issue kind
+ */
+export function getIssueCode(issue: z.core.$ZodRawIssue): ErrorCode {
+  switch (issue.code) {
+    case 'invalid_type':
+      return issue.input === undefined ? 'campoObrigatorio' : 'campoTipoInvalido';
+    case 'too_small':
+      return 'campoAbaixoDoMinimo';
+    case 'too_big':
+      return 'campoAcimaDoMaximo';
+    default:
+      return 'campoInvalido';
+  }
+}
+
+/**
+ * @summary
+ * Makes every zod issue carry a catalog code as its message, on the backend zod and on the one
+ * the shared schemas are built with
+ *
+ * @function configureIssueMessages
+ * @module utils/validation
+ *
+ * @returns {void}
+ */
+export function configureIssueMessages(): void {
+  z.config({ customError: getIssueCode });
+  setIssueMessages(getIssueCode);
+}
@@ -1,4 +1,6 @@
 import axios from 'axios';
+import { useAuthStore, type AuthSession } from '@/core/stores/auth';
+import { toApiError } from './errors';
 
 export const apiConfig = {
   baseUrl: import.meta.env.VITE_API_URL,
@@ -14,16 +16,63 @@ export const apiConfig = {
 export const publicClient = axios.create({ baseURL: apiConfig.externalUrl });
 export const authenticatedClient = axios.create({ baseURL: apiConfig.internalUrl });
 
-authenticatedClient.interceptors.request.use((config) => {
-  const token = localStorage.getItem('auth_token');
+/**
+ * Tokens closer than this to their expiry are exchanged before the request is sent.
+ */
+const REFRESH_THRESHOLD_MS = 5 * 60 * 1000;
+
+let refreshPromise: Promise<string | null> | null = null;
+
+const refreshToken = (token: string) => {
+  refreshPromise ??= publicClient
+    .post<{ data: AuthSession }>('/auth/refresh', null, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+    .then(({ data }) => {
+      useAuthStore.getState().setSession(data.data);
+      return data.data.token;
+    })
+    .catch(() => null)
+    .finally(() => {
+      refreshPromise = null;
+    });
+
+  return refreshPromise;
+};
+
+export const redirectToLogin = () => {
+  const { pathname, search } = window.location;
+  if (pathname === '/login') return;
+  window.location.href = `/login?redirect=${encodeURIComponent(pathname + search)}`;
+};
+
+authenticatedClient.interceptors.request.use(async (config) => {
+  let { token } = useAuthStore.getState();
+  const { expiresAt } = useAuthStore.getState();
+
+  if (token && expiresAt && new Date(expiresAt).getTime() - Date.now() < REFRESH_THRESHOLD_MS) {
+    token = (await refreshToken(token)) ?? token;
+  }
+
   if (token) config.headers.Authorization = `Bearer ${token}`;
   return config;
 });
 
+/**
+ * Failed requests reject with an `ApiError` carrying the code and details sent by the API.
+ */
+publicClient.interceptors.response.use(
+  (res) => res,
+  (error) => Promise.reject(toApiError(error)),
+);
+
 authenticatedClient.interceptors.response.use(
   (res) => res,
   (error) => {
-    if (error.response?.status === 401) window.location.href = '/login';
-    return Promise.reject(error);
+    if (error.response?.status === 401) {
+      useAuthStore.getState().clearSession();
+      redirectToLogin();
+    }
+    return Promise.reject(toApiError(error));
   },
 );
@@ -0,0 +1,99 @@
+import axios from 'axios';
+
+/**
+ * Validation issue reported by the API in `error.details`: the zod issue of a request field, with
+ * its catalog code in `errorCode` and the message in the language of the user in `message`.
+ */
+export interface ApiErrorIssue {
+  path: (string | number)[];
+  message: string;
+  code?: string;
+  errorCode?: string;
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * Messages of the errors raised by the client itself, which the API never answers with. The API
+ * sends the message of every other error already localized.
+ */
+const CLIENT_ERROR_MESSAGES: Record<string, string> = {
+  NETWORK_ERROR: 'Não foi possível conectar ao servidor',
+};
+
+/**
+ * Error of a request to the API, carrying the stable code of the error and the validation issues
+ * of the request fields.
+ */
+export class ApiError extends Error {
+  readonly status: number | null;
+  readonly code: string;
+  readonly details: unknown;
+
+  constructor(message: string, code: string, status: number | null, details?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+
+  /**
+   * Validation issues of the request fields, empty for errors that are not about a field.
+   */
+  get issues(): ApiErrorIssue[] {
+    if (this.code !== 'VALIDATION_ERROR' || !Array.isArray(this.details)) return [];
+    return this.details.filter(
+      (issue): issue is ApiErrorIssue => Array.isArray(issue?.path) && !!issue.path.length,
+    );
+  }
+
+  /**
+   * Message of the first validation issue of each field, keyed by the field name.
+   */
+  get fieldErrors(): Record<string, string> {
+    const fieldErrors: Record<string, string> = {};
+
+    for (const issue of this.issues) {
+      const field = String(issue.path[0]);
+      fieldErrors[field] ??= issue.message;
+    }
+
+    return fieldErrors;
+  }
+}
+
+/**
+ * Turns an axios error into an `ApiError` with the code and message of the response body.
+ */
+export function toApiError(error: unknown): unknown {
+  if (!axios.isAxiosError(error) || axios.isCancel(error)) return error;
+
+  if (!error.response) {
+    return new ApiError(error.message, 'NETWORK_ERROR', null);
+  }
+
+  const body = error.response.data?.error;
+
+  return new ApiError(
+    body?.message || error.message,
+    body?.code || 'HTTP_ERROR',
+    error.response.status,
+    body?.details,
+  );
+}
+
+/**
+ * Message to show for a failed request: the message of its first field issue, else the one sent
+ * by the API; server failures and responses without a code use the fallback.
+ */
+export function getApiErrorMessage(error: unknown, fallback: string): string {
+  if (!(error instanceof ApiError) || (error.status ?? 0) >= 500) return fallback;
+
+  const [issue] = error.issues;
+  if (issue) return issue.message;
+
+  if (CLIENT_ERROR_MESSAGES[error.code]) return CLIENT_ERROR_MESSAGES[error.code];
+
+  return error.code === 'HTTP_ERROR' ? fallback : error.message;
+}
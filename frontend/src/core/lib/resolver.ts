@@ -0,0 +1,56 @@
+import { toNestErrors, validateFieldsNatively } from '@hookform/resolvers';
+import type { FieldError, FieldValues, Resolver } from 'react-hook-form';
+import type { z } from 'zod';
+import {
+  DEFAULT_LOCALE,
+  formatErrorMessage,
+  isErrorCode,
+  type MessageParams,
+} from '@taskmanager/shared';
+
+/**
+ * Limits of a zod issue, present on `too_big` and `too_small` issues.
+ */
+interface IssueLimits {
+  maximum?: number | bigint;
+  minimum?: number | bigint;
+}
+
+/**
+ * Resolver for schemas whose messages are API error codes, like the ones shared with the API:
+ * each code is rendered with the catalog of the shared package, as the API would, with the broken
+ * limit filled in. Messages that are not codes are shown as written.
+ */
+export function zodCodeResolver<Input extends FieldValues, Output>(
+  schema: z.ZodType<Output, Input>,
+): Resolver<Input, unknown, Output> {
+  return async (values, _context, options) => {
+    const result = await schema.safeParseAsync(values);
+
+    if (result.success) {
+      if (options.shouldUseNativeValidation) validateFieldsNatively({}, options);
+      return { values: result.data, errors: {} };
+    }
+
+    const errors: Record<string, FieldError> = {};
+
+    result.error.issues.forEach((issue) => {
+      const path = issue.path.join('.');
+      if (errors[path]) return;
+
+      const { maximum, minimum } = issue as IssueLimits;
+      const params: MessageParams = {};
+      if (maximum !== undefined) params.max = Number(maximum);
+      if (minimum !== undefined) params.min = Number(minimum);
+
+      errors[path] = {
+        type: issue.code,
+        message: isErrorCode(issue.message)
+          ? formatErrorMessage(issue.message, DEFAULT_LOCALE, params)
+          : issue.message,
+      };
+    });
+
+    return { values: {}, errors: toNestErrors(errors, options) };
+  };
+}
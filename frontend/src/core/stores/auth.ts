@@ -0,0 +1,40 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+export interface AuthUser {
+  id: string;
+  nome: string;
+  email: string;
+}
+
+export interface AuthSession {
+  token: string;
+  expiresAt: string;
+  user: AuthUser;
+}
+
+interface AuthStore {
+  token: string | null;
+  expiresAt: string | null;
+  user: AuthUser | null;
+  setSession: (session: AuthSession) => void;
+  clearSession: () => void;
+  isAuthenticated: () => boolean;
+}
+
+export const useAuthStore = create<AuthStore>()(
+  persist(
+    (set, get) => ({
+      token: null,
+      expiresAt: null,
+      user: null,
+      setSession: ({ token, expiresAt, user }) => set({ token, expiresAt, user }),
+      clearSession: () => set({ token: null, expiresAt: null, user: null }),
+      isAuthenticated: () => {
+        const { token, expiresAt } = get();
+        return !!token && !!expiresAt && new Date(expiresAt).getTime() > Date.now();
+      },
+    }),
+    { name: 'auth-store' },
+  ),
+);
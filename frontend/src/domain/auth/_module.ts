@@ -0,0 +1,4 @@
+export * from './components';
+export * from './hooks';
+export * from './services';
+export type { AuthUser, AuthSession, LoginCredentials, RegisterData } from './types';
@@ -0,0 +1 @@
+export { LoginForm } from './main';
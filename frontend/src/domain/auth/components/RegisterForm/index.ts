@@ -0,0 +1 @@
+export { RegisterForm } from './main';
@@ -0,0 +1,114 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { registerSchema } from '../../validations';
+import type { RegisterData } from '../../types';
+import { Button } from '@/core/components/button';
+import { Input } from '@/core/components/input';
+import { FieldError, FieldGroup } from '@/core/components/field';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/core/components/form';
+
+type RegisterFormInput = z.input<typeof registerSchema>;
+type RegisterFormOutput = z.output<typeof registerSchema>;
+
+interface RegisterFormProps {
+  onSubmit: (data: RegisterData) => void | Promise<void>;
+  isLoading?: boolean;
+  error?: string | null;
+}
+
+function RegisterForm({ onSubmit, isLoading, error }: RegisterFormProps) {
+  const form = useForm<RegisterFormInput, any, RegisterFormOutput>({
+    resolver: zodResolver(registerSchema),
+    mode: 'onBlur',
+    defaultValues: {
+      nome: '',
+      email: '',
+      senha: '',
+      confirmarSenha: '',
+    },
+  });
+
+  const handleSubmit = ({ nome, email, senha }: RegisterFormOutput) => {
+    return onSubmit({ nome, email, senha });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)}>
+        <FieldGroup className="gap-4">
+          <FormField
+            control={form.control}
+            name="nome"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Nome</FormLabel>
+                <FormControl>
+                  <Input autoComplete="name" placeholder="Seu nome" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>E-mail</FormLabel>
+                <FormControl>
+                  <Input type="email" autoComplete="email" placeholder="voce@exemplo.com" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="senha"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Senha</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="new-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="confirmarSenha"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Confirmar senha</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="new-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {error && <FieldError>{error}</FieldError>}
+
+          <Button type="submit" className="w-full" disabled={isLoading}>
+            {isLoading ? 'Criando conta...' : 'Criar conta'}
+          </Button>
+        </FieldGroup>
+      </form>
+    </Form>
+  );
+}
+
+export { RegisterForm };
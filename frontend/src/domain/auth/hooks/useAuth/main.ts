@@ -0,0 +1,39 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuthStore } from '@/core/stores/auth';
+import { authService } from '../../services';
+
+export const useAuth = () => {
+  const queryClient = useQueryClient();
+  const { user, token, setSession, clearSession, isAuthenticated } = useAuthStore();
+
+  const { mutateAsync: login, isPending: isLoggingIn } = useMutation({
+    mutationFn: authService.login,
+    onSuccess: (session) => setSession(session),
+  });
+
+  const { mutateAsync: register, isPending: isRegistering } = useMutation({
+    mutationFn: authService.register,
+    onSuccess: (session) => setSession(session),
+  });
+
+  const { mutateAsync: logout, isPending: isLoggingOut } = useMutation({
+    mutationFn: async () => {
+      if (token) await authService.logout(token);
+    },
+    onSettled: () => {
+      clearSession();
+      queryClient.clear();
+    },
+  });
+
+  return {
+    user,
+    isAuthenticated: isAuthenticated(),
+    login,
+    register,
+    logout,
+    isLoggingIn,
+    isRegistering,
+    isLoggingOut,
+  };
+};
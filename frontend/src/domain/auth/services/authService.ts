@@ -0,0 +1,20 @@
+import { publicClient } from '@/core/lib/api';
+import type { AuthSession, LoginCredentials, RegisterData } from '../types';
+
+export const authService = {
+  async login(credentials: LoginCredentials): Promise<AuthSession> {
+    const { data } = await publicClient.post('/auth/login', credentials);
+    return data.data;
+  },
+
+  async register(registerData: RegisterData): Promise<AuthSession> {
+    const { data } = await publicClient.post('/auth/register', registerData);
+    return data.data;
+  },
+
+  async logout(token: string): Promise<void> {
+    await publicClient.post('/auth/logout', null, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+  },
+};
@@ -0,0 +1 @@
+export { authService } from './authService';
@@ -0,0 +1,12 @@
+export type { AuthUser, AuthSession } from '@/core/stores/auth';
+
+export interface LoginCredentials {
+  email: string;
+  senha: string;
+}
+
+export interface RegisterData {
+  nome: string;
+  email: string;
+  senha: string;
+}
@@ -0,0 +1 @@
+export type { AuthUser, AuthSession, LoginCredentials, RegisterData } from './auth';
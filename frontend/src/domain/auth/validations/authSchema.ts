@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+export const loginSchema = z.object({
+  email: z.email('Informe um e-mail válido'),
+  senha: z.string().min(1, 'Informe sua senha'),
+});
+
+export const registerSchema = z
+  .object({
+    nome: z
+      .string()
+      .trim()
+      .min(1, 'O nome é obrigatório')
+      .max(100, 'O nome deve ter no máximo 100 caracteres'),
+    email: z.email('Informe um e-mail válido').max(100, 'O e-mail deve ter no máximo 100 caracteres'),
+    senha: z
+      .string()
+      .min(8, 'A senha deve ter pelo menos 8 caracteres')
+      .max(100, 'A senha deve ter no máximo 100 caracteres'),
+    confirmarSenha: z.string(),
+  })
+  .refine((data) => data.senha === data.confirmarSenha, {
+    message: 'As senhas não conferem',
+    path: ['confirmarSenha'],
+  });
@@ -0,0 +1 @@
+export { loginSchema, registerSchema } from './authSchema';
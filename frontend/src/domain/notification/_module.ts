@@ -0,0 +1,4 @@
+export * from './components';
+export * from './hooks';
+export * from './services';
+export type { Notification, NotificationStatus, NotificationList } from './types';
@@ -0,0 +1,65 @@
+import { Popover, PopoverContent, PopoverTrigger } from '@/core/components/popover';
+import { Button } from '@/core/components/button';
+import { Bell } from 'lucide-react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { useNotifications } from '../../hooks';
+import { cn } from '@/core/lib/utils';
+
+function NotificationBell() {
+  const { notifications, unreadCount, markRead } = useNotifications();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon-sm" className="relative" title="Lembretes">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span
+              className={cn(
+                'bg-destructive absolute -right-1 -top-1 flex h-4 min-w-4 items-center',
+                'justify-center rounded-full px-1 text-[10px] text-white'
+              )}
+            >
+              {unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="border-b px-4 py-2 text-sm font-medium">Lembretes</div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 && (
+            <p className="text-muted-foreground px-4 py-6 text-center text-sm">
+              Nenhum lembrete por enquanto
+            </p>
+          )}
+          {notifications.map((notification) => (
+            <button
+              key={notification.id}
+              type="button"
+              className={cn(
+                'hover:bg-accent block w-full border-b px-4 py-2 text-left last:border-b-0',
+                !notification.lida && 'bg-accent/50'
+              )}
+              onClick={() => !notification.lida && markRead(notification.id)}
+            >
+              <div className={cn('text-sm', !notification.lida && 'font-medium')}>
+                {notification.titulo}
+              </div>
+              <div className="text-muted-foreground text-xs">{notification.mensagem}</div>
+              <div className="text-muted-foreground mt-1 text-[10px]">
+                {formatDistanceToNow(parseISO(notification.dataDisparo), {
+                  addSuffix: true,
+                  locale: ptBR,
+                })}
+              </div>
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export { NotificationBell };
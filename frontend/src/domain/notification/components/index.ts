@@ -0,0 +1 @@
+export { NotificationBell } from './NotificationBell';
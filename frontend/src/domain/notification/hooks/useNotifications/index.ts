@@ -0,0 +1 @@
+export { useNotifications } from './main';
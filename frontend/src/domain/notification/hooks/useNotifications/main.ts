@@ -0,0 +1,33 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { notificationService } from '../../services';
+import { toast } from 'sonner';
+import { getApiErrorMessage } from '@/core/lib/errors';
+
+const REFRESH_INTERVAL = 60_000;
+
+export const useNotifications = () => {
+  const queryClient = useQueryClient();
+
+  const { data, ...queryInfo } = useQuery({
+    queryKey: ['notifications'],
+    queryFn: notificationService.list,
+    refetchInterval: REFRESH_INTERVAL,
+  });
+
+  const { mutateAsync: markRead } = useMutation({
+    mutationFn: notificationService.markRead,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao marcar notificação como lida'));
+    },
+  });
+
+  return {
+    notifications: data?.notifications || [],
+    unreadCount: data?.naoLidas || 0,
+    markRead,
+    ...queryInfo,
+  };
+};
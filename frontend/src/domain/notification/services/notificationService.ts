@@ -0,0 +1,14 @@
+import { authenticatedClient } from '@/core/lib/api';
+import type { Notification, NotificationList } from '../types';
+
+export const notificationService = {
+  async list(): Promise<NotificationList> {
+    const { data } = await authenticatedClient.get('/notification');
+    return { notifications: data.data, naoLidas: data.metadata.naoLidas };
+  },
+
+  async markRead(id: string): Promise<Notification> {
+    const { data } = await authenticatedClient.patch(`/notification/${id}/read`);
+    return data.data;
+  },
+};
@@ -0,0 +1 @@
+export type { Notification, NotificationStatus, NotificationList } from './notification';
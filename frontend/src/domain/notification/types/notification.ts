@@ -0,0 +1,19 @@
+export type NotificationStatus = 'Pendente' | 'Entregue' | 'Falha';
+
+export interface Notification {
+  id: string;
+  idTarefa: string;
+  canal: string;
+  dataDisparo: string;
+  titulo: string;
+  mensagem: string;
+  status: NotificationStatus;
+  lida: boolean;
+  dataCriacao: string;
+  dataEntrega: string | null;
+}
+
+export interface NotificationList {
+  notifications: Notification[];
+  naoLidas: number;
+}
@@ -0,0 +1,11 @@
+export * from './components';
+export * from './hooks';
+export * from './services';
+export * from './utils';
+export type {
+  Project,
+  ProjectTaskCount,
+  ProjectListItem,
+  ProjectList,
+  ProjectFormData,
+} from './types';
@@ -0,0 +1 @@
+export { ProjectFormDialog } from './main';
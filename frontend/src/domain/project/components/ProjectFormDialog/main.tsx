@@ -0,0 +1,148 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/core/components/dialog';
+import { Button } from '@/core/components/button';
+import { Input } from '@/core/components/input';
+import { Switch } from '@/core/components/switch';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/core/components/form';
+import { cn } from '@/core/lib/utils';
+import { ColorSwatches, TAG_COLORS } from '@/domain/tag/_module';
+import { useProjectList } from '../../hooks';
+import { projectSchema } from '../../validations';
+import { PROJECT_ICONS } from '../../utils';
+import type { Project, ProjectFormData } from '../../types';
+
+interface ProjectFormDialogProps {
+  project?: Project | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function ProjectFormDialog({ project, open, onOpenChange }: ProjectFormDialogProps) {
+  const { create, update, isCreating, isUpdating } = useProjectList();
+
+  const form = useForm<ProjectFormData>({
+    resolver: zodResolver(projectSchema),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        nome: project?.nome || '',
+        cor: project?.cor || TAG_COLORS[5],
+        icone: project?.icone || 'folder',
+        arquivado: project?.arquivado || false,
+      });
+    }
+  }, [open, project, form]);
+
+  const handleSubmit = async (data: ProjectFormData) => {
+    if (project) {
+      await update({ id: project.id, data });
+    } else {
+      await create(data);
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{project ? 'Editar Projeto' : 'Novo Projeto'}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="nome"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex.: Trabalho, Casa, Cliente A" maxLength={50} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="cor"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Cor</FormLabel>
+                  <ColorSwatches value={field.value || ''} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="icone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Ícone</FormLabel>
+                  <div className="flex flex-wrap gap-1">
+                    {Object.entries(PROJECT_ICONS).map(([name, Icon]) => (
+                      <Button
+                        key={name}
+                        type="button"
+                        size="icon"
+                        variant="outline"
+                        aria-label={name}
+                        aria-pressed={field.value === name}
+                        className={cn(field.value === name && 'border-foreground')}
+                        onClick={() => field.onChange(name)}
+                      >
+                        <Icon className="h-4 w-4" style={{ color: form.watch('cor') }} />
+                      </Button>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {project && (
+              <FormField
+                control={form.control}
+                name="arquivado"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel>Arquivado</FormLabel>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isCreating || isUpdating}>
+                {isCreating || isUpdating ? 'Salvando...' : project ? 'Atualizar' : 'Criar'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export { ProjectFormDialog };
@@ -0,0 +1 @@
+export { ProjectIcon } from './main';
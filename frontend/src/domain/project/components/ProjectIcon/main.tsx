@@ -0,0 +1,16 @@
+import { cn } from '@/core/lib/utils';
+import type { Project } from '../../types';
+import { getProjectIcon } from '../../utils';
+
+interface ProjectIconProps {
+  project: Pick<Project, 'icone' | 'cor'>;
+  className?: string;
+}
+
+function ProjectIcon({ project, className }: ProjectIconProps) {
+  const Icon = getProjectIcon(project.icone);
+
+  return <Icon className={cn('h-4 w-4 shrink-0', className)} style={{ color: project.cor }} />;
+}
+
+export { ProjectIcon };
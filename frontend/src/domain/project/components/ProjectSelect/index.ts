@@ -0,0 +1 @@
+export { ProjectSelect } from './main';
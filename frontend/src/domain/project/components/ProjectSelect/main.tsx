@@ -0,0 +1,44 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/core/components/select';
+import { useProjectList } from '../../hooks';
+import { ProjectIcon } from '../ProjectIcon';
+
+const NO_PROJECT = 'Sem projeto';
+
+interface ProjectSelectProps {
+  value?: string | null;
+  onChange: (value: string | null) => void;
+  disabled?: boolean;
+}
+
+function ProjectSelect({ value, onChange, disabled }: ProjectSelectProps) {
+  const { projects } = useProjectList();
+
+  return (
+    <Select
+      value={value || NO_PROJECT}
+      onValueChange={(selected) => onChange(selected === NO_PROJECT ? null : selected)}
+      disabled={disabled}
+    >
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_PROJECT}>Sem projeto</SelectItem>
+        {projects.map((project) => (
+          <SelectItem key={project.id} value={project.id}>
+            <ProjectIcon project={project} />
+            {project.nome}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export { ProjectSelect };
@@ -0,0 +1,237 @@
+import { useState, type ReactNode } from 'react';
+import { Link, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/core/components/button';
+import { Switch } from '@/core/components/switch';
+import { Label } from '@/core/components/label';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/core/components/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/core/components/alert-dialog';
+import {
+  Archive,
+  ArchiveRestore,
+  Inbox,
+  ListTodo,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Trash2,
+} from 'lucide-react';
+import { cn } from '@/core/lib/utils';
+import { useProjectList } from '../../hooks';
+import type { Project } from '../../types';
+import { ProjectIcon } from '../ProjectIcon';
+import { ProjectFormDialog } from '../ProjectFormDialog';
+
+const NO_PROJECT = 'Sem projeto';
+
+interface SidebarLinkProps {
+  to: string;
+  active: boolean;
+  icon: ReactNode;
+  label: string;
+  count?: number;
+  muted?: boolean;
+  children?: ReactNode;
+}
+
+function SidebarLink({ to, active, icon, label, count, muted, children }: SidebarLinkProps) {
+  return (
+    <div
+      className={cn(
+        'group flex items-center gap-1 rounded-md pr-1 text-sm',
+        active ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50',
+        muted && 'opacity-60'
+      )}
+    >
+      <Link to={to} className="flex min-w-0 flex-1 items-center gap-2 px-2 py-1.5">
+        {icon}
+        <span className="truncate">{label}</span>
+        {count !== undefined && count > 0 && (
+          <span className="text-muted-foreground ml-auto text-xs">{count}</span>
+        )}
+      </Link>
+      {children}
+    </div>
+  );
+}
+
+function ProjectSidebar() {
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+  const [searchParams] = useSearchParams();
+  const selected = searchParams.get('projeto');
+  const isTrash = pathname === '/trash';
+
+  const [showArchived, setShowArchived] = useState(false);
+  const { projects, semProjeto, update, deleteProject, isDeleting } =
+    useProjectList(showArchived);
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingProject, setEditingProject] = useState<Project | null>(null);
+  const [deletingProject, setDeletingProject] = useState<Project | null>(null);
+
+  const totalPendentes =
+    semProjeto.pendentes +
+    projects
+      .filter((project) => !project.arquivado)
+      .reduce((sum, project) => sum + project.tarefas.pendentes, 0);
+
+  const handleToggleArchived = async (project: Project) => {
+    await update({
+      id: project.id,
+      data: {
+        nome: project.nome,
+        cor: project.cor,
+        icone: project.icone,
+        arquivado: !project.arquivado,
+      },
+    });
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!deletingProject) return;
+    await deleteProject(deletingProject.id);
+    if (selected === deletingProject.id) navigate('/');
+    setDeletingProject(null);
+  };
+
+  return (
+    <nav className="space-y-4">
+      <div className="space-y-1">
+        <SidebarLink
+          to="/"
+          active={!selected && !isTrash}
+          icon={<ListTodo className="h-4 w-4 shrink-0" />}
+          label="Todas as tarefas"
+          count={totalPendentes}
+        />
+        <SidebarLink
+          to={`/?projeto=${encodeURIComponent(NO_PROJECT)}`}
+          active={selected === NO_PROJECT}
+          icon={<Inbox className="h-4 w-4 shrink-0" />}
+          label="Sem projeto"
+          count={semProjeto.pendentes}
+        />
+        <SidebarLink
+          to="/trash"
+          active={isTrash}
+          icon={<Trash2 className="h-4 w-4 shrink-0" />}
+          label="Lixeira"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between px-2">
+          <span className="text-muted-foreground text-xs font-semibold uppercase">Projetos</span>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            aria-label="Novo projeto"
+            onClick={() => {
+              setEditingProject(null);
+              setIsFormOpen(true);
+            }}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {projects.length === 0 && (
+          <p className="text-muted-foreground px-2 text-sm">Nenhum projeto criado.</p>
+        )}
+
+        {projects.map((project) => (
+          <SidebarLink
+            key={project.id}
+            to={`/?projeto=${project.id}`}
+            active={selected === project.id}
+            icon={<ProjectIcon project={project} />}
+            label={project.nome}
+            count={project.tarefas.pendentes}
+            muted={project.arquivado}
+          >
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  className="opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+                >
+                  <MoreHorizontal className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem
+                  onClick={() => {
+                    setEditingProject(project);
+                    setIsFormOpen(true);
+                  }}
+                >
+                  <Pencil className="mr-2 h-4 w-4" />
+                  Editar
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleToggleArchived(project)}>
+                  {project.arquivado ? (
+                    <ArchiveRestore className="mr-2 h-4 w-4" />
+                  ) : (
+                    <Archive className="mr-2 h-4 w-4" />
+                  )}
+                  {project.arquivado ? 'Desarquivar' : 'Arquivar'}
+                </DropdownMenuItem>
+                <DropdownMenuItem variant="destructive" onClick={() => setDeletingProject(project)}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Excluir
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </SidebarLink>
+        ))}
+
+        <div className="flex items-center gap-2 px-2 pt-2">
+          <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+          <Label htmlFor="show-archived" className="text-muted-foreground text-xs">
+            Mostrar arquivados
+          </Label>
+        </div>
+      </div>
+
+      <ProjectFormDialog project={editingProject} open={isFormOpen} onOpenChange={setIsFormOpen} />
+
+      <AlertDialog
+        open={!!deletingProject}
+        onOpenChange={(open) => !open && setDeletingProject(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir projeto</AlertDialogTitle>
+            <AlertDialogDescription>
+              O projeto "{deletingProject?.nome}" será excluído. Suas tarefas serão mantidas, sem
+              projeto.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteConfirm} disabled={isDeleting}>
+              {isDeleting ? 'Excluindo...' : 'Excluir'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </nav>
+  );
+}
+
+export { ProjectSidebar };
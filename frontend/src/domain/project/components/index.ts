@@ -0,0 +1,4 @@
+export { ProjectIcon } from './ProjectIcon';
+export { ProjectSelect } from './ProjectSelect';
+export { ProjectFormDialog } from './ProjectFormDialog';
+export { ProjectSidebar } from './ProjectSidebar';
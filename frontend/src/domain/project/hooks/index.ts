@@ -0,0 +1 @@
+export { useProjectList } from './useProjectList';
@@ -0,0 +1,66 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { projectService } from '../../services';
+import type { ProjectFormData } from '../../types';
+import { toast } from 'sonner';
+import { getApiErrorMessage } from '@/core/lib/errors';
+
+export const useProjectList = (incluirArquivados = false) => {
+  const queryClient = useQueryClient();
+  const queryKey = ['projects', incluirArquivados];
+
+  const { data, ...queryInfo } = useQuery({
+    queryKey,
+    queryFn: () => projectService.list(incluirArquivados),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['projects'] });
+    queryClient.invalidateQueries({ queryKey: ['tasks'] });
+  };
+
+  const { mutateAsync: create, isPending: isCreating } = useMutation({
+    mutationFn: projectService.create,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+      toast.success('Projeto criado com sucesso!');
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao criar projeto'));
+    },
+  });
+
+  const { mutateAsync: update, isPending: isUpdating } = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: ProjectFormData }) =>
+      projectService.update(id, data),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Projeto atualizado com sucesso!');
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao atualizar projeto'));
+    },
+  });
+
+  const { mutateAsync: deleteProject, isPending: isDeleting } = useMutation({
+    mutationFn: projectService.delete,
+    onSuccess: () => {
+      invalidate();
+      toast.success('Projeto excluído com sucesso!');
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao excluir projeto'));
+    },
+  });
+
+  return {
+    projects: data?.projetos || [],
+    semProjeto: data?.semProjeto || { total: 0, pendentes: 0 },
+    create,
+    update,
+    deleteProject,
+    isCreating,
+    isUpdating,
+    isDeleting,
+    ...queryInfo,
+  };
+};
@@ -0,0 +1 @@
+export { projectService } from './projectService';
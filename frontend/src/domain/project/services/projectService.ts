@@ -0,0 +1,26 @@
+import { authenticatedClient } from '@/core/lib/api';
+import type { Project, ProjectFormData, ProjectList } from '../types';
+
+export const projectService = {
+  async list(incluirArquivados?: boolean): Promise<ProjectList> {
+    const { data } = await authenticatedClient.get('/project', {
+      params: incluirArquivados ? { incluirArquivados } : undefined,
+    });
+    return data.data;
+  },
+
+  async create(projectData: ProjectFormData): Promise<Project> {
+    const { data } = await authenticatedClient.post('/project', projectData);
+    return data.data;
+  },
+
+  async update(id: string, projectData: ProjectFormData): Promise<Project> {
+    const { data } = await authenticatedClient.put(`/project/${id}`, projectData);
+    return data.data;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { data } = await authenticatedClient.delete(`/project/${id}`);
+    return data.data.deleted;
+  },
+};
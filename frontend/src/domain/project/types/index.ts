@@ -0,0 +1,7 @@
+export type {
+  Project,
+  ProjectTaskCount,
+  ProjectListItem,
+  ProjectList,
+  ProjectFormData,
+} from './project';
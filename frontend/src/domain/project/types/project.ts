@@ -0,0 +1,30 @@
+export interface ProjectTaskCount {
+  total: number;
+  pendentes: number;
+}
+
+export interface Project {
+  id: string;
+  nome: string;
+  cor: string;
+  icone: string;
+  arquivado: boolean;
+  dataCriacao: string;
+  dataAtualizacao: string;
+}
+
+export interface ProjectListItem extends Project {
+  tarefas: ProjectTaskCount;
+}
+
+export interface ProjectList {
+  projetos: ProjectListItem[];
+  semProjeto: ProjectTaskCount;
+}
+
+export interface ProjectFormData {
+  nome: string;
+  cor: string;
+  icone: string;
+  arquivado: boolean;
+}
@@ -0,0 +1,29 @@
+import {
+  Book,
+  Briefcase,
+  Folder,
+  Heart,
+  Home,
+  ShoppingCart,
+  Star,
+  User,
+  type LucideIcon,
+} from 'lucide-react';
+
+export const PROJECT_ICONS: Record<string, LucideIcon> = {
+  folder: Folder,
+  briefcase: Briefcase,
+  home: Home,
+  user: User,
+  'shopping-cart': ShoppingCart,
+  book: Book,
+  heart: Heart,
+  star: Star,
+};
+
+/**
+ * Resolves a project icon name, falling back to the folder icon for unknown names.
+ */
+export function getProjectIcon(icone: string): LucideIcon {
+  return PROJECT_ICONS[icone] ?? Folder;
+}
@@ -0,0 +1 @@
+export { PROJECT_ICONS, getProjectIcon } from './icons';
@@ -0,0 +1 @@
+export { projectSchema } from './projectSchema';
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+export const projectSchema = z.object({
+  nome: z
+    .string('O nome do projeto é obrigatório')
+    .trim()
+    .min(1, 'O nome do projeto não pode estar vazio')
+    .max(50, 'O nome deve ter no máximo 50 caracteres'),
+  cor: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Selecione uma cor válida'),
+  icone: z.string().min(1, 'Selecione um ícone'),
+  arquivado: z.boolean(),
+});
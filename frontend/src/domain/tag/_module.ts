@@ -0,0 +1,5 @@
+export * from './components';
+export * from './hooks';
+export * from './services';
+export * from './utils';
+export type { Tag, TagFormData } from './types';
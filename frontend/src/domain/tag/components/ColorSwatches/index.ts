@@ -0,0 +1 @@
+export { ColorSwatches } from './main';
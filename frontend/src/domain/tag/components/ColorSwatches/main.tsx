@@ -0,0 +1,36 @@
+import { cn } from '@/core/lib/utils';
+import { TAG_COLORS } from '../../utils';
+
+interface ColorSwatchesProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+function ColorSwatches({ value, onChange }: ColorSwatchesProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {TAG_COLORS.map((cor) => (
+        <button
+          key={cor}
+          type="button"
+          aria-label={cor}
+          className={cn(
+            'h-6 w-6 rounded-full border-2',
+            value.toLowerCase() === cor ? 'border-foreground' : 'border-transparent'
+          )}
+          style={{ backgroundColor: cor }}
+          onClick={() => onChange(cor)}
+        />
+      ))}
+      <input
+        type="color"
+        aria-label="Outra cor"
+        className="h-6 w-6 cursor-pointer rounded-full border-0 bg-transparent p-0"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </div>
+  );
+}
+
+export { ColorSwatches };
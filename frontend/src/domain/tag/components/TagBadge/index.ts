@@ -0,0 +1 @@
+export { TagBadge } from './main';
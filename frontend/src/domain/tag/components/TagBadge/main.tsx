@@ -0,0 +1,27 @@
+import { Badge } from '@/core/components/badge';
+import { cn } from '@/core/lib/utils';
+import type { Tag } from '../../types';
+import { getTagTextColor } from '../../utils';
+
+interface TagBadgeProps {
+  tag: Pick<Tag, 'nome' | 'cor'>;
+  muted?: boolean;
+  className?: string;
+}
+
+function TagBadge({ tag, muted, className }: TagBadgeProps) {
+  return (
+    <Badge
+      className={cn(muted && 'opacity-40', className)}
+      style={{
+        backgroundColor: tag.cor,
+        borderColor: tag.cor,
+        color: getTagTextColor(tag.cor),
+      }}
+    >
+      {tag.nome}
+    </Badge>
+  );
+}
+
+export { TagBadge };
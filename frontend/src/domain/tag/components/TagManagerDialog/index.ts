@@ -0,0 +1 @@
+export { TagManagerDialog } from './main';
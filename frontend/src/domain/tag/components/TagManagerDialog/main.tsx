@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/core/components/dialog';
+import { Button } from '@/core/components/button';
+import { Input } from '@/core/components/input';
+import { Separator } from '@/core/components/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/core/components/select';
+import { Form, FormControl, FormField, FormItem, FormMessage } from '@/core/components/form';
+import { Check, Merge, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { useTagList } from '../../hooks';
+import { tagSchema } from '../../validations';
+import { TAG_COLORS } from '../../utils';
+import type { Tag, TagFormData } from '../../types';
+import { TagBadge } from '../TagBadge';
+import { ColorSwatches } from '../ColorSwatches';
+
+interface TagManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function TagManagerDialog({ open, onOpenChange }: TagManagerDialogProps) {
+  const { tags, create, update, deleteTag, merge, isCreating, isUpdating, isMerging } =
+    useTagList();
+
+  const [editing, setEditing] = useState<{ id: string; data: TagFormData } | null>(null);
+  const [merging, setMerging] = useState<{ id: string; idTagDestino?: string } | null>(null);
+
+  const form = useForm<TagFormData>({
+    resolver: zodResolver(tagSchema),
+    defaultValues: { nome: '', cor: TAG_COLORS[0] },
+  });
+
+  const handleCreate = async (data: TagFormData) => {
+    await create(data);
+    form.reset({ nome: '', cor: data.cor });
+  };
+
+  const handleSave = async () => {
+    if (!editing || !editing.data.nome.trim()) return;
+    await update({ id: editing.id, data: { ...editing.data, nome: editing.data.nome.trim() } });
+    setEditing(null);
+  };
+
+  const handleMerge = async () => {
+    if (!merging?.idTagDestino) return;
+    await merge({ id: merging.id, idTagDestino: merging.idTagDestino });
+    setMerging(null);
+  };
+
+  const renderRow = (tag: Tag) => {
+    if (editing?.id === tag.id) {
+      return (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              value={editing.data.nome}
+              maxLength={50}
+              onChange={(e) =>
+                setEditing({ ...editing, data: { ...editing.data, nome: e.target.value } })
+              }
+            />
+            <Button size="icon" variant="outline" onClick={handleSave} disabled={isUpdating}>
+              <Check className="h-4 w-4" />
+            </Button>
+            <Button size="icon" variant="ghost" onClick={() => setEditing(null)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <ColorSwatches
+            value={editing.data.cor}
+            onChange={(cor) => setEditing({ ...editing, data: { ...editing.data, cor } })}
+          />
+        </div>
+      );
+    }
+
+    if (merging?.id === tag.id) {
+      return (
+        <div className="flex items-center gap-2">
+          <TagBadge tag={tag} />
+          <span className="text-muted-foreground shrink-0 text-sm">mesclar em</span>
+          <Select
+            value={merging.idTagDestino}
+            onValueChange={(idTagDestino) => setMerging({ ...merging, idTagDestino })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Selecione a tag" />
+            </SelectTrigger>
+            <SelectContent>
+              {tags
+                .filter((other) => other.id !== tag.id)
+                .map((other) => (
+                  <SelectItem key={other.id} value={other.id}>
+                    {other.nome}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="icon"
+            variant="outline"
+            onClick={handleMerge}
+            disabled={!merging.idTagDestino || isMerging}
+          >
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button size="icon" variant="ghost" onClick={() => setMerging(null)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex items-center gap-2">
+        <div className="flex-1">
+          <TagBadge tag={tag} />
+        </div>
+        <Button
+          size="icon-sm"
+          variant="ghost"
+          onClick={() => setEditing({ id: tag.id, data: { nome: tag.nome, cor: tag.cor } })}
+        >
+          <Pencil className="h-4 w-4" />
+        </Button>
+        <Button
+          size="icon-sm"
+          variant="ghost"
+          disabled={tags.length < 2}
+          onClick={() => setMerging({ id: tag.id })}
+        >
+          <Merge className="h-4 w-4" />
+        </Button>
+        <Button size="icon-sm" variant="ghost" onClick={() => deleteTag(tag.id)}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[80vh] max-w-lg overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Gerenciar Tags</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleCreate)} className="space-y-2">
+            <div className="flex gap-2">
+              <FormField
+                control={form.control}
+                name="nome"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input placeholder="Nova tag" maxLength={50} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" variant="outline" disabled={isCreating}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <FormField
+              control={form.control}
+              name="cor"
+              render={({ field }) => (
+                <FormItem>
+                  <ColorSwatches value={field.value} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </form>
+        </Form>
+
+        <Separator />
+
+        {tags.length === 0 ? (
+          <p className="text-muted-foreground text-sm">Nenhuma tag cadastrada.</p>
+        ) : (
+          <div className="space-y-3">
+            {tags.map((tag) => (
+              <div key={tag.id}>{renderRow(tag)}</div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export { TagManagerDialog };
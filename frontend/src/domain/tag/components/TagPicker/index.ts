@@ -0,0 +1 @@
+export { TagPicker } from './main';
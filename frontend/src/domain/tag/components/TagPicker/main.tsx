@@ -0,0 +1,36 @@
+import { useTagList } from '../../hooks';
+import { TagBadge } from '../TagBadge';
+
+interface TagPickerProps {
+  value?: string[];
+  onChange: (value: string[]) => void;
+}
+
+function TagPicker({ value = [], onChange }: TagPickerProps) {
+  const { tags } = useTagList();
+
+  const toggle = (id: string) => {
+    onChange(value.includes(id) ? value.filter((selected) => selected !== id) : [...value, id]);
+  };
+
+  if (tags.length === 0) {
+    return <p className="text-muted-foreground text-sm">Nenhuma tag cadastrada.</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {tags.map((tag) => (
+        <button
+          key={tag.id}
+          type="button"
+          aria-pressed={value.includes(tag.id)}
+          onClick={() => toggle(tag.id)}
+        >
+          <TagBadge tag={tag} muted={!value.includes(tag.id)} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export { TagPicker };
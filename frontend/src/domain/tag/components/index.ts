@@ -0,0 +1,4 @@
+export { TagBadge } from './TagBadge';
+export { TagPicker } from './TagPicker';
+export { TagManagerDialog } from './TagManagerDialog';
+export { ColorSwatches } from './ColorSwatches';
@@ -0,0 +1 @@
+export { useTagList } from './main';
@@ -0,0 +1,78 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { tagService } from '../../services';
+import type { TagFormData } from '../../types';
+import { toast } from 'sonner';
+import { getApiErrorMessage } from '@/core/lib/errors';
+
+export const useTagList = () => {
+  const queryClient = useQueryClient();
+  const queryKey = ['tags'];
+
+  const { data, ...queryInfo } = useQuery({
+    queryKey,
+    queryFn: tagService.list,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ['tasks'] });
+  };
+
+  const { mutateAsync: create, isPending: isCreating } = useMutation({
+    mutationFn: tagService.create,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Tag criada com sucesso!');
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao criar tag'));
+    },
+  });
+
+  const { mutateAsync: update, isPending: isUpdating } = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: TagFormData }) => tagService.update(id, data),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Tag atualizada com sucesso!');
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao atualizar tag'));
+    },
+  });
+
+  const { mutateAsync: deleteTag, isPending: isDeleting } = useMutation({
+    mutationFn: tagService.delete,
+    onSuccess: () => {
+      invalidate();
+      toast.success('Tag excluída com sucesso!');
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao excluir tag'));
+    },
+  });
+
+  const { mutateAsync: merge, isPending: isMerging } = useMutation({
+    mutationFn: ({ id, idTagDestino }: { id: string; idTagDestino: string }) =>
+      tagService.merge(id, idTagDestino),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Tags mescladas com sucesso!');
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao mesclar tags'));
+    },
+  });
+
+  return {
+    tags: data || [],
+    create,
+    update,
+    deleteTag,
+    merge,
+    isCreating,
+    isUpdating,
+    isDeleting,
+    isMerging,
+    ...queryInfo,
+  };
+};
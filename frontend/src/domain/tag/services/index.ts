@@ -0,0 +1 @@
+export { tagService } from './tagService';
@@ -0,0 +1,29 @@
+import { authenticatedClient } from '@/core/lib/api';
+import type { Tag, TagFormData } from '../types';
+
+export const tagService = {
+  async list(): Promise<Tag[]> {
+    const { data } = await authenticatedClient.get('/tag');
+    return data.data;
+  },
+
+  async create(tagData: TagFormData): Promise<Tag> {
+    const { data } = await authenticatedClient.post('/tag', tagData);
+    return data.data;
+  },
+
+  async update(id: string, tagData: TagFormData): Promise<Tag> {
+    const { data } = await authenticatedClient.put(`/tag/${id}`, tagData);
+    return data.data;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { data } = await authenticatedClient.delete(`/tag/${id}`);
+    return data.data.deleted;
+  },
+
+  async merge(id: string, idTagDestino: string): Promise<Tag> {
+    const { data } = await authenticatedClient.post(`/tag/${id}/merge`, { idTagDestino });
+    return data.data;
+  },
+};
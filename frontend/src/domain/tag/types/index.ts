@@ -0,0 +1 @@
+export type { Tag, TagFormData } from './tag';
@@ -0,0 +1,12 @@
+export interface Tag {
+  id: string;
+  nome: string;
+  cor: string;
+  dataCriacao: string;
+  dataAtualizacao: string;
+}
+
+export interface TagFormData {
+  nome: string;
+  cor: string;
+}
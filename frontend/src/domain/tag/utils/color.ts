@@ -0,0 +1,19 @@
+export const TAG_COLORS = [
+  '#ef4444',
+  '#f97316',
+  '#eab308',
+  '#22c55e',
+  '#14b8a6',
+  '#3b82f6',
+  '#8b5cf6',
+  '#ec4899',
+  '#64748b',
+];
+
+/**
+ * Picks black or white text for the given #RRGGBB background.
+ */
+export function getTagTextColor(cor: string): string {
+  const [r, g, b] = [1, 3, 5].map((start) => parseInt(cor.slice(start, start + 2), 16));
+  return (r * 299 + g * 587 + b * 114) / 1000 > 150 ? '#000000' : '#ffffff';
+}
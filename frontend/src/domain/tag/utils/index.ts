@@ -0,0 +1 @@
+export { TAG_COLORS, getTagTextColor } from './color';
@@ -0,0 +1 @@
+export { tagSchema } from './tagSchema';
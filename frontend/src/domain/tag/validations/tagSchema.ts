@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+export const tagSchema = z.object({
+  nome: z
+    .string('O nome da tag é obrigatório')
+    .trim()
+    .min(1, 'O nome da tag não pode estar vazio')
+    .max(50, 'O nome deve ter no máximo 50 caracteres'),
+  cor: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Selecione uma cor válida'),
+});
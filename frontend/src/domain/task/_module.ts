@@ -1,10 +1,28 @@
 export * from './components';
 export * from './hooks';
 export * from './services';
+export * from './utils';
 export type {
   Task,
+  TaskTrashItem,
   TaskStatus,
   TaskImportance,
+  RecurrenceFrequency,
+  SubtaskCompletionPolicy,
+  DependencyCompletionPolicy,
+  TaskSnoozePreset,
+  TaskProgress,
+  TaskReminder,
+  ChecklistItem,
+  TaskSubtasks,
+  TaskDependencies,
+  TimeEntry,
+  TaskTimeEntries,
+  TaskAttachment,
+  TaskComment,
+  RunningTimer,
+  TaskTransitions,
+  TaskStatusUpdateResult,
   TaskListFilters,
   TaskHistoryEntry,
   TaskHistoryFilters,
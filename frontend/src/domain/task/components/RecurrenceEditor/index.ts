@@ -0,0 +1 @@
+export { RecurrenceEditor } from './main';
@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/core/components/select';
+import { Input } from '@/core/components/input';
+import { Label } from '@/core/components/label';
+import { Toggle } from '@/core/components/toggle';
+import type { RecurrenceFrequency } from '../../types';
+import {
+  parseRecurrence,
+  formatRecurrence,
+  FREQUENCY_LABELS,
+  WEEKDAY_LABELS,
+  type RecurrenceValue,
+} from '../../utils';
+
+type EndMode = 'never' | 'until' | 'count';
+
+interface RecurrenceEditorProps {
+  value?: string;
+  onChange: (value: string | undefined) => void;
+}
+
+function RecurrenceEditor({ value, onChange }: RecurrenceEditorProps) {
+  const recurrence = parseRecurrence(value);
+  const [endMode, setEndMode] = useState<EndMode>(
+    recurrence?.until ? 'until' : recurrence?.count ? 'count' : 'never',
+  );
+  const [untilText, setUntilText] = useState(recurrence?.until ?? '');
+
+  const update = (changes: Partial<RecurrenceValue>) => {
+    if (!recurrence) return;
+    onChange(formatRecurrence({ ...recurrence, ...changes }));
+  };
+
+  const handleFrequencyChange = (freq: string) => {
+    if (freq === 'none') {
+      onChange(undefined);
+      return;
+    }
+    onChange(
+      formatRecurrence({
+        freq: freq as RecurrenceFrequency,
+        interval: recurrence?.interval ?? 1,
+        byDay: [],
+        byMonthDay: null,
+        until: recurrence?.until ?? null,
+        count: recurrence?.count ?? null,
+      }),
+    );
+  };
+
+  const handleEndModeChange = (mode: EndMode) => {
+    setEndMode(mode);
+    if (mode === 'never') update({ until: null, count: null });
+    if (mode === 'count') update({ until: null, count: recurrence?.count ?? 10 });
+    if (mode === 'until') {
+      update({ count: null, until: /^\d{2}\/\d{2}\/\d{4}$/.test(untilText) ? untilText : null });
+    }
+  };
+
+  const handleUntilChange = (text: string) => {
+    setUntilText(text);
+    if (/^\d{2}\/\d{2}\/\d{4}$/.test(text)) update({ until: text, count: null });
+  };
+
+  const toggleWeekday = (day: number, pressed: boolean) => {
+    if (!recurrence) return;
+    const byDay = pressed
+      ? [...recurrence.byDay, day]
+      : recurrence.byDay.filter((selected) => selected !== day);
+    update({ byDay });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <Select value={recurrence?.freq ?? 'none'} onValueChange={handleFrequencyChange}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Não se repete</SelectItem>
+            {Object.entries(FREQUENCY_LABELS).map(([freq, label]) => (
+              <SelectItem key={freq} value={freq}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {recurrence && (
+          <div className="flex items-center gap-2">
+            <Label className="shrink-0 font-normal">A cada</Label>
+            <Input
+              type="number"
+              min={1}
+              max={365}
+              value={recurrence.interval}
+              onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+            />
+          </div>
+        )}
+      </div>
+
+      {recurrence?.freq === 'WEEKLY' && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <Toggle
+              key={label}
+              variant="outline"
+              size="sm"
+              pressed={recurrence.byDay.includes(day)}
+              onPressedChange={(pressed) => toggleWeekday(day, pressed)}
+            >
+              {label}
+            </Toggle>
+          ))}
+        </div>
+      )}
+
+      {recurrence?.freq === 'MONTHLY' && (
+        <div className="flex items-center gap-2">
+          <Label className="shrink-0 font-normal">No dia</Label>
+          <Input
+            type="number"
+            min={1}
+            max={31}
+            placeholder="Mesmo dia do vencimento"
+            value={recurrence.byMonthDay ?? ''}
+            onChange={(e) =>
+              update({
+                byMonthDay: e.target.value ? Math.min(31, Math.max(1, Number(e.target.value))) : null,
+              })
+            }
+          />
+        </div>
+      )}
+
+      {recurrence && (
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+          <Select value={endMode} onValueChange={(mode) => handleEndModeChange(mode as EndMode)}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Sem data de término</SelectItem>
+              <SelectItem value="until">Termina em</SelectItem>
+              <SelectItem value="count">Termina após</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {endMode === 'until' && (
+            <Input
+              type="text"
+              placeholder="DD/MM/AAAA"
+              value={untilText}
+              onChange={(e) => handleUntilChange(e.target.value)}
+            />
+          )}
+
+          {endMode === 'count' && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={1}
+                value={recurrence.count ?? ''}
+                onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+              />
+              <Label className="shrink-0 font-normal">ocorrências</Label>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export { RecurrenceEditor };
@@ -0,0 +1 @@
+export { ReminderEditor } from './main';
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/core/components/select';
+import { Badge } from '@/core/components/badge';
+import { Button } from '@/core/components/button';
+import { Input } from '@/core/components/input';
+import { Bell, Plus, X } from 'lucide-react';
+import type { TaskReminderInput } from '@taskmanager/shared';
+import { REMINDER_PRESETS, describeReminder } from '../../utils';
+
+interface ReminderEditorProps {
+  value?: TaskReminderInput[];
+  onChange: (value: TaskReminderInput[]) => void;
+}
+
+function ReminderEditor({ value = [], onChange }: ReminderEditorProps) {
+  const [selected, setSelected] = useState('');
+  const [customDate, setCustomDate] = useState('');
+
+  const add = (lembrete: TaskReminderInput) => {
+    const exists = value.some(
+      (current) =>
+        current.antecedencia === lembrete.antecedencia &&
+        current.dataLembrete === lembrete.dataLembrete
+    );
+    if (!exists) onChange([...value, lembrete]);
+  };
+
+  const handleSelect = (option: string) => {
+    if (option === 'custom') {
+      setSelected(option);
+      return;
+    }
+    add({ antecedencia: Number(option), dataLembrete: null });
+    setSelected('');
+  };
+
+  const handleAddCustom = () => {
+    if (!customDate) return;
+    add({ antecedencia: null, dataLembrete: new Date(customDate).toISOString() });
+    setCustomDate('');
+    setSelected('');
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((lembrete, index) => (
+            <Badge key={index} variant="secondary" className="gap-1">
+              <Bell className="h-3 w-3" />
+              {describeReminder(lembrete)}
+              <button
+                type="button"
+                aria-label="Remover lembrete"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {value.length < 10 && (
+        <div className="flex gap-2">
+          <Select value={selected} onValueChange={handleSelect}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Adicionar lembrete" />
+            </SelectTrigger>
+            <SelectContent>
+              {REMINDER_PRESETS.map((preset) => (
+                <SelectItem key={preset.antecedencia} value={String(preset.antecedencia)}>
+                  {preset.label}
+                </SelectItem>
+              ))}
+              <SelectItem value="custom">Data e hora específicas</SelectItem>
+            </SelectContent>
+          </Select>
+          {selected === 'custom' && (
+            <>
+              <Input
+                type="datetime-local"
+                className="flex-1"
+                value={customDate}
+                onChange={(e) => setCustomDate(e.target.value)}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                disabled={!customDate}
+                onClick={handleAddCustom}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export { ReminderEditor };
@@ -0,0 +1 @@
+export { RunningTimerIndicator } from './main';
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/core/components/button';
+import { Square, Timer } from 'lucide-react';
+import { useRunningTimer } from '../../hooks';
+import { formatElapsed } from '../../utils';
+
+function RunningTimerIndicator() {
+  const { timer, stopTimer, isStopping } = useRunningTimer();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!timer) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  if (!timer) return null;
+
+  const elapsedSeconds = Math.max(
+    0,
+    Math.floor((now - new Date(timer.registro.inicio).getTime()) / 1000)
+  );
+
+  return (
+    <div className="flex items-center gap-2 rounded-md border px-3 py-1 text-sm">
+      <Timer className="h-4 w-4 animate-pulse text-red-500" />
+      <span className="max-w-48 truncate" title={timer.tarefa.titulo}>
+        {timer.tarefa.titulo}
+      </span>
+      <span className="font-mono tabular-nums">{formatElapsed(elapsedSeconds)}</span>
+      <Button
+        variant="ghost"
+        size="icon-sm"
+        title="Parar cronômetro"
+        disabled={isStopping}
+        onClick={() => stopTimer({ id: timer.tarefa.id })}
+      >
+        <Square className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+export { RunningTimerIndicator };
@@ -0,0 +1 @@
+export { TaskAttachmentsDialog } from './main';
@@ -0,0 +1,106 @@
+import { useRef } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/core/components/dialog';
+import { Button } from '@/core/components/button';
+import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { Download, FileText, Image, Paperclip, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { useTaskAttachments } from '../../hooks';
+import { formatFileSize } from '../../utils';
+import type { Task } from '../../types';
+
+interface TaskAttachmentsDialogProps {
+  task: Task | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function TaskAttachmentsDialog({ task, open, onOpenChange }: TaskAttachmentsDialogProps) {
+  const {
+    attachments,
+    uploadAttachment,
+    deleteAttachment,
+    downloadAttachment,
+    isUploading,
+    isLoading,
+  } = useTaskAttachments(task?.id || '');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    await uploadAttachment(file);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[80vh] max-w-lg overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Anexos de "{task?.titulo}"</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <LoadingSpinner className="h-8 w-8" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {attachments.length === 0 && (
+              <p className="text-muted-foreground text-sm">Nenhum arquivo anexado</p>
+            )}
+            {attachments.map((attachment) => (
+              <div key={attachment.id} className="flex items-center gap-2 text-sm">
+                {attachment.tipo.startsWith('image/') ? (
+                  <Image className="text-muted-foreground h-4 w-4 shrink-0" />
+                ) : (
+                  <FileText className="text-muted-foreground h-4 w-4 shrink-0" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className="truncate" title={attachment.nome}>
+                    {attachment.nome}
+                  </p>
+                  <p className="text-muted-foreground text-xs">
+                    {formatFileSize(attachment.tamanho)} ·{' '}
+                    {format(parseISO(attachment.dataCriacao), 'dd/MM/yyyy HH:mm', {
+                      locale: ptBR,
+                    })}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  title="Baixar"
+                  onClick={() => downloadAttachment(attachment)}
+                >
+                  <Download className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  title="Remover"
+                  onClick={() => deleteAttachment(attachment.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+
+            <input ref={inputRef} type="file" className="hidden" onChange={handleFileChange} />
+            <Button
+              variant="outline"
+              className="w-full"
+              disabled={isUploading}
+              onClick={() => inputRef.current?.click()}
+            >
+              <Paperclip className="mr-2 h-4 w-4" />
+              {isUploading ? 'Enviando...' : 'Anexar arquivo'}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export { TaskAttachmentsDialog };
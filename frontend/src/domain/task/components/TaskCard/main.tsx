@@ -1,51 +1,121 @@
 import { Card, CardContent, CardHeader, CardTitle, CardAction } from '@/core/components/card';
 import { Badge } from '@/core/components/badge';
 import { Button } from '@/core/components/button';
-import { Checkbox } from '@/core/components/checkbox';
+import { Progress } from '@/core/components/progress';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/core/components/dropdown-menu';
-import { Calendar, Clock, MoreVertical, Pencil, Trash2, History } from 'lucide-react';
-import type { Task } from '../../types';
+import {
+  Calendar,
+  MoreVertical,
+  Pencil,
+  Trash2,
+  History,
+  Repeat,
+  Bell,
+  ListChecks,
+  FolderInput,
+  Inbox,
+  Lock,
+  Link2,
+  Timer,
+  Play,
+  Square,
+  Paperclip,
+  MessageSquare,
+  ChevronDown,
+  CalendarClock,
+  CalendarCheck,
+  AlarmClock,
+  AlarmClockOff,
+  CalendarSync,
+} from 'lucide-react';
+import type { Task, TaskSnoozePreset, TaskStatus } from '../../types';
+import {
+  describeRecurrence,
+  describeReminder,
+  formatDuration,
+  formatDueDate,
+  formatTaskDay,
+  getDueMoment,
+} from '../../utils';
+import { useRunningTimer, useTaskTransitions } from '../../hooks';
+import { TagBadge, useTagList } from '@/domain/tag/_module';
+import { ProjectIcon, useProjectList } from '@/domain/project/_module';
 import { cn } from '@/core/lib/utils';
-import { format, isWithinInterval, addHours } from 'date-fns';
+import { isWithinInterval, addHours, format, parseISO } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { useState } from 'react';
 
 interface TaskCardProps {
   task: Task;
   onEdit?: (task: Task) => void;
   onDelete?: (task: Task) => void;
-  onToggleStatus?: (task: Task) => void;
+  onChangeStatus?: (task: Task, status: TaskStatus) => void;
   onViewHistory?: (task: Task) => void;
+  onViewSubtasks?: (task: Task) => void;
+  onViewDependencies?: (task: Task) => void;
+  onViewTimeEntries?: (task: Task) => void;
+  onViewAttachments?: (task: Task) => void;
+  onViewComments?: (task: Task) => void;
+  onMove?: (task: Task, idProjeto: string | null) => void;
+  onSnooze?: (task: Task, preset: TaskSnoozePreset) => void;
+  onUnsnooze?: (task: Task) => void;
+  onReschedule?: (task: Task) => void;
 }
 
-function TaskCard({ task, onEdit, onDelete, onToggleStatus, onViewHistory }: TaskCardProps) {
+const SNOOZE_PRESETS: TaskSnoozePreset[] = ['Mais tarde hoje', 'Amanhã de manhã', 'Próxima semana'];
+
+function TaskCard({
+  task,
+  onEdit,
+  onDelete,
+  onChangeStatus,
+  onViewHistory,
+  onViewSubtasks,
+  onViewDependencies,
+  onViewTimeEntries,
+  onViewAttachments,
+  onViewComments,
+  onMove,
+  onSnooze,
+  onUnsnooze,
+  onReschedule,
+}: TaskCardProps) {
   const isOverdue = task.status === 'Vencida';
-  const isCompleted = task.status === 'Concluída';
+  const isCompleted = task.status === 'Concluída' || task.status === 'Cancelada';
+  const snoozedUntil = task.sonecaAte ? parseISO(task.sonecaAte) : null;
+  const isSnoozed = !!snoozedUntil && snoozedUntil.getTime() > Date.now();
+  const recurrenceDescription = describeRecurrence(task.recorrencia);
+  const { tags } = useTagList();
+  const taskTags = tags.filter((tag) => task.tags.includes(tag.id));
+  const { projects } = useProjectList(true);
+  const project = projects.find((p) => p.id === task.idProjeto);
+  const moveTargets = projects.filter((p) => !p.arquivado && p.id !== task.idProjeto);
+  const blockedByCount = task.bloqueadaPor?.length ?? 0;
+  const blockingCount = task.bloqueando?.length ?? 0;
+  const { timer, startTimer, stopTimer } = useRunningTimer();
+  const isTimerRunning = timer?.tarefa.id === task.id;
+  const trackedSeconds = task.tempoRegistrado ?? 0;
+  const [isStatusMenuOpen, setIsStatusMenuOpen] = useState(false);
+  const { transitions, isLoading: isLoadingTransitions } = useTaskTransitions(
+    task.id,
+    isStatusMenuOpen
+  );
 
   const isNearDue = () => {
-    if (!task.dataVencimento || isCompleted || isOverdue) return false;
-    try {
-      const [day, month, year] = task.dataVencimento.split('/').map(Number);
-      const dueDate = new Date(year, month - 1, day);
-      const now = new Date();
-      const in48Hours = addHours(now, 48);
-      return isWithinInterval(dueDate, { start: now, end: in48Hours });
-    } catch {
-      return false;
-    }
-  };
-
-  const formatDate = (dateStr: string) => {
-    try {
-      const [day, month, year] = dateStr.split('/').map(Number);
-      return format(new Date(year, month - 1, day), 'dd/MM/yyyy', { locale: ptBR });
-    } catch {
-      return dateStr;
-    }
+    const dueDate = getDueMoment(task);
+    if (!dueDate || isCompleted || isOverdue) return false;
+    const now = new Date();
+    return isWithinInterval(dueDate, { start: now, end: addHours(now, 48) });
   };
 
   const getImportanceBadgeVariant = (importance: string) => {
@@ -63,6 +133,7 @@ function TaskCard({ task, onEdit, onDelete, onToggleStatus, onViewHistory }: Tas
 
   return (
     <Card
+      id={`task-${task.id}`}
       className={cn(
         'transition-all hover:shadow-md',
         isOverdue && 'border-red-200 bg-red-50/50 dark:border-red-900/50 dark:bg-red-950/20',
@@ -72,23 +143,12 @@ function TaskCard({ task, onEdit, onDelete, onToggleStatus, onViewHistory }: Tas
       )}
     >
       <CardHeader>
-        <div className="flex items-start gap-3">
-          <Checkbox
-            checked={isCompleted}
-            onCheckedChange={() => onToggleStatus?.(task)}
-            className="mt-1"
-          />
-          <div className="flex-1">
-            <CardTitle
-              className={cn('text-base', isCompleted && 'text-muted-foreground line-through')}
-            >
-              {task.titulo}
-            </CardTitle>
-            {task.descricao && (
-              <p className="text-muted-foreground mt-2 text-sm">{task.descricao}</p>
-            )}
-          </div>
-        </div>
+        <CardTitle
+          className={cn('text-base', isCompleted && 'text-muted-foreground line-through')}
+        >
+          {task.titulo}
+        </CardTitle>
+        {task.descricao && <p className="text-muted-foreground text-sm">{task.descricao}</p>}
         <CardAction>
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -101,6 +161,79 @@ function TaskCard({ task, onEdit, onDelete, onToggleStatus, onViewHistory }: Tas
                 <Pencil className="mr-2 h-4 w-4" />
                 Editar
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onViewSubtasks?.(task)}>
+                <ListChecks className="mr-2 h-4 w-4" />
+                Subtarefas
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onViewDependencies?.(task)}>
+                <Link2 className="mr-2 h-4 w-4" />
+                Dependências
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onViewTimeEntries?.(task)}>
+                <Timer className="mr-2 h-4 w-4" />
+                Registros de tempo
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onViewAttachments?.(task)}>
+                <Paperclip className="mr-2 h-4 w-4" />
+                Anexos
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onViewComments?.(task)}>
+                <MessageSquare className="mr-2 h-4 w-4" />
+                Comentários
+              </DropdownMenuItem>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <FolderInput className="mr-2 h-4 w-4" />
+                  Mover para
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {task.idProjeto && (
+                    <DropdownMenuItem onClick={() => onMove?.(task, null)}>
+                      <Inbox className="mr-2 h-4 w-4" />
+                      Sem projeto
+                    </DropdownMenuItem>
+                  )}
+                  {moveTargets.map((target) => (
+                    <DropdownMenuItem key={target.id} onClick={() => onMove?.(task, target.id)}>
+                      <ProjectIcon project={target} className="mr-2" />
+                      {target.nome}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              {isOverdue && (
+                <DropdownMenuItem onClick={() => onReschedule?.(task)}>
+                  <CalendarSync className="mr-2 h-4 w-4" />
+                  Reagendar
+                </DropdownMenuItem>
+              )}
+              {!isCompleted && (
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <AlarmClock className="mr-2 h-4 w-4" />
+                    Adiar
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    {SNOOZE_PRESETS.map((preset) => (
+                      <DropdownMenuItem key={preset} onClick={() => onSnooze?.(task, preset)}>
+                        {preset}
+                      </DropdownMenuItem>
+                    ))}
+                    <DropdownMenuItem onClick={() => onSnooze?.(task, 'Personalizado')}>
+                      Escolher data e hora...
+                    </DropdownMenuItem>
+                    {isSnoozed && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={() => onUnsnooze?.(task)}>
+                          <AlarmClockOff className="mr-2 h-4 w-4" />
+                          Cancelar soneca
+                        </DropdownMenuItem>
+                      </>
+                    )}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              )}
               <DropdownMenuItem onClick={() => onViewHistory?.(task)}>
                 <History className="mr-2 h-4 w-4" />
                 Histórico
@@ -115,29 +248,206 @@ function TaskCard({ task, onEdit, onDelete, onToggleStatus, onViewHistory }: Tas
       </CardHeader>
       <CardContent>
         <div className="flex flex-wrap items-center gap-2">
+          {project && (
+            <div className="text-muted-foreground flex items-center gap-1 text-xs">
+              <ProjectIcon project={project} className="h-3 w-3" />
+              {project.nome}
+            </div>
+          )}
           <Badge variant={getImportanceBadgeVariant(task.importancia)}>{task.importancia}</Badge>
-          <Badge
-            variant="outline"
-            className={cn(
-              isOverdue && 'border-red-500 text-red-700 dark:text-red-400',
-              isNearDue() && 'border-yellow-500 text-yellow-700 dark:text-yellow-400'
-            )}
-          >
-            {task.status}
-          </Badge>
+          <DropdownMenu open={isStatusMenuOpen} onOpenChange={setIsStatusMenuOpen}>
+            <DropdownMenuTrigger asChild>
+              <button type="button" title="Alterar status">
+                <Badge
+                  variant="outline"
+                  className={cn(
+                    isOverdue && 'border-red-500 text-red-700 dark:text-red-400',
+                    isNearDue() && 'border-yellow-500 text-yellow-700 dark:text-yellow-400'
+                  )}
+                >
+                  {task.status}
+                  <ChevronDown className="h-3 w-3" />
+                </Badge>
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuLabel>Alterar status</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {isLoadingTransitions ? (
+                <DropdownMenuItem disabled>Carregando...</DropdownMenuItem>
+              ) : transitions.length === 0 ? (
+                <DropdownMenuItem disabled>Nenhuma transição disponível</DropdownMenuItem>
+              ) : (
+                transitions.map((status) => (
+                  <DropdownMenuItem key={status} onClick={() => onChangeStatus?.(task, status)}>
+                    {status}
+                  </DropdownMenuItem>
+                ))
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
           {task.dataVencimento && (
             <div className="text-muted-foreground flex items-center gap-1 text-xs">
               <Calendar className="h-3 w-3" />
-              {formatDate(task.dataVencimento)}
+              {formatDueDate(task)}
             </div>
           )}
-          {task.horaVencimento && (
-            <div className="text-muted-foreground flex items-center gap-1 text-xs">
-              <Clock className="h-3 w-3" />
-              {task.horaVencimento}
+          {snoozedUntil && isSnoozed && !isCompleted && (
+            <div
+              className="text-muted-foreground flex items-center gap-1 text-xs"
+              title="Fora da lista até o fim da soneca"
+            >
+              <AlarmClock className="h-3 w-3" />
+              Adiada até {format(snoozedUntil, "dd/MM 'às' HH:mm", { locale: ptBR })}
             </div>
           )}
+          {task.adiamentos > 0 && (
+            <div
+              className="text-muted-foreground flex items-center gap-1 text-xs"
+              title="Vezes que a tarefa foi reagendada"
+            >
+              <CalendarSync className="h-3 w-3" />
+              {task.adiamentos}
+            </div>
+          )}
+          {task.dataInicio && (
+            <div
+              className="text-muted-foreground flex items-center gap-1 text-xs"
+              title="Data de início"
+            >
+              <CalendarClock className="h-3 w-3" />
+              Início {formatTaskDay(task.dataInicio, task.fusoHorario)}
+            </div>
+          )}
+          {task.dataAgendada && (
+            <div
+              className="text-muted-foreground flex items-center gap-1 text-xs"
+              title="Data agendada"
+            >
+              <CalendarCheck className="h-3 w-3" />
+              Agendada {formatTaskDay(task.dataAgendada, task.fusoHorario)}
+            </div>
+          )}
+          {recurrenceDescription && (
+            <div
+              className="text-muted-foreground flex items-center gap-1 text-xs"
+              title={task.ocorrencia ? `Ocorrência ${task.ocorrencia}` : undefined}
+            >
+              <Repeat className="h-3 w-3" />
+              {recurrenceDescription}
+            </div>
+          )}
+          {task.lembretes?.length > 0 && (
+            <div
+              className="text-muted-foreground flex items-center gap-1 text-xs"
+              title={task.lembretes.map(describeReminder).join(', ')}
+            >
+              <Bell className="h-3 w-3" />
+              {task.lembretes.length}
+            </div>
+          )}
+          {!!task.anexos && (
+            <button
+              type="button"
+              className="text-muted-foreground flex items-center gap-1 text-xs hover:underline"
+              title="Anexos"
+              onClick={() => onViewAttachments?.(task)}
+            >
+              <Paperclip className="h-3 w-3" />
+              {task.anexos}
+            </button>
+          )}
+          {!!task.comentarios && (
+            <button
+              type="button"
+              className="text-muted-foreground flex items-center gap-1 text-xs hover:underline"
+              title="Comentários"
+              onClick={() => onViewComments?.(task)}
+            >
+              <MessageSquare className="h-3 w-3" />
+              {task.comentarios}
+            </button>
+          )}
+          {taskTags.map((tag) => (
+            <TagBadge key={tag.id} tag={tag} />
+          ))}
+          <div className="text-muted-foreground ml-auto flex items-center gap-1 text-xs">
+            {(trackedSeconds > 0 || task.duracaoEstimada) && (
+              <button
+                type="button"
+                className={cn(
+                  'flex items-center gap-1 hover:underline',
+                  task.duracaoEstimada &&
+                    trackedSeconds > task.duracaoEstimada * 60 &&
+                    'text-red-700 dark:text-red-400'
+                )}
+                onClick={() => onViewTimeEntries?.(task)}
+              >
+                <Timer className="h-3 w-3" />
+                {formatDuration(trackedSeconds)}
+                {task.duracaoEstimada && ` / ${formatDuration(task.duracaoEstimada * 60)}`}
+              </button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              title={isTimerRunning ? 'Parar cronômetro' : 'Iniciar cronômetro'}
+              onClick={() => (isTimerRunning ? stopTimer({ id: task.id }) : startTimer(task.id))}
+            >
+              {isTimerRunning ? (
+                <Square className="h-3 w-3 text-red-500" />
+              ) : (
+                <Play className="h-3 w-3" />
+              )}
+            </Button>
+          </div>
         </div>
+        {(blockedByCount > 0 || blockingCount > 0) && (
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            {blockedByCount > 0 && (
+              <button type="button" onClick={() => onViewDependencies?.(task)}>
+                <Badge
+                  variant="outline"
+                  className="border-orange-500 text-orange-700 dark:text-orange-400"
+                >
+                  <Lock className="h-3 w-3" />
+                  Bloqueada por {blockedByCount}
+                </Badge>
+              </button>
+            )}
+            {blockingCount > 0 && (
+              <button type="button" onClick={() => onViewDependencies?.(task)}>
+                <Badge variant="outline">
+                  <Link2 className="h-3 w-3" />
+                  Bloqueando {blockingCount}
+                </Badge>
+              </button>
+            )}
+          </div>
+        )}
+        {task.progresso && (
+          <button
+            type="button"
+            className="mt-3 flex w-full items-center gap-2"
+            onClick={() => onViewSubtasks?.(task)}
+          >
+            <Progress value={task.progresso.percentual} className="flex-1" />
+            <span className="text-muted-foreground text-xs">
+              {task.progresso.concluidas}/{task.progresso.total}
+            </span>
+          </button>
+        )}
+        {isOverdue && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="mt-3 w-full"
+            onClick={() => onReschedule?.(task)}
+          >
+            <CalendarSync className="h-4 w-4" />
+            Reagendar
+          </Button>
+        )}
       </CardContent>
     </Card>
   );
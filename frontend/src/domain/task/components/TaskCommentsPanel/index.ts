@@ -0,0 +1 @@
+export { TaskCommentsPanel } from './main';
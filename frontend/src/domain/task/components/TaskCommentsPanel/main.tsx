@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Button } from '@/core/components/button';
+import { Textarea } from '@/core/components/textarea';
+import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { Empty, EmptyHeader, EmptyTitle, EmptyDescription } from '@/core/components/empty';
+import { MessageSquare, Pencil, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { useAuthStore } from '@/core/stores/auth';
+import { useTaskComments } from '../../hooks';
+import { renderMarkdown } from '../../utils';
+import type { Task } from '../../types';
+
+interface TaskCommentsPanelProps {
+  task: Task | null;
+}
+
+const markdownClassName =
+  'space-y-2 break-words text-sm [&_a]:underline [&_code]:bg-muted [&_code]:rounded ' +
+  '[&_code]:px-1 [&_ol]:list-decimal [&_ol]:pl-5 [&_pre]:bg-muted [&_pre]:overflow-x-auto ' +
+  '[&_pre]:rounded [&_pre]:p-2 [&_ul]:list-disc [&_ul]:pl-5 [&_blockquote]:border-l-2 ' +
+  '[&_blockquote]:pl-3 [&_blockquote]:text-muted-foreground';
+
+function TaskCommentsPanel({ task }: TaskCommentsPanelProps) {
+  const { comments, createComment, updateComment, deleteComment, isCreating, isLoading } =
+    useTaskComments(task?.id || '');
+  const user = useAuthStore((state) => state.user);
+
+  const [draft, setDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+
+  const formatDateTime = (dateStr: string) =>
+    format(parseISO(dateStr), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    await createComment(draft);
+    setDraft('');
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingId || !editDraft.trim()) return;
+    await updateComment({ id: editingId, corpo: editDraft });
+    setEditingId(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <LoadingSpinner className="h-8 w-8" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {comments.length === 0 ? (
+        <Empty className="py-8">
+          <EmptyHeader>
+            <MessageSquare className="h-12 w-12" />
+            <EmptyTitle>Nenhum comentário</EmptyTitle>
+            <EmptyDescription>Comece a conversa sobre esta tarefa.</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <div className="space-y-3">
+          {comments.map((comment) => (
+            <div key={comment.id} className="rounded-lg border p-4">
+              <div className="mb-2 flex items-start justify-between gap-2">
+                <div className="text-xs">
+                  <span className="font-medium">{comment.nomeAutor}</span>
+                  <span className="text-muted-foreground">
+                    {' '}
+                    · {formatDateTime(comment.dataCriacao)}
+                    {comment.dataEdicao && ' (editado)'}
+                  </span>
+                </div>
+                {comment.corpo !== null && comment.idAutor === user?.id && (
+                  <div className="flex">
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      title="Editar"
+                      onClick={() => {
+                        setEditingId(comment.id);
+                        setEditDraft(comment.corpo || '');
+                      }}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      title="Excluir"
+                      onClick={() => deleteComment(comment.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {comment.corpo === null ? (
+                <p className="text-muted-foreground text-sm italic">Comentário excluído</p>
+              ) : editingId === comment.id ? (
+                <div className="space-y-2">
+                  <Textarea
+                    value={editDraft}
+                    maxLength={10000}
+                    onChange={(e) => setEditDraft(e.target.value)}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                      Cancelar
+                    </Button>
+                    <Button size="sm" disabled={!editDraft.trim()} onClick={handleSaveEdit}>
+                      Salvar
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div
+                  className={markdownClassName}
+                  dangerouslySetInnerHTML={{ __html: renderMarkdown(comment.corpo) }}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <Textarea
+          placeholder="Escreva um comentário (aceita markdown)"
+          value={draft}
+          maxLength={10000}
+          onChange={(e) => setDraft(e.target.value)}
+        />
+        <div className="flex justify-end">
+          <Button type="submit" size="sm" disabled={isCreating || !draft.trim()}>
+            {isCreating ? 'Publicando...' : 'Comentar'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export { TaskCommentsPanel };
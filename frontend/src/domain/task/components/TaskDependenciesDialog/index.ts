@@ -0,0 +1 @@
+export { TaskDependenciesDialog } from './main';
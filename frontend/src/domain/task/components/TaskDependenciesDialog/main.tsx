@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/core/components/dialog';
+import { Button } from '@/core/components/button';
+import { Label } from '@/core/components/label';
+import { Badge } from '@/core/components/badge';
+import { Separator } from '@/core/components/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/core/components/select';
+import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { Plus, Trash2 } from 'lucide-react';
+import { useTaskDependencies, useTaskList } from '../../hooks';
+import type { Task } from '../../types';
+import { cn } from '@/core/lib/utils';
+
+interface TaskDependenciesDialogProps {
+  task: Task | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onNavigate?: (task: Task) => void;
+}
+
+function TaskDependenciesDialog({
+  task,
+  open,
+  onOpenChange,
+  onNavigate,
+}: TaskDependenciesDialogProps) {
+  const { blockedBy, blocking, addDependency, removeDependency, isAdding, isLoading } =
+    useTaskDependencies(task?.id || '');
+  const { tasks } = useTaskList();
+  const [idTarefaBloqueadora, setIdTarefaBloqueadora] = useState('');
+
+  const candidates = tasks.filter(
+    (candidate) =>
+      candidate.id !== task?.id && !blockedBy.some((blocker) => blocker.id === candidate.id)
+  );
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!idTarefaBloqueadora) return;
+    await addDependency(idTarefaBloqueadora);
+    setIdTarefaBloqueadora('');
+  };
+
+  const renderLinkedTask = (linked: Task, onRemove?: () => void) => (
+    <div key={linked.id} className="flex items-center gap-2">
+      <button
+        type="button"
+        className={cn(
+          'flex-1 text-left text-sm hover:underline',
+          linked.status === 'Concluída' && 'text-muted-foreground line-through'
+        )}
+        onClick={() => onNavigate?.(linked)}
+      >
+        {linked.titulo}
+      </button>
+      <Badge variant="outline">{linked.status}</Badge>
+      {onRemove && (
+        <Button variant="ghost" size="icon-sm" onClick={onRemove}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[80vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Dependências de "{task?.titulo}"</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <LoadingSpinner className="h-8 w-8" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <Label>Bloqueada por</Label>
+              {blockedBy.length === 0 && (
+                <p className="text-muted-foreground text-sm">Nenhuma tarefa bloqueia esta tarefa</p>
+              )}
+              {blockedBy.map((blocker) =>
+                renderLinkedTask(blocker, () => removeDependency(blocker.id))
+              )}
+              <form onSubmit={handleAdd} className="flex gap-2">
+                <Select value={idTarefaBloqueadora} onValueChange={setIdTarefaBloqueadora}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Selecione uma tarefa" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {candidates.map((candidate) => (
+                      <SelectItem key={candidate.id} value={candidate.id}>
+                        {candidate.titulo}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button type="submit" variant="outline" disabled={isAdding || !idTarefaBloqueadora}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </form>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <Label>Bloqueando</Label>
+              {blocking.length === 0 && (
+                <p className="text-muted-foreground text-sm">Esta tarefa não bloqueia outras</p>
+              )}
+              {blocking.map((dependent) => renderLinkedTask(dependent))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export { TaskDependenciesDialog };
@@ -8,6 +8,15 @@ import {
 import { Input } from '@/core/components/input';
 import { Label } from '@/core/components/label';
 import type { TaskListFilters } from '../../types';
+import {
+  TASK_IMPORTANCE_FILTER_VALUES,
+  TASK_ORDER_BY_VALUES,
+  TASK_PERIOD_FILTER_VALUES,
+  TASK_SCHEDULED_FILTER_VALUES,
+  TASK_START_FILTER_VALUES,
+  TASK_STATUS_FILTER_VALUES,
+} from '@taskmanager/shared';
+import { TagPicker } from '@/domain/tag/_module';
 import { Search } from 'lucide-react';
 
 interface TaskFiltersProps {
@@ -20,9 +29,11 @@ function TaskFilters({ filters, onFiltersChange }: TaskFiltersProps) {
     onFiltersChange({ ...filters, [key]: value });
   };
 
+  const selectedTags = filters.filterTags ? filters.filterTags.split(',') : [];
+
   return (
     <div className="space-y-4 rounded-lg border p-4">
-      <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
         <div className="space-y-2">
           <Label>Status</Label>
           <Select
@@ -33,10 +44,11 @@ function TaskFilters({ filters, onFiltersChange }: TaskFiltersProps) {
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="Todas">Todas</SelectItem>
-              <SelectItem value="Pendentes">Pendentes</SelectItem>
-              <SelectItem value="Concluídas">Concluídas</SelectItem>
-              <SelectItem value="Vencidas">Vencidas</SelectItem>
+              {TASK_STATUS_FILTER_VALUES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {value}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -51,10 +63,11 @@ function TaskFilters({ filters, onFiltersChange }: TaskFiltersProps) {
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="Todas">Todas</SelectItem>
-              <SelectItem value="Alta">Alta</SelectItem>
-              <SelectItem value="Média">Média</SelectItem>
-              <SelectItem value="Baixa">Baixa</SelectItem>
+              {TASK_IMPORTANCE_FILTER_VALUES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {value}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -69,13 +82,49 @@ function TaskFilters({ filters, onFiltersChange }: TaskFiltersProps) {
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="Todas">Todas</SelectItem>
-              <SelectItem value="Hoje">Hoje</SelectItem>
-              <SelectItem value="Esta semana">Esta semana</SelectItem>
-              <SelectItem value="Este mês">Este mês</SelectItem>
-              <SelectItem value="Próximas ao vencimento">Próximas ao vencimento</SelectItem>
-              <SelectItem value="Vencidas">Vencidas</SelectItem>
-              <SelectItem value="Sem data">Sem data</SelectItem>
+              {TASK_PERIOD_FILTER_VALUES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Início</Label>
+          <Select
+            value={filters.filterStart || 'Iniciadas'}
+            onValueChange={(value) => updateFilter('filterStart', value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TASK_START_FILTER_VALUES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Agendamento</Label>
+          <Select
+            value={filters.filterScheduled || 'Todas'}
+            onValueChange={(value) => updateFilter('filterScheduled', value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TASK_SCHEDULED_FILTER_VALUES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {value}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -90,9 +139,38 @@ function TaskFilters({ filters, onFiltersChange }: TaskFiltersProps) {
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="Data de vencimento">Data de vencimento</SelectItem>
-              <SelectItem value="Importância">Importância</SelectItem>
-              <SelectItem value="Data de criação">Data de criação</SelectItem>
+              {TASK_ORDER_BY_VALUES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Tags</Label>
+        <div className="flex flex-col gap-2 md:flex-row md:items-start">
+          <div className="flex-1">
+            <TagPicker
+              value={selectedTags}
+              onChange={(value) =>
+                updateFilter('filterTags', value.length > 0 ? value.join(',') : undefined)
+              }
+            />
+          </div>
+          <Select
+            value={filters.filterTagsMode || 'Qualquer'}
+            onValueChange={(value) => updateFilter('filterTagsMode', value)}
+            disabled={selectedTags.length < 2}
+          >
+            <SelectTrigger className="md:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="Qualquer">Qualquer tag</SelectItem>
+              <SelectItem value="Todas">Todas as tags</SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -1,5 +1,5 @@
 import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
+import { zodCodeResolver } from '@/core/lib/resolver';
 import { taskSchema } from '../../validations';
 import type { Task } from '../../types';
 import { Button } from '@/core/components/button';
@@ -15,43 +15,86 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
   FormMessage,
 } from '@/core/components/form';
+import { DatePicker } from '@/core/components/date-picker';
 import { z } from 'zod';
+import { format, parse } from 'date-fns';
 import DOMPurify from 'dompurify';
+import { TagPicker } from '@/domain/tag/_module';
+import { ProjectSelect } from '@/domain/project/_module';
+import { RecurrenceEditor } from '../RecurrenceEditor';
+import { ReminderEditor } from '../ReminderEditor';
+import {
+  getDueDateFields,
+  getLocalTimeZone,
+  getTaskDay,
+  getTaskFieldErrors,
+  toDueDatePayload,
+  type TaskFormField,
+} from '../../utils';
 
 type TaskFormInput = z.input<typeof taskSchema>;
 type TaskFormOutput = z.output<typeof taskSchema>;
+type TaskFormSubmit = Omit<TaskFormOutput, 'horaVencimento'> &
+  ReturnType<typeof toDueDatePayload>;
+
+const toPickerDate = (day: string | null | undefined): Date | undefined =>
+  day ? parse(day, 'yyyy-MM-dd', new Date()) : undefined;
+
+const fromPickerDate = (date: Date | undefined): string | null =>
+  date ? format(date, 'yyyy-MM-dd') : null;
 
 interface TaskFormProps {
   task?: Task;
-  onSubmit: (data: TaskFormOutput) => void | Promise<void>;
+  defaultIdProjeto?: string | null;
+  onSubmit: (data: TaskFormSubmit) => void | Promise<void>;
   onCancel?: () => void;
   isLoading?: boolean;
 }
 
-function TaskForm({ task, onSubmit, onCancel, isLoading }: TaskFormProps) {
+function TaskForm({ task, defaultIdProjeto, onSubmit, onCancel, isLoading }: TaskFormProps) {
+  const dueDate = task ? getDueDateFields(task) : { data: '', hora: '' };
+  const fusoHorario = task?.dataVencimento ? task.fusoHorario : getLocalTimeZone();
+
   const form = useForm<TaskFormInput, any, TaskFormOutput>({
-    resolver: zodResolver(taskSchema),
+    resolver: zodCodeResolver(taskSchema),
     mode: 'onBlur',
     defaultValues: {
       titulo: task?.titulo || '',
       descricao: task?.descricao || '',
-      dataVencimento: task?.dataVencimento || '',
-      horaVencimento: task?.horaVencimento || '',
+      dataVencimento: dueDate.data,
+      horaVencimento: dueDate.hora,
+      dataInicio: task ? getTaskDay(task.dataInicio, task.fusoHorario) : null,
+      dataAgendada: task ? getTaskDay(task.dataAgendada, task.fusoHorario) : null,
       importancia: task?.importancia || 'Média',
+      recorrencia: task?.recorrencia || undefined,
+      tags: task?.tags || [],
+      idProjeto: task ? task.idProjeto : defaultIdProjeto || null,
+      duracaoEstimada: task?.duracaoEstimada ?? null,
+      lembretes: task?.lembretes ?? [],
     },
   });
 
-  const handleSubmit = (data: TaskFormOutput) => {
+  const handleSubmit = async ({ horaVencimento, ...data }: TaskFormOutput) => {
     const sanitizedData = {
       ...data,
       descricao: data.descricao ? DOMPurify.sanitize(data.descricao) : undefined,
+      ...toDueDatePayload(data.dataVencimento, horaVencimento, fusoHorario),
     };
-    onSubmit(sanitizedData);
+
+    try {
+      await onSubmit(sanitizedData);
+    } catch (error) {
+      const fieldErrors = Object.entries(getTaskFieldErrors(error)) as [TaskFormField, string][];
+      fieldErrors.forEach(([field, message], index) =>
+        form.setError(field, { type: 'server', message }, { shouldFocus: index === 0 })
+      );
+    }
   };
 
   return (
@@ -93,7 +136,7 @@ function TaskForm({ task, onSubmit, onCancel, isLoading }: TaskFormProps) {
               <FormItem>
                 <FormLabel>Data de Vencimento</FormLabel>
                 <FormControl>
-                  <Input type="text" placeholder="DD/MM/AAAA" {...field} />
+                  <Input type="date" {...field} />
                 </FormControl>
                 <FormMessage />
               </FormItem>
@@ -107,8 +150,50 @@ function TaskForm({ task, onSubmit, onCancel, isLoading }: TaskFormProps) {
               <FormItem>
                 <FormLabel>Hora de Vencimento</FormLabel>
                 <FormControl>
-                  <Input type="text" placeholder="HH:MM" {...field} />
+                  <Input type="time" {...field} />
                 </FormControl>
+                <FormDescription>
+                  Sem hora, a tarefa vence ao fim do dia
+                  {fusoHorario !== getLocalTimeZone() && ` (fuso ${fusoHorario})`}
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="dataInicio"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Data de Início</FormLabel>
+                <DatePicker
+                  date={toPickerDate(field.value)}
+                  onDateChange={(date) => field.onChange(fromPickerDate(date))}
+                  placeholder="Sem data de início"
+                  className="w-full"
+                />
+                <FormDescription>Até lá, a tarefa fica fora da lista</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="dataAgendada"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Data Agendada</FormLabel>
+                <DatePicker
+                  date={toPickerDate(field.value)}
+                  onDateChange={(date) => field.onChange(fromPickerDate(date))}
+                  placeholder="Sem agendamento"
+                  className="w-full"
+                />
+                <FormDescription>Dia em que você planeja fazer a tarefa</FormDescription>
                 <FormMessage />
               </FormItem>
             )}
@@ -138,6 +223,79 @@ function TaskForm({ task, onSubmit, onCancel, isLoading }: TaskFormProps) {
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="duracaoEstimada"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Estimativa (minutos)</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={1}
+                  placeholder="Ex.: 90"
+                  name={field.name}
+                  ref={field.ref}
+                  onBlur={field.onBlur}
+                  value={field.value ?? ''}
+                  onChange={(e) =>
+                    field.onChange(e.target.value === '' ? null : Number(e.target.value))
+                  }
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="recorrencia"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Repetição</FormLabel>
+              <RecurrenceEditor value={field.value} onChange={field.onChange} />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="lembretes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Lembretes</FormLabel>
+              <ReminderEditor value={field.value} onChange={field.onChange} />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="idProjeto"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Projeto</FormLabel>
+              <ProjectSelect value={field.value} onChange={field.onChange} />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="tags"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Tags</FormLabel>
+              <TagPicker value={field.value} onChange={field.onChange} />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <div className="flex justify-end gap-2">
           {onCancel && (
             <Button type="button" variant="outline" onClick={onCancel} disabled={isLoading}>
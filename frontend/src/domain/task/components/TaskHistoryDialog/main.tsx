@@ -8,8 +8,15 @@ import {
   SelectValue,
 } from '@/core/components/select';
 import { Label } from '@/core/components/label';
-import { useTaskHistory } from '../../hooks';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/core/components/tabs';
+import { useTaskHistory, useTaskTimeEntries } from '../../hooks';
+import { formatDuration } from '../../utils';
 import type { Task, TaskHistoryFilters } from '../../types';
+import {
+  TASK_HISTORY_ORIGEM_FILTER_VALUES,
+  TASK_HISTORY_TIPO_FILTER_VALUES,
+} from '@taskmanager/shared';
+import { TaskCommentsPanel } from '../TaskCommentsPanel';
 import { useState } from 'react';
 import { format, parseISO } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
@@ -21,15 +28,23 @@ interface TaskHistoryDialogProps {
   task: Task | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  defaultTab?: 'historico' | 'comentarios';
 }
 
-function TaskHistoryDialog({ task, open, onOpenChange }: TaskHistoryDialogProps) {
+function TaskHistoryDialog({
+  task,
+  open,
+  onOpenChange,
+  defaultTab = 'historico',
+}: TaskHistoryDialogProps) {
   const [filters, setFilters] = useState<TaskHistoryFilters>({
     filterTipo: 'Todas',
     filterOrigem: 'Todas',
   });
 
+  const isDeleted = !!task?.dataExclusao;
   const { history, isLoading } = useTaskHistory(task?.id || '', filters);
+  const { entries, totalSeconds } = useTaskTimeEntries(isDeleted ? '' : task?.id || '');
 
   const updateFilter = (key: keyof TaskHistoryFilters, value: any) => {
     setFilters({ ...filters, [key]: value });
@@ -47,102 +62,124 @@ function TaskHistoryDialog({ task, open, onOpenChange }: TaskHistoryDialogProps)
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-h-[80vh] max-w-2xl overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Histórico de Alterações</DialogTitle>
+          <DialogTitle>{task?.titulo}</DialogTitle>
         </DialogHeader>
 
-        <div className="space-y-4">
-          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-            <div className="space-y-2">
-              <Label>Tipo de Alteração</Label>
-              <Select
-                value={filters.filterTipo || 'Todas'}
-                onValueChange={(value) => updateFilter('filterTipo', value)}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="Todas">Todas</SelectItem>
-                  <SelectItem value="Criação">Criação</SelectItem>
-                  <SelectItem value="Edição">Edição</SelectItem>
-                  <SelectItem value="Alteração de Status">Alteração de Status</SelectItem>
-                  <SelectItem value="Exclusão">Exclusão</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+        <Tabs defaultValue={isDeleted ? 'historico' : defaultTab}>
+          <TabsList>
+            <TabsTrigger value="historico">Histórico de Alterações</TabsTrigger>
+            {!isDeleted && <TabsTrigger value="comentarios">Comentários</TabsTrigger>}
+          </TabsList>
 
-            <div className="space-y-2">
-              <Label>Origem</Label>
-              <Select
-                value={filters.filterOrigem || 'Todas'}
-                onValueChange={(value) => updateFilter('filterOrigem', value)}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="Todas">Todas</SelectItem>
-                  <SelectItem value="Manual">Manual</SelectItem>
-                  <SelectItem value="Automática">Automática</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
+          <TabsContent value="comentarios">
+            <TaskCommentsPanel task={task} />
+          </TabsContent>
+
+          <TabsContent value="historico" className="space-y-4">
+            {entries.length > 0 && (
+              <p className="text-muted-foreground text-sm">
+                Tempo registrado: {formatDuration(totalSeconds)} em {entries.length}{' '}
+                {entries.length === 1 ? 'registro' : 'registros'}
+              </p>
+            )}
 
-          {isLoading ? (
-            <div className="flex items-center justify-center py-8">
-              <LoadingSpinner className="h-8 w-8" />
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Tipo de Alteração</Label>
+                <Select
+                  value={filters.filterTipo || 'Todas'}
+                  onValueChange={(value) => updateFilter('filterTipo', value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TASK_HISTORY_TIPO_FILTER_VALUES.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {value}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Origem</Label>
+                <Select
+                  value={filters.filterOrigem || 'Todas'}
+                  onValueChange={(value) => updateFilter('filterOrigem', value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TASK_HISTORY_ORIGEM_FILTER_VALUES.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {value}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
-          ) : history.length === 0 ? (
-            <Empty className="py-8">
-              <EmptyHeader>
-                <History className="h-12 w-12" />
-                <EmptyTitle>Nenhum registro encontrado</EmptyTitle>
-                <EmptyDescription>
-                  Não há registros de alterações para esta tarefa com os filtros selecionados.
-                </EmptyDescription>
-              </EmptyHeader>
-            </Empty>
-          ) : (
-            <div className="space-y-3">
-              {history.map((entry) => (
-                <div key={entry.id} className="rounded-lg border p-4">
-                  <div className="mb-2 flex items-start justify-between">
-                    <div className="space-y-1">
-                      <div className="flex items-center gap-2">
-                        <Badge variant="outline">{entry.tipoAlteracao}</Badge>
-                        <Badge
-                          variant={entry.origemAlteracao === 'Automática' ? 'secondary' : 'default'}
-                        >
-                          {entry.origemAlteracao}
-                        </Badge>
-                      </div>
-                      <p className="text-muted-foreground text-xs">
-                        {formatDateTime(entry.dataAlteracao)}
-                      </p>
-                    </div>
-                  </div>
 
-                  {entry.campoAlterado && (
-                    <div className="mt-3 space-y-1 text-sm">
-                      <p className="font-medium">Campo: {entry.campoAlterado}</p>
-                      {entry.valorAnterior && (
-                        <p className="text-muted-foreground">
-                          De: <span className="font-medium">{entry.valorAnterior}</span>
-                        </p>
-                      )}
-                      {entry.valorNovo && (
-                        <p className="text-muted-foreground">
-                          Para: <span className="font-medium">{entry.valorNovo}</span>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <LoadingSpinner className="h-8 w-8" />
+              </div>
+            ) : history.length === 0 ? (
+              <Empty className="py-8">
+                <EmptyHeader>
+                  <History className="h-12 w-12" />
+                  <EmptyTitle>Nenhum registro encontrado</EmptyTitle>
+                  <EmptyDescription>
+                    Não há registros de alterações para esta tarefa com os filtros selecionados.
+                  </EmptyDescription>
+                </EmptyHeader>
+              </Empty>
+            ) : (
+              <div className="space-y-3">
+                {history.map((entry) => (
+                  <div key={entry.id} className="rounded-lg border p-4">
+                    <div className="mb-2 flex items-start justify-between">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline">{entry.tipoAlteracao}</Badge>
+                          <Badge
+                            variant={
+                              entry.origemAlteracao === 'Automática' ? 'secondary' : 'default'
+                            }
+                          >
+                            {entry.origemAlteracao}
+                          </Badge>
+                        </div>
+                        <p className="text-muted-foreground text-xs">
+                          {formatDateTime(entry.dataAlteracao)}
                         </p>
-                      )}
+                      </div>
                     </div>
-                  )}
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
+
+                    {entry.campoAlterado && (
+                      <div className="mt-3 space-y-1 text-sm">
+                        <p className="font-medium">Campo: {entry.campoAlterado}</p>
+                        {entry.valorAnterior && (
+                          <p className="text-muted-foreground">
+                            De: <span className="font-medium">{entry.valorAnterior}</span>
+                          </p>
+                        )}
+                        {entry.valorNovo && (
+                          <p className="text-muted-foreground">
+                            Para: <span className="font-medium">{entry.valorNovo}</span>
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
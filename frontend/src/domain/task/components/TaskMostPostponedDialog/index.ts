@@ -0,0 +1 @@
+export { TaskMostPostponedDialog } from './main';
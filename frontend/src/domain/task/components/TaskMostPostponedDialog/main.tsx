@@ -0,0 +1,78 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/core/components/dialog';
+import { Badge } from '@/core/components/badge';
+import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { Empty, EmptyDescription, EmptyHeader, EmptyTitle } from '@/core/components/empty';
+import { CalendarSync } from 'lucide-react';
+import { useMostPostponedTasks } from '../../hooks';
+import { formatDueDate } from '../../utils';
+import type { Task } from '../../types';
+
+interface TaskMostPostponedDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onNavigate?: (task: Task) => void;
+}
+
+function TaskMostPostponedDialog({
+  open,
+  onOpenChange,
+  onNavigate,
+}: TaskMostPostponedDialogProps) {
+  const { tasks, isLoading } = useMostPostponedTasks(open);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Tarefas mais adiadas</DialogTitle>
+          <DialogDescription>Tarefas abertas que foram reagendadas mais vezes</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <LoadingSpinner className="h-8 w-8" />
+          </div>
+        ) : tasks.length === 0 ? (
+          <Empty className="py-8">
+            <EmptyHeader>
+              <CalendarSync className="h-12 w-12" />
+              <EmptyTitle>Nenhuma tarefa adiada</EmptyTitle>
+              <EmptyDescription>Nenhuma tarefa aberta foi reagendada até agora.</EmptyDescription>
+            </EmptyHeader>
+          </Empty>
+        ) : (
+          <div className="space-y-2">
+            {tasks.map((task) => (
+              <button
+                key={task.id}
+                type="button"
+                className="hover:bg-muted flex w-full items-center justify-between gap-2 rounded-lg border p-3 text-left"
+                onClick={() => {
+                  onNavigate?.(task);
+                  onOpenChange(false);
+                }}
+              >
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">{task.titulo}</p>
+                  {task.dataVencimento && (
+                    <p className="text-muted-foreground text-xs">Vence em {formatDueDate(task)}</p>
+                  )}
+                </div>
+                <Badge variant="outline">
+                  {task.adiamentos} {task.adiamentos === 1 ? 'adiamento' : 'adiamentos'}
+                </Badge>
+              </button>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export { TaskMostPostponedDialog };
@@ -0,0 +1 @@
+export { TaskRescheduleDialog } from './main';
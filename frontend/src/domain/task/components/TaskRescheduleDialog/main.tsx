@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/core/components/dialog';
+import { Button } from '@/core/components/button';
+import { Input } from '@/core/components/input';
+import { Label } from '@/core/components/label';
+import { Textarea } from '@/core/components/textarea';
+import { addDays, format } from 'date-fns';
+import type { Task } from '../../types';
+import { formatDueDate, getDueDateFields, toDueDatePayload } from '../../utils';
+
+type RescheduleData = ReturnType<typeof toDueDatePayload> & { motivo?: string };
+
+interface TaskRescheduleDialogProps {
+  task: Task | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (task: Task, data: RescheduleData) => void | Promise<void>;
+  isLoading?: boolean;
+}
+
+function TaskRescheduleDialog({
+  task,
+  open,
+  onOpenChange,
+  onSubmit,
+  isLoading,
+}: TaskRescheduleDialogProps) {
+  const [data, setData] = useState('');
+  const [hora, setHora] = useState('');
+  const [motivo, setMotivo] = useState('');
+
+  useEffect(() => {
+    if (open && task) {
+      setData(format(addDays(new Date(), 1), 'yyyy-MM-dd'));
+      setHora(getDueDateFields(task).hora);
+      setMotivo('');
+    }
+  }, [open, task]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!task || !data) return;
+    await onSubmit(task, {
+      ...toDueDatePayload(data, hora, task.fusoHorario),
+      motivo: motivo.trim() || undefined,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reagendar tarefa</DialogTitle>
+          <DialogDescription>
+            "{task?.titulo}" venceu em {task && formatDueDate(task)}. Escolha um novo vencimento
+            para reabri-la.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="reagendar-data">Nova data *</Label>
+              <Input
+                id="reagendar-data"
+                type="date"
+                value={data}
+                min={format(new Date(), 'yyyy-MM-dd')}
+                onChange={(e) => setData(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reagendar-hora">Hora</Label>
+              <Input
+                id="reagendar-hora"
+                type="time"
+                value={hora}
+                onChange={(e) => setHora(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reagendar-motivo">Motivo</Label>
+            <Textarea
+              id="reagendar-motivo"
+              placeholder="Por que a tarefa está sendo adiada? (opcional)"
+              maxLength={500}
+              value={motivo}
+              onChange={(e) => setMotivo(e.target.value)}
+            />
+          </div>
+          {task && task.adiamentos > 0 && (
+            <p className="text-muted-foreground text-sm">
+              Esta tarefa já foi reagendada {task.adiamentos}{' '}
+              {task.adiamentos === 1 ? 'vez' : 'vezes'}.
+            </p>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={!data || isLoading}>
+              {isLoading ? 'Reagendando...' : 'Reagendar'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export { TaskRescheduleDialog };
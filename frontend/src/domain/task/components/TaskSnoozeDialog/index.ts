@@ -0,0 +1 @@
+export { TaskSnoozeDialog } from './main';
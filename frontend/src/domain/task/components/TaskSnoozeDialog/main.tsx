@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/core/components/dialog';
+import { Button } from '@/core/components/button';
+import { Input } from '@/core/components/input';
+import { Label } from '@/core/components/label';
+import { addDays, format } from 'date-fns';
+import type { Task } from '../../types';
+
+interface TaskSnoozeDialogProps {
+  task: Task | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (task: Task, sonecaAte: string) => void | Promise<void>;
+  isLoading?: boolean;
+}
+
+const tomorrowMorning = () => format(addDays(new Date(), 1), "yyyy-MM-dd'T'09:00");
+
+function TaskSnoozeDialog({
+  task,
+  open,
+  onOpenChange,
+  onSubmit,
+  isLoading,
+}: TaskSnoozeDialogProps) {
+  const [sonecaAte, setSonecaAte] = useState(tomorrowMorning);
+
+  useEffect(() => {
+    if (open) setSonecaAte(tomorrowMorning());
+  }, [open]);
+
+  const isFuture = !!sonecaAte && new Date(sonecaAte).getTime() > Date.now();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!task || !isFuture) return;
+    await onSubmit(task, new Date(sonecaAte).toISOString());
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Adiar tarefa</DialogTitle>
+          <DialogDescription>
+            "{task?.titulo}" sai da lista até o momento escolhido, sem mudar o vencimento.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="sonecaAte">Voltar em</Label>
+            <Input
+              id="sonecaAte"
+              type="datetime-local"
+              value={sonecaAte}
+              onChange={(e) => setSonecaAte(e.target.value)}
+            />
+            {!isFuture && <p className="text-destructive text-sm">Escolha um momento no futuro</p>}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={!isFuture || isLoading}>
+              {isLoading ? 'Adiando...' : 'Adiar'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export { TaskSnoozeDialog };
@@ -0,0 +1 @@
+export { TaskSubtasksDialog } from './main';
@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/core/components/dialog';
+import { Button } from '@/core/components/button';
+import { Checkbox } from '@/core/components/checkbox';
+import { Input } from '@/core/components/input';
+import { Label } from '@/core/components/label';
+import { Progress } from '@/core/components/progress';
+import { Badge } from '@/core/components/badge';
+import { Separator } from '@/core/components/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/core/components/select';
+import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { ChevronDown, ChevronUp, Plus, Trash2 } from 'lucide-react';
+import { useTaskSubtasks } from '../../hooks';
+import type { Task, TaskImportance } from '../../types';
+import { formatDueDate, getLocalTimeZone, toDueDatePayload } from '../../utils';
+import { cn } from '@/core/lib/utils';
+
+interface TaskSubtasksDialogProps {
+  task: Task | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function TaskSubtasksDialog({ task, open, onOpenChange }: TaskSubtasksDialogProps) {
+  const {
+    items,
+    subtasks,
+    progress,
+    createItem,
+    updateItem,
+    createSubtask,
+    updateSubtaskStatus,
+    deleteSubtask,
+    isCreatingItem,
+    isCreatingSubtask,
+    isLoading,
+  } = useTaskSubtasks(task?.id || '');
+
+  const [newItemText, setNewItemText] = useState('');
+  const [newSubtask, setNewSubtask] = useState<{
+    titulo: string;
+    dataVencimento: string;
+    importancia: TaskImportance;
+  }>({ titulo: '', dataVencimento: '', importancia: 'Média' });
+
+  const isSubtask = !!task?.idTarefaPai;
+
+  const handleAddItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newItemText.trim()) return;
+    await createItem(newItemText.trim());
+    setNewItemText('');
+  };
+
+  const handleAddSubtask = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newSubtask.titulo.trim()) return;
+    await createSubtask({
+      titulo: newSubtask.titulo.trim(),
+      ...toDueDatePayload(newSubtask.dataVencimento, undefined, getLocalTimeZone()),
+      importancia: newSubtask.importancia,
+    });
+    setNewSubtask({ titulo: '', dataVencimento: '', importancia: 'Média' });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[80vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Subtarefas de "{task?.titulo}"</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <LoadingSpinner className="h-8 w-8" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {progress && progress.total > 0 && (
+              <div className="space-y-2">
+                <div className="text-muted-foreground flex justify-between text-sm">
+                  <span>Progresso</span>
+                  <span>
+                    {progress.concluidas}/{progress.total} ({progress.percentual}%)
+                  </span>
+                </div>
+                <Progress value={progress.percentual} />
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <Label>Checklist</Label>
+              {items.map((item, index) => (
+                <div key={item.id} className="flex items-center gap-2">
+                  <Checkbox
+                    checked={item.concluido}
+                    onCheckedChange={(checked) =>
+                      updateItem({ id: item.id, data: { concluido: checked === true } })
+                    }
+                  />
+                  <span
+                    className={cn(
+                      'flex-1 text-sm',
+                      item.concluido && 'text-muted-foreground line-through'
+                    )}
+                  >
+                    {item.texto}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    disabled={index === 0}
+                    onClick={() => updateItem({ id: item.id, data: { ordem: index - 1 } })}
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    disabled={index === items.length - 1}
+                    onClick={() => updateItem({ id: item.id, data: { ordem: index + 1 } })}
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon-sm" onClick={() => deleteSubtask(item.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <form onSubmit={handleAddItem} className="flex gap-2">
+                <Input
+                  placeholder="Novo item"
+                  maxLength={200}
+                  value={newItemText}
+                  onChange={(e) => setNewItemText(e.target.value)}
+                />
+                <Button type="submit" variant="outline" disabled={isCreatingItem}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </form>
+            </div>
+
+            {!isSubtask && (
+              <>
+                <Separator />
+
+                <div className="space-y-3">
+                  <Label>Subtarefas</Label>
+                  {subtasks.map((subtask) => (
+                    <div key={subtask.id} className="flex items-center gap-2">
+                      <Checkbox
+                        checked={subtask.status === 'Concluída'}
+                        onCheckedChange={(checked) =>
+                          updateSubtaskStatus({
+                            id: subtask.id,
+                            status: checked === true ? 'Concluída' : 'Pendente',
+                          })
+                        }
+                      />
+                      <span
+                        className={cn(
+                          'flex-1 text-sm',
+                          subtask.status === 'Concluída' && 'text-muted-foreground line-through'
+                        )}
+                      >
+                        {subtask.titulo}
+                      </span>
+                      {subtask.dataVencimento && (
+                        <span className="text-muted-foreground text-xs">
+                          {formatDueDate(subtask)}
+                        </span>
+                      )}
+                      <Badge variant="outline">{subtask.importancia}</Badge>
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        onClick={() => deleteSubtask(subtask.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <form onSubmit={handleAddSubtask} className="grid grid-cols-1 gap-2 md:grid-cols-4">
+                    <Input
+                      className="md:col-span-2"
+                      placeholder="Nova subtarefa"
+                      maxLength={100}
+                      value={newSubtask.titulo}
+                      onChange={(e) => setNewSubtask({ ...newSubtask, titulo: e.target.value })}
+                    />
+                    <Input
+                      type="date"
+                      value={newSubtask.dataVencimento}
+                      onChange={(e) =>
+                        setNewSubtask({ ...newSubtask, dataVencimento: e.target.value })
+                      }
+                    />
+                    <div className="flex gap-2">
+                      <Select
+                        value={newSubtask.importancia}
+                        onValueChange={(value) =>
+                          setNewSubtask({ ...newSubtask, importancia: value as TaskImportance })
+                        }
+                      >
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="Alta">Alta</SelectItem>
+                          <SelectItem value="Média">Média</SelectItem>
+                          <SelectItem value="Baixa">Baixa</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button type="submit" variant="outline" disabled={isCreatingSubtask}>
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </form>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export { TaskSubtasksDialog };
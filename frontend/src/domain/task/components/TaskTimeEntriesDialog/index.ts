@@ -0,0 +1 @@
+export { TaskTimeEntriesDialog } from './main';
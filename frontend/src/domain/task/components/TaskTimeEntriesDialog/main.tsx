@@ -0,0 +1,244 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/core/components/dialog';
+import { Button } from '@/core/components/button';
+import { Input } from '@/core/components/input';
+import { Label } from '@/core/components/label';
+import { Progress } from '@/core/components/progress';
+import { Separator } from '@/core/components/separator';
+import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { Check, Pencil, Play, Plus, Square, Trash2, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { useRunningTimer, useTaskTimeEntries } from '../../hooks';
+import { formatDuration } from '../../utils';
+import type { Task, TimeEntry } from '../../types';
+
+interface TaskTimeEntriesDialogProps {
+  task: Task | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface EntryDraft {
+  inicio: string;
+  fim: string;
+  nota: string;
+}
+
+const emptyDraft: EntryDraft = { inicio: '', fim: '', nota: '' };
+
+const toInputValue = (iso: string | null) =>
+  iso ? format(parseISO(iso), "yyyy-MM-dd'T'HH:mm") : '';
+
+const toIso = (value: string) => new Date(value).toISOString();
+
+function TaskTimeEntriesDialog({ task, open, onOpenChange }: TaskTimeEntriesDialogProps) {
+  const {
+    entries,
+    totalSeconds,
+    estimatedMinutes,
+    createEntry,
+    updateEntry,
+    deleteEntry,
+    isCreating,
+    isLoading,
+  } = useTaskTimeEntries(task?.id || '');
+  const { timer, startTimer, stopTimer, isStarting, isStopping } = useRunningTimer();
+
+  const [newEntry, setNewEntry] = useState<EntryDraft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<EntryDraft>(emptyDraft);
+
+  const isRunning = !!task && timer?.tarefa.id === task.id;
+  const estimatedSeconds = estimatedMinutes ? estimatedMinutes * 60 : null;
+
+  const formatDateTime = (iso: string) =>
+    format(parseISO(iso), 'dd/MM/yyyy HH:mm', { locale: ptBR });
+
+  const entrySeconds = (entry: TimeEntry) =>
+    Math.floor(
+      ((entry.fim ? parseISO(entry.fim).getTime() : Date.now()) -
+        parseISO(entry.inicio).getTime()) /
+        1000
+    );
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newEntry.inicio || !newEntry.fim) return;
+    await createEntry({
+      inicio: toIso(newEntry.inicio),
+      fim: toIso(newEntry.fim),
+      nota: newEntry.nota.trim() || null,
+    });
+    setNewEntry(emptyDraft);
+  };
+
+  const startEditing = (entry: TimeEntry) => {
+    setEditingId(entry.id);
+    setEditDraft({
+      inicio: toInputValue(entry.inicio),
+      fim: toInputValue(entry.fim),
+      nota: entry.nota || '',
+    });
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingId || !editDraft.inicio) return;
+    await updateEntry({
+      id: editingId,
+      data: {
+        inicio: toIso(editDraft.inicio),
+        fim: editDraft.fim ? toIso(editDraft.fim) : null,
+        nota: editDraft.nota.trim() || null,
+      },
+    });
+    setEditingId(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[80vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Tempo de "{task?.titulo}"</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <LoadingSpinner className="h-8 w-8" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <div className="text-muted-foreground flex justify-between text-sm">
+                <span>
+                  Registrado: {formatDuration(totalSeconds)}
+                  {estimatedSeconds && ` de ${formatDuration(estimatedSeconds)} estimados`}
+                </span>
+                {isRunning ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isStopping}
+                    onClick={() => task && stopTimer({ id: task.id })}
+                  >
+                    <Square className="mr-2 h-4 w-4" />
+                    Parar
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isStarting}
+                    onClick={() => task && startTimer(task.id)}
+                  >
+                    <Play className="mr-2 h-4 w-4" />
+                    Iniciar
+                  </Button>
+                )}
+              </div>
+              {estimatedSeconds && (
+                <Progress value={Math.min(100, (totalSeconds / estimatedSeconds) * 100)} />
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <Label>Registros</Label>
+              {entries.length === 0 && (
+                <p className="text-muted-foreground text-sm">Nenhum tempo registrado</p>
+              )}
+              {entries.map((entry) =>
+                editingId === entry.id ? (
+                  <div key={entry.id} className="grid grid-cols-1 gap-2 md:grid-cols-7">
+                    <Input
+                      className="md:col-span-2"
+                      type="datetime-local"
+                      value={editDraft.inicio}
+                      onChange={(e) => setEditDraft({ ...editDraft, inicio: e.target.value })}
+                    />
+                    <Input
+                      className="md:col-span-2"
+                      type="datetime-local"
+                      value={editDraft.fim}
+                      disabled={!entry.fim}
+                      onChange={(e) => setEditDraft({ ...editDraft, fim: e.target.value })}
+                    />
+                    <Input
+                      className="md:col-span-2"
+                      placeholder="Nota"
+                      maxLength={500}
+                      value={editDraft.nota}
+                      onChange={(e) => setEditDraft({ ...editDraft, nota: e.target.value })}
+                    />
+                    <div className="flex">
+                      <Button variant="ghost" size="icon-sm" onClick={handleSaveEdit}>
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon-sm" onClick={() => setEditingId(null)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div key={entry.id} className="flex items-center gap-2 text-sm">
+                    <span className="flex-1">
+                      {formatDateTime(entry.inicio)} –{' '}
+                      {entry.fim ? formatDateTime(entry.fim) : 'em andamento'}
+                      {entry.nota && (
+                        <span className="text-muted-foreground"> · {entry.nota}</span>
+                      )}
+                    </span>
+                    <span className="font-mono tabular-nums">
+                      {formatDuration(entrySeconds(entry))}
+                    </span>
+                    <Button variant="ghost" size="icon-sm" onClick={() => startEditing(entry)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon-sm" onClick={() => deleteEntry(entry.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )
+              )}
+            </div>
+
+            <Separator />
+
+            <form onSubmit={handleAdd} className="space-y-3">
+              <Label>Adicionar manualmente</Label>
+              <div className="grid grid-cols-1 gap-2 md:grid-cols-7">
+                <Input
+                  className="md:col-span-2"
+                  type="datetime-local"
+                  value={newEntry.inicio}
+                  onChange={(e) => setNewEntry({ ...newEntry, inicio: e.target.value })}
+                />
+                <Input
+                  className="md:col-span-2"
+                  type="datetime-local"
+                  value={newEntry.fim}
+                  onChange={(e) => setNewEntry({ ...newEntry, fim: e.target.value })}
+                />
+                <Input
+                  className="md:col-span-2"
+                  placeholder="Nota"
+                  maxLength={500}
+                  value={newEntry.nota}
+                  onChange={(e) => setNewEntry({ ...newEntry, nota: e.target.value })}
+                />
+                <Button
+                  type="submit"
+                  variant="outline"
+                  disabled={isCreating || !newEntry.inicio || !newEntry.fim}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </form>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export { TaskTimeEntriesDialog };
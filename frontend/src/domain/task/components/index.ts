@@ -2,3 +2,14 @@ export { TaskForm } from './TaskForm';
 export { TaskCard } from './TaskCard';
 export { TaskFilters } from './TaskFilters';
 export { TaskHistoryDialog } from './TaskHistoryDialog';
+export { RecurrenceEditor } from './RecurrenceEditor';
+export { ReminderEditor } from './ReminderEditor';
+export { TaskSubtasksDialog } from './TaskSubtasksDialog';
+export { TaskDependenciesDialog } from './TaskDependenciesDialog';
+export { TaskTimeEntriesDialog } from './TaskTimeEntriesDialog';
+export { TaskAttachmentsDialog } from './TaskAttachmentsDialog';
+export { TaskSnoozeDialog } from './TaskSnoozeDialog';
+export { TaskRescheduleDialog } from './TaskRescheduleDialog';
+export { TaskMostPostponedDialog } from './TaskMostPostponedDialog';
+export { TaskCommentsPanel } from './TaskCommentsPanel';
+export { RunningTimerIndicator } from './RunningTimerIndicator';
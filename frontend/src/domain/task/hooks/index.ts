@@ -1,2 +1,11 @@
 export { useTaskList } from './useTaskList';
 export { useTaskHistory } from './useTaskHistory';
+export { useTaskTransitions } from './useTaskTransitions';
+export { useMostPostponedTasks } from './useMostPostponedTasks';
+export { useTaskTrash } from './useTaskTrash';
+export { useTaskSubtasks } from './useTaskSubtasks';
+export { useTaskDependencies } from './useTaskDependencies';
+export { useRunningTimer } from './useRunningTimer';
+export { useTaskTimeEntries } from './useTaskTimeEntries';
+export { useTaskAttachments } from './useTaskAttachments';
+export { useTaskComments } from './useTaskComments';
@@ -0,0 +1 @@
+export { useMostPostponedTasks } from './main';
@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { taskService } from '../../services';
+
+export const useMostPostponedTasks = (enabled = true, limite = 10) => {
+  const queryKey = ['tasks', 'most-postponed', limite];
+
+  const { data, ...queryInfo } = useQuery({
+    queryKey,
+    queryFn: () => taskService.getMostPostponed(limite),
+    enabled,
+  });
+
+  return {
+    tasks: data || [],
+    ...queryInfo,
+  };
+};
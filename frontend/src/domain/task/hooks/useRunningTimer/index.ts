@@ -0,0 +1 @@
+export { useRunningTimer } from './main';
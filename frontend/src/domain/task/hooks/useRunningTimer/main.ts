@@ -0,0 +1,45 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { taskService } from '../../services';
+import { toast } from 'sonner';
+import { getApiErrorMessage } from '@/core/lib/errors';
+
+export const useRunningTimer = () => {
+  const queryClient = useQueryClient();
+
+  const { data, ...queryInfo } = useQuery({
+    queryKey: ['timer'],
+    queryFn: taskService.getRunningTimer,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['timer'] });
+    queryClient.invalidateQueries({ queryKey: ['tasks'] });
+    queryClient.invalidateQueries({ queryKey: ['task-time-entries'] });
+    queryClient.invalidateQueries({ queryKey: ['task-history'] });
+  };
+
+  const { mutateAsync: startTimer, isPending: isStarting } = useMutation({
+    mutationFn: taskService.startTimer,
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao iniciar cronômetro'));
+    },
+  });
+
+  const { mutateAsync: stopTimer, isPending: isStopping } = useMutation({
+    mutationFn: ({ id, nota }: { id: string; nota?: string }) => taskService.stopTimer(id, nota),
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao parar cronômetro'));
+    },
+  });
+
+  return {
+    timer: data ?? null,
+    startTimer,
+    stopTimer,
+    isStarting,
+    isStopping,
+    ...queryInfo,
+  };
+};
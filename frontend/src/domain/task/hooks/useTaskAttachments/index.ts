@@ -0,0 +1 @@
+export { useTaskAttachments } from './main';
@@ -0,0 +1,67 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { taskService } from '../../services';
+import type { TaskAttachment } from '../../types';
+import { toast } from 'sonner';
+import { getApiErrorMessage } from '@/core/lib/errors';
+
+export const useTaskAttachments = (taskId: string) => {
+  const queryClient = useQueryClient();
+  const queryKey = ['task-attachments', taskId];
+
+  const { data, ...queryInfo } = useQuery({
+    queryKey,
+    queryFn: () => taskService.getAttachments(taskId),
+    enabled: !!taskId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ['tasks'] });
+    queryClient.invalidateQueries({ queryKey: ['task-history', taskId] });
+  };
+
+  const { mutateAsync: uploadAttachment, isPending: isUploading } = useMutation({
+    mutationFn: (arquivo: File) => taskService.uploadAttachment(taskId, arquivo),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Arquivo anexado com sucesso!');
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao anexar arquivo'));
+    },
+  });
+
+  const { mutateAsync: deleteAttachment } = useMutation({
+    mutationFn: (id: string) => taskService.deleteAttachment(taskId, id),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Anexo removido com sucesso!');
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao remover anexo'));
+    },
+  });
+
+  const downloadAttachment = async (attachment: TaskAttachment) => {
+    try {
+      const blob = await taskService.downloadAttachment(taskId, attachment.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.nome;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      toast.error('Erro ao baixar anexo');
+    }
+  };
+
+  return {
+    attachments: data || [],
+    uploadAttachment,
+    deleteAttachment,
+    downloadAttachment,
+    isUploading,
+    ...queryInfo,
+  };
+};
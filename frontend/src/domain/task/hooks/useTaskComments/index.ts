@@ -0,0 +1 @@
+export { useTaskComments } from './main';
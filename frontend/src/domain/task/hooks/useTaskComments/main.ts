@@ -0,0 +1,57 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { taskService } from '../../services';
+import { toast } from 'sonner';
+import { getApiErrorMessage } from '@/core/lib/errors';
+
+export const useTaskComments = (taskId: string) => {
+  const queryClient = useQueryClient();
+  const queryKey = ['task-comments', taskId];
+
+  const { data, ...queryInfo } = useQuery({
+    queryKey,
+    queryFn: () => taskService.getComments(taskId),
+    enabled: !!taskId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ['tasks'] });
+  };
+
+  const { mutateAsync: createComment, isPending: isCreating } = useMutation({
+    mutationFn: (corpo: string) => taskService.createComment(taskId, corpo),
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao publicar comentário'));
+    },
+  });
+
+  const { mutateAsync: updateComment } = useMutation({
+    mutationFn: ({ id, corpo }: { id: string; corpo: string }) =>
+      taskService.updateComment(taskId, id, corpo),
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao editar comentário'));
+    },
+  });
+
+  const { mutateAsync: deleteComment } = useMutation({
+    mutationFn: (id: string) => taskService.deleteComment(taskId, id),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Comentário excluído com sucesso!');
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao excluir comentário'));
+    },
+  });
+
+  return {
+    comments: data || [],
+    createComment,
+    updateComment,
+    deleteComment,
+    isCreating,
+    ...queryInfo,
+  };
+};
@@ -0,0 +1 @@
+export { useTaskDependencies } from './main';
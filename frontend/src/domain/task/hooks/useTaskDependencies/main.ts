@@ -0,0 +1,50 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { taskService } from '../../services';
+import { toast } from 'sonner';
+import { getApiErrorMessage } from '@/core/lib/errors';
+
+export const useTaskDependencies = (taskId: string) => {
+  const queryClient = useQueryClient();
+  const queryKey = ['task-dependencies', taskId];
+
+  const { data, ...queryInfo } = useQuery({
+    queryKey,
+    queryFn: () => taskService.getDependencies(taskId),
+    enabled: !!taskId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['task-dependencies'] });
+    queryClient.invalidateQueries({ queryKey: ['tasks'] });
+  };
+
+  const { mutateAsync: addDependency, isPending: isAdding } = useMutation({
+    mutationFn: (idTarefaBloqueadora: string) =>
+      taskService.addDependency(taskId, idTarefaBloqueadora),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Dependência adicionada com sucesso!');
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao adicionar dependência'));
+    },
+  });
+
+  const { mutateAsync: removeDependency } = useMutation({
+    mutationFn: (idTarefaBloqueadora: string) =>
+      taskService.removeDependency(taskId, idTarefaBloqueadora),
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao remover dependência'));
+    },
+  });
+
+  return {
+    blockedBy: data?.bloqueadaPor || [],
+    blocking: data?.bloqueando || [],
+    addDependency,
+    removeDependency,
+    isAdding,
+    ...queryInfo,
+  };
+};
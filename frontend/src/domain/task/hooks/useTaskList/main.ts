@@ -1,7 +1,9 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { taskService } from '../../services';
-import type { TaskListFilters } from '../../types';
+import type { TaskListFilters, TaskSnoozePreset, TaskStatus } from '../../types';
 import { toast } from 'sonner';
+import { getApiErrorMessage } from '@/core/lib/errors';
+import { getTaskFieldErrors } from '../../utils';
 
 export const useTaskList = (filters?: TaskListFilters) => {
   const queryClient = useQueryClient();
@@ -12,48 +14,127 @@ export const useTaskList = (filters?: TaskListFilters) => {
     queryFn: () => taskService.list(filters),
   });
 
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['tasks'] });
+    queryClient.invalidateQueries({ queryKey: ['projects'] });
+  };
+
   const { mutateAsync: create, isPending: isCreating } = useMutation({
     mutationFn: taskService.create,
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      invalidate();
       toast.success('Tarefa criada com sucesso!');
     },
-    onError: (error: any) => {
-      toast.error(error?.response?.data?.message || 'Erro ao criar tarefa');
+    onError: (error) => {
+      if (Object.keys(getTaskFieldErrors(error)).length) return;
+      toast.error(getApiErrorMessage(error, 'Erro ao criar tarefa'));
     },
   });
 
   const { mutateAsync: update, isPending: isUpdating } = useMutation({
     mutationFn: ({ id, data }: { id: string; data: any }) => taskService.update(id, data),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      invalidate();
       toast.success('Tarefa atualizada com sucesso!');
     },
-    onError: (error: any) => {
-      toast.error(error?.response?.data?.message || 'Erro ao atualizar tarefa');
+    onError: (error) => {
+      if (Object.keys(getTaskFieldErrors(error)).length) return;
+      toast.error(getApiErrorMessage(error, 'Erro ao atualizar tarefa'));
     },
   });
 
   const { mutateAsync: deleteTask, isPending: isDeleting } = useMutation({
     mutationFn: taskService.delete,
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['tasks'] });
-      toast.success('Tarefa excluída com sucesso!');
+      invalidate();
+      toast.success('Tarefa movida para a lixeira!');
     },
-    onError: (error: any) => {
-      toast.error(error?.response?.data?.message || 'Erro ao excluir tarefa');
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao excluir tarefa'));
     },
   });
 
   const { mutateAsync: updateStatus, isPending: isUpdatingStatus } = useMutation({
-    mutationFn: ({ id, status }: { id: string; status: 'Pendente' | 'Concluída' }) =>
+    mutationFn: ({ id, status }: { id: string; status: TaskStatus }) =>
       taskService.updateStatus(id, status),
+    onSuccess: ({ subtarefasPendentes, dependenciasPendentes }) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['task-subtasks'] });
+      queryClient.invalidateQueries({ queryKey: ['task-dependencies'] });
+      queryClient.invalidateQueries({ queryKey: ['task-transitions'] });
+      if (subtarefasPendentes > 0) {
+        toast.warning(`Tarefa concluída com ${subtarefasPendentes} subtarefa(s) pendente(s)`);
+      } else if (dependenciasPendentes > 0) {
+        toast.warning(`Tarefa concluída com ${dependenciasPendentes} bloqueio(s) pendente(s)`);
+      } else {
+        toast.success('Status atualizado com sucesso!');
+      }
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao atualizar status'));
+    },
+  });
+
+  const { mutateAsync: move, isPending: isMoving } = useMutation({
+    mutationFn: ({ id, idProjeto }: { id: string; idProjeto: string | null }) =>
+      taskService.move(id, idProjeto),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Tarefa movida com sucesso!');
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao mover tarefa'));
+    },
+  });
+
+  const { mutateAsync: snooze, isPending: isSnoozing } = useMutation({
+    mutationFn: ({
+      id,
+      preset,
+      sonecaAte,
+    }: {
+      id: string;
+      preset: TaskSnoozePreset;
+      sonecaAte?: string;
+    }) => taskService.snooze(id, preset, sonecaAte),
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['task-history'] });
+      toast.success('Tarefa adiada com sucesso!');
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao adiar tarefa'));
+    },
+  });
+
+  const { mutateAsync: unsnooze, isPending: isUnsnoozing } = useMutation({
+    mutationFn: taskService.unsnooze,
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['task-history'] });
+      toast.success('Soneca cancelada');
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao cancelar soneca'));
+    },
+  });
+
+  const { mutateAsync: reschedule, isPending: isRescheduling } = useMutation({
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: Parameters<typeof taskService.reschedule>[1];
+    }) => taskService.reschedule(id, data),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['tasks'] });
-      toast.success('Status atualizado com sucesso!');
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['task-history'] });
+      queryClient.invalidateQueries({ queryKey: ['task-transitions'] });
+      toast.success('Tarefa reagendada com sucesso!');
     },
-    onError: (error: any) => {
-      toast.error(error?.response?.data?.message || 'Erro ao atualizar status');
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao reagendar tarefa'));
     },
   });
 
@@ -63,10 +144,18 @@ export const useTaskList = (filters?: TaskListFilters) => {
     update,
     deleteTask,
     updateStatus,
+    move,
+    snooze,
+    unsnooze,
+    reschedule,
     isCreating,
     isUpdating,
     isDeleting,
     isUpdatingStatus,
+    isMoving,
+    isSnoozing,
+    isUnsnoozing,
+    isRescheduling,
     ...queryInfo,
   };
 };
@@ -0,0 +1 @@
+export { useTaskSubtasks } from './main';
@@ -0,0 +1,90 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { taskService } from '../../services';
+import { toast } from 'sonner';
+import { getApiErrorMessage } from '@/core/lib/errors';
+
+export const useTaskSubtasks = (taskId: string) => {
+  const queryClient = useQueryClient();
+  const queryKey = ['task-subtasks', taskId];
+
+  const { data, ...queryInfo } = useQuery({
+    queryKey,
+    queryFn: () => taskService.getSubtasks(taskId),
+    enabled: !!taskId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ['tasks'] });
+  };
+
+  const { mutateAsync: createItem, isPending: isCreatingItem } = useMutation({
+    mutationFn: (texto: string) => taskService.createChecklistItem(taskId, texto),
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao adicionar item'));
+    },
+  });
+
+  const { mutateAsync: updateItem } = useMutation({
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: { texto?: string; concluido?: boolean; ordem?: number };
+    }) => taskService.updateChecklistItem(taskId, id, data),
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao atualizar item'));
+    },
+  });
+
+  const { mutateAsync: createSubtask, isPending: isCreatingSubtask } = useMutation({
+    mutationFn: (data: {
+      titulo: string;
+      dataVencimento?: string;
+      fusoHorario?: string;
+      diaInteiro?: boolean;
+      importancia: 'Alta' | 'Média' | 'Baixa';
+    }) => taskService.createSubtask(taskId, data),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Subtarefa criada com sucesso!');
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao criar subtarefa'));
+    },
+  });
+
+  const { mutateAsync: updateSubtaskStatus } = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: 'Pendente' | 'Concluída' }) =>
+      taskService.updateStatus(id, status),
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao atualizar status'));
+    },
+  });
+
+  const { mutateAsync: deleteSubtask } = useMutation({
+    mutationFn: (id: string) => taskService.deleteSubtask(taskId, id),
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao remover subtarefa'));
+    },
+  });
+
+  return {
+    items: data?.itens || [],
+    subtasks: data?.tarefas || [],
+    progress: data?.progresso,
+    createItem,
+    updateItem,
+    createSubtask,
+    updateSubtaskStatus,
+    deleteSubtask,
+    isCreatingItem,
+    isCreatingSubtask,
+    ...queryInfo,
+  };
+};
@@ -0,0 +1 @@
+export { useTaskTimeEntries } from './main';
@@ -0,0 +1,67 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { taskService } from '../../services';
+import { toast } from 'sonner';
+import { getApiErrorMessage } from '@/core/lib/errors';
+
+export const useTaskTimeEntries = (taskId: string) => {
+  const queryClient = useQueryClient();
+  const queryKey = ['task-time-entries', taskId];
+
+  const { data, ...queryInfo } = useQuery({
+    queryKey,
+    queryFn: () => taskService.getTimeEntries(taskId),
+    enabled: !!taskId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ['tasks'] });
+    queryClient.invalidateQueries({ queryKey: ['timer'] });
+    queryClient.invalidateQueries({ queryKey: ['task-history', taskId] });
+  };
+
+  const { mutateAsync: createEntry, isPending: isCreating } = useMutation({
+    mutationFn: (data: { inicio: string; fim: string; nota?: string | null }) =>
+      taskService.createTimeEntry(taskId, data),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Registro de tempo adicionado com sucesso!');
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao adicionar registro de tempo'));
+    },
+  });
+
+  const { mutateAsync: updateEntry } = useMutation({
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: { inicio: string; fim: string | null; nota?: string | null };
+    }) => taskService.updateTimeEntry(taskId, id, data),
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao atualizar registro de tempo'));
+    },
+  });
+
+  const { mutateAsync: deleteEntry } = useMutation({
+    mutationFn: (id: string) => taskService.deleteTimeEntry(taskId, id),
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao remover registro de tempo'));
+    },
+  });
+
+  return {
+    entries: data?.registros || [],
+    totalSeconds: data?.tempoRegistrado ?? 0,
+    estimatedMinutes: data?.duracaoEstimada ?? null,
+    createEntry,
+    updateEntry,
+    deleteEntry,
+    isCreating,
+    ...queryInfo,
+  };
+};
@@ -0,0 +1 @@
+export { useTaskTransitions } from './main';
@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { taskService } from '../../services';
+
+export const useTaskTransitions = (taskId: string, enabled = true) => {
+  const queryKey = ['task-transitions', taskId];
+
+  const { data, ...queryInfo } = useQuery({
+    queryKey,
+    queryFn: () => taskService.getTransitions(taskId),
+    enabled: !!taskId && enabled,
+  });
+
+  return {
+    transitions: data?.transicoes || [],
+    ...queryInfo,
+  };
+};
@@ -0,0 +1 @@
+export { useTaskTrash } from './main';
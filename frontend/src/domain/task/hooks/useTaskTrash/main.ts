@@ -0,0 +1,33 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { taskService } from '../../services';
+import { toast } from 'sonner';
+import { getApiErrorMessage } from '@/core/lib/errors';
+
+export const useTaskTrash = () => {
+  const queryClient = useQueryClient();
+  const queryKey = ['tasks', 'trash'];
+
+  const { data, ...queryInfo } = useQuery({
+    queryKey,
+    queryFn: () => taskService.getTrash(),
+  });
+
+  const { mutateAsync: restore, isPending: isRestoring } = useMutation({
+    mutationFn: taskService.restore,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+      toast.success('Tarefa restaurada com sucesso!');
+    },
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error, 'Erro ao restaurar tarefa'));
+    },
+  });
+
+  return {
+    tasks: data || [],
+    restore,
+    isRestoring,
+    ...queryInfo,
+  };
+};
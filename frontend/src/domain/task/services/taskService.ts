@@ -1,5 +1,26 @@
 import { authenticatedClient } from '@/core/lib/api';
-import type { Task, TaskListFilters, TaskHistoryEntry, TaskHistoryFilters } from '../types';
+import type {
+  Task,
+  TaskTrashItem,
+  TaskListFilters,
+  TaskHistoryEntry,
+  TaskHistoryFilters,
+  ChecklistItem,
+  TaskSubtasks,
+  TaskDependencies,
+  TimeEntry,
+  TaskTimeEntries,
+  TaskAttachment,
+  TaskComment,
+  RunningTimer,
+  TaskReminder,
+  TaskStatus,
+  TaskSnoozePreset,
+  TaskTransitions,
+  TaskStatusUpdateResult,
+  SubtaskCompletionPolicy,
+  DependencyCompletionPolicy,
+} from '../types';
 
 export const taskService = {
   async list(params?: TaskListFilters): Promise<Task[]> {
@@ -11,8 +32,16 @@ export const taskService = {
     titulo: string;
     descricao?: string;
     dataVencimento?: string;
-    horaVencimento?: string;
+    fusoHorario?: string;
+    diaInteiro?: boolean;
+    dataInicio?: string | null;
+    dataAgendada?: string | null;
     importancia: 'Alta' | 'Média' | 'Baixa';
+    recorrencia?: string;
+    tags?: string[];
+    idProjeto?: string | null;
+    duracaoEstimada?: number | null;
+    lembretes?: TaskReminder[];
   }): Promise<Task> {
     const { data } = await authenticatedClient.post('/task', taskData);
     return data.data;
@@ -29,8 +58,16 @@ export const taskService = {
       titulo: string;
       descricao?: string;
       dataVencimento?: string;
-      horaVencimento?: string;
+      fusoHorario?: string;
+      diaInteiro?: boolean;
+      dataInicio?: string | null;
+      dataAgendada?: string | null;
       importancia: 'Alta' | 'Média' | 'Baixa';
+      recorrencia?: string;
+      tags?: string[];
+      idProjeto?: string | null;
+      duracaoEstimada?: number | null;
+      lembretes?: TaskReminder[];
     }
   ): Promise<Task> {
     const { data } = await authenticatedClient.put(`/task/${id}`, taskData);
@@ -42,8 +79,71 @@ export const taskService = {
     return data.data.deleted;
   },
 
-  async updateStatus(id: string, status: 'Pendente' | 'Concluída'): Promise<Task> {
-    const { data } = await authenticatedClient.patch(`/task/${id}/status`, { status });
+  async getTrash(): Promise<TaskTrashItem[]> {
+    const { data } = await authenticatedClient.get('/task/trash');
+    return data.data;
+  },
+
+  async restore(id: string): Promise<Task> {
+    const { data } = await authenticatedClient.post(`/task/${id}/restore`);
+    return data.data;
+  },
+
+  async move(id: string, idProjeto: string | null): Promise<Task> {
+    const { data } = await authenticatedClient.patch(`/task/${id}/project`, { idProjeto });
+    return data.data;
+  },
+
+  async snooze(id: string, preset: TaskSnoozePreset, sonecaAte?: string): Promise<Task> {
+    const { data } = await authenticatedClient.post(`/task/${id}/snooze`, { preset, sonecaAte });
+    return data.data;
+  },
+
+  async unsnooze(id: string): Promise<Task> {
+    const { data } = await authenticatedClient.delete(`/task/${id}/snooze`);
+    return data.data;
+  },
+
+  async reschedule(
+    id: string,
+    rescheduleData: {
+      dataVencimento?: string;
+      fusoHorario: string;
+      diaInteiro: boolean;
+      motivo?: string;
+    }
+  ): Promise<Task> {
+    const { data } = await authenticatedClient.post(`/task/${id}/reschedule`, rescheduleData);
+    return data.data;
+  },
+
+  async getMostPostponed(limite?: number): Promise<Task[]> {
+    const { data } = await authenticatedClient.get('/task/most-postponed', {
+      params: { limite },
+    });
+    return data.data;
+  },
+
+  async updateStatus(
+    id: string,
+    status: TaskStatus,
+    politicaSubtarefas?: SubtaskCompletionPolicy,
+    politicaDependencias?: DependencyCompletionPolicy
+  ): Promise<TaskStatusUpdateResult> {
+    const { data } = await authenticatedClient.patch(`/task/${id}/status`, {
+      status,
+      politicaSubtarefas,
+      politicaDependencias,
+    });
+    return {
+      task: data.data,
+      subtarefasPendentes: data.metadata?.subtarefasPendentes ?? 0,
+      dependenciasPendentes: data.metadata?.dependenciasPendentes ?? 0,
+    };
+  },
+
+  async getTransitions(id: string): Promise<TaskTransitions> {
+    const { data } = await authenticatedClient.get(`/task/${id}/transitions`);
     return data.data;
   },
 
@@ -51,4 +151,159 @@ export const taskService = {
     const { data } = await authenticatedClient.get(`/task/${id}/history`, { params: filters });
     return data.data;
   },
+
+  async getSubtasks(id: string): Promise<TaskSubtasks> {
+    const { data } = await authenticatedClient.get(`/task/${id}/subtasks`);
+    return data.data;
+  },
+
+  async createChecklistItem(id: string, texto: string): Promise<ChecklistItem> {
+    const { data } = await authenticatedClient.post(`/task/${id}/subtasks`, {
+      tipo: 'Item',
+      texto,
+    });
+    return data.data;
+  },
+
+  async createSubtask(
+    id: string,
+    taskData: {
+      titulo: string;
+      dataVencimento?: string;
+      fusoHorario?: string;
+      diaInteiro?: boolean;
+      importancia: 'Alta' | 'Média' | 'Baixa';
+    }
+  ): Promise<Task> {
+    const { data } = await authenticatedClient.post(`/task/${id}/subtasks`, {
+      tipo: 'Tarefa',
+      ...taskData,
+    });
+    return data.data;
+  },
+
+  async updateChecklistItem(
+    id: string,
+    itemId: string,
+    itemData: { texto?: string; concluido?: boolean; ordem?: number }
+  ): Promise<ChecklistItem> {
+    const { data } = await authenticatedClient.put(`/task/${id}/subtasks/${itemId}`, {
+      tipo: 'Item',
+      ...itemData,
+    });
+    return data.data;
+  },
+
+  async deleteSubtask(id: string, subtaskId: string): Promise<boolean> {
+    const { data } = await authenticatedClient.delete(`/task/${id}/subtasks/${subtaskId}`);
+    return data.data.deleted;
+  },
+
+  async getDependencies(id: string): Promise<TaskDependencies> {
+    const { data } = await authenticatedClient.get(`/task/${id}/dependencies`);
+    return data.data;
+  },
+
+  async addDependency(id: string, idTarefaBloqueadora: string): Promise<TaskDependencies> {
+    const { data } = await authenticatedClient.post(`/task/${id}/dependencies`, {
+      idTarefaBloqueadora,
+    });
+    return data.data;
+  },
+
+  async removeDependency(id: string, idTarefaBloqueadora: string): Promise<boolean> {
+    const { data } = await authenticatedClient.delete(
+      `/task/${id}/dependencies/${idTarefaBloqueadora}`
+    );
+    return data.data.deleted;
+  },
+
+  async getRunningTimer(): Promise<RunningTimer | null> {
+    const { data } = await authenticatedClient.get('/timer');
+    return data.data;
+  },
+
+  async startTimer(id: string): Promise<RunningTimer> {
+    const { data } = await authenticatedClient.post(`/task/${id}/timer/start`);
+    return data.data;
+  },
+
+  async stopTimer(id: string, nota?: string): Promise<TimeEntry> {
+    const { data } = await authenticatedClient.post(`/task/${id}/timer/stop`, { nota });
+    return data.data;
+  },
+
+  async getTimeEntries(id: string): Promise<TaskTimeEntries> {
+    const { data } = await authenticatedClient.get(`/task/${id}/time-entries`);
+    return data.data;
+  },
+
+  async createTimeEntry(
+    id: string,
+    entryData: { inicio: string; fim: string; nota?: string | null }
+  ): Promise<TimeEntry> {
+    const { data } = await authenticatedClient.post(`/task/${id}/time-entries`, entryData);
+    return data.data;
+  },
+
+  async updateTimeEntry(
+    id: string,
+    entryId: string,
+    entryData: { inicio: string; fim: string | null; nota?: string | null }
+  ): Promise<TimeEntry> {
+    const { data } = await authenticatedClient.put(
+      `/task/${id}/time-entries/${entryId}`,
+      entryData
+    );
+    return data.data;
+  },
+
+  async deleteTimeEntry(id: string, entryId: string): Promise<boolean> {
+    const { data } = await authenticatedClient.delete(`/task/${id}/time-entries/${entryId}`);
+    return data.data.deleted;
+  },
+
+  async getAttachments(id: string): Promise<TaskAttachment[]> {
+    const { data } = await authenticatedClient.get(`/task/${id}/attachments`);
+    return data.data;
+  },
+
+  async uploadAttachment(id: string, arquivo: File): Promise<TaskAttachment> {
+    const formData = new FormData();
+    formData.append('arquivo', arquivo);
+    const { data } = await authenticatedClient.post(`/task/${id}/attachments`, formData);
+    return data.data;
+  },
+
+  async downloadAttachment(id: string, attachmentId: string): Promise<Blob> {
+    const { data } = await authenticatedClient.get(`/task/${id}/attachments/${attachmentId}`, {
+      responseType: 'blob',
+    });
+    return data;
+  },
+
+  async deleteAttachment(id: string, attachmentId: string): Promise<boolean> {
+    const { data } = await authenticatedClient.delete(`/task/${id}/attachments/${attachmentId}`);
+    return data.data.deleted;
+  },
+
+  async getComments(id: string): Promise<TaskComment[]> {
+    const { data } = await authenticatedClient.get(`/task/${id}/comments`);
+    return data.data;
+  },
+
+  async createComment(id: string, corpo: string): Promise<TaskComment> {
+    const { data } = await authenticatedClient.post(`/task/${id}/comments`, { corpo });
+    return data.data;
+  },
+
+  async updateComment(id: string, commentId: string, corpo: string): Promise<TaskComment> {
+    const { data } = await authenticatedClient.put(`/task/${id}/comments/${commentId}`, { corpo });
+    return data.data;
+  },
+
+  async deleteComment(id: string, commentId: string): Promise<boolean> {
+    const { data } = await authenticatedClient.delete(`/task/${id}/comments/${commentId}`);
+    return data.data.deleted;
+  },
 };
@@ -1,7 +1,24 @@
 export type {
   Task,
+  TaskTrashItem,
   TaskStatus,
   TaskImportance,
+  RecurrenceFrequency,
+  SubtaskCompletionPolicy,
+  DependencyCompletionPolicy,
+  TaskSnoozePreset,
+  TaskProgress,
+  TaskReminder,
+  ChecklistItem,
+  TaskSubtasks,
+  TaskDependencies,
+  TimeEntry,
+  TaskTimeEntries,
+  TaskAttachment,
+  TaskComment,
+  RunningTimer,
+  TaskTransitions,
+  TaskStatusUpdateResult,
   TaskListFilters,
   TaskHistoryEntry,
   TaskHistoryFilters,
@@ -1,46 +1,161 @@
-export type TaskStatus = 'Pendente' | 'Concluída' | 'Vencida';
-export type TaskImportance = 'Alta' | 'Média' | 'Baixa';
+import type {
+  TaskHistoryFiltersInput,
+  TaskHistoryOrigemValue,
+  TaskHistoryTipoValue,
+  TaskImportanceValue,
+  TaskListFiltersInput,
+} from '@taskmanager/shared';
+
+export type TaskStatus =
+  | 'Pendente'
+  | 'Em andamento'
+  | 'Aguardando'
+  | 'Concluída'
+  | 'Cancelada'
+  | 'Vencida';
+export type TaskImportance = TaskImportanceValue;
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type SubtaskCompletionPolicy = 'Bloquear' | 'Concluir' | 'Avisar';
+export type DependencyCompletionPolicy = 'Bloquear' | 'Avisar';
+export type TaskSnoozePreset =
+  | 'Mais tarde hoje'
+  | 'Amanhã de manhã'
+  | 'Próxima semana'
+  | 'Personalizado';
+
+export interface TaskProgress {
+  total: number;
+  concluidas: number;
+  percentual: number;
+}
+
+export interface TaskReminder {
+  antecedencia: number | null;
+  dataLembrete: string | null;
+}
 
 export interface Task {
   id: string;
   titulo: string;
   descricao: string | null;
   dataVencimento: string | null;
-  horaVencimento: string | null;
+  fusoHorario: string;
+  diaInteiro: boolean;
+  dataInicio: string | null;
+  dataAgendada: string | null;
+  sonecaAte: string | null;
+  adiamentos: number;
+  dataExclusao: string | null;
   importancia: TaskImportance;
   status: TaskStatus;
+  recorrencia: string | null;
+  idSerie: string | null;
+  ocorrencia: number | null;
+  idProximaOcorrencia: string | null;
+  idTarefaPai: string | null;
+  tags: string[];
+  idProjeto: string | null;
+  duracaoEstimada: number | null;
+  lembretes: TaskReminder[];
+  progresso?: TaskProgress | null;
+  bloqueadaPor?: string[];
+  bloqueando?: string[];
+  tempoRegistrado?: number;
+  anexos?: number;
+  comentarios?: number;
+  dataCriacao: string;
+  dataAtualizacao: string;
+}
+
+export interface TaskTrashItem extends Task {
+  subtarefas: number;
+  dataPurga: string;
+}
+
+export interface ChecklistItem {
+  id: string;
+  idTarefa: string;
+  texto: string;
+  concluido: boolean;
+  ordem: number;
+  dataCriacao: string;
+  dataAtualizacao: string;
+}
+
+export interface TaskSubtasks {
+  itens: ChecklistItem[];
+  tarefas: Task[];
+  progresso: TaskProgress;
+}
+
+export interface TimeEntry {
+  id: string;
+  idTarefa: string;
+  inicio: string;
+  fim: string | null;
+  nota: string | null;
   dataCriacao: string;
   dataAtualizacao: string;
 }
 
-export interface TaskListFilters {
-  filterStatus?: 'Todas' | 'Pendentes' | 'Concluídas' | 'Vencidas';
-  filterImportance?: 'Todas' | 'Alta' | 'Média' | 'Baixa';
-  filterPeriod?:
-    | 'Todas'
-    | 'Hoje'
-    | 'Esta semana'
-    | 'Este mês'
-    | 'Próximas ao vencimento'
-    | 'Vencidas'
-    | 'Sem data';
-  orderBy?: 'Data de vencimento' | 'Importância' | 'Data de criação';
-  orderDirection?: 'Crescente' | 'Decrescente';
-  searchTerm?: string;
+export interface TaskTimeEntries {
+  registros: TimeEntry[];
+  tempoRegistrado: number;
+  duracaoEstimada: number | null;
 }
 
+export interface TaskAttachment {
+  id: string;
+  idTarefa: string;
+  nome: string;
+  tipo: string;
+  tamanho: number;
+  dataCriacao: string;
+}
+
+export interface TaskComment {
+  id: string;
+  idTarefa: string;
+  idAutor: string;
+  nomeAutor: string;
+  corpo: string | null;
+  dataCriacao: string;
+  dataEdicao: string | null;
+  dataExclusao: string | null;
+}
+
+export interface RunningTimer {
+  registro: TimeEntry;
+  tarefa: Task;
+}
+
+export interface TaskDependencies {
+  bloqueadaPor: Task[];
+  bloqueando: Task[];
+}
+
+export interface TaskTransitions {
+  status: TaskStatus;
+  transicoes: TaskStatus[];
+}
+
+export interface TaskStatusUpdateResult {
+  task: Task;
+  subtarefasPendentes: number;
+  dependenciasPendentes: number;
+}
+
+export type TaskListFilters = TaskListFiltersInput;
+
 export interface TaskHistoryEntry {
   id: string;
   idTarefa: string;
   dataAlteracao: string;
-  tipoAlteracao: 'Criação' | 'Edição' | 'Alteração de Status' | 'Exclusão';
+  tipoAlteracao: TaskHistoryTipoValue;
   campoAlterado: string | null;
   valorAnterior: string | null;
   valorNovo: string | null;
-  origemAlteracao: 'Manual' | 'Automática';
+  origemAlteracao: TaskHistoryOrigemValue;
 }
 
-export interface TaskHistoryFilters {
-  filterTipo?: 'Todas' | 'Criação' | 'Edição' | 'Alteração de Status' | 'Exclusão';
-  filterOrigem?: 'Todas' | 'Manual' | 'Automática';
-}
+export type TaskHistoryFilters = TaskHistoryFiltersInput;
@@ -0,0 +1,104 @@
+import type { Task } from '../types';
+
+type TaskDueDate = Pick<Task, 'dataVencimento' | 'fusoHorario' | 'diaInteiro'>;
+
+/**
+ * IANA time zone of the browser, sent with new due dates.
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+function getZonedFields(value: string, timeZone: string): Record<string, string> {
+  return Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+      .formatToParts(new Date(value))
+      .map((part) => [part.type, part.value])
+  );
+}
+
+/**
+ * Splits a due instant into the date (YYYY-MM-DD) and time (HH:MM) it has in the task's time
+ * zone; the time is empty for all-day tasks.
+ */
+export function getDueDateFields(task: TaskDueDate): { data: string; hora: string } {
+  if (!task.dataVencimento) return { data: '', hora: '' };
+
+  const parts = getZonedFields(task.dataVencimento, task.fusoHorario);
+
+  return {
+    data: `${parts.year}-${parts.month}-${parts.day}`,
+    hora: task.diaInteiro ? '' : `${parts.hour}:${parts.minute}`,
+  };
+}
+
+/**
+ * Day (YYYY-MM-DD) a start or scheduled date falls on in the task's time zone.
+ */
+export function getTaskDay(value: string | null, fusoHorario: string): string | null {
+  if (!value) return null;
+
+  const parts = getZonedFields(value, fusoHorario);
+  return `${parts.year}-${parts.month}-${parts.day}`;
+}
+
+/**
+ * Formats a start or scheduled date as "15/03/2026".
+ */
+export function formatTaskDay(value: string | null, fusoHorario: string): string | null {
+  const day = getTaskDay(value, fusoHorario);
+  if (!day) return null;
+
+  const [year, month, date] = day.split('-');
+  return `${date}/${month}/${year}`;
+}
+
+/**
+ * Builds the due date fields sent to the API from a date (YYYY-MM-DD) and an optional time
+ * (HH:MM); without a time the task is due all day.
+ */
+export function toDueDatePayload(
+  data: string | undefined,
+  hora: string | undefined,
+  fusoHorario: string
+): { dataVencimento?: string; fusoHorario: string; diaInteiro: boolean } {
+  if (!data) return { dataVencimento: undefined, fusoHorario, diaInteiro: false };
+
+  return {
+    dataVencimento: hora ? `${data}T${hora}` : data,
+    fusoHorario,
+    diaInteiro: !hora,
+  };
+}
+
+/**
+ * Moment a task is due: the due instant, or the end of the due day for all-day tasks.
+ */
+export function getDueMoment(task: TaskDueDate): Date | null {
+  if (!task.dataVencimento) return null;
+
+  const dueDate = new Date(task.dataVencimento);
+  return task.diaInteiro ? new Date(dueDate.getTime() + 24 * 60 * 60 * 1000 - 1000) : dueDate;
+}
+
+/**
+ * Formats the due date in the task's time zone, e.g. "15/03/2026" or "15/03/2026 às 14:30",
+ * naming the time zone when it differs from the browser's.
+ */
+export function formatDueDate(task: TaskDueDate): string | null {
+  const { data, hora } = getDueDateFields(task);
+  if (!data) return null;
+
+  const [year, month, day] = data.split('-');
+  const date = hora ? `${day}/${month}/${year} às ${hora}` : `${day}/${month}/${year}`;
+
+  return task.fusoHorario === getLocalTimeZone() ? date : `${date} (${task.fusoHorario})`;
+}
@@ -0,0 +1,23 @@
+/**
+ * Formats a duration as hours and minutes, e.g. "1h 05min" or "45min".
+ */
+export function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+
+  if (hours === 0) {
+    return `${minutes}min`;
+  }
+
+  return `${hours}h ${String(minutes % 60).padStart(2, '0')}min`;
+}
+
+/**
+ * Formats a running duration as a clock, e.g. "01:02:03".
+ */
+export function formatElapsed(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  return [hours, minutes, seconds % 60].map((part) => String(part).padStart(2, '0')).join(':');
+}
@@ -0,0 +1,14 @@
+/**
+ * Formats a size in bytes, e.g. "512 B", "12 KB" or "3,4 MB".
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace('.', ',')} MB`;
+}
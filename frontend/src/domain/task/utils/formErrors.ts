@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { ApiError } from '@/core/lib/errors';
+import type { taskSchema } from '../validations';
+
+export type TaskFormField = keyof z.input<typeof taskSchema>;
+
+const TASK_FORM_FIELDS: TaskFormField[] = [
+  'titulo',
+  'descricao',
+  'dataVencimento',
+  'horaVencimento',
+  'dataInicio',
+  'dataAgendada',
+  'importancia',
+  'recorrencia',
+  'tags',
+  'idProjeto',
+  'duracaoEstimada',
+  'lembretes',
+];
+
+/**
+ * Request fields with no input of their own, shown on the input they are derived from.
+ */
+const FIELD_BY_REQUEST_FIELD: Record<string, TaskFormField> = {
+  fusoHorario: 'dataVencimento',
+  diaInteiro: 'horaVencimento',
+};
+
+/**
+ * Task rule errors the API reports without a field, and the input they concern.
+ */
+const FIELD_BY_ERROR_CODE: Record<string, TaskFormField> = {
+  tituloObrigatorio: 'titulo',
+  tituloMuitoLongo: 'titulo',
+  descricaoMuitoLonga: 'descricao',
+  dataVencimentoPassado: 'dataVencimento',
+  recorrenciaSemVencimento: 'dataVencimento',
+  horaVencimentoInvalida: 'horaVencimento',
+  horaVencimentoObrigatoria: 'horaVencimento',
+  dataInicioAposVencimento: 'dataInicio',
+  recorrenciaInvalida: 'recorrencia',
+  lembreteInvalido: 'lembretes',
+  lembreteSemVencimento: 'lembretes',
+  lembretesDemais: 'lembretes',
+  tagNaoEncontrada: 'tags',
+  projetoNaoEncontrado: 'idProjeto',
+  projetoArquivado: 'idProjeto',
+  projetoSubtarefa: 'idProjeto',
+};
+
+/**
+ * Messages of a failed task create or update that belong under a `TaskForm` input, keyed by the
+ * input; empty when the error is not about any of them.
+ */
+export function getTaskFieldErrors(error: unknown): Partial<Record<TaskFormField, string>> {
+  if (!(error instanceof ApiError)) return {};
+
+  const fieldErrors: Partial<Record<TaskFormField, string>> = {};
+
+  for (const [requestField, message] of Object.entries(error.fieldErrors)) {
+    const field =
+      FIELD_BY_REQUEST_FIELD[requestField] ??
+      TASK_FORM_FIELDS.find((formField) => formField === requestField);
+    if (field) fieldErrors[field] ??= message;
+  }
+
+  const field = FIELD_BY_ERROR_CODE[error.code];
+  if (field) fieldErrors[field] ??= error.message;
+
+  return fieldErrors;
+}
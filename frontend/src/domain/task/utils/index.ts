@@ -0,0 +1,23 @@
+export {
+  parseRecurrence,
+  formatRecurrence,
+  describeRecurrence,
+  WEEKDAY_LABELS,
+  FREQUENCY_LABELS,
+} from './recurrence';
+export type { RecurrenceValue } from './recurrence';
+export { formatDuration, formatElapsed } from './duration';
+export { formatFileSize } from './fileSize';
+export { renderMarkdown } from './markdown';
+export { REMINDER_PRESETS, describeReminder } from './reminders';
+export {
+  getLocalTimeZone,
+  getDueDateFields,
+  toDueDatePayload,
+  getDueMoment,
+  formatDueDate,
+  getTaskDay,
+  formatTaskDay,
+} from './dueDate';
+export { getTaskFieldErrors } from './formErrors';
+export type { TaskFormField } from './formErrors';
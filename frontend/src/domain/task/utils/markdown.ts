@@ -0,0 +1,11 @@
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+
+/**
+ * Renders markdown as HTML safe to inject, e.g. for comment bodies.
+ */
+export function renderMarkdown(markdown: string): string {
+  const html = marked.parse(markdown, { async: false, gfm: true, breaks: true });
+
+  return DOMPurify.sanitize(html);
+}
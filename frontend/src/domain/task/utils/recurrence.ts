@@ -0,0 +1,104 @@
+import type { RecurrenceFrequency } from '../types';
+
+export interface RecurrenceValue {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: number[];
+  byMonthDay: number | null;
+  until: string | null;
+  count: number | null;
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const WEEKDAY_LABELS = ['dom', 'seg', 'ter', 'qua', 'qui', 'sex', 'sáb'];
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'Diária',
+  WEEKLY: 'Semanal',
+  MONTHLY: 'Mensal',
+  YEARLY: 'Anual',
+};
+
+const INTERVAL_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'dias',
+  WEEKLY: 'semanas',
+  MONTHLY: 'meses',
+  YEARLY: 'anos',
+};
+
+/**
+ * Parses the RRULE subset accepted by the API. `until` is returned as DD/MM/YYYY.
+ */
+export function parseRecurrence(rule: string | null | undefined): RecurrenceValue | null {
+  if (!rule) return null;
+
+  const values = new Map(
+    rule
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .filter(Boolean)
+      .map((part) => part.split('=') as [string, string]),
+  );
+
+  const freq = values.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !(freq in FREQUENCY_LABELS)) return null;
+
+  const until = values.get('UNTIL');
+
+  return {
+    freq,
+    interval: Number(values.get('INTERVAL') ?? 1),
+    byDay: (values.get('BYDAY')?.split(',') ?? [])
+      .map((code) => WEEKDAY_CODES.indexOf(code))
+      .filter((day) => day !== -1),
+    byMonthDay: values.has('BYMONTHDAY') ? Number(values.get('BYMONTHDAY')) : null,
+    until: until ? `${until.slice(6, 8)}/${until.slice(4, 6)}/${until.slice(0, 4)}` : null,
+    count: values.has('COUNT') ? Number(values.get('COUNT')) : null,
+  };
+}
+
+/**
+ * Serializes a recurrence into an RRULE string. `until` must be DD/MM/YYYY.
+ */
+export function formatRecurrence(value: RecurrenceValue): string {
+  const parts = [`FREQ=${value.freq}`];
+
+  if (value.interval > 1) parts.push(`INTERVAL=${value.interval}`);
+  if (value.freq === 'WEEKLY' && value.byDay.length > 0) {
+    parts.push(`BYDAY=${[...value.byDay].sort().map((day) => WEEKDAY_CODES[day]).join(',')}`);
+  }
+  if (value.freq === 'MONTHLY' && value.byMonthDay) parts.push(`BYMONTHDAY=${value.byMonthDay}`);
+  if (value.until) {
+    const [day, month, year] = value.until.split('/');
+    parts.push(`UNTIL=${year}${month}${day}`);
+  } else if (value.count) {
+    parts.push(`COUNT=${value.count}`);
+  }
+
+  return parts.join(';');
+}
+
+/**
+ * Short human-readable summary, e.g. "A cada 2 semanas: seg, qua".
+ */
+export function describeRecurrence(rule: string | null | undefined): string | null {
+  const value = parseRecurrence(rule);
+  if (!value) return null;
+
+  let description =
+    value.interval > 1
+      ? `A cada ${value.interval} ${INTERVAL_UNITS[value.freq]}`
+      : FREQUENCY_LABELS[value.freq];
+
+  if (value.freq === 'WEEKLY' && value.byDay.length > 0) {
+    description += `: ${value.byDay.map((day) => WEEKDAY_LABELS[day]).join(', ')}`;
+  }
+  if (value.freq === 'MONTHLY' && value.byMonthDay) {
+    description += `, no dia ${value.byMonthDay}`;
+  }
+  if (value.until) description += ` até ${value.until}`;
+  if (value.count) description += ` (${value.count} vezes)`;
+
+  return description;
+}
@@ -0,0 +1,30 @@
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import type { TaskReminderInput } from '@taskmanager/shared';
+
+export const REMINDER_PRESETS = [
+  { antecedencia: 10, label: '10 minutos antes' },
+  { antecedencia: 30, label: '30 minutos antes' },
+  { antecedencia: 60, label: '1 hora antes' },
+  { antecedencia: 120, label: '2 horas antes' },
+  { antecedencia: 1440, label: '1 dia antes' },
+  { antecedencia: 2880, label: '2 dias antes' },
+  { antecedencia: 10080, label: '1 semana antes' },
+];
+
+/**
+ * Describes a reminder in Portuguese, e.g. "2 horas antes" or "20/10/2026 às 09:00".
+ */
+export function describeReminder(lembrete: TaskReminderInput): string {
+  if (lembrete.dataLembrete) {
+    return format(parseISO(lembrete.dataLembrete), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+  }
+
+  const minutes = lembrete.antecedencia ?? 0;
+  const preset = REMINDER_PRESETS.find((p) => p.antecedencia === minutes);
+  if (preset) return preset.label;
+
+  if (minutes % 1440 === 0) return `${minutes / 1440} dias antes`;
+  if (minutes % 60 === 0) return `${minutes / 60} horas antes`;
+  return `${minutes} minutos antes`;
+}
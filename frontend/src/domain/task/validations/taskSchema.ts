@@ -1,22 +1,83 @@
 import { z } from 'zod';
+import { format } from 'date-fns';
+import {
+  taskDescricaoSchema,
+  taskDuracaoEstimadaSchema,
+  taskImportanciaSchema,
+  taskLembretesSchema,
+  taskRecorrenciaSchema,
+  taskTagsSchema,
+  taskTituloSchema,
+} from '@taskmanager/shared';
 
-export const taskSchema = z.object({
-  titulo: z
-    .string('O título da tarefa é obrigatório')
-    .min(1, 'O título da tarefa não pode estar vazio')
-    .max(100, 'O título deve ter no máximo 100 caracteres'),
-  descricao: z.string().max(500, 'A descrição deve ter no máximo 500 caracteres').optional(),
-  dataVencimento: z
-    .string()
-    .regex(/^\d{2}\/\d{2}\/\d{4}$/, 'A data de vencimento deve estar no formato DD/MM/AAAA')
-    .optional(),
-  horaVencimento: z
-    .string()
-    .regex(/^\d{2}:\d{2}$/, 'A hora de vencimento deve estar no formato HH:MM')
-    .optional(),
-  importancia: z.enum(['Alta', 'Média', 'Baixa'], 'Selecione um nível de importância válido'),
-});
+/**
+ * Task form fields. Limits and values come from the schemas shared with the API, and every rule
+ * the API also checks reports its catalog code, rendered by `zodCodeResolver`; checks that only
+ * concern the form inputs keep their messages here.
+ */
+export const taskSchema = z
+  .object({
+    titulo: taskTituloSchema,
+    descricao: taskDescricaoSchema.optional(),
+    dataVencimento: z
+      .string()
+      .regex(/^(\d{4}-\d{2}-\d{2})?$/, 'dataVencimentoInvalida')
+      .optional(),
+    horaVencimento: z
+      .string()
+      .regex(/^(\d{2}:\d{2})?$/, 'Informe uma hora de vencimento válida')
+      .optional(),
+    dataInicio: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'dataInicioInvalida')
+      .nullable()
+      .optional(),
+    dataAgendada: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'dataAgendadaInvalida')
+      .nullable()
+      .optional(),
+    importancia: taskImportanciaSchema,
+    recorrencia: taskRecorrenciaSchema.optional(),
+    tags: taskTagsSchema.optional(),
+    idProjeto: z.string().nullable().optional(),
+    duracaoEstimada: taskDuracaoEstimadaSchema.nullable().optional(),
+    lembretes: taskLembretesSchema.optional(),
+  })
+  .refine(
+    (data) => !data.dataVencimento || data.dataVencimento >= format(new Date(), 'yyyy-MM-dd'),
+    {
+      message: 'dataVencimentoPassado',
+      path: ['dataVencimento'],
+    }
+  )
+  .refine((data) => !data.horaVencimento || !!data.dataVencimento, {
+    message: 'Informe a data junto da hora de vencimento',
+    path: ['dataVencimento'],
+  })
+  .refine(
+    (data) => !data.dataInicio || !data.dataVencimento || data.dataInicio <= data.dataVencimento,
+    {
+      message: 'dataInicioAposVencimento',
+      path: ['dataInicio'],
+    }
+  )
+  .refine((data) => !data.recorrencia || !!data.dataVencimento, {
+    message: 'recorrenciaSemVencimento',
+    path: ['dataVencimento'],
+  })
+  .refine(
+    (data) =>
+      !!data.dataVencimento || !data.lembretes?.some((lembrete) => lembrete.antecedencia !== null),
+    {
+      message: 'lembreteSemVencimento',
+      path: ['lembretes'],
+    }
+  );
 
 export const taskStatusSchema = z.object({
-  status: z.enum(['Pendente', 'Concluída'], 'Selecione um status válido'),
+  status: z.enum(
+    ['Pendente', 'Em andamento', 'Aguardando', 'Concluída', 'Cancelada'],
+    'Selecione um status válido'
+  ),
 });
@@ -1,17 +1,44 @@
 import { ErrorBoundary } from '@/router/error-boundary';
 import { useNavigation } from '@/core/hooks/useNavigation';
-import { Outlet } from 'react-router-dom';
+import { Link, Outlet } from 'react-router-dom';
 import { Suspense } from 'react';
 import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { Button } from '@/core/components/button';
+import { useAuthStore } from '@/core/stores/auth';
+import { LogOut } from 'lucide-react';
+import { ProjectSidebar } from '@/domain/project/_module';
+import { RunningTimerIndicator } from '@/domain/task/_module';
+import { NotificationBell } from '@/domain/notification/_module';
 
 function MainLayout() {
   const { location } = useNavigation();
+  const user = useAuthStore((state) => state.user);
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated());
 
   return (
     <ErrorBoundary resetKey={location.pathname}>
       <div className="bg-background relative flex min-h-screen flex-col font-sans antialiased">
-        <header className="px-9 py-9"></header>
+        <header className="flex items-center justify-end gap-3 px-9 py-9">
+          {isAuthenticated && user && (
+            <>
+              <RunningTimerIndicator />
+              <NotificationBell />
+              <span className="text-muted-foreground text-sm">{user.nome}</span>
+              <Button variant="ghost" size="sm" asChild>
+                <Link to="/logout">
+                  <LogOut className="mr-2 h-4 w-4" />
+                  Sair
+                </Link>
+              </Button>
+            </>
+          )}
+        </header>
         <main className="flex h-full min-h-fit flex-1">
+          {isAuthenticated && (
+            <aside className="hidden w-64 shrink-0 py-6 pl-9 md:block">
+              <ProjectSidebar />
+            </aside>
+          )}
           <div className="max-w-dvw container flex-1 px-9 py-0">
             <Suspense
               fallback={
@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/core/components/card';
+import { FieldDescription } from '@/core/components/field';
+import { useNavigation } from '@/core/hooks/useNavigation';
+import { getApiErrorMessage } from '@/core/lib/errors';
+import { getRedirectTarget } from '@/router/auth-guard';
+import { LoginForm, useAuth } from '@/domain/auth/_module';
+import type { LoginCredentials } from '@/domain/auth/_module';
+
+function LoginPage() {
+  const { navigate } = useNavigation();
+  const [searchParams] = useSearchParams();
+  const { login, isLoggingIn } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+
+  const redirect = getRedirectTarget(searchParams);
+
+  const handleLogin = async (data: LoginCredentials) => {
+    setError(null);
+    try {
+      await login(data);
+      navigate(redirect, { replace: true });
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Não foi possível entrar. Tente novamente.'));
+    }
+  };
+
+  return (
+    <div className="flex justify-center py-12">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-xl">Entrar</CardTitle>
+          <CardDescription>Acesse sua conta para gerenciar suas tarefas</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <LoginForm onSubmit={handleLogin} isLoading={isLoggingIn} error={error} />
+        </CardContent>
+        <CardFooter className="justify-center">
+          <FieldDescription>
+            Não tem uma conta?{' '}
+            <Link to={`/register?redirect=${encodeURIComponent(redirect)}`}>Cadastre-se</Link>
+          </FieldDescription>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
+
+export { LoginPage };
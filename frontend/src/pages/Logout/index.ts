@@ -0,0 +1 @@
+export { LogoutPage } from './main';
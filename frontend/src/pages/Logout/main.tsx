@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { useNavigation } from '@/core/hooks/useNavigation';
+import { useAuth } from '@/domain/auth/_module';
+
+function LogoutPage() {
+  const { navigate } = useNavigation();
+  const { logout } = useAuth();
+  const hasLoggedOut = useRef(false);
+
+  useEffect(() => {
+    if (hasLoggedOut.current) return;
+    hasLoggedOut.current = true;
+
+    logout()
+      .catch(() => undefined)
+      .finally(() => navigate('/login', { replace: true }));
+  }, [logout, navigate]);
+
+  return (
+    <div className="flex h-full w-full items-center justify-center py-12">
+      <LoadingSpinner />
+    </div>
+  );
+}
+
+export { LogoutPage };
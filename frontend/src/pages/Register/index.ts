@@ -0,0 +1 @@
+export { RegisterPage } from './main';
@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/core/components/card';
+import { FieldDescription } from '@/core/components/field';
+import { useNavigation } from '@/core/hooks/useNavigation';
+import { getApiErrorMessage } from '@/core/lib/errors';
+import { getRedirectTarget } from '@/router/auth-guard';
+import { RegisterForm, useAuth } from '@/domain/auth/_module';
+import type { RegisterData } from '@/domain/auth/_module';
+
+function RegisterPage() {
+  const { navigate } = useNavigation();
+  const [searchParams] = useSearchParams();
+  const { register, isRegistering } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+
+  const redirect = getRedirectTarget(searchParams);
+
+  const handleRegister = async (data: RegisterData) => {
+    setError(null);
+    try {
+      await register(data);
+      navigate(redirect, { replace: true });
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Não foi possível criar a conta. Tente novamente.'));
+    }
+  };
+
+  return (
+    <div className="flex justify-center py-12">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-xl">Criar conta</CardTitle>
+          <CardDescription>Cadastre-se para começar a organizar suas tarefas</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <RegisterForm onSubmit={handleRegister} isLoading={isRegistering} error={error} />
+        </CardContent>
+        <CardFooter className="justify-center">
+          <FieldDescription>
+            Já tem uma conta?{' '}
+            <Link to={`/login?redirect=${encodeURIComponent(redirect)}`}>Entrar</Link>
+          </FieldDescription>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
+
+export { RegisterPage };
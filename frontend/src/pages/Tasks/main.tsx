@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Button } from '@/core/components/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/core/components/dialog';
 import {
@@ -19,16 +20,42 @@ import {
   EmptyContent,
 } from '@/core/components/empty';
 import { LoadingSpinner } from '@/core/components/loading-spinner';
-import { Plus, ListTodo } from 'lucide-react';
-import { TaskForm, TaskCard, TaskFilters, TaskHistoryDialog } from '@/domain/task/_module';
+import { Plus, ListTodo, Tags, CalendarSync } from 'lucide-react';
+import {
+  TaskForm,
+  TaskCard,
+  TaskFilters,
+  TaskHistoryDialog,
+  TaskSubtasksDialog,
+  TaskDependenciesDialog,
+  TaskTimeEntriesDialog,
+  TaskAttachmentsDialog,
+  TaskSnoozeDialog,
+  TaskRescheduleDialog,
+  TaskMostPostponedDialog,
+} from '@/domain/task/_module';
 import { useTaskList } from '@/domain/task/_module';
-import type { Task, TaskListFilters } from '@/domain/task/_module';
+import type {
+  Task,
+  TaskListFilters,
+  TaskSnoozePreset,
+  TaskStatus,
+} from '@/domain/task/_module';
+import { TagManagerDialog } from '@/domain/tag/_module';
+import { ProjectIcon, useProjectList } from '@/domain/project/_module';
 
 function TasksPage() {
+  const [searchParams] = useSearchParams();
+  const filterProject = searchParams.get('projeto') || 'Todas';
+  const { projects } = useProjectList(true);
+  const selectedProject = projects.find((project) => project.id === filterProject);
+
   const [filters, setFilters] = useState<TaskListFilters>({
     filterStatus: 'Todas',
     filterImportance: 'Todas',
     filterPeriod: 'Todas',
+    filterStart: 'Iniciadas',
+    filterScheduled: 'Todas',
     orderBy: 'Data de vencimento',
     orderDirection: 'Crescente',
   });
@@ -39,16 +66,31 @@ function TasksPage() {
     update,
     deleteTask,
     updateStatus,
+    move,
+    snooze,
+    unsnooze,
+    reschedule,
     isLoading,
     isCreating,
     isUpdating,
     isDeleting,
-  } = useTaskList(filters);
+    isSnoozing,
+    isRescheduling,
+  } = useTaskList({ ...filters, filterProject });
 
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false);
+  const [historyTab, setHistoryTab] = useState<'historico' | 'comentarios'>('historico');
+  const [isSubtasksDialogOpen, setIsSubtasksDialogOpen] = useState(false);
+  const [isDependenciesDialogOpen, setIsDependenciesDialogOpen] = useState(false);
+  const [isTimeEntriesDialogOpen, setIsTimeEntriesDialogOpen] = useState(false);
+  const [isAttachmentsDialogOpen, setIsAttachmentsDialogOpen] = useState(false);
+  const [isTagsDialogOpen, setIsTagsDialogOpen] = useState(false);
+  const [isSnoozeDialogOpen, setIsSnoozeDialogOpen] = useState(false);
+  const [isRescheduleDialogOpen, setIsRescheduleDialogOpen] = useState(false);
+  const [isMostPostponedDialogOpen, setIsMostPostponedDialogOpen] = useState(false);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
 
   const handleCreate = async (data: any) => {
@@ -80,29 +122,110 @@ function TasksPage() {
     setSelectedTask(null);
   };
 
-  const handleToggleStatus = async (task: Task) => {
-    const newStatus = task.status === 'Concluída' ? 'Pendente' : 'Concluída';
-    await updateStatus({ id: task.id, status: newStatus });
+  const handleChangeStatus = async (task: Task, status: TaskStatus) => {
+    await updateStatus({ id: task.id, status });
   };
 
   const handleViewHistory = (task: Task) => {
     setSelectedTask(task);
+    setHistoryTab('historico');
+    setIsHistoryDialogOpen(true);
+  };
+
+  const handleViewComments = (task: Task) => {
+    setSelectedTask(task);
+    setHistoryTab('comentarios');
     setIsHistoryDialogOpen(true);
   };
 
+  const handleViewSubtasks = (task: Task) => {
+    setSelectedTask(task);
+    setIsSubtasksDialogOpen(true);
+  };
+
+  const handleViewDependencies = (task: Task) => {
+    setSelectedTask(task);
+    setIsDependenciesDialogOpen(true);
+  };
+
+  const handleViewTimeEntries = (task: Task) => {
+    setSelectedTask(task);
+    setIsTimeEntriesDialogOpen(true);
+  };
+
+  const handleViewAttachments = (task: Task) => {
+    setSelectedTask(task);
+    setIsAttachmentsDialogOpen(true);
+  };
+
+  const handleNavigateToTask = (task: Task) => {
+    setSelectedTask(task);
+    document
+      .getElementById(`task-${task.id}`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const handleMove = async (task: Task, idProjeto: string | null) => {
+    await move({ id: task.id, idProjeto });
+  };
+
+  const handleSnooze = async (task: Task, preset: TaskSnoozePreset) => {
+    if (preset === 'Personalizado') {
+      setSelectedTask(task);
+      setIsSnoozeDialogOpen(true);
+      return;
+    }
+    await snooze({ id: task.id, preset });
+  };
+
+  const handleSnoozeCustom = async (task: Task, sonecaAte: string) => {
+    await snooze({ id: task.id, preset: 'Personalizado', sonecaAte });
+    setIsSnoozeDialogOpen(false);
+    setSelectedTask(null);
+  };
+
+  const handleUnsnooze = async (task: Task) => {
+    await unsnooze(task.id);
+  };
+
+  const handleRescheduleClick = (task: Task) => {
+    setSelectedTask(task);
+    setIsRescheduleDialogOpen(true);
+  };
+
+  const handleReschedule = async (task: Task, data: Parameters<typeof reschedule>[0]['data']) => {
+    await reschedule({ id: task.id, data });
+    setIsRescheduleDialogOpen(false);
+    setSelectedTask(null);
+  };
+
   return (
     <div className="space-y-6 py-6">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Minhas Tarefas</h1>
+          <h1 className="flex items-center gap-2 text-3xl font-bold tracking-tight">
+            {selectedProject && <ProjectIcon project={selectedProject} className="h-7 w-7" />}
+            {selectedProject?.nome ||
+              (filterProject === 'Sem projeto' ? 'Sem projeto' : 'Minhas Tarefas')}
+          </h1>
           <p className="text-muted-foreground mt-1">
             Gerencie suas tarefas e acompanhe seu progresso
           </p>
         </div>
-        <Button onClick={() => setIsCreateDialogOpen(true)} size="lg">
-          <Plus className="mr-2 h-4 w-4" />
-          Nova Tarefa
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsMostPostponedDialogOpen(true)} size="lg">
+            <CalendarSync className="mr-2 h-4 w-4" />
+            Mais adiadas
+          </Button>
+          <Button variant="outline" onClick={() => setIsTagsDialogOpen(true)} size="lg">
+            <Tags className="mr-2 h-4 w-4" />
+            Tags
+          </Button>
+          <Button onClick={() => setIsCreateDialogOpen(true)} size="lg">
+            <Plus className="mr-2 h-4 w-4" />
+            Nova Tarefa
+          </Button>
+        </div>
       </div>
 
       <TaskFilters filters={filters} onFiltersChange={setFilters} />
@@ -120,7 +243,10 @@ function TasksPage() {
               {filters.searchTerm ||
               filters.filterStatus !== 'Todas' ||
               filters.filterImportance !== 'Todas' ||
-              filters.filterPeriod !== 'Todas'
+              filters.filterPeriod !== 'Todas' ||
+              filters.filterStart !== 'Iniciadas' ||
+              filters.filterScheduled !== 'Todas' ||
+              filterProject !== 'Todas'
                 ? 'Não foram encontradas tarefas com os critérios selecionados. Tente ajustar os filtros.'
                 : 'Você ainda não tem tarefas cadastradas. Comece criando sua primeira tarefa!'}
             </EmptyDescription>
@@ -140,8 +266,17 @@ function TasksPage() {
               task={task}
               onEdit={handleEdit}
               onDelete={handleDeleteClick}
-              onToggleStatus={handleToggleStatus}
+              onChangeStatus={handleChangeStatus}
               onViewHistory={handleViewHistory}
+              onViewSubtasks={handleViewSubtasks}
+              onViewDependencies={handleViewDependencies}
+              onViewTimeEntries={handleViewTimeEntries}
+              onViewAttachments={handleViewAttachments}
+              onViewComments={handleViewComments}
+              onMove={handleMove}
+              onSnooze={handleSnooze}
+              onUnsnooze={handleUnsnooze}
+              onReschedule={handleRescheduleClick}
             />
           ))}
         </div>
@@ -153,6 +288,7 @@ function TasksPage() {
             <DialogTitle>Nova Tarefa</DialogTitle>
           </DialogHeader>
           <TaskForm
+            defaultIdProjeto={selectedProject?.id}
             onSubmit={handleCreate}
             onCancel={() => setIsCreateDialogOpen(false)}
             isLoading={isCreating}
@@ -182,8 +318,8 @@ function TasksPage() {
           <AlertDialogHeader>
             <AlertDialogTitle>Confirmar exclusão</AlertDialogTitle>
             <AlertDialogDescription>
-              Tem certeza que deseja excluir a tarefa "{selectedTask?.titulo}"? Esta ação não pode
-              ser desfeita.
+              A tarefa "{selectedTask?.titulo}" e suas subtarefas serão movidas para a lixeira, de
+              onde podem ser restauradas.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -205,11 +341,79 @@ function TasksPage() {
       <TaskHistoryDialog
         task={selectedTask}
         open={isHistoryDialogOpen}
+        defaultTab={historyTab}
         onOpenChange={(open: boolean) => {
           setIsHistoryDialogOpen(open);
           if (!open) setSelectedTask(null);
         }}
       />
+
+      <TaskSubtasksDialog
+        task={selectedTask}
+        open={isSubtasksDialogOpen}
+        onOpenChange={(open: boolean) => {
+          setIsSubtasksDialogOpen(open);
+          if (!open) setSelectedTask(null);
+        }}
+      />
+
+      <TaskDependenciesDialog
+        task={selectedTask}
+        open={isDependenciesDialogOpen}
+        onOpenChange={(open: boolean) => {
+          setIsDependenciesDialogOpen(open);
+          if (!open) setSelectedTask(null);
+        }}
+        onNavigate={handleNavigateToTask}
+      />
+
+      <TaskTimeEntriesDialog
+        task={selectedTask}
+        open={isTimeEntriesDialogOpen}
+        onOpenChange={(open: boolean) => {
+          setIsTimeEntriesDialogOpen(open);
+          if (!open) setSelectedTask(null);
+        }}
+      />
+
+      <TaskAttachmentsDialog
+        task={selectedTask}
+        open={isAttachmentsDialogOpen}
+        onOpenChange={(open: boolean) => {
+          setIsAttachmentsDialogOpen(open);
+          if (!open) setSelectedTask(null);
+        }}
+      />
+
+      <TaskSnoozeDialog
+        task={selectedTask}
+        open={isSnoozeDialogOpen}
+        onOpenChange={(open: boolean) => {
+          setIsSnoozeDialogOpen(open);
+          if (!open) setSelectedTask(null);
+        }}
+        onSubmit={handleSnoozeCustom}
+        isLoading={isSnoozing}
+      />
+
+      <TaskRescheduleDialog
+        task={selectedTask}
+        open={isRescheduleDialogOpen}
+        onOpenChange={(open: boolean) => {
+          setIsRescheduleDialogOpen(open);
+          if (!open) setSelectedTask(null);
+        }}
+        onSubmit={handleReschedule}
+        isLoading={isRescheduling}
+      />
+
+      <TaskMostPostponedDialog
+        open={isMostPostponedDialogOpen}
+        onOpenChange={setIsMostPostponedDialogOpen}
+        onNavigate={handleNavigateToTask}
+      />
+
+      <TagManagerDialog open={isTagsDialogOpen} onOpenChange={setIsTagsDialogOpen} />
     </div>
   );
 }
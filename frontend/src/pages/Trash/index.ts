@@ -0,0 +1 @@
+export { TrashPage } from './main';
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Button } from '@/core/components/button';
+import { Badge } from '@/core/components/badge';
+import { Empty, EmptyHeader, EmptyTitle, EmptyDescription } from '@/core/components/empty';
+import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { History, RotateCcw, Trash2 } from 'lucide-react';
+import { TaskHistoryDialog, useTaskTrash } from '@/domain/task/_module';
+import type { TaskTrashItem } from '@/domain/task/_module';
+
+function TrashPage() {
+  const { tasks, restore, isLoading, isRestoring } = useTaskTrash();
+  const [selectedTask, setSelectedTask] = useState<TaskTrashItem | null>(null);
+
+  const formatDateTime = (dateStr: string) =>
+    format(parseISO(dateStr), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+
+  return (
+    <div className="space-y-6 py-6">
+      <div>
+        <h1 className="flex items-center gap-2 text-3xl font-bold tracking-tight">
+          <Trash2 className="h-7 w-7" />
+          Lixeira
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Tarefas excluídas podem ser restauradas até serem removidas definitivamente
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner className="h-8 w-8" />
+        </div>
+      ) : tasks.length === 0 ? (
+        <Empty className="py-12">
+          <EmptyHeader>
+            <Trash2 className="h-16 w-16" />
+            <EmptyTitle>A lixeira está vazia</EmptyTitle>
+            <EmptyDescription>As tarefas que você excluir aparecerão aqui.</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <div className="space-y-2">
+          {tasks.map((task) => (
+            <div
+              key={task.id}
+              className="flex flex-col gap-3 rounded-lg border p-4 sm:flex-row sm:items-center sm:justify-between"
+            >
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">{task.titulo}</p>
+                  {task.idTarefaPai && <Badge variant="outline">Subtarefa</Badge>}
+                  {task.subtarefas > 0 && (
+                    <Badge variant="secondary">
+                      {task.subtarefas} {task.subtarefas === 1 ? 'subtarefa' : 'subtarefas'}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-muted-foreground text-xs">
+                  Excluída em {task.dataExclusao && formatDateTime(task.dataExclusao)} · Será
+                  removida definitivamente em {formatDateTime(task.dataPurga)}
+                </p>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <Button variant="outline" size="sm" onClick={() => setSelectedTask(task)}>
+                  <History className="mr-2 h-4 w-4" />
+                  Histórico
+                </Button>
+                <Button size="sm" onClick={() => restore(task.id)} disabled={isRestoring}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Restaurar
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <TaskHistoryDialog
+        task={selectedTask}
+        open={!!selectedTask}
+        onOpenChange={(open: boolean) => !open && setSelectedTask(null)}
+      />
+    </div>
+  );
+}
+
+export { TrashPage };
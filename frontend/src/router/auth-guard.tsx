@@ -0,0 +1,39 @@
+import type { ReactNode } from 'react';
+import { Navigate, useLocation, useSearchParams } from 'react-router-dom';
+import { useAuthStore } from '@/core/stores/auth';
+
+/**
+ * Reads the `redirect` query parameter, accepting only same-origin paths.
+ */
+export function getRedirectTarget(searchParams: URLSearchParams): string {
+  const redirect = searchParams.get('redirect');
+  if (!redirect || !redirect.startsWith('/') || redirect.startsWith('//')) return '/';
+  return redirect;
+}
+
+interface AuthGuardProps {
+  children: ReactNode;
+}
+
+export function RequireAuth({ children }: AuthGuardProps) {
+  const location = useLocation();
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated());
+
+  if (!isAuthenticated) {
+    const redirect = encodeURIComponent(location.pathname + location.search);
+    return <Navigate to={`/login?redirect=${redirect}`} replace />;
+  }
+
+  return children;
+}
+
+export function RequireGuest({ children }: AuthGuardProps) {
+  const [searchParams] = useSearchParams();
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated());
+
+  if (isAuthenticated) {
+    return <Navigate to={getRedirectTarget(searchParams)} replace />;
+  }
+
+  return children;
+}
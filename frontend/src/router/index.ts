@@ -1,2 +1,3 @@
 export * from './routes';
 export * from './error-boundary';
+export * from './auth-guard';
@@ -2,10 +2,23 @@ import { lazy, Suspense } from 'react';
 import { createBrowserRouter } from 'react-router-dom';
 import { LoadingSpinner } from '@/core/components/loading-spinner';
 import { MainLayout } from '@/layouts/MainLayout';
+import { RequireAuth, RequireGuest } from './auth-guard';
 
 const TasksPage = lazy(() =>
   import('@/pages/Tasks').then((module) => ({ default: module.TasksPage }))
 );
+const TrashPage = lazy(() =>
+  import('@/pages/Trash').then((module) => ({ default: module.TrashPage }))
+);
+const LoginPage = lazy(() =>
+  import('@/pages/Login').then((module) => ({ default: module.LoginPage }))
+);
+const RegisterPage = lazy(() =>
+  import('@/pages/Register').then((module) => ({ default: module.RegisterPage }))
+);
+const LogoutPage = lazy(() =>
+  import('@/pages/Logout').then((module) => ({ default: module.LogoutPage }))
+);
 const NotFoundPage = lazy(() =>
   import('@/pages/NotFound').then((module) => ({ default: module.NotFoundPage }))
 );
@@ -27,7 +40,39 @@ const routes = createBrowserRouter([
     children: [
       {
         index: true,
-        element: <TasksPage />,
+        element: (
+          <RequireAuth>
+            <TasksPage />
+          </RequireAuth>
+        ),
+      },
+      {
+        path: 'trash',
+        element: (
+          <RequireAuth>
+            <TrashPage />
+          </RequireAuth>
+        ),
+      },
+      {
+        path: 'login',
+        element: (
+          <RequireGuest>
+            <LoginPage />
+          </RequireGuest>
+        ),
+      },
+      {
+        path: 'register',
+        element: (
+          <RequireGuest>
+            <RegisterPage />
+          </RequireGuest>
+        ),
+      },
+      {
+        path: 'logout',
+        element: <LogoutPage />,
       },
       {
         path: '*',
@@ -0,0 +1,289 @@
+/**
+ * @summary
+ * Catalog of the error codes returned by the API.
+ * Every error carries one of these codes, which clients rely on, together with the message shown
+ * to users in each supported locale. Messages may hold `{name}` placeholders, filled with the
+ * parameters of the error, such as the limit a field exceeds. The web client renders the codes
+ * of the shared schemas with the same messages. The catalog also holds the texts of the reminder
+ * notifications, sent in the language of their recipient.
+ *
+ * @module i18n/errorMessages
+ */
+
+import type { Locale } from './locales';
+
+/**
+ * @rule {be-error-handling}
+ * Error codes and their pt-BR messages, grouped by the resource they concern
+ */
+const MESSAGES_PT_BR = {
+  VALIDATION_ERROR: 'Os dados informados são inválidos',
+  INTERNAL_SERVER_ERROR: 'Ocorreu um erro inesperado',
+  ROUTE_NOT_FOUND: 'A rota {method} {path} não existe',
+
+  requisicaoInvalida: 'A requisição não pôde ser processada',
+  jsonInvalido: 'O corpo da requisição não é um JSON válido',
+  corpoMuitoGrande: 'O corpo da requisição excede o tamanho permitido',
+  codificacaoNaoSuportada: 'A codificação do corpo da requisição não é suportada',
+  campoObrigatorio: 'O campo {campo} é obrigatório',
+  campoTipoInvalido: 'O campo {campo} tem um tipo inválido',
+  campoInvalido: 'O campo {campo} tem um valor inválido',
+  campoAbaixoDoMinimo: 'O campo {campo} deve ter no mínimo {min}',
+  campoAcimaDoMaximo: 'O campo {campo} deve ter no máximo {max}',
+
+  tokenAusente: 'É necessário estar autenticado para acessar este recurso',
+  tokenInvalido: 'A sessão expirou ou é inválida',
+  usuarioInvalido: 'O usuário informado não existe',
+  credenciaisInvalidas: 'E-mail ou senha incorretos',
+  emailJaCadastrado: 'Já existe uma conta cadastrada com este e-mail',
+  nomeObrigatorio: 'O nome é obrigatório',
+  nomeMuitoLongo: 'O nome deve ter no máximo {max} caracteres',
+  emailObrigatorio: 'O e-mail é obrigatório',
+  emailInvalido: 'O e-mail informado é inválido',
+  emailMuitoLongo: 'O e-mail deve ter no máximo {max} caracteres',
+  senhaObrigatoria: 'A senha é obrigatória',
+  senhaMuitoCurta: 'A senha deve ter no mínimo {min} caracteres',
+  senhaMuitoLonga: 'A senha deve ter no máximo {max} caracteres',
+  idiomaInvalido: 'O idioma informado não é suportado',
+
+  tarefaNaoEncontrada: 'A tarefa solicitada não foi encontrada',
+  idTarefaInvalido: 'O identificador da tarefa é inválido',
+  tituloObrigatorio: 'O título é obrigatório',
+  tituloMuitoLongo: 'O título deve ter no máximo {max} caracteres',
+  descricaoMuitoLonga: 'A descrição deve ter no máximo {max} caracteres',
+  importanciaInvalida: 'A importância deve ser Alta, Média ou Baixa',
+  statusInvalido: 'O status informado é inválido',
+  dataInvalida: 'A data informada é inválida',
+  dataVencimentoInvalida: 'A data de vencimento é inválida',
+  dataVencimentoPassado: 'A data de vencimento não pode ser anterior à data atual',
+  dataInicioInvalida: 'A data de início é inválida',
+  dataAgendadaInvalida: 'A data agendada é inválida',
+  dataInicioAposVencimento: 'A data de início não pode ser posterior à data de vencimento',
+  horaVencimentoInvalida: 'A hora de vencimento só pode acompanhar uma data sem hora',
+  horaVencimentoObrigatoria:
+    'Tarefas que não são de dia inteiro precisam de uma hora de vencimento',
+  diaInteiroInvalido: 'O indicador de dia inteiro deve ser verdadeiro ou falso',
+  fusoHorarioInvalido: 'O fuso horário informado é inválido',
+  duracaoEstimadaInvalida: 'A duração estimada deve ser um número inteiro de minutos',
+  recorrenciaInvalida: 'A regra de recorrência é inválida',
+  recorrenciaSemVencimento: 'Tarefas recorrentes precisam de uma data de vencimento',
+  lembreteInvalido: 'Os lembretes informados são inválidos',
+  lembreteSemVencimento: 'Lembretes com antecedência precisam de uma data de vencimento',
+  lembretesDemais: 'Uma tarefa pode ter no máximo {max} lembretes',
+  sonecaInvalida: 'A soneca informada é inválida',
+  sonecaObrigatoria: 'Informe até quando a tarefa deve ser adiada',
+  sonecaPassada: 'Informe um momento futuro para a soneca',
+  motivoMuitoLongo: 'O motivo deve ter no máximo {max} caracteres',
+  limiteInvalido: 'O limite informado é inválido',
+  tarefaEncerrada: 'Tarefas concluídas ou canceladas não podem ser adiadas',
+  tarefaPaiExcluida: 'Restaure a tarefa principal antes de restaurar a subtarefa',
+  alteracaoNaoPermitida: 'A tarefa não pode passar de {de} para {para}',
+  politicaSubtarefasInvalida: 'A regra para subtarefas pendentes é inválida',
+  politicaDependenciasInvalida: 'A regra para dependências pendentes é inválida',
+  subtarefasPendentes: 'A tarefa possui subtarefas pendentes',
+  dependenciasPendentes: 'A tarefa está bloqueada por tarefas pendentes',
+
+  subtarefaNaoEncontrada: 'A subtarefa solicitada não foi encontrada',
+  idSubtarefaInvalido: 'O identificador da subtarefa é inválido',
+  tipoSubtarefaInvalido: 'O tipo da subtarefa deve ser Item ou Tarefa',
+  subtarefaAninhada: 'Uma subtarefa não pode ter subtarefas próprias',
+  textoObrigatorio: 'O texto do item é obrigatório',
+  textoMuitoLongo: 'O texto do item deve ter no máximo {max} caracteres',
+  concluidoInvalido: 'O indicador de conclusão deve ser verdadeiro ou falso',
+  ordemInvalida: 'A ordem deve ser um número inteiro não negativo',
+
+  dependenciaNaoEncontrada: 'A dependência solicitada não foi encontrada',
+  idTarefaBloqueadoraInvalido: 'O identificador da tarefa bloqueadora é inválido',
+  dependenciaCiclica: 'A dependência criaria um ciclo entre as tarefas',
+
+  registroNaoEncontrado: 'O registro de tempo solicitado não foi encontrado',
+  idRegistroInvalido: 'O identificador do registro de tempo é inválido',
+  inicioInvalido: 'O início do registro é inválido',
+  fimInvalido: 'O fim do registro é inválido',
+  notaMuitoLonga: 'A nota deve ter no máximo {max} caracteres',
+  registroSemFim: 'Informe o fim do registro de tempo',
+  intervaloInvalido: 'O registro deve terminar depois de começar e não pode começar no futuro',
+  cronometroParado: 'Não há cronômetro em andamento nesta tarefa',
+
+  anexoNaoEncontrado: 'O anexo solicitado não foi encontrado',
+  idAnexoInvalido: 'O identificador do anexo é inválido',
+  anexoDuplicado: 'Este arquivo já está anexado à tarefa',
+  anexosDemais: 'Uma tarefa pode ter no máximo {max} anexos',
+  arquivoObrigatorio: 'Envie um arquivo no campo "arquivo"',
+  arquivoInvalido: 'Envie um único arquivo no campo "arquivo"',
+  arquivoMuitoGrande: 'O arquivo deve ter no máximo {max}',
+  tipoArquivoNaoPermitido: 'Este tipo de arquivo não é permitido',
+
+  comentarioNaoEncontrado: 'O comentário solicitado não foi encontrado',
+  idComentarioInvalido: 'O identificador do comentário é inválido',
+  comentarioVazio: 'O comentário não pode ficar vazio',
+  comentarioMuitoLongo: 'O comentário deve ter no máximo {max} caracteres',
+  comentarioDeOutroAutor: 'Apenas o autor pode alterar ou excluir este comentário',
+
+  tagNaoEncontrada: 'A tag informada não foi encontrada',
+  idTagInvalido: 'O identificador da tag é inválido',
+  tagsDemais: 'Uma tarefa pode ter no máximo {max} tags',
+  corInvalida: 'A cor deve estar no formato #RRGGBB',
+  tagJaExiste: 'Já existe uma tag com este nome',
+  tagMesclagemInvalida: 'Uma tag não pode ser mesclada com ela mesma',
+
+  projetoNaoEncontrado: 'O projeto informado não foi encontrado',
+  idProjetoInvalido: 'O identificador do projeto é inválido',
+  iconeInvalido: 'O ícone informado é inválido',
+  arquivadoInvalido: 'O indicador de arquivamento deve ser verdadeiro ou falso',
+  projetoJaExiste: 'Já existe um projeto com este nome',
+  projetoArquivado: 'Não é possível adicionar tarefas a um projeto arquivado',
+  projetoSubtarefa: 'Subtarefas ficam sempre no projeto da tarefa principal',
+
+  notificacaoNaoEncontrada: 'A notificação solicitada não foi encontrada',
+  idNotificacaoInvalido: 'O identificador da notificação é inválido',
+  notificacaoLembreteTitulo: 'Lembrete: {titulo}',
+  notificacaoLembreteVencimento: 'Vence em {vencimento}. {mensagem}',
+  formatoData: '{dia}/{mes}/{ano}',
+  formatoDataHora: '{data} às {hora}',
+} as const;
+
+/**
+ * @type ErrorCode
+ * @description Code of an error returned by the API
+ */
+export type ErrorCode = keyof typeof MESSAGES_PT_BR;
+
+/**
+ * @rule {be-error-handling}
+ * en-US messages; every code must have one
+ */
+const MESSAGES_EN_US: Record<ErrorCode, string> = {
+  VALIDATION_ERROR: 'The data provided is invalid',
+  INTERNAL_SERVER_ERROR: 'An unexpected error occurred',
+  ROUTE_NOT_FOUND: 'The route {method} {path} does not exist',
+
+  requisicaoInvalida: 'The request could not be processed',
+  jsonInvalido: 'The request body is not valid JSON',
+  corpoMuitoGrande: 'The request body exceeds the allowed size',
+  codificacaoNaoSuportada: 'The encoding of the request body is not supported',
+  campoObrigatorio: 'The {campo} field is required',
+  campoTipoInvalido: 'The {campo} field has an invalid type',
+  campoInvalido: 'The {campo} field has an invalid value',
+  campoAbaixoDoMinimo: 'The {campo} field must be at least {min}',
+  campoAcimaDoMaximo: 'The {campo} field must be at most {max}',
+
+  tokenAusente: 'You must be signed in to access this resource',
+  tokenInvalido: 'The session has expired or is invalid',
+  usuarioInvalido: 'The given user does not exist',
+  credenciaisInvalidas: 'Incorrect e-mail or password',
+  emailJaCadastrado: 'An account with this e-mail already exists',
+  nomeObrigatorio: 'The name is required',
+  nomeMuitoLongo: 'The name must be at most {max} characters long',
+  emailObrigatorio: 'The e-mail is required',
+  emailInvalido: 'The e-mail is invalid',
+  emailMuitoLongo: 'The e-mail must be at most {max} characters long',
+  senhaObrigatoria: 'The password is required',
+  senhaMuitoCurta: 'The password must be at least {min} characters long',
+  senhaMuitoLonga: 'The password must be at most {max} characters long',
+  idiomaInvalido: 'The given language is not supported',
+
+  tarefaNaoEncontrada: 'The requested task was not found',
+  idTarefaInvalido: 'The task identifier is invalid',
+  tituloObrigatorio: 'The title is required',
+  tituloMuitoLongo: 'The title must be at most {max} characters long',
+  descricaoMuitoLonga: 'The description must be at most {max} characters long',
+  importanciaInvalida: 'The importance must be Alta, Média or Baixa',
+  statusInvalido: 'The given status is invalid',
+  dataInvalida: 'The given date is invalid',
+  dataVencimentoInvalida: 'The due date is invalid',
+  dataVencimentoPassado: 'The due date cannot be earlier than the current date',
+  dataInicioInvalida: 'The start date is invalid',
+  dataAgendadaInvalida: 'The scheduled date is invalid',
+  dataInicioAposVencimento: 'The start date cannot be later than the due date',
+  horaVencimentoInvalida: 'A due time can only be given with a date without a time',
+  horaVencimentoObrigatoria: 'Tasks that are not all-day need a due time',
+  diaInteiroInvalido: 'The all-day flag must be true or false',
+  fusoHorarioInvalido: 'The given time zone is invalid',
+  duracaoEstimadaInvalida: 'The estimated duration must be a whole number of minutes',
+  recorrenciaInvalida: 'The recurrence rule is invalid',
+  recorrenciaSemVencimento: 'Recurring tasks need a due date',
+  lembreteInvalido: 'The given reminders are invalid',
+  lembreteSemVencimento: 'Reminders set before the due date need a due date',
+  lembretesDemais: 'A task can have at most {max} reminders',
+  sonecaInvalida: 'The given snooze is invalid',
+  sonecaObrigatoria: 'Say until when the task should be snoozed',
+  sonecaPassada: 'Snooze the task until a moment in the future',
+  motivoMuitoLongo: 'The reason must be at most {max} characters long',
+  limiteInvalido: 'The given limit is invalid',
+  tarefaEncerrada: 'Completed or canceled tasks cannot be postponed',
+  tarefaPaiExcluida: 'Restore the parent task before restoring the subtask',
+  alteracaoNaoPermitida: 'The task cannot move from {de} to {para}',
+  politicaSubtarefasInvalida: 'The policy for pending subtasks is invalid',
+  politicaDependenciasInvalida: 'The policy for pending dependencies is invalid',
+  subtarefasPendentes: 'The task has pending subtasks',
+  dependenciasPendentes: 'The task is blocked by pending tasks',
+
+  subtarefaNaoEncontrada: 'The requested subtask was not found',
+  idSubtarefaInvalido: 'The subtask identifier is invalid',
+  tipoSubtarefaInvalido: 'The subtask type must be Item or Tarefa',
+  subtarefaAninhada: 'A subtask cannot have subtasks of its own',
+  textoObrigatorio: 'The item text is required',
+  textoMuitoLongo: 'The item text must be at most {max} characters long',
+  concluidoInvalido: 'The completed flag must be true or false',
+  ordemInvalida: 'The order must be a non-negative whole number',
+
+  dependenciaNaoEncontrada: 'The requested dependency was not found',
+  idTarefaBloqueadoraInvalido: 'The blocking task identifier is invalid',
+  dependenciaCiclica: 'The dependency would create a cycle between tasks',
+
+  registroNaoEncontrado: 'The requested time entry was not found',
+  idRegistroInvalido: 'The time entry identifier is invalid',
+  inicioInvalido: 'The entry start is invalid',
+  fimInvalido: 'The entry end is invalid',
+  notaMuitoLonga: 'The note must be at most {max} characters long',
+  registroSemFim: 'Give the end of the time entry',
+  intervaloInvalido: 'The entry must end after it starts and cannot start in the future',
+  cronometroParado: 'There is no timer running on this task',
+
+  anexoNaoEncontrado: 'The requested attachment was not found',
+  idAnexoInvalido: 'The attachment identifier is invalid',
+  anexoDuplicado: 'This file is already attached to the task',
+  anexosDemais: 'A task can have at most {max} attachments',
+  arquivoObrigatorio: 'Send a file in the "arquivo" field',
+  arquivoInvalido: 'Send a single file in the "arquivo" field',
+  arquivoMuitoGrande: 'The file must be at most {max}',
+  tipoArquivoNaoPermitido: 'This file type is not allowed',
+
+  comentarioNaoEncontrado: 'The requested comment was not found',
+  idComentarioInvalido: 'The comment identifier is invalid',
+  comentarioVazio: 'The comment cannot be empty',
+  comentarioMuitoLongo: 'The comment must be at most {max} characters long',
+  comentarioDeOutroAutor: 'Only the author can edit or delete this comment',
+
+  tagNaoEncontrada: 'The given tag was not found',
+  idTagInvalido: 'The tag identifier is invalid',
+  tagsDemais: 'A task can have at most {max} tags',
+  corInvalida: 'The color must be in the #RRGGBB format',
+  tagJaExiste: 'A tag with this name already exists',
+  tagMesclagemInvalida: 'A tag cannot be merged into itself',
+
+  projetoNaoEncontrado: 'The given project was not found',
+  idProjetoInvalido: 'The project identifier is invalid',
+  iconeInvalido: 'The given icon is invalid',
+  arquivadoInvalido: 'The archived flag must be true or false',
+  projetoJaExiste: 'A project with this name already exists',
+  projetoArquivado: 'Tasks cannot be added to an archived project',
+  projetoSubtarefa: 'Subtasks always stay in the project of their parent task',
+
+  notificacaoNaoEncontrada: 'The requested notification was not found',
+  idNotificacaoInvalido: 'The notification identifier is invalid',
+  notificacaoLembreteTitulo: 'Reminder: {titulo}',
+  notificacaoLembreteVencimento: 'Due {vencimento}. {mensagem}',
+  formatoData: '{mes}/{dia}/{ano}',
+  formatoDataHora: '{data} at {hora}',
+};
+
+/**
+ * @rule {be-localization}
+ * Error messages by locale
+ */
+export const ERROR_MESSAGES: Record<Locale, Record<ErrorCode, string>> = {
+  'pt-BR': MESSAGES_PT_BR,
+  'en-US': MESSAGES_EN_US,
+};
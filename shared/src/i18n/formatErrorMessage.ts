@@ -0,0 +1,58 @@
+/**
+ * @summary
+ * Rendering of catalog messages.
+ * The API renders the errors it returns with it, and the web client the codes of the shared
+ * schemas it checks before sending a request.
+ *
+ * @module i18n/formatErrorMessage
+ */
+
+import { ERROR_MESSAGES, ErrorCode } from './errorMessages';
+import { DEFAULT_LOCALE, Locale } from './locales';
+
+/**
+ * @type MessageParams
+ * @description Values of the `{name}` placeholders of a message
+ */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * @summary
+ * Checks whether a value is a code of the error catalog
+ *
+ * @function isErrorCode
+ * @module i18n/formatErrorMessage
+ *
+ * @param {unknown} value - Value to check
+ *
+ * @returns {boolean} True when the catalog has a message for the value
+ */
+export function isErrorCode(value: unknown): value is ErrorCode {
+  return (
+    typeof value === 'string' &&
+    Object.prototype.hasOwnProperty.call(ERROR_MESSAGES[DEFAULT_LOCALE], value)
+  );
+}
+
+/**
+ * @summary
+ * Renders the message of an error code in a locale
+ *
+ * @function formatErrorMessage
+ * @module i18n/formatErrorMessage
+ *
+ * @param {ErrorCode} code - Error code
+ * @param {Locale} locale - Locale of the message
+ * @param {MessageParams} [params] - Placeholder values; unknown placeholders are kept as is
+ *
+ * @returns {string} Localized message
+ */
+export function formatErrorMessage(
+  code: ErrorCode,
+  locale: Locale,
+  params?: MessageParams
+): string {
+  return ERROR_MESSAGES[locale][code].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params?.[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
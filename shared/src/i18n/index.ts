@@ -0,0 +1,3 @@
+export * from './locales';
+export * from './errorMessages';
+export * from './formatErrorMessage';
@@ -0,0 +1,24 @@
+/**
+ * @summary
+ * Languages the API answers in.
+ *
+ * @module i18n/locales
+ */
+
+/**
+ * @rule {be-localization}
+ * Supported locales, as BCP 47 tags
+ */
+export const LOCALES = ['pt-BR', 'en-US'] as const;
+
+/**
+ * @type Locale
+ * @description Language of the messages returned to a user
+ */
+export type Locale = (typeof LOCALES)[number];
+
+/**
+ * @rule {be-localization}
+ * Locale used when neither the user nor the request asks for a supported one
+ */
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
@@ -0,0 +1,11 @@
+/**
+ * @summary
+ * Validation schemas, accepted values, limits and error messages shared by the API and the web
+ * client.
+ *
+ * @module shared
+ */
+
+export * from './i18n';
+export * from './task';
+export * from './validation';
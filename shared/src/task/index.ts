@@ -0,0 +1,3 @@
+export * from './taskLimits';
+export * from './taskValues';
+export * from './taskSchemas';
@@ -0,0 +1,30 @@
+/**
+ * @summary
+ * Size limits of task fields.
+ * Checked by the API and by the task form, so a limit changes in one place only.
+ *
+ * @module task/taskLimits
+ */
+
+/**
+ * @rule {be-task-limits}
+ * Maximum lengths, counts and amounts accepted for a task
+ */
+export const TASK_LIMITS = {
+  /** Characters of the title */
+  titulo: 100,
+  /** Characters of the description */
+  descricao: 500,
+  /** Characters of the recurrence rule */
+  recorrencia: 200,
+  /** Tags assigned to a task */
+  tags: 20,
+  /** Estimated effort, in minutes */
+  duracaoEstimada: 99999,
+  /** Reminders of a task */
+  lembretes: 10,
+  /** How long before the due date a reminder may fire, in minutes (one year) */
+  antecedenciaLembrete: 525600,
+  /** Characters of the reason given when rescheduling */
+  motivo: 500,
+} as const;
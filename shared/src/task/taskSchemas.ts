@@ -0,0 +1,146 @@
+/**
+ * @summary
+ * Validation schemas of task fields and of the task list and history filters.
+ * Messages are error codes; the API and the task form render them in the user's language.
+ *
+ * @module task/taskSchemas
+ */
+
+import { z } from 'zod';
+import { TASK_LIMITS } from './taskLimits';
+import {
+  ORDER_DIRECTION_VALUES,
+  TASK_HISTORY_ORIGEM_FILTER_VALUES,
+  TASK_HISTORY_TIPO_FILTER_VALUES,
+  TASK_IMPORTANCE_FILTER_VALUES,
+  TASK_IMPORTANCE_VALUES,
+  TASK_ORDER_BY_VALUES,
+  TASK_PERIOD_FILTER_VALUES,
+  TASK_PROJECT_FILTER_VALUES,
+  TASK_SCHEDULED_FILTER_VALUES,
+  TASK_START_FILTER_VALUES,
+  TASK_STATUS_FILTER_VALUES,
+  TASK_TAGS_MODE_VALUES,
+} from './taskValues';
+
+/**
+ * @validation Title: required, up to `TASK_LIMITS.titulo` characters
+ */
+export const taskTituloSchema = z
+  .string({ error: 'tituloObrigatorio' })
+  .min(1, 'tituloObrigatorio')
+  .max(TASK_LIMITS.titulo, 'tituloMuitoLongo');
+
+/**
+ * @validation Description: up to `TASK_LIMITS.descricao` characters
+ */
+export const taskDescricaoSchema = z.string().max(TASK_LIMITS.descricao, 'descricaoMuitoLonga');
+
+/**
+ * @validation Importance: one of `TASK_IMPORTANCE_VALUES`
+ */
+export const taskImportanciaSchema = z.enum(TASK_IMPORTANCE_VALUES, {
+  error: 'importanciaInvalida',
+});
+
+/**
+ * @validation Recurrence rule: up to `TASK_LIMITS.recorrencia` characters; the API also checks
+ * the rule itself
+ */
+export const taskRecorrenciaSchema = z.string().max(TASK_LIMITS.recorrencia, 'recorrenciaInvalida');
+
+/**
+ * @validation Tags: up to `TASK_LIMITS.tags` tag identifiers
+ */
+export const taskTagsSchema = z
+  .array(z.uuid({ error: 'idTagInvalido' }))
+  .max(TASK_LIMITS.tags, 'tagsDemais');
+
+/**
+ * @validation Estimated effort: whole minutes, up to `TASK_LIMITS.duracaoEstimada`
+ */
+export const taskDuracaoEstimadaSchema = z
+  .number({ error: 'duracaoEstimadaInvalida' })
+  .int('duracaoEstimadaInvalida')
+  .min(1, 'duracaoEstimadaInvalida')
+  .max(TASK_LIMITS.duracaoEstimada, 'duracaoEstimadaInvalida');
+
+/**
+ * @validation Reminder: minutes before the due date (up to a year) or a fixed moment, never
+ * both
+ */
+export const taskReminderSchema = z
+  .object({
+    antecedencia: z
+      .number({ error: 'lembreteInvalido' })
+      .int('lembreteInvalido')
+      .min(1, 'lembreteInvalido')
+      .max(TASK_LIMITS.antecedenciaLembrete, 'lembreteInvalido')
+      .nullable(),
+    dataLembrete: z.iso.datetime({ offset: true, error: 'lembreteInvalido' }).nullable(),
+  })
+  .partial()
+  .refine((lembrete) => !lembrete.antecedencia !== !lembrete.dataLembrete, 'lembreteInvalido');
+
+/**
+ * @type TaskReminderInput
+ * @description Reminder as sent by a client; the field it does not use may be null or left out
+ */
+export type TaskReminderInput = z.input<typeof taskReminderSchema>;
+
+/**
+ * @validation Reminders: up to `TASK_LIMITS.lembretes`
+ */
+export const taskLembretesSchema = z
+  .array(taskReminderSchema)
+  .max(TASK_LIMITS.lembretes, 'lembretesDemais');
+
+/**
+ * @validation Reason of a reschedule: up to `TASK_LIMITS.motivo` characters
+ */
+export const taskMotivoSchema = z.string().trim().max(TASK_LIMITS.motivo, 'motivoMuitoLongo');
+
+/**
+ * @validation Task list query; every filter defaults to showing everything, except the start
+ * date filter, which hides tasks that have not started yet
+ */
+export const taskListFiltersSchema = z.object({
+  filterStatus: z.enum(TASK_STATUS_FILTER_VALUES).optional().default('Todas'),
+  filterImportance: z.enum(TASK_IMPORTANCE_FILTER_VALUES).optional().default('Todas'),
+  filterPeriod: z.enum(TASK_PERIOD_FILTER_VALUES).optional().default('Todas'),
+  filterStart: z.enum(TASK_START_FILTER_VALUES).optional().default('Iniciadas'),
+  filterScheduled: z.enum(TASK_SCHEDULED_FILTER_VALUES).optional().default('Todas'),
+  filterTags: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(',').filter(Boolean) : []))
+    .pipe(z.array(z.uuid({ error: 'idTagInvalido' }))),
+  filterTagsMode: z.enum(TASK_TAGS_MODE_VALUES).optional().default('Qualquer'),
+  filterProject: z
+    .union([z.enum(TASK_PROJECT_FILTER_VALUES), z.uuid({ error: 'idProjetoInvalido' })])
+    .optional()
+    .default('Todas'),
+  orderBy: z.enum(TASK_ORDER_BY_VALUES).optional().default('Data de vencimento'),
+  orderDirection: z.enum(ORDER_DIRECTION_VALUES).optional().default('Crescente'),
+  searchTerm: z.string().optional(),
+});
+
+/**
+ * @type TaskListFiltersInput
+ * @description Task list query as sent by a client; every filter is optional
+ */
+export type TaskListFiltersInput = z.input<typeof taskListFiltersSchema>;
+
+/**
+ * @validation Task history query
+ */
+export const taskHistoryFiltersSchema = z.object({
+  filterTipo: z.enum(TASK_HISTORY_TIPO_FILTER_VALUES).optional().default('Todas'),
+  filterOrigem: z.enum(TASK_HISTORY_ORIGEM_FILTER_VALUES).optional().default('Todas'),
+});
+
+/**
+ * @type TaskHistoryFiltersInput
+ * @description Task history query as sent by a client
+ */
+export type TaskHistoryFiltersInput = z.input<typeof taskHistoryFiltersSchema>;
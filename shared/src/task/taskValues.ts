@@ -0,0 +1,145 @@
+/**
+ * @summary
+ * Values accepted by task fields and by the task list and history filters.
+ *
+ * @module task/taskValues
+ */
+
+/**
+ * @rule {be-task-importance}
+ * Importance levels of a task
+ */
+export const TASK_IMPORTANCE_VALUES = ['Alta', 'Média', 'Baixa'] as const;
+
+/**
+ * @type TaskImportanceValue
+ * @description Importance level of a task
+ */
+export type TaskImportanceValue = (typeof TASK_IMPORTANCE_VALUES)[number];
+
+/**
+ * @rule {be-task-list-filters}
+ * Status filter of the task list; plural forms, 'Vencidas' included
+ */
+export const TASK_STATUS_FILTER_VALUES = [
+  'Todas',
+  'Pendentes',
+  'Em andamento',
+  'Aguardando',
+  'Concluídas',
+  'Canceladas',
+  'Vencidas',
+] as const;
+
+/**
+ * @rule {be-task-list-filters}
+ * Importance filter of the task list
+ */
+export const TASK_IMPORTANCE_FILTER_VALUES = ['Todas', ...TASK_IMPORTANCE_VALUES] as const;
+
+/**
+ * @rule {be-task-list-filters}
+ * Due date period filter of the task list; 'Sonecas' lists snoozed tasks, hidden from every
+ * other period
+ */
+export const TASK_PERIOD_FILTER_VALUES = [
+  'Todas',
+  'Hoje',
+  'Esta semana',
+  'Este mês',
+  'Próximas ao vencimento',
+  'Vencidas',
+  'Sem data',
+  'Sonecas',
+] as const;
+
+/**
+ * @rule {be-task-list-filters}
+ * Start date filter of the task list
+ */
+export const TASK_START_FILTER_VALUES = ['Iniciadas', 'Não iniciadas', 'Todas'] as const;
+
+/**
+ * @rule {be-task-list-filters}
+ * Scheduled date filter of the task list
+ */
+export const TASK_SCHEDULED_FILTER_VALUES = [
+  'Todas',
+  'Hoje',
+  'Esta semana',
+  'Este mês',
+  'Sem agendamento',
+] as const;
+
+/**
+ * @rule {be-task-list-filters}
+ * How the tags filter matches: any of the tags or all of them
+ */
+export const TASK_TAGS_MODE_VALUES = ['Qualquer', 'Todas'] as const;
+
+/**
+ * @rule {be-task-list-filters}
+ * Project filter values other than a project identifier
+ */
+export const TASK_PROJECT_FILTER_VALUES = ['Todas', 'Sem projeto'] as const;
+
+/**
+ * @rule {be-task-list-filters}
+ * Sort fields of the task list
+ */
+export const TASK_ORDER_BY_VALUES = [
+  'Data de vencimento',
+  'Data de início',
+  'Data agendada',
+  'Importância',
+  'Data de criação',
+] as const;
+
+/**
+ * @rule {be-task-list-filters}
+ * Sort directions of the task list
+ */
+export const ORDER_DIRECTION_VALUES = ['Crescente', 'Decrescente'] as const;
+
+/**
+ * @rule {be-task-history}
+ * Kinds of change recorded in a task history
+ */
+export const TASK_HISTORY_TIPO_VALUES = [
+  'Criação',
+  'Edição',
+  'Alteração de Status',
+  'Reagendamento',
+  'Exclusão',
+  'Restauração',
+] as const;
+
+/**
+ * @type TaskHistoryTipoValue
+ * @description Kind of change recorded in a task history
+ */
+export type TaskHistoryTipoValue = (typeof TASK_HISTORY_TIPO_VALUES)[number];
+
+/**
+ * @rule {be-task-history}
+ * Origins of a change: made by the user or by the system
+ */
+export const TASK_HISTORY_ORIGEM_VALUES = ['Manual', 'Automática'] as const;
+
+/**
+ * @type TaskHistoryOrigemValue
+ * @description Origin of a change recorded in a task history
+ */
+export type TaskHistoryOrigemValue = (typeof TASK_HISTORY_ORIGEM_VALUES)[number];
+
+/**
+ * @rule {be-task-history}
+ * Change type filter of the task history
+ */
+export const TASK_HISTORY_TIPO_FILTER_VALUES = ['Todas', ...TASK_HISTORY_TIPO_VALUES] as const;
+
+/**
+ * @rule {be-task-history}
+ * Origin filter of the task history
+ */
+export const TASK_HISTORY_ORIGEM_FILTER_VALUES = ['Todas', ...TASK_HISTORY_ORIGEM_VALUES] as const;
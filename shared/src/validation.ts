@@ -0,0 +1,24 @@
+/**
+ * @summary
+ * Configuration of the zod instance the shared schemas are built with.
+ *
+ * @module validation
+ */
+
+import { z } from 'zod';
+
+/**
+ * @summary
+ * Sets the message of the issues that shared schemas report without a message of their own.
+ * A consumer running its own copy of zod sets it here too, so both instances answer alike.
+ *
+ * @function setIssueMessages
+ * @module validation
+ *
+ * @param {z.core.$ZodErrorMap} errorMap - Message, usually an error code, of each issue
+ *
+ * @returns {void}
+ */
+export function setIssueMessages(errorMap: z.core.$ZodErrorMap): void {
+  z.config({ customError: errorMap });
+}